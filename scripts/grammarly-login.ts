@@ -0,0 +1,123 @@
+#!/usr/bin/env npx tsx
+/**
+ * Log into Grammarly again for a browser provider whose saved login expired.
+ *
+ * Opens a session on the persisted login state (Browserbase context, Browser
+ * Use profile or local Chromium profile) at Grammarly's sign-in page, prints
+ * the live URL and waits while you log in. Closing the session saves the new
+ * cookies for the MCP server.
+ *
+ * Usage: pnpm grammarly-login [stagehand|browser-use|local]
+ */
+
+import * as readline from "node:readline";
+import { pathToFileURL } from "node:url";
+import type { BrowserProvider } from "../src/browser/provider";
+import type { BrowserProviderName } from "../src/config";
+
+const LOGIN_PROVIDERS = ["stagehand", "browser-use", "local"] as const;
+
+/**
+ * Provider named on the command line, or the configured default. Only
+ * providers with persisted login state can be logged into.
+ */
+function resolveLoginProvider(
+  argv: string[],
+  fallback: BrowserProviderName,
+): BrowserProviderName {
+  const name = argv[0] ?? fallback;
+  if (!(LOGIN_PROVIDERS as readonly string[]).includes(name)) {
+    throw new Error(
+      `Cannot log into provider "${name}"; expected one of: ${LOGIN_PROVIDERS.join(", ")}`,
+    );
+  }
+  return name as BrowserProviderName;
+}
+
+/** What to tell the user once the login session is open. */
+function loginInstructions(
+  providerName: string,
+  liveUrl: string | null,
+): string {
+  const where = liveUrl
+    ? `Open this URL and log into Grammarly:\n\n  ${liveUrl}\n`
+    : "Log into Grammarly in the browser window that just opened.\n";
+  return [
+    `Login session opened on the ${providerName} provider.`,
+    "",
+    where,
+    "Wait until the Grammarly editor or document list is shown, then come back here.",
+  ].join("\n");
+}
+
+/**
+ * Open a login session, wait for the user, and close the session so the
+ * provider persists the cookies. The session is closed even if waiting fails.
+ */
+async function runLogin(
+  provider: BrowserProvider,
+  waitForUser: () => Promise<void>,
+  write: (message: string) => void = console.log,
+): Promise<void> {
+  if (!provider.openLoginSession) {
+    throw new Error(
+      `The ${provider.providerName} provider has no saved login to refresh`,
+    );
+  }
+
+  const session = await provider.openLoginSession();
+  try {
+    write(loginInstructions(provider.providerName, session.liveUrl));
+    await waitForUser();
+  } finally {
+    write("Closing the session to save the login...");
+    await provider.closeSession(session.sessionId);
+  }
+  write("Done. The MCP server will use the new login on its next run.");
+}
+
+async function main(): Promise<void> {
+  // Imported lazily: config validates the environment on import.
+  const { config } = await import("../src/config");
+  const { createBrowserProvider } = await import("../src/browser/provider");
+
+  const providerName = resolveLoginProvider(
+    process.argv.slice(2),
+    config.browserProvider,
+  );
+  const provider = await createBrowserProvider({
+    ...config,
+    browserProvider: providerName,
+  });
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    await runLogin(
+      provider,
+      () =>
+        new Promise((resolve) => {
+          rl.question("Press Enter once you are logged in... ", () =>
+            resolve(),
+          );
+        }),
+    );
+  } finally {
+    rl.close();
+  }
+}
+
+const isMainModule =
+  typeof process.argv[1] === "string" &&
+  pathToFileURL(process.argv[1]).href === import.meta.url;
+
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Fatal error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
+
+export { LOGIN_PROVIDERS, loginInstructions, main, resolveLoginProvider, runLogin };
@@ -519,18 +519,27 @@ async function main(): Promise<void> {
   }
 
   // Validate required vars based on provider
-  const provider = envVars.BROWSER_PROVIDER ?? "stagehand";
-  if (provider === "stagehand") {
+  const providers = (envVars.BROWSER_PROVIDER ?? "stagehand")
+    .split(",")
+    .map((name) => name.trim());
+  if (providers.includes("stagehand")) {
     if (!envVars.BROWSERBASE_API_KEY || !envVars.BROWSERBASE_PROJECT_ID) {
       console.error("\nWarning: BROWSERBASE_API_KEY and/or BROWSERBASE_PROJECT_ID not set.");
       console.error("These are required when using BROWSER_PROVIDER=stagehand (default).\n");
     }
-  } else if (provider === "browser-use") {
+  }
+  if (providers.includes("browser-use")) {
     if (!envVars.BROWSER_USE_API_KEY || !envVars.BROWSER_USE_PROFILE_ID) {
       console.error("\nWarning: BROWSER_USE_API_KEY and/or BROWSER_USE_PROFILE_ID not set.");
       console.error("These are required when using BROWSER_PROVIDER=browser-use.\n");
     }
   }
+  if (providers.includes("local")) {
+    if (!envVars.LOCAL_USER_DATA_DIR) {
+      console.error("\nWarning: LOCAL_USER_DATA_DIR not set.");
+      console.error("This is required when using BROWSER_PROVIDER=local.\n");
+    }
+  }
 
   const rl = createReadlineInterface();
 
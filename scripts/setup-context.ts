@@ -0,0 +1,142 @@
+#!/usr/bin/env npx tsx
+/**
+ * Bootstrap a Browserbase context for the Stagehand provider.
+ *
+ * Creates a context, starts a persistent session on it and prints the debug
+ * URL so you can log into Grammarly by hand. Once you confirm the login, the
+ * session is released (which saves the cookies to the context) and
+ * BROWSERBASE_CONTEXT_ID is written to .env.
+ *
+ * Usage: pnpm setup-context
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as readline from "node:readline";
+import { pathToFileURL } from "node:url";
+import { GRAMMARLY_SIGN_IN_URL } from "../src/browser/provider";
+import type { BrowserbaseSessionManager } from "../src/browser/stagehand/sessionManager";
+
+const CONTEXT_ENV_KEY = "BROWSERBASE_CONTEXT_ID";
+
+type ContextSessionManager = Pick<
+  BrowserbaseSessionManager,
+  "createContext" | "getOrCreateSession" | "getDebugUrl" | "closeSession"
+>;
+
+/**
+ * Set `key` in .env content: an existing assignment is replaced in place,
+ * otherwise the line is appended. Other lines are kept as they are.
+ */
+function upsertEnvValue(content: string, key: string, value: string): string {
+  const pattern = new RegExp(`^[ \\t]*(?:export[ \\t]+)?${key}[ \\t]*=.*$`, "m");
+  if (pattern.test(content)) {
+    return content.replace(pattern, `${key}=${value}`);
+  }
+  const separator = content === "" || content.endsWith("\n") ? "" : "\n";
+  return `${content}${separator}${key}=${value}\n`;
+}
+
+/** Write `key=value` into the .env file at `envPath`, creating it if needed. */
+function writeEnvValue(envPath: string, key: string, value: string): void {
+  const content = fs.existsSync(envPath) ? fs.readFileSync(envPath, "utf-8") : "";
+  fs.writeFileSync(envPath, upsertEnvValue(content, key, value), "utf-8");
+}
+
+function isConfirmation(answer: string): boolean {
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+/**
+ * Create a context, open a persistent session on it and wait for the user to
+ * log in. The session is always released. Returns the context ID once the
+ * login is confirmed, or null when the user declines.
+ */
+async function bootstrapContext(
+  manager: ContextSessionManager,
+  confirm: (prompt: string) => Promise<string>,
+  write: (message: string) => void = console.log,
+): Promise<string | null> {
+  const contextId = await manager.createContext();
+  write(`Created Browserbase context ${contextId}.`);
+
+  const session = await manager.getOrCreateSession({ contextId, forceNew: true });
+  let confirmed = false;
+  try {
+    const debugUrl = await manager.getDebugUrl(session.sessionId);
+    write(
+      [
+        "",
+        "Open the live session and log into Grammarly:",
+        "",
+        `  ${debugUrl ?? "(debug URL unavailable; open the session in the Browserbase dashboard)"}`,
+        "",
+        `In the session, go to ${GRAMMARLY_SIGN_IN_URL} and log in until the Grammarly editor or document list is shown.`,
+        "",
+      ].join("\n"),
+    );
+    confirmed = isConfirmation(await confirm("Logged into Grammarly? [y/N] "));
+  } finally {
+    write("Releasing the session to save the login to the context...");
+    await manager.closeSession(session.sessionId);
+  }
+
+  if (!confirmed) {
+    write(`Login not confirmed; ${CONTEXT_ENV_KEY} was not written.`);
+    return null;
+  }
+  return contextId;
+}
+
+async function main(): Promise<void> {
+  // Imported lazily: config validates the environment on import.
+  const { config } = await import("../src/config");
+  const { BrowserbaseSessionManager } = await import(
+    "../src/browser/stagehand/sessionManager"
+  );
+
+  const manager = new BrowserbaseSessionManager(config);
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  let contextId: string | null;
+  try {
+    contextId = await bootstrapContext(
+      manager,
+      (prompt) =>
+        new Promise((resolve) => {
+          rl.question(prompt, resolve);
+        }),
+    );
+  } finally {
+    rl.close();
+  }
+
+  if (contextId) {
+    const envPath = path.resolve(process.cwd(), ".env");
+    writeEnvValue(envPath, CONTEXT_ENV_KEY, contextId);
+    console.log(`Wrote ${CONTEXT_ENV_KEY}=${contextId} to ${envPath}.`);
+  }
+}
+
+const isMainModule =
+  typeof process.argv[1] === "string" &&
+  pathToFileURL(process.argv[1]).href === import.meta.url;
+
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("Fatal error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
+
+export {
+  CONTEXT_ENV_KEY,
+  bootstrapContext,
+  isConfirmation,
+  main,
+  upsertEnvValue,
+  writeEnvValue,
+};
@@ -5,12 +5,13 @@ import {
   createGrammarlySession,
   runGrammarlyScoreTask,
 } from "./grammarlyTask";
-import type {
-  BrowserProvider,
-  GrammarlyScoreResult,
-  ScoreOptions,
-  SessionOptions,
-  SessionResult,
+import {
+  type BrowserProvider,
+  GRAMMARLY_SIGN_IN_URL,
+  type GrammarlyScoreResult,
+  type ScoreOptions,
+  type SessionOptions,
+  type SessionResult,
 } from "./provider";
 
 /**
@@ -75,6 +76,7 @@ export class BrowserUseProvider implements BrowserProvider {
         maxSteps: options?.maxSteps,
         iteration: options?.iteration,
         mode: options?.mode,
+        signal: options?.signal,
       },
       liveUrl,
     );
@@ -83,7 +85,28 @@ export class BrowserUseProvider implements BrowserProvider {
       aiDetectionPercent: scores.aiDetectionPercent,
       plagiarismPercent: scores.plagiarismPercent,
       notes: scores.notes,
+      aiFlaggedSentences: scores.aiFlaggedSentences,
+      plagiarismMatches: scores.plagiarismMatches,
       liveUrl: scores.liveUrl,
+      usage: scores.steps === undefined ? undefined : { steps: scores.steps },
+    };
+  }
+
+  /**
+   * Open a session on BROWSER_USE_PROFILE_ID at the sign-in page; the
+   * profile keeps the new cookies once the session is closed.
+   */
+  async openLoginSession(): Promise<SessionResult> {
+    log("debug", "BrowserUseProvider: Opening login session");
+
+    const result = await createGrammarlySession(this.getClient(), this.config, {
+      startUrl: GRAMMARLY_SIGN_IN_URL,
+    });
+    this.activeSessions.set(result.sessionId, result.liveUrl);
+
+    return {
+      sessionId: result.sessionId,
+      liveUrl: result.liveUrl,
     };
   }
 
@@ -4,6 +4,8 @@ import { BrowserUseClient } from "browser-use-sdk";
 import { z } from "zod";
 import type { AppConfig } from "../config";
 import { log } from "../config";
+import { GrammarlyAuthError } from "../errors";
+import { GrammarlyHighlightsSchema } from "./highlights";
 
 /** Supported LLMs from Browser Use Cloud SDK v2 */
 export const BrowserUseLlmSchema = z.enum([
@@ -36,6 +38,8 @@ export type BrowserUseLlm = z.infer<typeof BrowserUseLlmSchema>;
 export interface GrammarlySessionOptions {
   /** ISO 3166-1 alpha-2 country code for proxy (e.g., 'us', 'gb'). 240+ countries supported. */
   proxyCountryCode?: string | null;
+  /** Page the session opens on. Defaults to the Grammarly app. */
+  startUrl?: string;
 }
 
 /** Result from creating a Grammarly session */
@@ -58,6 +62,8 @@ export interface GrammarlyTaskOptions {
   iteration?: number;
   /** Mode for metadata tracking (score_only, analyze, optimize). */
   mode?: string;
+  /** Stops polling and the remote task when aborted. */
+  signal?: AbortSignal;
 }
 
 const MAX_USER_TEXT_LENGTH = 8000;
@@ -116,6 +122,13 @@ export const GrammarlyScoresSchema = z.object({
     .describe(
       "Free-text notes about what was seen in the UI, including any warnings.",
     ),
+  loggedIn: z
+    .boolean()
+    .optional()
+    .describe(
+      "False when Grammarly showed a sign-in or sign-up page instead of the app; true otherwise.",
+    ),
+  ...GrammarlyHighlightsSchema.shape,
 });
 
 export type GrammarlyScores = z.infer<typeof GrammarlyScoresSchema>;
@@ -124,6 +137,8 @@ export type GrammarlyScores = z.infer<typeof GrammarlyScoresSchema>;
 export interface GrammarlyScoreTaskResult extends GrammarlyScores {
   /** Real-time browser preview URL (captured from session) */
   liveUrl?: string | null;
+  /** Steps the task took (Browser Use bills per step), when reported. */
+  steps?: number;
 }
 
 type CreateTaskRequestWithSchema<T extends z.ZodTypeAny> = Omit<
@@ -144,7 +159,12 @@ function buildGrammarlyTaskPrompt(text: string): string {
     `If you see the placeholder "${REMOVED_DIRECTIVE_PLACEHOLDER}", it marks removed prompt-like directives.`,
     `If you see the placeholder "${TRUNCATION_PLACEHOLDER}", the text was truncated for safety.`,
     "",
-    "You are controlling a real browser that is already logged into a Grammarly account.",
+    "You are controlling a real browser that should already be logged into a Grammarly account.",
+    "",
+    "Login check (do this first):",
+    "- If Grammarly shows a sign-in or sign-up page instead of the app, do not try to log in or create an account.",
+    "  Stop immediately and return loggedIn false, both percentages null, and what you saw in notes.",
+    "- Otherwise set loggedIn to true and continue.",
     "",
     "Goal:",
     "1. Open the Grammarly docs writing surface at https://app.grammarly.com (or, if you are already on https://app.grammarly.com with a document open, you may use that).",
@@ -155,7 +175,12 @@ function buildGrammarlyTaskPrompt(text: string): string {
     "   - The overall AI-generated percentage (likelihood text was written with AI).",
     "   - The overall plagiarism / originality percentage.",
     "5. Wait for all results to fully load before reading the numbers.",
-    "6. Return the results strictly in the JSON schema you were given.",
+    "6. Record what the checks highlight in the document:",
+    "   - aiFlaggedSentences: every sentence the AI Detector highlights as likely AI-written.",
+    "   - plagiarismMatches: every passage the Plagiarism Checker matched to a source, with the source URL",
+    "     it shows (null if no URL is shown).",
+    "   Copy sentences and passages exactly as they appear in the document. Use empty lists when nothing is highlighted.",
+    "7. Return the results strictly in the JSON schema you were given.",
     "",
     "Important instructions:",
     "- Do not rewrite or paraphrase the text in the document.",
@@ -200,7 +225,7 @@ export async function createGrammarlySession(
     const session = await client.sessions.createSession({
       profileId: appConfig.browserUseProfileId,
       // Pre-navigate to Grammarly for faster task execution
-      startUrl: "https://app.grammarly.com",
+      startUrl: options?.startUrl ?? "https://app.grammarly.com",
       // Optional proxy for geo-routing
       proxyCountryCode: options?.proxyCountryCode as
         | BrowserUse.ProxyCountryCode
@@ -239,6 +264,25 @@ const DEFAULT_MAX_STEPS = 25;
 /** Allowed domains for Grammarly tasks (security hardening) */
 const GRAMMARLY_ALLOWED_DOMAINS = ["grammarly.com", "app.grammarly.com"];
 
+/**
+ * Stop a cancelled task so it does not keep running (and billing steps)
+ * after polling has been abandoned. Best effort: failures are only logged.
+ */
+async function stopGrammarlyScoreTask(
+  client: BrowserUseClient,
+  taskId: string,
+): Promise<void> {
+  try {
+    await client.tasks.updateTask({ task_id: taskId, action: "stop" });
+    log("info", "Stopped cancelled Browser Use task", { taskId });
+  } catch (error) {
+    log("warn", "Failed to stop cancelled Browser Use task", {
+      taskId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /** Execute Browser Use task to score text via Grammarly's AI Detector. */
 export async function runGrammarlyScoreTask(
   client: BrowserUseClient,
@@ -261,6 +305,8 @@ export async function runGrammarlyScoreTask(
     maxSteps,
   });
 
+  let taskId: string | undefined;
+
   try {
     const createTaskRequest: CreateTaskRequestWithSchema<
       typeof GrammarlyScoresSchema
@@ -292,8 +338,12 @@ export async function runGrammarlyScoreTask(
     const task = await client.tasks.createTask(createTaskRequest, {
       timeoutInSeconds: defaultTimeoutMs / 1000,
     });
+    taskId = task.id;
 
-    const rawResult: unknown = await task.complete();
+    const rawResult: unknown = await task.complete(undefined, {
+      signal: options?.signal,
+    });
+    options?.signal?.throwIfAborted();
 
     const hasParsed = (value: unknown): value is { parsed: unknown } =>
       typeof value === "object" &&
@@ -321,9 +371,18 @@ export async function runGrammarlyScoreTask(
       throw new Error("Browser Use task returned invalid score structure");
     }
 
+    if (parsedScores.data.loggedIn === false) {
+      throw new GrammarlyAuthError(
+        `Browser Use found the sign-in page (${parsedScores.data.notes})`,
+      );
+    }
+
+    // The finished TaskView lists every step the agent took.
+    const { steps } = result as { steps?: unknown };
     const scores: GrammarlyScoreTaskResult = {
       ...parsedScores.data,
       liveUrl: liveUrl ?? null,
+      steps: Array.isArray(steps) ? steps.length : undefined,
     };
 
     log("info", "Received Grammarly scores from Browser Use", {
@@ -334,6 +393,13 @@ export async function runGrammarlyScoreTask(
 
     return scores;
   } catch (error: unknown) {
+    if (options?.signal?.aborted) {
+      if (taskId) {
+        await stopGrammarlyScoreTask(client, taskId);
+      }
+      throw error;
+    }
+
     if (error instanceof Error) {
       log("error", "Browser Use Grammarly scoring task failed", {
         message: error.message,
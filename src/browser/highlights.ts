@@ -0,0 +1,87 @@
+/**
+ * What Grammarly marks in the document besides its overall percentages: the
+ * sentences its AI Detector highlights and the passages its Plagiarism
+ * Checker matched to sources. Shared by the Stagehand extraction and the
+ * Browser Use task schema.
+ */
+
+import { z } from "zod";
+
+export const PlagiarismMatchSchema = z.object({
+  passage: z
+    .string()
+    .describe("The matched passage, copied exactly from the document text."),
+  sourceUrl: z
+    .string()
+    .nullable()
+    .describe(
+      "URL of the source Grammarly matched the passage to, or null if no URL is shown.",
+    ),
+});
+
+export type PlagiarismMatch = z.infer<typeof PlagiarismMatchSchema>;
+
+export const GrammarlyHighlightsSchema = z.object({
+  aiFlaggedSentences: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Sentences Grammarly's AI Detector highlights as likely AI-written, each copied exactly from the document text. Empty if none are highlighted.",
+    ),
+  plagiarismMatches: z
+    .array(PlagiarismMatchSchema)
+    .optional()
+    .describe(
+      "Passages Grammarly's Plagiarism Checker matched to existing sources, with the source URL. Empty if none were found.",
+    ),
+});
+
+export type GrammarlyHighlights = z.infer<typeof GrammarlyHighlightsSchema>;
+
+/** Most flagged sentences, and most plagiarism matches, kept per document. */
+export const MAX_HIGHLIGHTS = 20;
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Keep the highlights that actually occur in the scored text, trimmed,
+ * without duplicates and at most MAX_HIGHLIGHTS of each kind. The extracting
+ * LLM sometimes paraphrases a sentence; a paraphrase cannot be located in
+ * the text, so it would only mislead the rewrite.
+ */
+export function matchHighlights(
+  text: string,
+  highlights: GrammarlyHighlights,
+): Required<GrammarlyHighlights> {
+  const haystack = normalizeWhitespace(text);
+  const seen = new Set<string>();
+  const keep = (passage: string): string | null => {
+    const normalized = normalizeWhitespace(passage);
+    if (!normalized || seen.has(normalized) || !haystack.includes(normalized)) {
+      return null;
+    }
+    seen.add(normalized);
+    return normalized;
+  };
+
+  const aiFlaggedSentences: string[] = [];
+  for (const sentence of highlights.aiFlaggedSentences ?? []) {
+    const kept = keep(sentence);
+    if (kept && aiFlaggedSentences.length < MAX_HIGHLIGHTS) {
+      aiFlaggedSentences.push(kept);
+    }
+  }
+
+  seen.clear();
+  const plagiarismMatches: PlagiarismMatch[] = [];
+  for (const match of highlights.plagiarismMatches ?? []) {
+    const kept = keep(match.passage);
+    if (kept && plagiarismMatches.length < MAX_HIGHLIGHTS) {
+      plagiarismMatches.push({ passage: kept, sourceUrl: match.sourceUrl });
+    }
+  }
+
+  return { aiFlaggedSentences, plagiarismMatches };
+}
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import { z } from "zod";
+import type { AppConfig } from "../config";
+import { log } from "../config";
+import { sleep } from "../sleep";
+import { estimateAiScore } from "../text/heuristics";
+import { protectSpans } from "../text/protectedSpans";
+import type { GrammarlyScores } from "./grammarlyTask";
+import { GrammarlyHighlightsSchema } from "./highlights";
+import type {
+  BrowserProvider,
+  GrammarlyScoreResult,
+  ScoreOptions,
+  SessionOptions,
+  SessionResult,
+} from "./provider";
+
+/**
+ * One canned Grammarly result. `error` makes scoring that text fail, which
+ * lets tests exercise retry and error paths deterministically.
+ */
+const MockFixtureSchema = z.object({
+  aiDetectionPercent: z.number().min(0).max(100).nullable(),
+  plagiarismPercent: z.number().min(0).max(100).nullable(),
+  notes: z.string().optional(),
+  error: z.string().optional(),
+  ...GrammarlyHighlightsSchema.shape,
+});
+
+/** Fixtures file: an object keyed by fixtureKey(text). */
+const MockFixturesSchema = z.record(z.string(), MockFixtureSchema);
+
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
+/** Fixture key for a text: SHA-256 hex of the trimmed text. */
+export function fixtureKey(text: string): string {
+  return createHash("sha256").update(text.trim()).digest("hex");
+}
+
+/**
+ * Offline heuristic scores: AI detection from the local AI-likeness
+ * estimate, plagiarism from the share of the text inside quotation marks.
+ */
+export function heuristicScores(text: string): GrammarlyScores {
+  const quotedLength = protectSpans(text)
+    .spans.filter((span) => span.kind === "quote")
+    .reduce((sum, span) => sum + span.text.length, 0);
+  const plagiarismPercent =
+    text.length > 0 ? Math.round((quotedLength / text.length) * 100) : 0;
+
+  return {
+    aiDetectionPercent: estimateAiScore(text),
+    plagiarismPercent,
+    notes: "Mock provider: heuristic scores (no Grammarly call was made).",
+  };
+}
+
+/**
+ * Deterministic stand-in for Math.random() when simulating failures: a
+ * value in [0, 1) from the text's fixture key and how many times this
+ * provider has scored it, so a failing run replays identically.
+ */
+function failureDraw(key: string, attempt: number): number {
+  const digest = createHash("sha256").update(`${key}:${attempt}`).digest();
+  return digest.readUInt32BE(0) / 0x1_0000_0000;
+}
+
+function loadFixtures(fixturesPath: string): Record<string, MockFixture> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(fixturesPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read mock fixtures file ${fixturesPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const parsed = MockFixturesSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid mock fixtures file ${fixturesPath}: ${parsed.error.message}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Offline provider for local development and CI. Scores come from a
+ * fixtures file keyed by text hash, falling back to a local heuristic;
+ * MOCK_LATENCY_MS and MOCK_FAILURE_RATE simulate a slow or flaky backend.
+ * Which calls fail depends only on the text and how often it was scored,
+ * so the same run fails the same way every time.
+ */
+export class MockProvider implements BrowserProvider {
+  readonly providerName = "mock" as const;
+  private readonly config: AppConfig;
+  private readonly fixtures: Record<string, MockFixture>;
+  private readonly activeSessions = new Set<string>();
+  private readonly scoringAttempts = new Map<string, number>();
+  private sessionCounter = 0;
+
+  constructor(config: AppConfig) {
+    this.config = config;
+    this.fixtures = config.mockFixturesPath
+      ? loadFixtures(config.mockFixturesPath)
+      : {};
+  }
+
+  async createSession(options?: SessionOptions): Promise<SessionResult> {
+    this.sessionCounter += 1;
+    const sessionId = `mock-session-${this.sessionCounter}`;
+    this.activeSessions.add(sessionId);
+
+    log("debug", "MockProvider: Created session", { sessionId, options });
+
+    return { sessionId, liveUrl: null };
+  }
+
+  async scoreText(
+    sessionId: string,
+    text: string,
+    options?: ScoreOptions,
+  ): Promise<GrammarlyScoreResult> {
+    if (!this.activeSessions.has(sessionId)) {
+      throw new Error(`Mock session ${sessionId} not found`);
+    }
+
+    log("debug", "MockProvider: Scoring text", {
+      sessionId,
+      textLength: text.length,
+      options,
+    });
+
+    if (this.config.mockLatencyMs > 0) {
+      await sleep(this.config.mockLatencyMs, options?.signal);
+    }
+
+    options?.signal?.throwIfAborted();
+
+    const key = fixtureKey(text);
+    const attempt = this.scoringAttempts.get(key) ?? 0;
+    this.scoringAttempts.set(key, attempt + 1);
+    if (failureDraw(key, attempt) < this.config.mockFailureRate) {
+      throw new Error("Mock provider: simulated scoring failure");
+    }
+
+    const fixture = this.fixtures[key];
+    if (!fixture) {
+      return { ...heuristicScores(text), liveUrl: null };
+    }
+
+    if (fixture.error) {
+      throw new Error(`Mock provider: ${fixture.error}`);
+    }
+
+    return {
+      aiDetectionPercent: fixture.aiDetectionPercent,
+      plagiarismPercent: fixture.plagiarismPercent,
+      notes: fixture.notes ?? `Mock provider: fixture ${key.slice(0, 12)}.`,
+      aiFlaggedSentences: fixture.aiFlaggedSentences,
+      plagiarismMatches: fixture.plagiarismMatches,
+      liveUrl: null,
+    };
+  }
+
+  async closeSession(sessionId: string): Promise<void> {
+    log("debug", "MockProvider: Closing session", { sessionId });
+    this.activeSessions.delete(sessionId);
+  }
+}
@@ -1,6 +1,9 @@
-import type { AppConfig } from "../config";
+import type { AppConfig, BrowserProviderName } from "../config";
 import type { GrammarlyScores } from "./grammarlyTask";
 
+/** Where a human logs into Grammarly to refresh an expired login. */
+export const GRAMMARLY_SIGN_IN_URL = "https://www.grammarly.com/signin";
+
 /**
  * Options for creating a browser session.
  */
@@ -25,6 +28,21 @@ export interface ScoreOptions {
   iteration?: number;
   mode?: string;
   flashMode?: boolean;
+  /** Aborts the scoring run at the provider's next safe point. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Billable automation work behind one scoring pass, as far as the provider
+ * can report it.
+ */
+export interface ScoringUsage {
+  /** Browser Use task steps. */
+  steps?: number;
+  /** Model the Stagehand LLM used for act/observe/extract. */
+  llmModel?: string;
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 /**
@@ -32,14 +50,16 @@ export interface ScoreOptions {
  */
 export interface GrammarlyScoreResult extends GrammarlyScores {
   liveUrl?: string | null;
+  usage?: ScoringUsage;
 }
 
 /**
  * Abstract interface for browser automation providers.
- * Supports both Stagehand (Browserbase) and Browser Use Cloud.
+ * Supports Stagehand (Browserbase), Browser Use Cloud, a local Chromium and
+ * an offline mock.
  */
 export interface BrowserProvider {
-  readonly providerName: "stagehand" | "browser-use";
+  readonly providerName: BrowserProviderName;
 
   /**
    * Create a new browser session for Grammarly automation.
@@ -59,6 +79,13 @@ export interface BrowserProvider {
    * Close and cleanup a browser session.
    */
   closeSession(sessionId: string): Promise<void>;
+
+  /**
+   * Open a session on the persisted login state, showing Grammarly's sign-in
+   * page, for a human to log in again. Closing it with closeSession persists
+   * the new cookies. Providers without persisted login state omit this.
+   */
+  openLoginSession?(): Promise<SessionResult>;
 }
 
 /**
@@ -76,6 +103,16 @@ export async function createBrowserProvider(
       const { BrowserUseProvider } = await import("./browserUseProvider");
       return new BrowserUseProvider(config);
     }
+    case "local": {
+      const { LocalStagehandProvider } = await import(
+        "./stagehand/localProvider"
+      );
+      return new LocalStagehandProvider(config);
+    }
+    case "mock": {
+      const { MockProvider } = await import("./mockProvider");
+      return new MockProvider(config);
+    }
     default: {
       // Exhaustive check - TypeScript will error if a case is missing
       const exhaustiveCheck: never = config.browserProvider;
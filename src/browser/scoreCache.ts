@@ -0,0 +1,167 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import { log } from "../config";
+import type { ChunkScore } from "../text/chunking";
+import {
+  type GrammarlyHighlights,
+  GrammarlyHighlightsSchema,
+} from "./highlights";
+
+/** Document scores as stored in the cache (everything but the live URL). */
+export interface CachedScores extends GrammarlyHighlights {
+  aiDetectionPercent: number | null;
+  plagiarismPercent: number | null;
+  notes: string;
+  provider: string;
+  chunked: boolean;
+  truncated: boolean;
+  chunkScores: ChunkScore[];
+}
+
+/** A cache hit: the stored scores plus when they were produced. */
+export interface ScoreCacheHit extends CachedScores {
+  cachedAt: string;
+}
+
+const ScoreCacheEntrySchema = z.object({
+  aiDetectionPercent: z.number().nullable(),
+  plagiarismPercent: z.number().nullable(),
+  notes: z.string(),
+  provider: z.string(),
+  chunked: z.boolean(),
+  truncated: z.boolean(),
+  chunkScores: z.array(
+    z.object({
+      chunkIndex: z.number().int(),
+      charCount: z.number().int(),
+      aiDetectionPercent: z.number().nullable(),
+      plagiarismPercent: z.number().nullable(),
+    }),
+  ),
+  cachedAt: z.string(),
+  // Entries written before highlights were extracted have none.
+  ...GrammarlyHighlightsSchema.shape,
+});
+
+/**
+ * Normalize text for cache lookups: Unicode NFC, LF line endings, runs of
+ * spaces/tabs collapsed, trailing line whitespace and outer whitespace
+ * dropped. Grammarly scores the words, not the exact whitespace.
+ */
+export function normalizeForCache(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ \n/g, "\n")
+    .trim();
+}
+
+/** Cache key: SHA-256 hex of the provider name and normalized text. */
+export function scoreCacheKey(text: string, provider: string): string {
+  return createHash("sha256")
+    .update(`${provider}\n${normalizeForCache(text)}`)
+    .digest("hex");
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (
+    error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+/**
+ * File-backed cache of Grammarly document scores, one JSON file per entry
+ * under `dir`. Entries expire after `ttlMs`. The cache is best effort: read
+ * and write failures are logged and treated as misses, never thrown.
+ */
+export class ScoreCache {
+  private readonly dir: string;
+  private readonly ttlMs: number;
+
+  constructor(dir: string, ttlMs: number) {
+    this.dir = dir;
+    this.ttlMs = ttlMs;
+  }
+
+  /** Fresh cached scores for this text and provider, or null. */
+  async get(text: string, provider: string): Promise<ScoreCacheHit | null> {
+    const filePath = this.entryPath(text, provider);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        log("warn", "Failed to read score cache entry", { filePath, error });
+      }
+      return null;
+    }
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(raw);
+    } catch {
+      entry = null;
+    }
+    const parsed = ScoreCacheEntrySchema.safeParse(entry);
+    if (!parsed.success) {
+      log("warn", "Discarding invalid score cache entry", { filePath });
+      await this.remove(filePath);
+      return null;
+    }
+
+    const age = Date.now() - Date.parse(parsed.data.cachedAt);
+    if (!(age >= 0 && age < this.ttlMs)) {
+      log("debug", "Score cache entry expired", { filePath, ageMs: age });
+      await this.remove(filePath);
+      return null;
+    }
+
+    log("debug", "Score cache hit", { provider, ageMs: age });
+    return parsed.data;
+  }
+
+  /** Store scores for this text under the provider that produced them. */
+  async set(text: string, scores: CachedScores): Promise<void> {
+    const filePath = this.entryPath(text, scores.provider);
+    const entry: ScoreCacheHit = {
+      aiDetectionPercent: scores.aiDetectionPercent,
+      plagiarismPercent: scores.plagiarismPercent,
+      notes: scores.notes,
+      provider: scores.provider,
+      chunked: scores.chunked,
+      truncated: scores.truncated,
+      chunkScores: scores.chunkScores,
+      aiFlaggedSentences: scores.aiFlaggedSentences,
+      plagiarismMatches: scores.plagiarismMatches,
+      cachedAt: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      // Write then rename so a concurrent reader never sees a partial file.
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry), "utf-8");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      log("warn", "Failed to write score cache entry", { filePath, error });
+    }
+  }
+
+  private entryPath(text: string, provider: string): string {
+    return path.join(this.dir, `${scoreCacheKey(text, provider)}.json`);
+  }
+
+  private async remove(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        log("warn", "Failed to remove score cache entry", { filePath, error });
+      }
+    }
+  }
+}
@@ -1,37 +1,92 @@
 import type { Stagehand } from "@browserbasehq/stagehand";
 import { log } from "../../config";
+import { GrammarlyAuthError } from "../../errors";
+import { sleep } from "../../sleep";
+import type { GrammarlyHighlights } from "../highlights";
+import { GRAMMARLY_SIGN_IN_URL } from "../provider";
 import { GrammarlyExtractSchema } from "./schemas";
 
 const MAX_TEXT_LENGTH = 8000;
 
+/** Pages Grammarly redirects a logged-out browser to. */
+const SIGN_IN_URL_PATTERN = /\/(?:signin|sign-in|login|signup)(?:[/?#]|$)/i;
+
 export interface GrammarlyTaskOptions {
   maxSteps?: number;
   iteration?: number;
   mode?: string;
+  /** Checked between automation steps; aborting stops at the next step. */
+  signal?: AbortSignal;
 }
 
-export interface GrammarlyTaskResult {
+export interface GrammarlyTaskResult extends GrammarlyHighlights {
   aiDetectionPercent: number | null;
   plagiarismPercent: number | null;
   overallScore?: number | null;
   notes: string;
+  /** LLM tokens Stagehand used for this task, when it reports metrics. */
+  tokenUsage?: { inputTokens: number; outputTokens: number };
 }
 
 /**
- * Sleep utility
+ * Throw when the page is Grammarly's sign-in page rather than the app.
+ * @internal Exported for testing
  */
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function assertGrammarlyLoggedIn(url: string): void {
+  if (SIGN_IN_URL_PATTERN.test(url)) {
+    throw new GrammarlyAuthError(`redirected to the sign-in page (${url})`);
+  }
+}
+
+/** Cumulative LLM token counts of a Stagehand instance, or null if unknown. */
+async function readTokenTotals(
+  stagehand: Stagehand,
+): Promise<{ inputTokens: number; outputTokens: number } | null> {
+  try {
+    const metrics = await stagehand.metrics;
+    if (!metrics) {
+      return null;
+    }
+    return {
+      inputTokens: metrics.totalPromptTokens,
+      outputTokens: metrics.totalCompletionTokens,
+    };
+  } catch (error) {
+    log("debug", "Stagehand metrics unavailable", { error });
+    return null;
+  }
 }
 
 /**
  * Run Grammarly scoring task using Stagehand's deterministic automation.
  * Uses the observe()->act()->extract() pattern for reliable, fast execution.
+ * Token usage is the difference in the instance's metrics, since a pooled
+ * instance carries the totals of earlier tasks.
  */
 export async function runStagehandGrammarlyTask(
   stagehand: Stagehand,
   text: string,
   options?: GrammarlyTaskOptions,
+): Promise<GrammarlyTaskResult> {
+  const before = await readTokenTotals(stagehand);
+  const result = await scoreInGrammarly(stagehand, text, options);
+  const after = await readTokenTotals(stagehand);
+  if (!before || !after) {
+    return result;
+  }
+  return {
+    ...result,
+    tokenUsage: {
+      inputTokens: after.inputTokens - before.inputTokens,
+      outputTokens: after.outputTokens - before.outputTokens,
+    },
+  };
+}
+
+async function scoreInGrammarly(
+  stagehand: Stagehand,
+  text: string,
+  options?: GrammarlyTaskOptions,
 ): Promise<GrammarlyTaskResult> {
   // Access page via context API (V3)
   const page = stagehand.context.pages()[0];
@@ -60,6 +115,12 @@ export async function runStagehandGrammarlyTask(
       await page.waitForLoadState("domcontentloaded");
     }
 
+    // Step 1b: Check the session is logged in. Expired context or profile
+    // cookies land on the sign-in page, where every later step would fail.
+    assertGrammarlyLoggedIn(page.url());
+
+    options?.signal?.throwIfAborted();
+
     // Step 2: Create a new document using observe -> act pattern
     log("debug", "Looking for new document button");
     const newDocObservation = await stagehand.observe(
@@ -85,6 +146,8 @@ export async function runStagehandGrammarlyTask(
     await page.waitForLoadState("domcontentloaded");
     await sleep(1500); // Allow editor to initialize
 
+    options?.signal?.throwIfAborted();
+
     // Step 4: Clear any existing content and paste new text
     log("debug", "Pasting text into editor");
 
@@ -112,6 +175,8 @@ export async function runStagehandGrammarlyTask(
     // Brief delay for Grammarly to process the text
     await sleep(1000);
 
+    options?.signal?.throwIfAborted();
+
     // Step 5: Trigger AI Detection check
     log("debug", "Looking for AI detection button");
 
@@ -141,6 +206,8 @@ export async function runStagehandGrammarlyTask(
     });
     await sleep(4000); // Allow time for AI detection scoring
 
+    options?.signal?.throwIfAborted();
+
     // Step 7: Extract scores using Stagehand's extract with Zod schema
     // V3 API: stagehand.extract("instruction", schema)
     log("debug", "Extracting Grammarly scores");
@@ -155,15 +222,27 @@ export async function runStagehandGrammarlyTask(
            Note: If shown as "originality" (e.g., "95% original"), convert to plagiarism (100 - originality).
         3. Overall Score: The overall Grammarly performance score if visible (optional).
         4. Notes: Any relevant observations about what you see, including if features are unavailable.
+        5. Logged In: false if a Grammarly sign-in or sign-up page or prompt is shown instead of the document editor, otherwise true.
+        6. AI Flagged Sentences: every sentence in the document that the AI detection highlights as likely AI-written.
+        7. Plagiarism Matches: every passage the plagiarism check matched to a source, with the source URL shown for it (null if none is shown).
+           Copy sentences and passages exactly as they appear in the document. Use empty lists when nothing is highlighted.
 
         If a percentage is not visible or the feature is not available, set it to null.`,
       GrammarlyExtractSchema,
     );
 
+    if (extractResult.loggedIn === false) {
+      throw new GrammarlyAuthError(
+        `a sign-in prompt is shown instead of the editor (${extractResult.notes})`,
+      );
+    }
+
     log("info", "Extracted Grammarly scores", {
       aiDetectionPercent: extractResult.aiDetectionPercent,
       plagiarismPercent: extractResult.plagiarismPercent,
       overallScore: extractResult.overallScore,
+      aiFlaggedSentences: extractResult.aiFlaggedSentences?.length,
+      plagiarismMatches: extractResult.plagiarismMatches?.length,
     });
 
     return {
@@ -171,8 +250,14 @@ export async function runStagehandGrammarlyTask(
       plagiarismPercent: extractResult.plagiarismPercent,
       overallScore: extractResult.overallScore,
       notes: extractResult.notes,
+      aiFlaggedSentences: extractResult.aiFlaggedSentences,
+      plagiarismMatches: extractResult.plagiarismMatches,
     };
   } catch (error) {
+    if (options?.signal?.aborted || error instanceof GrammarlyAuthError) {
+      throw error;
+    }
+
     log("error", "Stagehand Grammarly task failed", { error });
 
     // Try to extract whatever we can see
@@ -181,19 +266,38 @@ export async function runStagehandGrammarlyTask(
         "Extract any visible AI detection or plagiarism scores from the current page. If none are visible, explain what you see.",
         GrammarlyExtractSchema,
       );
+      if (fallbackResult.loggedIn === false) {
+        throw new GrammarlyAuthError(
+          `a sign-in prompt is shown instead of the editor (${fallbackResult.notes})`,
+        );
+      }
 
       return {
         aiDetectionPercent: fallbackResult.aiDetectionPercent,
         plagiarismPercent: fallbackResult.plagiarismPercent,
         overallScore: fallbackResult.overallScore,
         notes: `Error during task, partial extraction: ${fallbackResult.notes}`,
+        aiFlaggedSentences: fallbackResult.aiFlaggedSentences,
+        plagiarismMatches: fallbackResult.plagiarismMatches,
       };
-    } catch {
-      throw error;
+    } catch (fallbackError) {
+      throw fallbackError instanceof GrammarlyAuthError ? fallbackError : error;
     }
   }
 }
 
+/**
+ * Show Grammarly's sign-in page so a human can log in through the live view
+ * or the local browser window.
+ */
+export async function openGrammarlySignIn(stagehand: Stagehand): Promise<void> {
+  const page = stagehand.context.pages()[0];
+  if (!page) {
+    throw new Error("No page available in Stagehand context");
+  }
+  await page.goto(GRAMMARLY_SIGN_IN_URL, { waitUntil: "domcontentloaded" });
+}
+
 /**
  * Attempt to clean up a Grammarly document after scoring.
  * This helps keep the Grammarly workspace clean.
@@ -12,27 +12,54 @@ import type {
   SessionOptions,
   SessionResult,
 } from "../provider";
-import { runStagehandGrammarlyTask } from "./grammarlyTask";
+import {
+  openGrammarlySignIn,
+  runStagehandGrammarlyTask,
+} from "./grammarlyTask";
 import { BrowserbaseSessionManager } from "./sessionManager";
+import {
+  getSharedSessionPool,
+  type PooledSession,
+  type StagehandSessionPool,
+} from "./sessionPool";
 
 /**
  * Stagehand + Browserbase provider implementation.
  * Primary provider for Grammarly automation with deterministic act/extract/observe.
+ * With STAGEHAND_POOL_SIZE set, sessions come from and go back to the
+ * process-wide warm session pool instead of being created and released.
  */
 export class StagehandProvider implements BrowserProvider {
   readonly providerName = "stagehand" as const;
   private readonly config: AppConfig;
   private readonly sessionManager: BrowserbaseSessionManager;
-  private stagehandInstances: Map<string, Stagehand> = new Map();
+  private readonly pool: StagehandSessionPool | null;
+  private sessions: Map<string, PooledSession> = new Map();
+  /**
+   * Sessions to release rather than pool on close: the last scoring failed,
+   * or the session exists to save a login.
+   */
+  private releaseOnClose: Set<string> = new Set();
 
   constructor(config: AppConfig) {
     this.config = config;
     this.sessionManager = new BrowserbaseSessionManager(config);
+    this.pool = getSharedSessionPool(config, this.sessionManager);
   }
 
   async createSession(options?: SessionOptions): Promise<SessionResult> {
     log("debug", "StagehandProvider: Creating session", options);
 
+    const pooled = await this.pool?.checkout();
+    if (pooled) {
+      this.sessions.set(pooled.sessionId, pooled);
+      return {
+        sessionId: pooled.sessionId,
+        liveUrl: pooled.liveUrl,
+        contextId: pooled.contextId,
+      };
+    }
+
     // Get or create a Browserbase session
     const sessionInfo = await this.sessionManager.getOrCreateSession({
       contextId: this.config.browserbaseContextId ?? undefined,
@@ -42,7 +69,6 @@ export class StagehandProvider implements BrowserProvider {
     try {
       // Create Stagehand instance connected to this session
       stagehand = await this.createStagehandInstance(sessionInfo.sessionId);
-      this.stagehandInstances.set(sessionInfo.sessionId, stagehand);
     } catch (error) {
       log("error", "StagehandProvider: Failed to initialize Stagehand", {
         sessionId: sessionInfo.sessionId,
@@ -63,10 +89,18 @@ export class StagehandProvider implements BrowserProvider {
       liveUrl,
     });
 
-    return {
+    const session: PooledSession = {
       sessionId: sessionInfo.sessionId,
-      liveUrl: liveUrl ?? sessionInfo.liveUrl ?? null,
       contextId: sessionInfo.contextId,
+      liveUrl: liveUrl ?? sessionInfo.liveUrl ?? null,
+      stagehand,
+    };
+    this.sessions.set(session.sessionId, session);
+
+    return {
+      sessionId: session.sessionId,
+      liveUrl: session.liveUrl,
+      contextId: session.contextId,
     };
   }
 
@@ -81,16 +115,26 @@ export class StagehandProvider implements BrowserProvider {
       options,
     });
 
-    const stagehand = this.stagehandInstances.get(sessionId);
+    const stagehand = this.sessions.get(sessionId)?.stagehand;
     if (!stagehand) {
       throw new Error(`No Stagehand instance found for session: ${sessionId}`);
     }
 
-    const result = await runStagehandGrammarlyTask(stagehand, text, {
-      maxSteps: options?.maxSteps,
-      iteration: options?.iteration,
-      mode: options?.mode,
-    });
+    let result: Awaited<ReturnType<typeof runStagehandGrammarlyTask>>;
+    try {
+      result = await runStagehandGrammarlyTask(stagehand, text, {
+        maxSteps: options?.maxSteps,
+        iteration: options?.iteration,
+        mode: options?.mode,
+        signal: options?.signal,
+      });
+    } catch (error) {
+      // The page may be logged out or mid-way through an action; do not hand
+      // it to the next call.
+      this.releaseOnClose.add(sessionId);
+      throw error;
+    }
+    this.releaseOnClose.delete(sessionId);
 
     const liveUrl = await this.sessionManager.getDebugUrl(sessionId);
 
@@ -98,22 +142,71 @@ export class StagehandProvider implements BrowserProvider {
       aiDetectionPercent: result.aiDetectionPercent,
       plagiarismPercent: result.plagiarismPercent,
       notes: result.notes,
+      aiFlaggedSentences: result.aiFlaggedSentences,
+      plagiarismMatches: result.plagiarismMatches,
       liveUrl,
+      usage: result.tokenUsage && {
+        llmModel: getLlmModelName(this.config),
+        ...result.tokenUsage,
+      },
     };
   }
 
+  /**
+   * Open a session on BROWSERBASE_CONTEXT_ID at the sign-in page. The
+   * context is created with `persist: true`, so the login is saved when the
+   * session is closed.
+   */
+  async openLoginSession(): Promise<SessionResult> {
+    if (!this.config.browserbaseContextId) {
+      throw new Error(
+        'BROWSERBASE_CONTEXT_ID is required to persist the Grammarly login; create one with "pnpm setup-context"',
+      );
+    }
+
+    const session = await this.createSession();
+    // Releasing the session is what saves the login to the context.
+    this.releaseOnClose.add(session.sessionId);
+    try {
+      const stagehand = this.sessions.get(session.sessionId)?.stagehand;
+      if (!stagehand) {
+        throw new Error(
+          `No Stagehand instance found for session: ${session.sessionId}`,
+        );
+      }
+      await openGrammarlySignIn(stagehand);
+    } catch (error) {
+      await this.closeSession(session.sessionId);
+      throw error;
+    }
+
+    log("info", "StagehandProvider: Login session ready", {
+      sessionId: session.sessionId,
+      liveUrl: session.liveUrl,
+    });
+    return session;
+  }
+
   async closeSession(sessionId: string): Promise<void> {
     log("debug", "StagehandProvider: Closing session", { sessionId });
 
+    const session = this.sessions.get(sessionId);
+    const release = this.releaseOnClose.has(sessionId);
+    this.sessions.delete(sessionId);
+    this.releaseOnClose.delete(sessionId);
+
+    // Keep a healthy session warm for the next call
+    if (session && !release && this.pool?.checkin(session)) {
+      return;
+    }
+
     // Close Stagehand instance
-    const stagehand = this.stagehandInstances.get(sessionId);
-    if (stagehand) {
+    if (session) {
       try {
-        await stagehand.close();
+        await session.stagehand.close();
       } catch (error) {
         log("warn", "Failed to close Stagehand instance", { error });
       }
-      this.stagehandInstances.delete(sessionId);
     }
 
     // Close Browserbase session
@@ -166,5 +259,6 @@ export class StagehandProvider implements BrowserProvider {
 }
 
 export { runStagehandGrammarlyTask } from "./grammarlyTask";
+export { LocalStagehandProvider } from "./localProvider";
 export { type GrammarlyExtractResult, GrammarlyExtractSchema } from "./schemas";
 export { BrowserbaseSessionManager } from "./sessionManager";
@@ -0,0 +1,222 @@
+import { randomUUID } from "node:crypto";
+import * as path from "node:path";
+import { type AISdkClient, Stagehand } from "@browserbasehq/stagehand";
+import type { AppConfig } from "../../config";
+import { log } from "../../config";
+import {
+  createStagehandLlmClient,
+  getLlmModelName,
+} from "../../llm/stagehandLlm";
+import type {
+  BrowserProvider,
+  GrammarlyScoreResult,
+  ScoreOptions,
+  SessionOptions,
+  SessionResult,
+} from "../provider";
+import {
+  openGrammarlySignIn,
+  runStagehandGrammarlyTask,
+} from "./grammarlyTask";
+
+/**
+ * Profile directories with a browser open on them, mapped to the session
+ * holding each. Shared by every provider instance in the process: each tool
+ * call builds its own provider, and Chromium locks its user-data directory,
+ * so a second browser on the same profile would fail to launch (or silently
+ * start logged out).
+ */
+const profilesInUse = new Map<string, string>();
+
+function claimProfile(userDataDir: string, sessionId: string): void {
+  const key = path.resolve(userDataDir);
+  if (profilesInUse.has(key)) {
+    throw new Error(
+      `Local browser is already in use (user data dir ${userDataDir}); only one session is supported at a time`,
+    );
+  }
+  profilesInUse.set(key, sessionId);
+}
+
+function releaseProfile(userDataDir: string, sessionId: string): void {
+  const key = path.resolve(userDataDir);
+  if (profilesInUse.get(key) === sessionId) {
+    profilesInUse.delete(key);
+  }
+}
+
+/** @internal Exported for testing */
+export function resetProfileLocks(): void {
+  profilesInUse.clear();
+}
+
+/**
+ * Local Chromium provider using Stagehand's LOCAL env.
+ * Text never leaves the machine except to Grammarly itself; login state lives
+ * in a persistent user-data directory, so there is no per-session cost.
+ */
+export class LocalStagehandProvider implements BrowserProvider {
+  readonly providerName = "local" as const;
+  private readonly config: AppConfig;
+  private readonly userDataDir: string;
+  private stagehandInstances: Map<string, Stagehand> = new Map();
+
+  constructor(config: AppConfig) {
+    if (!config.localUserDataDir) {
+      throw new Error("LocalStagehandProvider requires LOCAL_USER_DATA_DIR");
+    }
+    this.config = config;
+    this.userDataDir = config.localUserDataDir;
+  }
+
+  async createSession(options?: SessionOptions): Promise<SessionResult> {
+    log("debug", "LocalStagehandProvider: Creating session", options);
+
+    const sessionId = `local-${randomUUID()}`;
+    await this.launch(sessionId, this.config.localHeadless);
+
+    log("info", "LocalStagehandProvider: Session created", {
+      sessionId,
+      userDataDir: this.config.localUserDataDir,
+      headless: this.config.localHeadless,
+    });
+
+    // No remote debugger to share; the browser window is local.
+    return { sessionId, liveUrl: null };
+  }
+
+  async scoreText(
+    sessionId: string,
+    text: string,
+    options?: ScoreOptions,
+  ): Promise<GrammarlyScoreResult> {
+    log("debug", "LocalStagehandProvider: Scoring text", {
+      sessionId,
+      textLength: text.length,
+      options,
+    });
+
+    const stagehand = this.stagehandInstances.get(sessionId);
+    if (!stagehand) {
+      throw new Error(`No Stagehand instance found for session: ${sessionId}`);
+    }
+
+    const result = await runStagehandGrammarlyTask(stagehand, text, {
+      maxSteps: options?.maxSteps,
+      iteration: options?.iteration,
+      mode: options?.mode,
+      signal: options?.signal,
+    });
+
+    return {
+      aiDetectionPercent: result.aiDetectionPercent,
+      plagiarismPercent: result.plagiarismPercent,
+      notes: result.notes,
+      aiFlaggedSentences: result.aiFlaggedSentences,
+      plagiarismMatches: result.plagiarismMatches,
+      liveUrl: null,
+      usage: result.tokenUsage && {
+        llmModel: getLlmModelName(this.config),
+        ...result.tokenUsage,
+      },
+    };
+  }
+
+  /**
+   * Launch a visible browser on the persistent profile at the sign-in page,
+   * even when LOCAL_HEADLESS is set; the login is saved in the profile.
+   */
+  async openLoginSession(): Promise<SessionResult> {
+    const sessionId = `local-${randomUUID()}`;
+    const stagehand = await this.launch(sessionId, false);
+    try {
+      await openGrammarlySignIn(stagehand);
+    } catch (error) {
+      await this.closeSession(sessionId);
+      throw error;
+    }
+
+    log("info", "LocalStagehandProvider: Login session ready", {
+      sessionId,
+      userDataDir: this.config.localUserDataDir,
+    });
+    return { sessionId, liveUrl: null };
+  }
+
+  async closeSession(sessionId: string): Promise<void> {
+    log("debug", "LocalStagehandProvider: Closing session", { sessionId });
+
+    const stagehand = this.stagehandInstances.get(sessionId);
+    if (!stagehand) {
+      return;
+    }
+
+    try {
+      await stagehand.close();
+    } catch (error) {
+      log("warn", "Failed to close local Stagehand instance", { error });
+    } finally {
+      this.stagehandInstances.delete(sessionId);
+      releaseProfile(this.userDataDir, sessionId);
+    }
+  }
+
+  /**
+   * Claim the profile directory for `sessionId` and launch a browser on it,
+   * giving the profile back if the launch fails.
+   */
+  private async launch(
+    sessionId: string,
+    headless: boolean,
+  ): Promise<Stagehand> {
+    claimProfile(this.userDataDir, sessionId);
+    try {
+      const stagehand = await this.createStagehandInstance(sessionId, headless);
+      this.stagehandInstances.set(sessionId, stagehand);
+      return stagehand;
+    } catch (error) {
+      releaseProfile(this.userDataDir, sessionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Launch Chromium on the persistent profile and attach Stagehand to it.
+   */
+  private async createStagehandInstance(
+    sessionId: string,
+    headless: boolean,
+  ): Promise<Stagehand> {
+    log("debug", "Creating local Stagehand instance", {
+      sessionId,
+      model: getLlmModelName(this.config),
+    });
+
+    const llmClient = await createStagehandLlmClient(this.config);
+
+    const stagehand = new Stagehand({
+      env: "LOCAL",
+      localBrowserLaunchOptions: {
+        userDataDir: this.config.localUserDataDir,
+        // Never delete the profile: it holds the Grammarly login.
+        preserveUserDataDir: true,
+        headless,
+        ...(this.config.localChromePath && {
+          executablePath: this.config.localChromePath,
+        }),
+      },
+      llmClient: llmClient as AISdkClient,
+      selfHeal: true,
+      verbose: this.config.logLevel === "debug" ? 2 : 1,
+      ...(this.config.stagehandCacheDir && {
+        cacheDir: this.config.stagehandCacheDir,
+      }),
+    });
+
+    await stagehand.init();
+
+    log("debug", "Local Stagehand instance initialized", { sessionId });
+
+    return stagehand;
+  }
+}
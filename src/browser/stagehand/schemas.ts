@@ -1,7 +1,9 @@
 import { z } from "zod";
+import { GrammarlyHighlightsSchema } from "../highlights";
 
 /**
- * Zod schema for extracting Grammarly AI detection and plagiarism scores.
+ * Zod schema for extracting Grammarly AI detection and plagiarism scores,
+ * plus the sentences and passages Grammarly highlighted.
  * Used with Stagehand's extract() method for structured data extraction.
  */
 export const GrammarlyExtractSchema = z.object({
@@ -34,6 +36,13 @@ export const GrammarlyExtractSchema = z.object({
     .describe(
       "Brief observations about what was visible in the UI, including any warnings, loading states, or issues encountered.",
     ),
+  loggedIn: z
+    .boolean()
+    .optional()
+    .describe(
+      "False when a Grammarly sign-in or sign-up page or prompt is shown instead of the document editor; true otherwise.",
+    ),
+  ...GrammarlyHighlightsSchema.shape,
 });
 
 export type GrammarlyExtractResult = z.infer<typeof GrammarlyExtractSchema>;
@@ -0,0 +1,154 @@
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { AppConfig } from "../../config";
+import { log } from "../../config";
+import type { BrowserbaseSessionManager } from "./sessionManager";
+
+/** A Browserbase session with its initialized Stagehand instance. */
+export interface PooledSession {
+  sessionId: string;
+  contextId?: string;
+  liveUrl: string | null;
+  stagehand: Stagehand;
+}
+
+interface IdleSession {
+  session: PooledSession;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+type PoolSessionManager = Pick<
+  BrowserbaseSessionManager,
+  "isSessionActive" | "closeSession"
+>;
+
+/**
+ * Process-wide pool of warm Stagehand sessions. A finished tool call returns
+ * its session instead of releasing it, so the next call skips session start,
+ * `stagehand.init()` and the Grammarly page load. Idle sessions are released
+ * after `idleTimeoutMs`, and each one is checked with `isSessionActive`
+ * before it is handed out again.
+ */
+export class StagehandSessionPool {
+  private readonly maxSize: number;
+  private readonly idleTimeoutMs: number;
+  private readonly sessionManager: PoolSessionManager;
+  /** Idle sessions, most recently returned last. */
+  private idle: IdleSession[] = [];
+
+  constructor(
+    maxSize: number,
+    idleTimeoutMs: number,
+    sessionManager: PoolSessionManager,
+  ) {
+    this.maxSize = maxSize;
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.sessionManager = sessionManager;
+  }
+
+  /** Number of idle sessions waiting to be checked out. */
+  get size(): number {
+    return this.idle.length;
+  }
+
+  /**
+   * Take the most recently used healthy session out of the pool, or null
+   * when none is left. Sessions that are no longer running are discarded.
+   */
+  async checkout(): Promise<PooledSession | null> {
+    for (;;) {
+      const entry = this.idle.pop();
+      if (!entry) {
+        return null;
+      }
+      clearTimeout(entry.timer);
+
+      const { session } = entry;
+      if (await this.sessionManager.isSessionActive(session.sessionId)) {
+        log("debug", "Reusing pooled Browserbase session", {
+          sessionId: session.sessionId,
+          idle: this.idle.length,
+        });
+        return session;
+      }
+
+      log("info", "Discarding pooled Browserbase session that stopped", {
+        sessionId: session.sessionId,
+      });
+      await this.dispose(session);
+    }
+  }
+
+  /**
+   * Return a session for reuse. Returns false (and keeps nothing) when the
+   * pool is full; the caller then releases the session itself.
+   */
+  checkin(session: PooledSession): boolean {
+    if (this.idle.length >= this.maxSize) {
+      return false;
+    }
+
+    const timer = setTimeout(() => {
+      this.idle = this.idle.filter((entry) => entry.session !== session);
+      log("debug", "Releasing idle pooled Browserbase session", {
+        sessionId: session.sessionId,
+      });
+      void this.dispose(session);
+    }, this.idleTimeoutMs);
+    // An idle session must not keep the process alive.
+    timer.unref?.();
+
+    this.idle.push({ session, timer });
+    log("debug", "Returned Browserbase session to the pool", {
+      sessionId: session.sessionId,
+      idle: this.idle.length,
+    });
+    return true;
+  }
+
+  /** Release every idle session, e.g. on shutdown. */
+  async drain(): Promise<void> {
+    const entries = this.idle;
+    this.idle = [];
+    for (const entry of entries) {
+      clearTimeout(entry.timer);
+    }
+    await Promise.all(entries.map((entry) => this.dispose(entry.session)));
+  }
+
+  private async dispose(session: PooledSession): Promise<void> {
+    try {
+      await session.stagehand.close();
+    } catch (error) {
+      log("warn", "Failed to close pooled Stagehand instance", { error });
+    }
+    await this.sessionManager.closeSession(session.sessionId);
+  }
+}
+
+let sharedPool: StagehandSessionPool | null = null;
+
+/**
+ * The process-wide pool, created on first use with the caller's session
+ * manager. Null when STAGEHAND_POOL_SIZE is 0.
+ */
+export function getSharedSessionPool(
+  config: AppConfig,
+  sessionManager: PoolSessionManager,
+): StagehandSessionPool | null {
+  if (config.stagehandPoolSize <= 0) {
+    return null;
+  }
+  sharedPool ??= new StagehandSessionPool(
+    config.stagehandPoolSize,
+    config.stagehandPoolIdleTimeoutMs,
+    sessionManager,
+  );
+  return sharedPool;
+}
+
+/** Release all pooled sessions; a no-op when no pool was created. */
+export async function drainSharedSessionPool(): Promise<void> {
+  const pool = sharedPool;
+  sharedPool = null;
+  await pool?.drain();
+}
@@ -1,4 +1,5 @@
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import * as dotenv from "dotenv";
 import { z } from "zod";
@@ -47,13 +48,21 @@ const effectiveEnv =
 export type LogLevel = "debug" | "info" | "warn" | "error";
 export type LLMProvider = "claude-code" | "openai" | "google" | "anthropic";
 export type ClaudeModel = "auto" | "haiku" | "sonnet" | "opus";
+export type BrowserProviderName =
+  | "stagehand"
+  | "browser-use"
+  | "local"
+  | "mock";
+export type TransportMode = "stdio" | "http";
 
 export interface AppConfig {
   // Environment isolation
   ignoreSystemEnv: boolean;
 
-  // Browser provider selection
-  browserProvider: "stagehand" | "browser-use";
+  // Browser provider selection: the primary provider, and the full ordered
+  // failover chain (primary first)
+  browserProvider: BrowserProviderName;
+  browserProviders: BrowserProviderName[];
 
   // Browser Use Cloud (fallback provider)
   browserUseApiKey: string | undefined;
@@ -66,6 +75,58 @@ export interface AppConfig {
   browserbaseContextId: string | undefined;
   stagehandModel: string | undefined;
   stagehandCacheDir: string | undefined;
+  // Warm Browserbase sessions kept between tool calls (off when size is 0)
+  stagehandPoolSize: number;
+  stagehandPoolIdleTimeoutMs: number;
+
+  // Local Chromium via Stagehand LOCAL env
+  localUserDataDir: string | undefined;
+  localChromePath: string | undefined;
+  localHeadless: boolean;
+
+  // Offline mock provider (local development and CI)
+  mockFixturesPath: string | undefined;
+  mockLatencyMs: number;
+  mockFailureRate: number;
+
+  // Persistent score cache (disabled when no directory is configured)
+  scoreCacheDir: string | undefined;
+  scoreCacheTtlMs: number;
+
+  // Run store behind the grammarly://runs resources (off when max is 0)
+  runStoreDir: string;
+  runStoreMaxRuns: number;
+
+  // Documents grammarly_score_batch scores at once by default
+  batchConcurrency: number;
+
+  // JSON price table for usage cost estimates, merged over the built-ins
+  priceTableFile: string | undefined;
+
+  // Default per-run budgets for grammarly_optimize_text (unlimited when unset)
+  budgetMaxTokens: number | undefined;
+  budgetMaxCostUsd: number | undefined;
+  budgetMaxDurationMs: number | undefined;
+
+  // Optimize loop convergence: stop after this many iterations whose best
+  // combined score improved by less than the minimum (off when 0)
+  plateauPatience: number;
+  plateauMinImprovement: number;
+
+  // Rewrites whose fidelity score (0-100) falls below this are retried
+  fidelityFloor: number;
+
+  // JSON file with extra MCP prompt presets
+  promptsFile: string | undefined;
+
+  // MCP transport: stdio (one editor) or Streamable HTTP (shared server)
+  transport: TransportMode;
+  httpHost: string;
+  httpPort: number;
+  httpAuthTokens: string[];
+  httpMaxConcurrentPerClient: number;
+  httpMaxSessionsPerClient: number;
+  httpSessionIdleTimeoutMs: number;
 
   // Separate LLM provider controls
   stagehandLlmProvider: LLMProvider | undefined;
@@ -108,8 +169,26 @@ const EnvSchema = z.object({
     )
     .default(false),
 
-  // Provider selection: "stagehand" (default) or "browser-use" (fallback)
-  BROWSER_PROVIDER: z.enum(["stagehand", "browser-use"]).default("stagehand"),
+  // Provider selection: "stagehand" (default), "browser-use" (fallback),
+  // "local" (self-hosted Chromium) or "mock" (offline, no Grammarly account).
+  // A comma-separated list (e.g. "stagehand,browser-use") is a failover chain.
+  BROWSER_PROVIDER: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value
+            .split(",")
+            .map((name) => name.trim())
+            .filter((name) => name !== "")
+        : value,
+    z
+      .array(z.enum(["stagehand", "browser-use", "local", "mock"]))
+      .min(1)
+      .refine(
+        (names) => new Set(names).size === names.length,
+        "must not list a provider twice",
+      )
+      .default(["stagehand"]),
+  ),
 
   // Browser Use Cloud (required when BROWSER_PROVIDER=browser-use)
   BROWSER_USE_API_KEY: z.string().optional(),
@@ -122,6 +201,160 @@ const EnvSchema = z.object({
   BROWSERBASE_CONTEXT_ID: z.string().optional(),
   STAGEHAND_MODEL: z.string().default("gemini-2.5-flash"),
   STAGEHAND_CACHE_DIR: z.string().optional(),
+  STAGEHAND_POOL_SIZE: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().min(0).optional()),
+  STAGEHAND_POOL_IDLE_TIMEOUT_MS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().positive().optional()),
+
+  // Local Chromium (required when BROWSER_PROVIDER=local)
+  LOCAL_USER_DATA_DIR: z.string().optional(),
+  LOCAL_CHROME_PATH: z.string().optional(),
+  LOCAL_HEADLESS: z
+    .preprocess(
+      (val) => val !== "false" && val !== false,
+      z.boolean().default(true),
+    )
+    .default(true),
+
+  // Mock provider (used when BROWSER_PROVIDER=mock)
+  MOCK_FIXTURES_FILE: z.string().optional(),
+  MOCK_LATENCY_MS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().min(0).optional()),
+  MOCK_FAILURE_RATE: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().min(0).max(1).optional()),
+
+  // Score cache: repeated scoring of the same text is served from disk
+  SCORE_CACHE_DIR: z.string().optional(),
+  SCORE_CACHE_TTL_MS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().positive().optional()),
+
+  // Run store: finished runs are kept on disk and exposed as MCP resources
+  RUN_STORE_DIR: z.string().optional(),
+  RUN_STORE_MAX_RUNS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().min(0).optional()),
+
+  // Default parallelism for grammarly_score_batch (one browser session each)
+  BATCH_CONCURRENCY: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().min(1).max(10).optional()),
+
+  // Prices for usage cost estimates ({ "models": {...}, ... }), merged over
+  // the built-in table
+  PRICE_TABLE_FILE: z.string().optional(),
+
+  // Per-run budgets: the optimize loop stops before an iteration that would
+  // exceed one of them
+  BUDGET_MAX_TOKENS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().positive().optional()),
+  BUDGET_MAX_COST_USD: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().positive().optional()),
+  BUDGET_MAX_DURATION_MS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().positive().optional()),
+
+  // Convergence: iterations without an improvement of at least
+  // PLATEAU_MIN_IMPROVEMENT combined-score points before the loop stops
+  PLATEAU_PATIENCE: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().min(0).optional()),
+  PLATEAU_MIN_IMPROVEMENT: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().min(0).optional()),
+
+  // Fidelity check: a rewrite that keeps less of the original's meaning and
+  // facts than this score (0-100) is rejected and retried
+  FIDELITY_FLOOR: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().min(0).max(100).optional()),
+
+  // Extra MCP prompt presets ({ "prompts": [...] }), merged over the built-ins
+  PROMPTS_FILE: z.string().optional(),
+
+  // MCP transport (the --transport CLI flag overrides MCP_TRANSPORT)
+  MCP_TRANSPORT: z.enum(["stdio", "http"]).default("stdio"),
+  MCP_HTTP_HOST: z.string().default("127.0.0.1"),
+  MCP_HTTP_PORT: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().min(0).max(65535).optional()),
+  // Comma-separated bearer tokens, e.g. one per person sharing the server
+  MCP_HTTP_AUTH_TOKENS: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value
+            .split(",")
+            .map((token) => token.trim())
+            .filter((token) => token !== "")
+        : value,
+    z.array(z.string()).default([]),
+  ),
+  MCP_HTTP_MAX_CONCURRENT_PER_CLIENT: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().positive().optional()),
+  MCP_HTTP_MAX_SESSIONS_PER_CLIENT: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().positive().optional()),
+  MCP_HTTP_SESSION_IDLE_TIMEOUT_MS: z.preprocess((value) => {
+    if (typeof value === "string" && value.trim() !== "") {
+      return Number(value);
+    }
+    return undefined;
+  }, z.number().int().positive().optional()),
 
   // Separate LLM provider controls
   STAGEHAND_LLM_PROVIDER: z
@@ -187,17 +420,27 @@ if (!parsed.success) {
 const env = parsed.data;
 
 // Validate provider-specific required variables
-if (env.BROWSER_PROVIDER === "stagehand") {
+// (every provider in a failover chain must be usable)
+if (env.BROWSER_PROVIDER.includes("stagehand")) {
   if (!env.BROWSERBASE_API_KEY || !env.BROWSERBASE_PROJECT_ID) {
     console.error(
-      "[grammarly-mcp:error] BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID are required when BROWSER_PROVIDER=stagehand",
+      "[grammarly-mcp:error] BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID are required when BROWSER_PROVIDER includes stagehand",
     );
     process.exit(1);
   }
-} else if (env.BROWSER_PROVIDER === "browser-use") {
+}
+if (env.BROWSER_PROVIDER.includes("browser-use")) {
   if (!env.BROWSER_USE_API_KEY || !env.BROWSER_USE_PROFILE_ID) {
     console.error(
-      "[grammarly-mcp:error] BROWSER_USE_API_KEY and BROWSER_USE_PROFILE_ID are required when BROWSER_PROVIDER=browser-use",
+      "[grammarly-mcp:error] BROWSER_USE_API_KEY and BROWSER_USE_PROFILE_ID are required when BROWSER_PROVIDER includes browser-use",
+    );
+    process.exit(1);
+  }
+}
+if (env.BROWSER_PROVIDER.includes("local")) {
+  if (!env.LOCAL_USER_DATA_DIR) {
+    console.error(
+      "[grammarly-mcp:error] LOCAL_USER_DATA_DIR is required when BROWSER_PROVIDER includes local",
     );
     process.exit(1);
   }
@@ -229,7 +472,8 @@ export const config: AppConfig = {
   ignoreSystemEnv: env.IGNORE_SYSTEM_ENV,
 
   // Provider selection
-  browserProvider: env.BROWSER_PROVIDER,
+  browserProvider: env.BROWSER_PROVIDER[0] ?? "stagehand",
+  browserProviders: env.BROWSER_PROVIDER,
 
   // Browser Use Cloud (fallback)
   browserUseApiKey: env.BROWSER_USE_API_KEY,
@@ -242,6 +486,58 @@ export const config: AppConfig = {
   browserbaseContextId: env.BROWSERBASE_CONTEXT_ID,
   stagehandModel: env.STAGEHAND_MODEL,
   stagehandCacheDir: env.STAGEHAND_CACHE_DIR,
+  stagehandPoolSize: env.STAGEHAND_POOL_SIZE ?? 0,
+  stagehandPoolIdleTimeoutMs:
+    env.STAGEHAND_POOL_IDLE_TIMEOUT_MS ?? 5 * 60 * 1000,
+
+  // Local Chromium
+  localUserDataDir: env.LOCAL_USER_DATA_DIR,
+  localChromePath: env.LOCAL_CHROME_PATH,
+  localHeadless: env.LOCAL_HEADLESS,
+
+  // Offline mock provider
+  mockFixturesPath: env.MOCK_FIXTURES_FILE,
+  mockLatencyMs: env.MOCK_LATENCY_MS ?? 0,
+  mockFailureRate: env.MOCK_FAILURE_RATE ?? 0,
+
+  // Score cache
+  scoreCacheDir: env.SCORE_CACHE_DIR,
+  scoreCacheTtlMs: env.SCORE_CACHE_TTL_MS ?? 24 * 60 * 60 * 1000,
+
+  // Run store
+  runStoreDir:
+    env.RUN_STORE_DIR ?? path.join(os.homedir(), ".grammarly-mcp", "runs"),
+  runStoreMaxRuns: env.RUN_STORE_MAX_RUNS ?? 200,
+
+  // Batch scoring
+  batchConcurrency: env.BATCH_CONCURRENCY ?? 3,
+
+  // Usage cost estimates
+  priceTableFile: env.PRICE_TABLE_FILE,
+
+  // Run budgets
+  budgetMaxTokens: env.BUDGET_MAX_TOKENS,
+  budgetMaxCostUsd: env.BUDGET_MAX_COST_USD,
+  budgetMaxDurationMs: env.BUDGET_MAX_DURATION_MS,
+
+  // Convergence
+  plateauPatience: env.PLATEAU_PATIENCE ?? 2,
+  plateauMinImprovement: env.PLATEAU_MIN_IMPROVEMENT ?? 1,
+
+  // Fidelity check
+  fidelityFloor: env.FIDELITY_FLOOR ?? 80,
+
+  // Prompt presets
+  promptsFile: env.PROMPTS_FILE,
+
+  // MCP transport
+  transport: env.MCP_TRANSPORT,
+  httpHost: env.MCP_HTTP_HOST,
+  httpPort: env.MCP_HTTP_PORT ?? 3000,
+  httpAuthTokens: env.MCP_HTTP_AUTH_TOKENS,
+  httpMaxConcurrentPerClient: env.MCP_HTTP_MAX_CONCURRENT_PER_CLIENT ?? 2,
+  httpMaxSessionsPerClient: env.MCP_HTTP_MAX_SESSIONS_PER_CLIENT ?? 10,
+  httpSessionIdleTimeoutMs: env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS ?? 1_800_000,
 
   // Separate LLM provider controls
   stagehandLlmProvider: env.STAGEHAND_LLM_PROVIDER,
@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+/** Step of a run that was executing when it failed. */
+export type RunPhase =
+  | "session"
+  | "scoring"
+  | "analysis"
+  | "rewrite"
+  | "summary";
+
+/**
+ * What went wrong, in terms a client can act on:
+ * - auth_expired: the Grammarly login is missing or expired (re-login needed)
+ * - session_failed: no browser session could be created
+ * - scoring_failed: Grammarly scores could not be read from the page
+ * - llm_timeout: an LLM request exceeded LLM_REQUEST_TIMEOUT_MS
+ * - llm_failed: an LLM request failed for another reason
+ * - quota_exhausted: a provider rate limit, quota or credit balance ran out
+ */
+export type RunErrorCode =
+  | "auth_expired"
+  | "session_failed"
+  | "scoring_failed"
+  | "llm_timeout"
+  | "llm_failed"
+  | "quota_exhausted";
+
+export interface RunError {
+  code: RunErrorCode;
+  phase: RunPhase;
+  message: string;
+  /** Whether the same call may succeed if simply retried later. */
+  retryable: boolean;
+}
+
+export const RunErrorSchema = z.object({
+  code: z.enum([
+    "auth_expired",
+    "session_failed",
+    "scoring_failed",
+    "llm_timeout",
+    "llm_failed",
+    "quota_exhausted",
+  ]),
+  phase: z.enum(["session", "scoring", "analysis", "rewrite", "summary"]),
+  message: z.string(),
+  retryable: z.boolean(),
+});
+
+/**
+ * The browser session is not logged into Grammarly: the login page was shown
+ * instead of the editor. Retrying the same session cannot fix this; a human
+ * has to log in again (see `pnpm grammarly-login`).
+ */
+export class GrammarlyAuthError extends Error {
+  constructor(detail: string) {
+    super(
+      `Grammarly is not authenticated: ${detail}. Log in again with "pnpm grammarly-login".`,
+    );
+    this.name = "GrammarlyAuthError";
+  }
+}
+
+const QUOTA_PATTERN =
+  /quota|rate.?limit|too many requests|\b429\b|insufficient.?(?:credits|balance|funds)|out of credits|credits? (?:exhausted|exceeded)|usage limit|limit (?:reached|exceeded)/i;
+
+const AUTH_PATTERN =
+  /not (?:logged|signed) in|log.?in (?:required|expired|page)|sign.?in (?:required|page)|unauthori[sz]ed|\b401\b|not authenticated|session expired/i;
+
+const TIMEOUT_PATTERN = /timed? ?out|timeout|ETIMEDOUT/i;
+
+const LLM_PHASES: ReadonlySet<RunPhase> = new Set([
+  "analysis",
+  "rewrite",
+  "summary",
+]);
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Classify an error thrown during `phase`. Providers and LLM SDKs throw plain
+ * errors, so the code is inferred from the message; anything unrecognized
+ * falls back to the phase's generic failure.
+ */
+export function classifyError(error: unknown, phase: RunPhase): RunError {
+  const message = messageOf(error);
+  const isLlmPhase = LLM_PHASES.has(phase);
+
+  if (error instanceof GrammarlyAuthError) {
+    return { code: "auth_expired", phase, message, retryable: false };
+  }
+  if (QUOTA_PATTERN.test(message)) {
+    return { code: "quota_exhausted", phase, message, retryable: false };
+  }
+  if (!isLlmPhase && AUTH_PATTERN.test(message)) {
+    return { code: "auth_expired", phase, message, retryable: false };
+  }
+  if (isLlmPhase) {
+    const timedOut =
+      (error instanceof Error && error.name === "TimeoutError") ||
+      TIMEOUT_PATTERN.test(message);
+    return {
+      code: timedOut ? "llm_timeout" : "llm_failed",
+      phase,
+      message,
+      retryable: true,
+    };
+  }
+  return {
+    code: phase === "session" ? "session_failed" : "scoring_failed",
+    phase,
+    message,
+    retryable: true,
+  };
+}
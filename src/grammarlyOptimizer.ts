@@ -1,18 +1,83 @@
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { type ZodType, z } from "zod";
+import {
+  type GrammarlyHighlights,
+  matchHighlights,
+  type PlagiarismMatch,
+} from "./browser/highlights";
 import {
   type BrowserProvider,
   createBrowserProvider,
   type GrammarlyScoreResult,
+  type ScoreOptions,
+  type SessionOptions,
 } from "./browser/provider";
+import { ScoreCache } from "./browser/scoreCache";
 import type { AppConfig } from "./config";
 import { log } from "./config";
+import {
+  classifyError,
+  GrammarlyAuthError,
+  type RunError,
+  RunErrorSchema,
+  type RunPhase,
+} from "./errors";
 import {
   analyzeText,
+  type BackfiredRewrite,
+  type FidelityJudgment,
+  getRewriteModelId,
+  judgeFidelity,
+  type LlmUsageCallback,
+  type RewriteParams,
+  type RewriteResult,
   RewriterToneSchema,
   rewriteText,
+  rewriteTextByParagraph,
   summarizeOptimization,
 } from "./llm/rewriteClient";
+import { sleep } from "./sleep";
+import {
+  type ChunkScore,
+  combineChunkScores,
+  MAX_CHUNK_LENGTH,
+  splitIntoChunks,
+} from "./text/chunking";
+import {
+  type DiffGranularity,
+  diffText,
+  listChanges,
+  type TextChange,
+  TextChangeSchema,
+} from "./text/diff";
+import { checkFacts } from "./text/fidelity";
+import { estimateAiScore } from "./text/heuristics";
+import {
+  checkProtectionPattern,
+  MAX_PROTECTION_PATTERN_LENGTH,
+} from "./text/protectedSpans";
+import {
+  addScoringUsage,
+  getPriceTable,
+  type ModelPrice,
+  type RunUsage,
+  UsageSchema,
+  UsageTracker,
+} from "./usage";
+
+/** Display names for progress messages. */
+const PROVIDER_LABELS: Record<AppConfig["browserProvider"], string> = {
+  stagehand: "Stagehand",
+  "browser-use": "Browser Use",
+  local: "local Chromium",
+  mock: "mock",
+};
+
+/** Most rewrites one optimize iteration generates. */
+export const MAX_CANDIDATES_PER_ITERATION = 5;
+
+/** Longest `custom_instructions` a tool call accepts. */
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 2000;
 
 export const ToolInputSchema = z.object({
   text: z.string().min(1, "text is required"),
@@ -41,6 +106,30 @@ export const ToolInputSchema = z.object({
     .max(20)
     .default(5)
     .describe("Maximum optimization iterations in optimize mode."),
+  strategy: z
+    .enum(["whole", "paragraph"])
+    .default("whole")
+    .describe(
+      "Optimize strategy: 'whole' rewrites the full text each iteration; 'paragraph' rewrites only the most AI-like paragraphs and leaves the rest byte-identical.",
+    ),
+  candidates_per_iteration: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CANDIDATES_PER_ITERATION)
+    .optional()
+    .describe(
+      "Rewrites generated per optimize iteration (default 1), each with a different temperature and style direction. More candidates cost more LLM tokens but usually need fewer iterations.",
+    ),
+  scored_candidates_per_iteration: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CANDIDATES_PER_ITERATION)
+    .optional()
+    .describe(
+      "How many of an iteration's rewrites are scored in Grammarly (default 1, at most candidates_per_iteration). They are picked by a local AI-likeness estimate.",
+    ),
   tone: RewriterToneSchema.default("neutral").describe(
     "Desired tone of the final text.",
   ),
@@ -51,21 +140,53 @@ export const ToolInputSchema = z.object({
     .describe("Short description of the domain (e.g., 'university essay')."),
   custom_instructions: z
     .string()
-    .max(2000)
+    .max(MAX_CUSTOM_INSTRUCTIONS_LENGTH)
     .optional()
     .describe(
       "Extra constraints (e.g., preserve citations, do not change code blocks).",
     ),
+  protected_patterns: z
+    .array(
+      z
+        .string()
+        .min(1)
+        .max(MAX_PROTECTION_PATTERN_LENGTH)
+        .refine(
+          (source) => checkProtectionPattern(source) === null,
+          (source) => ({
+            message: `must be a safe regular expression: ${checkProtectionPattern(source)}`,
+          }),
+        ),
+    )
+    .max(20)
+    .optional()
+    .describe(
+      "Extra regular expressions (source only, no slashes or flags) whose matches must survive rewrites verbatim. Backreferences and repeated groups containing quantifiers or alternations are refused. Code, math, citations, URLs and quotations are always protected.",
+    ),
+  fidelity_floor: z
+    .number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe(
+      "Lowest fidelity score (0-100) a rewrite may have; rewrites below it are rejected and retried. Defaults to FIDELITY_FLOOR.",
+    ),
   proxy_country_code: z
     .string()
     .length(2)
     .optional()
     .describe("ISO 3166-1 alpha-2 country code for proxy (e.g., 'us', 'gb')."),
   response_format: z
-    .enum(["json", "markdown"])
+    .enum(["json", "markdown", "diff"])
     .default("json")
     .describe(
-      "Output format: 'json' for structured data, 'markdown' for human-readable.",
+      "Output format: 'json' for structured data, 'markdown' for human-readable, 'diff' for the changes from the input text to final_text and between iterations.",
+    ),
+  diff_granularity: z
+    .enum(["word", "sentence"])
+    .default("word")
+    .describe(
+      "Whether `changes` and the 'diff' response format compare the texts word by word or sentence by sentence.",
     ),
   max_steps: z
     .number()
@@ -76,6 +197,34 @@ export const ToolInputSchema = z.object({
     .describe(
       "Maximum browser automation steps per scoring task (default 25). Prevents runaway tasks.",
     ),
+  bypass_cache: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Ignore cached scores and score every text fresh (the fresh scores still refresh the cache).",
+    ),
+  max_tokens: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optimize budget: most LLM tokens (input + output) the run may use. Defaults to BUDGET_MAX_TOKENS.",
+    ),
+  max_cost_usd: z
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      "Optimize budget: most estimated USD the run may cost. Defaults to BUDGET_MAX_COST_USD.",
+    ),
+  max_duration_seconds: z
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      "Optimize budget: most wall-clock seconds the run may take. Defaults to BUDGET_MAX_DURATION_MS.",
+    ),
 });
 
 type StructuredContent = NonNullable<CallToolResult["structuredContent"]>;
@@ -105,9 +254,58 @@ export const ToolOutputSchema: ZodType<StructuredContent> = z.object({
         ai_detection_percent: z.number().nullable(),
         plagiarism_percent: z.number().nullable(),
         note: z.string(),
+        candidate_text: z
+          .string()
+          .optional()
+          .describe("Text that was scored in this iteration."),
+        selected: z
+          .boolean()
+          .optional()
+          .describe(
+            "Whether this iteration's text was returned as final_text.",
+          ),
+        provider: z
+          .string()
+          .optional()
+          .describe("Browser provider that produced this iteration's scores."),
+        fidelity_score: z
+          .number()
+          .optional()
+          .describe(
+            "How much of the original's meaning and facts this rewrite kept (0-100).",
+          ),
+        lost_facts: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Names, numbers, dates, citations and claims of the original that this rewrite lost or changed.",
+          ),
+        ai_flagged_sentences: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Sentences of this iteration's text that Grammarly's AI Detector highlighted.",
+          ),
+        plagiarism_matches: z
+          .array(
+            z.object({
+              passage: z.string(),
+              source_url: z.string().nullable(),
+            }),
+          )
+          .optional()
+          .describe(
+            "Passages of this iteration's text that Grammarly matched to sources, with the source URL.",
+          ),
       }),
     )
     .describe("History of scores and notes for each iteration."),
+  changes: z
+    .array(TextChangeSchema)
+    .optional()
+    .describe(
+      "Edits from the input text to final_text, at diff_granularity. Empty when the text was not changed.",
+    ),
   notes: z.string().describe("Summary or analysis notes from Claude."),
   live_url: z
     .string()
@@ -117,7 +315,233 @@ export const ToolOutputSchema: ZodType<StructuredContent> = z.object({
   provider: z
     .string()
     .optional()
-    .describe("Browser automation provider used (stagehand or browser-use)."),
+    .describe(
+      "Browser automation provider used (stagehand, browser-use, local or mock).",
+    ),
+  selected_iteration: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      "Iteration whose candidate was returned (thresholds met first, then lowest combined score).",
+    ),
+  chunked: z
+    .boolean()
+    .optional()
+    .describe(
+      `Whether the final text exceeded ${MAX_CHUNK_LENGTH} characters and was scored in chunks.`,
+    ),
+  truncated: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether part of the final text was left unscored because it exceeded the chunk limit.",
+    ),
+  chunk_scores: z
+    .array(
+      z.object({
+        chunk_index: z.number().int(),
+        char_count: z.number().int(),
+        ai_detection_percent: z.number().nullable(),
+        plagiarism_percent: z.number().nullable(),
+      }),
+    )
+    .optional()
+    .describe(
+      "Per-chunk scores for the final text; document scores are their length-weighted average.",
+    ),
+  stop_reason: z
+    .enum(["thresholds_met", "max_iterations", "plateau", "budget"])
+    .nullable()
+    .optional()
+    .describe(
+      "Why the optimize loop stopped. Null outside optimize mode and for cancelled or failed runs.",
+    ),
+  cancelled: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether the client cancelled the run; the result then holds the best text and history scored so far.",
+    ),
+  error: RunErrorSchema.nullable()
+    .optional()
+    .describe(
+      "Why the run failed (code, phase, retryable), or null. A failed run still returns the best text and history scored so far.",
+    ),
+  usage: UsageSchema.optional().describe(
+    "LLM tokens, Browser Use steps and Browserbase session time this run used, with estimated cost in USD.",
+  ),
+});
+
+/** response_format for tools whose output has no final text to diff. */
+const PlainResponseFormatSchema = z
+  .enum(["json", "markdown"])
+  .default("json")
+  .describe(
+    "Output format: 'json' for structured data, 'markdown' for human-readable.",
+  );
+
+/** Input for grammarly_score: Grammarly scores only, no LLM calls. */
+export const ScoreToolInputSchema = ToolInputSchema.pick({
+  text: true,
+  max_ai_percent: true,
+  max_plagiarism_percent: true,
+  proxy_country_code: true,
+  max_steps: true,
+  bypass_cache: true,
+}).extend({
+  response_format: PlainResponseFormatSchema,
+});
+
+/** Input for grammarly_analyze: Grammarly scores plus LLM interpretation. */
+export const AnalyzeToolInputSchema = ToolInputSchema.pick({
+  text: true,
+  max_ai_percent: true,
+  max_plagiarism_percent: true,
+  tone: true,
+  domain_hint: true,
+  proxy_country_code: true,
+  max_steps: true,
+  bypass_cache: true,
+}).extend({
+  response_format: PlainResponseFormatSchema,
+});
+
+/**
+ * Input for grammarly_rewrite: one LLM rewrite without a browser session.
+ * The caller supplies the current scores instead of Grammarly.
+ */
+export const RewriteToolInputSchema = ToolInputSchema.pick({
+  text: true,
+  max_ai_percent: true,
+  max_plagiarism_percent: true,
+  strategy: true,
+  tone: true,
+  domain_hint: true,
+  custom_instructions: true,
+  protected_patterns: true,
+  fidelity_floor: true,
+}).extend({
+  response_format: PlainResponseFormatSchema,
+  ai_detection_percent: z
+    .number()
+    .min(0)
+    .max(100)
+    .nullable()
+    .describe("Current AI detection percentage (null if unknown)."),
+  plagiarism_percent: z
+    .number()
+    .min(0)
+    .max(100)
+    .nullable()
+    .describe("Current plagiarism percentage (null if unknown)."),
+});
+
+/** Zod schema for grammarly_rewrite structured output. */
+export const RewriteToolOutputSchema: ZodType<StructuredContent> = z.object({
+  rewritten_text: z.string().describe("The rewritten text."),
+  reasoning: z
+    .string()
+    .describe("Short explanation of the changes made by the rewriter."),
+  strategy: z
+    .enum(["whole", "paragraph"])
+    .describe("Rewrite strategy that was applied."),
+  fidelity_score: z
+    .number()
+    .describe(
+      "How much of the original's meaning and facts the rewrite kept (0-100).",
+    ),
+  lost_facts: z
+    .array(z.string())
+    .describe(
+      "Names, numbers, dates, citations and claims of the original that the rewrite lost or changed.",
+    ),
+  attempts: z
+    .number()
+    .int()
+    .describe(
+      "Rewrites it took, counting ones rejected for falling below the fidelity floor.",
+    ),
+  usage: UsageSchema.optional().describe(
+    "LLM tokens the rewrites and fidelity checks used, with estimated cost in USD.",
+  ),
+});
+
+/** Most documents one grammarly_score_batch call accepts. */
+export const MAX_BATCH_ITEMS = 50;
+
+/** Upper bound for grammarly_score_batch `concurrency`. */
+export const MAX_BATCH_CONCURRENCY = 10;
+
+/**
+ * Input for grammarly_score_batch: several documents scored in one call,
+ * with the grammarly_score settings applied to every item.
+ */
+export const BatchScoreToolInputSchema = ToolInputSchema.pick({
+  max_ai_percent: true,
+  max_plagiarism_percent: true,
+  proxy_country_code: true,
+  max_steps: true,
+  bypass_cache: true,
+}).extend({
+  response_format: PlainResponseFormatSchema,
+  items: z
+    .array(
+      z.object({
+        id: z
+          .string()
+          .min(1)
+          .max(100)
+          .describe("Caller's ID for the document, echoed in the results."),
+        text: ToolInputSchema.shape.text,
+      }),
+    )
+    .min(1)
+    .max(MAX_BATCH_ITEMS)
+    .refine(
+      (items) => new Set(items.map((item) => item.id)).size === items.length,
+      "item ids must be unique",
+    )
+    .describe("Documents to score."),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_BATCH_CONCURRENCY)
+    .optional()
+    .describe(
+      "Documents scored at the same time, each in its own browser session (default BATCH_CONCURRENCY).",
+    ),
+});
+
+/** Zod schema for grammarly_score_batch structured output. */
+export const BatchScoreToolOutputSchema: ZodType<StructuredContent> = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string(),
+        status: z
+          .enum(["scored", "failed", "cancelled"])
+          .describe("cancelled: the batch was cancelled before this item."),
+        ai_detection_percent: z.number().nullable(),
+        plagiarism_percent: z.number().nullable(),
+        thresholds_met: z.boolean(),
+        provider: z.string().optional(),
+        notes: z.string(),
+        error: RunErrorSchema.nullable(),
+      }),
+    )
+    .describe("One entry per input item, in input order."),
+  scored: z.number().int().describe("Items that were scored."),
+  failed: z.number().int().describe("Items whose scoring failed."),
+  thresholds_met: z
+    .number()
+    .int()
+    .describe("Scored items that meet both thresholds."),
+  cancelled: z.boolean().describe("Whether the client cancelled the batch."),
+  usage: UsageSchema.optional().describe(
+    "Browser usage across all items, with estimated cost in USD.",
+  ),
 });
 
 /** Callback for MCP progress notifications during optimization (0-100%). */
@@ -130,13 +554,115 @@ export type GrammarlyOptimizeMode = "score_only" | "optimize" | "analyze";
 
 export type GrammarlyOptimizeInput = z.infer<typeof ToolInputSchema>;
 
+export type RewriteToolInput = z.infer<typeof RewriteToolInputSchema>;
+
+export type BatchScoreToolInput = z.infer<typeof BatchScoreToolInputSchema>;
+
+export interface BatchScoreItemResult {
+  id: string;
+  status: "scored" | "failed" | "cancelled";
+  ai_detection_percent: number | null;
+  plagiarism_percent: number | null;
+  thresholds_met: boolean;
+  provider?: string;
+  notes: string;
+  error: RunError | null;
+}
+
+export interface BatchScoreResult {
+  items: BatchScoreItemResult[];
+  scored: number;
+  failed: number;
+  thresholds_met: number;
+  cancelled: boolean;
+  usage: RunUsage;
+}
+
+export interface RewriteToolResult {
+  rewritten_text: string;
+  reasoning: string;
+  strategy: "whole" | "paragraph";
+  fidelity_score: number;
+  lost_facts: string[];
+  attempts: number;
+  usage: RunUsage;
+}
+
+/** Per-request rewrite options beyond the tool settings. */
+type RewriteOptions = Pick<
+  RewriteParams,
+  "backfiredRewrite" | "lostFacts" | "variationHint" | "temperature"
+>;
+
+/**
+ * Temperature and direction of each candidate rewrite in an iteration. The
+ * first is the plain rewrite, so one candidate per iteration is unchanged.
+ */
+const REWRITE_VARIANTS: RewriteOptions[] = [
+  {},
+  {
+    temperature: 0.9,
+    variationHint:
+      "Favour short, plain sentences and concrete, specific wording.",
+  },
+  {
+    temperature: 1,
+    variationHint:
+      "Restructure freely: reorder points, and merge or split sentences and paragraphs.",
+  },
+  {
+    temperature: 0.8,
+    variationHint:
+      "Keep the structure, but replace stock transitions and generic phrases with wording specific to this text.",
+  },
+  {
+    temperature: 1.1,
+    variationHint:
+      "Write with a distinct personal voice, varying rhythm and register where the tone allows.",
+  },
+];
+
+/** Rewrite settings shared by the optimize loop and grammarly_rewrite. */
+type RewriteSettings = Pick<
+  GrammarlyOptimizeInput,
+  | "max_ai_percent"
+  | "max_plagiarism_percent"
+  | "max_iterations"
+  | "strategy"
+  | "tone"
+  | "domain_hint"
+  | "custom_instructions"
+  | "protected_patterns"
+>;
+
 export interface HistoryEntry {
   iteration: number;
   ai_detection_percent: number | null;
   plagiarism_percent: number | null;
   note: string;
+  candidate_text: string;
+  selected: boolean;
+  provider: string;
+  fidelity_score?: number;
+  lost_facts?: string[];
+  ai_flagged_sentences?: string[];
+  plagiarism_matches?: { passage: string; source_url: string | null }[];
+}
+
+export interface ChunkScoreEntry {
+  chunk_index: number;
+  char_count: number;
+  ai_detection_percent: number | null;
+  plagiarism_percent: number | null;
 }
 
+/** Why the optimize loop ended. */
+export type StopReason =
+  | "thresholds_met"
+  | "max_iterations"
+  | "plateau"
+  | "budget";
+
 export interface GrammarlyOptimizeResult {
   final_text: string;
   ai_detection_percent: number | null;
@@ -144,13 +670,22 @@ export interface GrammarlyOptimizeResult {
   iterations_used: number;
   thresholds_met: boolean;
   history: HistoryEntry[];
+  changes: TextChange[];
   notes: string;
   live_url: string | null;
   provider?: string;
+  selected_iteration: number;
+  chunked: boolean;
+  truncated: boolean;
+  chunk_scores: ChunkScoreEntry[];
+  stop_reason: StopReason | null;
+  cancelled: boolean;
+  error: RunError | null;
+  usage: RunUsage;
 }
 
 /** @internal Exported for testing */
-export interface GrammarlyScores {
+export interface GrammarlyScores extends GrammarlyHighlights {
   aiDetectionPercent: number | null;
   plagiarismPercent: number | null;
 }
@@ -185,12 +720,70 @@ export function thresholdsMet(
 }
 
 /**
- * Retry utility with exponential backoff.
+ * Combined score used to rank candidates (lower is better). An unavailable
+ * score counts as the worst case so missing data never wins a comparison.
+ * @internal Exported for testing
+ */
+export function combinedScore(scores: GrammarlyScores): number {
+  return (scores.aiDetectionPercent ?? 100) + (scores.plagiarismPercent ?? 100);
+}
+
+/** A scored text produced by baseline scoring or a rewrite iteration. */
+export interface OptimizationCandidate {
+  iteration: number;
+  text: string;
+  scores: DocumentScoreResult;
+  thresholdsMet: boolean;
+}
+
+/** One of an iteration's candidate rewrites, scored in Grammarly. */
+interface ScoredRewrite extends OptimizationCandidate {
+  rewrite: RankedRewrite<CheckedRewrite>;
+}
+
+/**
+ * Pick the best candidate: thresholds met first, then lowest combined score,
+ * then the earliest iteration (fewest changes from the original).
+ * @internal Exported for testing
+ */
+export function selectBestCandidate<T extends OptimizationCandidate>(
+  candidates: T[],
+): T {
+  const [first, ...rest] = candidates;
+  if (!first) {
+    throw new Error("selectBestCandidate requires at least one candidate");
+  }
+
+  let best = first;
+  for (const candidate of rest) {
+    if (candidate.thresholdsMet !== best.thresholdsMet) {
+      if (candidate.thresholdsMet) {
+        best = candidate;
+      }
+      continue;
+    }
+    if (combinedScore(candidate.scores) < combinedScore(best.scores)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * Retry utility with exponential backoff. An aborted `signal` is never
+ * retried: it stops the backoff wait and rethrows immediately, as does an
+ * error `retryIf` rejects.
  * @internal Exported for testing
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  options: { maxRetries: number; backoffMs: number; label?: string },
+  options: {
+    maxRetries: number;
+    backoffMs: number;
+    label?: string;
+    signal?: AbortSignal;
+    retryIf?: (error: unknown) => boolean;
+  },
 ): Promise<T> {
   if (options.maxRetries < 0) {
     throw new RangeError("maxRetries must be non-negative");
@@ -199,9 +792,13 @@ export async function withRetry<T>(
   let lastError: unknown;
 
   for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+    options.signal?.throwIfAborted();
     try {
       return await fn();
     } catch (error) {
+      if (options.signal?.aborted || options.retryIf?.(error) === false) {
+        throw error;
+      }
       lastError = error;
 
       if (attempt < options.maxRetries) {
@@ -213,7 +810,7 @@ export async function withRetry<T>(
               ? lastError.message
               : String(lastError ?? "unknown error"),
         });
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await sleep(delay, options.signal);
       }
     }
   }
@@ -229,114 +826,1058 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/** Document-level scores combined from one or more chunk scoring passes. */
+export interface DocumentScoreResult extends GrammarlyScoreResult {
+  /** Provider that produced every chunk score. */
+  provider: string;
+  chunked: boolean;
+  truncated: boolean;
+  chunkScores: ChunkScore[];
+  /** When the scores were produced, if served from the score cache. */
+  cachedAt: string | null;
+}
+
 /**
- * Orchestrates scoring, analysis, or iterative optimization via browser automation
- * and Claude. Supports both Stagehand (Browserbase) and Browser Use Cloud providers.
- * Includes MCP 2025-11-25 progress notifications.
+ * Score text that may exceed Grammarly's per-pass limit. Long text is split on
+ * paragraph boundaries, each chunk is scored in the same session, and the
+ * chunk scores are combined into a length-weighted document score.
+ * @internal Exported for testing
  */
-export async function runGrammarlyOptimization(
-  appConfig: AppConfig,
-  input: GrammarlyOptimizeInput,
-  onProgress?: ProgressCallback,
-): Promise<GrammarlyOptimizeResult> {
-  const {
-    text,
-    mode,
-    max_ai_percent,
-    max_plagiarism_percent,
-    max_iterations,
-    tone,
-    domain_hint,
-    custom_instructions,
-    proxy_country_code,
-    max_steps,
-  } = input;
-
-  const history: HistoryEntry[] = [];
+export async function scoreDocument(
+  provider: BrowserProvider,
+  sessionId: string,
+  text: string,
+  options: ScoreOptions & { label: string },
+): Promise<DocumentScoreResult> {
+  const { label, ...scoreOptions } = options;
+  const { chunks, truncated } = splitIntoChunks(text);
+  const chunked = chunks.length > 1;
 
-  let currentText = text;
-  let lastScores: GrammarlyScoreResult | null = null;
-  let iterationsUsed = 0;
-  let reachedThresholds = false;
+  if (truncated) {
+    log("warn", "Text exceeds chunk limit; trailing text left unscored", {
+      textLength: text.length,
+      scoredChunks: chunks.length,
+    });
+  }
 
-  // Progress: Creating browser session
-  const providerName = appConfig.browserProvider;
-  await onProgress?.(
-    `Creating ${providerName === "stagehand" ? "Stagehand" : "Browser Use"} session...`,
-    5,
-  );
+  const chunkScores: ChunkScore[] = [];
+  const chunkNotes: string[] = [];
+  const aiFlaggedSentences: string[] = [];
+  const plagiarismMatches: PlagiarismMatch[] = [];
+  let liveUrl: string | null | undefined;
+  let usage: DocumentScoreResult["usage"];
 
-  // Create provider based on configuration
-  let provider: BrowserProvider | undefined;
-  let sessionId: string | null = null;
-  let liveUrl: string | null = null;
+  for (const chunk of chunks) {
+    const chunkLabel = chunked ? `${label}-chunk-${chunk.index}` : label;
+    const scores = await withRetry(
+      () => provider.scoreText(sessionId, chunk.text, scoreOptions),
+      {
+        maxRetries: 2,
+        backoffMs: 2000,
+        label: chunkLabel,
+        signal: scoreOptions.signal,
+        // Logging in again needs a human; retrying the session cannot help.
+        retryIf: (error) => !(error instanceof GrammarlyAuthError),
+      },
+    );
 
-  try {
-    // Create provider with retry logic
-    provider = await withRetry(() => createBrowserProvider(appConfig), {
-      maxRetries: 2,
-      backoffMs: 1000,
-      label: "createProvider",
+    chunkScores.push({
+      chunkIndex: chunk.index,
+      charCount: chunk.text.length,
+      aiDetectionPercent: scores.aiDetectionPercent,
+      plagiarismPercent: scores.plagiarismPercent,
     });
+    chunkNotes.push(
+      chunked ? `Chunk ${chunk.index + 1}: ${scores.notes}` : scores.notes,
+    );
+    aiFlaggedSentences.push(...(scores.aiFlaggedSentences ?? []));
+    plagiarismMatches.push(...(scores.plagiarismMatches ?? []));
+    liveUrl = scores.liveUrl ?? liveUrl;
+    usage = addScoringUsage(usage, scores.usage);
 
-    // Capture provider as a const for use in closures (TypeScript narrowing)
-    const activeProvider = provider;
+    if (chunked) {
+      log("debug", "Scored text chunk", {
+        label,
+        chunkIndex: chunk.index,
+        chunkCount: chunks.length,
+        aiDetectionPercent: scores.aiDetectionPercent,
+        plagiarismPercent: scores.plagiarismPercent,
+      });
+    }
+  }
 
-    log("info", `Using browser provider: ${activeProvider.providerName}`);
+  return {
+    ...combineChunkScores(chunkScores),
+    ...matchHighlights(text, { aiFlaggedSentences, plagiarismMatches }),
+    notes: chunkNotes.join("\n"),
+    liveUrl,
+    usage,
+    provider: provider.providerName,
+    chunked,
+    truncated,
+    chunkScores,
+    cachedAt: null,
+  };
+}
 
-    // Create session with retry logic
-    const sessionResult = await withRetry(
-      () =>
-        activeProvider.createSession({
-          proxyCountryCode: proxy_country_code,
-        }),
-      { maxRetries: 3, backoffMs: 1000, label: "createSession" },
-    );
+/** Describe how a document was scored, for history notes. */
+function describeChunking(scores: DocumentScoreResult): string {
+  if (!scores.chunked) {
+    return "";
+  }
+  const truncatedText = scores.truncated
+    ? " Trailing text beyond the chunk limit was not scored."
+    : "";
+  return ` Scored in ${scores.chunkScores.length} chunks (length-weighted).${truncatedText}`;
+}
 
-    sessionId = sessionResult.sessionId;
-    liveUrl = sessionResult.liveUrl;
+/** Mark scores served from the score cache, for history notes. */
+function describeCache(scores: DocumentScoreResult): string {
+  return scores.cachedAt
+    ? ` Served from the score cache (scored by ${scores.provider} at ${scores.cachedAt}).`
+    : "";
+}
 
-    log("info", "Browser session created", {
-      sessionId,
-      liveUrl,
-      provider: activeProvider.providerName,
-    });
+/** Grammarly's highlights in the snake_case history shape, if it made any. */
+function toHighlightFields(
+  scores: DocumentScoreResult,
+): Pick<HistoryEntry, "ai_flagged_sentences" | "plagiarism_matches"> {
+  const sentences = scores.aiFlaggedSentences ?? [];
+  const matches = scores.plagiarismMatches ?? [];
+  return {
+    ...(sentences.length > 0 ? { ai_flagged_sentences: sentences } : {}),
+    ...(matches.length > 0
+      ? {
+          plagiarism_matches: matches.map((match) => ({
+            passage: match.passage,
+            source_url: match.sourceUrl,
+          })),
+        }
+      : {}),
+  };
+}
 
-    // Capture sessionId as a const for use in closures (TypeScript narrowing)
-    const activeSessionId = sessionId;
+/** Convert internal chunk scores into the snake_case output shape. */
+function toChunkScoreEntries(scores: DocumentScoreResult): ChunkScoreEntry[] {
+  return scores.chunkScores.map((chunk) => ({
+    chunk_index: chunk.chunkIndex,
+    char_count: chunk.charCount,
+    ai_detection_percent: chunk.aiDetectionPercent,
+    plagiarism_percent: chunk.plagiarismPercent,
+  }));
+}
 
-    // Progress: Initial scoring
-    await onProgress?.("Running initial Grammarly scoring...", 10);
-    log("info", "Running initial Grammarly scoring pass");
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
-    // Baseline scoring (iteration 0 before optimization loop) with retry
-    lastScores = await withRetry(
-      () =>
-        activeProvider.scoreText(activeSessionId, currentText, {
-          maxSteps: max_steps,
-          iteration: 0,
-          mode,
-          flashMode: mode === "score_only",
-        }),
-      { maxRetries: 2, backoffMs: 2000, label: "initialScore" },
-    );
+/** Spending limits of one optimize run; an unset limit is unlimited. */
+interface RunBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxDurationMs?: number;
+}
 
-    history.push({
+/** What a run has spent so far, or what one iteration is expected to. */
+interface RunSpend {
+  tokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/** @internal Exported for testing */
+export interface BudgetStop {
+  budget: "tokens" | "cost" | "duration";
+  limit: number;
+  spent: number;
+}
+
+/**
+ * The first budget that is already used up, or that one more iteration
+ * (expected to cost `nextIteration`) would exceed. Null when it fits.
+ * @internal Exported for testing
+ */
+export function findExceededBudget(
+  budget: RunBudget,
+  spent: RunSpend,
+  nextIteration: RunSpend,
+): BudgetStop | null {
+  const checks = [
+    ["tokens", budget.maxTokens, spent.tokens, nextIteration.tokens],
+    ["cost", budget.maxCostUsd, spent.costUsd, nextIteration.costUsd],
+    [
+      "duration",
+      budget.maxDurationMs,
+      spent.durationMs,
+      nextIteration.durationMs,
+    ],
+  ] as const;
+
+  for (const [name, limit, used, next] of checks) {
+    if (limit !== undefined && (used >= limit || used + next > limit)) {
+      return { budget: name, limit, spent: used };
+    }
+  }
+  return null;
+}
+
+/** Rough token cost of an LLM prompt besides the text itself. */
+const PROMPT_OVERHEAD_TOKENS = 800;
+
+/** Characters per token, for estimates before any call has been made. */
+const CHARS_PER_TOKEN = 4;
+
+/** Reply length of an analysis or summary call, in tokens. */
+const REPORT_OUTPUT_TOKENS = 400;
+
+/** Characters of the final text a summary prompt quotes. */
+const SUMMARY_TEXT_LENGTH = 4000;
+
+/** USD for a number of tokens at `price`; $0 without a price. */
+function priceTokens(
+  price: ModelPrice | undefined,
+  inputTokens: number,
+  outputTokens: number,
+): number {
+  return price
+    ? (inputTokens * price.input_per_million +
+        outputTokens * price.output_per_million) /
+        1_000_000
+    : 0;
+}
+
+/**
+ * What the first optimize iteration is expected to cost, before there is
+ * an iteration to average over. Each candidate rewrite reads the text and
+ * writes it back, priced for the rewrite model, and its fidelity check
+ * reads both versions, priced for the fidelity model; each shortlisted
+ * rewrite is scored like the baseline was. Calls to a model without a
+ * price are estimated at $0.
+ * @internal Exported for testing
+ */
+export function estimateFirstIteration(
+  textLength: number,
+  candidateCount: number,
+  scoredCount: number,
+  baselineScoring: RunSpend,
+  rewritePrice: ModelPrice | undefined,
+  fidelityPrice: ModelPrice | undefined,
+): RunSpend {
+  const textTokens = Math.ceil(textLength / CHARS_PER_TOKEN);
+  const rewriteInput = candidateCount * (PROMPT_OVERHEAD_TOKENS + textTokens);
+  const rewriteOutput = candidateCount * textTokens;
+  const fidelityInput =
+    candidateCount * (PROMPT_OVERHEAD_TOKENS + 2 * textTokens);
+  return {
+    tokens:
+      rewriteInput +
+      rewriteOutput +
+      fidelityInput +
+      scoredCount * baselineScoring.tokens,
+    costUsd:
+      priceTokens(rewritePrice, rewriteInput, rewriteOutput) +
+      priceTokens(fidelityPrice, fidelityInput, 0) +
+      scoredCount * baselineScoring.costUsd,
+    durationMs: scoredCount * baselineScoring.durationMs,
+  };
+}
+
+/**
+ * What one analysis or summary call is expected to cost, for a prompt
+ * quoting `promptLength` characters of text and history. Its duration is
+ * not estimated, so only a time budget already used up stops it.
+ * @internal Exported for testing
+ */
+export function estimateReportCall(
+  promptLength: number,
+  price: ModelPrice | undefined,
+): RunSpend {
+  const inputTokens =
+    PROMPT_OVERHEAD_TOKENS + Math.ceil(promptLength / CHARS_PER_TOKEN);
+  return {
+    tokens: inputTokens + REPORT_OUTPUT_TOKENS,
+    costUsd: priceTokens(price, inputTokens, REPORT_OUTPUT_TOKENS),
+    durationMs: 0,
+  };
+}
+
+/**
+ * Warn that a cost budget cannot see calls to models without a price, since
+ * they count as $0 against it. Null when every model is priced.
+ */
+function describeUnpricedModels(models: string[]): string | null {
+  if (models.length === 0) {
+    return null;
+  }
+  return `The cost budget counts calls to ${models.join(", ")} as $0: the price table has no price for ${models.length === 1 ? "it" : "them"}. Add one with PRICE_TABLE_FILE to enforce the budget.`;
+}
+
+const BUDGET_LABELS: Record<
+  BudgetStop["budget"],
+  [string, (amount: number) => string]
+> = {
+  tokens: ["token", (amount) => `${Math.round(amount)} tokens`],
+  cost: ["cost", (amount) => `$${amount.toFixed(4)}`],
+  duration: ["time", (amount) => `${Math.round(amount / 1000)}s`],
+};
+
+/** Explain an analysis or summary skipped for its budget, for the notes. */
+function describeSkippedReport(
+  report: "analysis" | "summary",
+  stop: BudgetStop,
+): string {
+  const [label, format] = BUDGET_LABELS[stop.budget];
+  return `No ${report} was generated: the ${label} budget has ${format(stop.spent)} used of ${format(stop.limit)}, not enough for the ${report} call.`;
+}
+
+/** Explain a budget stop, for the result notes. */
+function describeBudgetStop(stop: BudgetStop, iterationsUsed: number): string {
+  const [label, format] = BUDGET_LABELS[stop.budget];
+  return `Stopped by the ${label} budget after ${iterationsUsed} iteration(s): ${format(stop.spent)} used of ${format(stop.limit)}, not enough for another iteration. The best candidate so far is returned.`;
+}
+
+/**
+ * The configured browser providers in failover order. Holds the active
+ * provider and session; when creating a session or scoring still fails after
+ * retries, the session is closed and the next provider takes over. The first
+ * session is opened by `run`, so a run served entirely from the score cache
+ * never starts a browser. With a `usage` tracker, the time each session is
+ * held is recorded.
+ * @internal Exported for testing
+ */
+export class BrowserProviderChain {
+  private readonly appConfig: AppConfig;
+  private readonly sessionOptions: SessionOptions;
+  private readonly signal: AbortSignal | undefined;
+  private readonly usage: UsageTracker | undefined;
+  private index = -1;
+  private provider: BrowserProvider | null = null;
+  private sessionId: string | null = null;
+  private liveUrl: string | null = null;
+  private endSession: (() => void) | null = null;
+  private failoverNotes: string[] = [];
+
+  constructor(
+    appConfig: AppConfig,
+    sessionOptions: SessionOptions,
+    signal?: AbortSignal,
+    usage?: UsageTracker,
+  ) {
+    this.appConfig = appConfig;
+    this.sessionOptions = sessionOptions;
+    this.signal = signal;
+    this.usage = usage;
+  }
+
+  /** Debug URL of the active session, if the provider exposes one. */
+  getLiveUrl(): string | null {
+    return this.liveUrl;
+  }
+
+  /** Whether a provider currently holds an open session. */
+  isConnected(): boolean {
+    return this.provider !== null && this.sessionId !== null;
+  }
+
+  /** Name of the active provider, or of the next one to be connected. */
+  getProviderName(): string {
+    return (
+      this.provider?.providerName ??
+      this.appConfig.browserProviders[Math.max(this.index, 0)] ??
+      "stagehand"
+    );
+  }
+
+  /**
+   * Failover notes recorded since the last call, for the next history entry.
+   */
+  takeFailoverNotes(): string {
+    const notes = this.failoverNotes.join(" ");
+    this.failoverNotes = [];
+    return notes;
+  }
+
+  /** Open a session on the next provider that can create one. */
+  async connect(): Promise<void> {
+    await this.advance();
+    if (!this.provider || !this.sessionId) {
+      throw new Error("No browser provider left to connect");
+    }
+  }
+
+  /**
+   * Run a browser operation on the active session, failing over to the next
+   * provider (and re-running the operation there) when it throws. A
+   * cancelled run never fails over.
+   */
+  async run<T>(
+    operation: (provider: BrowserProvider, sessionId: string) => Promise<T>,
+  ): Promise<T> {
+    for (;;) {
+      if (!this.provider || !this.sessionId) {
+        await this.connect();
+      }
+      if (!this.provider || !this.sessionId) {
+        throw new Error("No browser provider left to connect");
+      }
+      try {
+        return await operation(this.provider, this.sessionId);
+      } catch (error) {
+        if (this.signal?.aborted || !this.hasNext()) {
+          throw error;
+        }
+        this.recordFailover(this.provider.providerName, error);
+        await this.close();
+        await this.connect();
+      }
+    }
+  }
+
+  /** Close the active session, if any. Never throws. */
+  async close(): Promise<void> {
+    const { provider, sessionId } = this;
+    const endSession = this.endSession;
+    this.provider = null;
+    this.sessionId = null;
+    this.liveUrl = null;
+    this.endSession = null;
+    if (!provider || !sessionId) {
+      return;
+    }
+    try {
+      await provider.closeSession(sessionId);
+      log("debug", "Browser session closed", { sessionId });
+    } catch (error) {
+      log("warn", "Failed to close browser session", { sessionId, error });
+    } finally {
+      endSession?.();
+    }
+  }
+
+  private hasNext(): boolean {
+    return this.index + 1 < this.appConfig.browserProviders.length;
+  }
+
+  private recordFailover(from: string, error: unknown): void {
+    const to = this.appConfig.browserProviders[this.index + 1];
+    log("warn", "Browser provider failed; failing over", {
+      from,
+      to,
+      error: errorMessage(error),
+    });
+    this.failoverNotes.push(
+      `Provider failover: ${from} -> ${to} (${errorMessage(error)}).`,
+    );
+  }
+
+  /** Create provider and session for the next configured provider. */
+  private async advance(): Promise<void> {
+    while (this.hasNext()) {
+      this.index += 1;
+      const name = this.appConfig.browserProviders[this.index] ?? "stagehand";
+      const providerConfig: AppConfig = {
+        ...this.appConfig,
+        browserProvider: name,
+      };
+
+      let provider: BrowserProvider | undefined;
+      try {
+        provider = await withRetry(
+          () => createBrowserProvider(providerConfig),
+          {
+            maxRetries: 2,
+            backoffMs: 1000,
+            label: "createProvider",
+            signal: this.signal,
+          },
+        );
+        const activeProvider = provider;
+
+        log("info", `Using browser provider: ${activeProvider.providerName}`);
+
+        const sessionResult = await withRetry(
+          () => activeProvider.createSession(this.sessionOptions),
+          {
+            maxRetries: 3,
+            backoffMs: 1000,
+            label: "createSession",
+            signal: this.signal,
+          },
+        );
+
+        this.provider = activeProvider;
+        this.sessionId = sessionResult.sessionId;
+        this.liveUrl = sessionResult.liveUrl;
+        this.endSession =
+          this.usage?.startSession(activeProvider.providerName) ?? null;
+
+        log("info", "Browser session created", {
+          sessionId: sessionResult.sessionId,
+          liveUrl: sessionResult.liveUrl,
+          provider: activeProvider.providerName,
+        });
+        return;
+      } catch (error) {
+        if (this.signal?.aborted || !this.hasNext()) {
+          throw error;
+        }
+        this.recordFailover(provider?.providerName ?? name, error);
+      }
+    }
+  }
+}
+
+/** Rewrite text once with the configured strategy, given its current scores. */
+function rewriteWithSettings(
+  appConfig: AppConfig,
+  text: string,
+  scores: GrammarlyScores,
+  settings: RewriteSettings,
+  signal?: AbortSignal,
+  onUsage?: LlmUsageCallback,
+  options: RewriteOptions = {},
+): Promise<RewriteResult> {
+  const rewrite =
+    settings.strategy === "paragraph" ? rewriteTextByParagraph : rewriteText;
+  return rewrite(appConfig, {
+    originalText: text,
+    lastAiPercent: scores.aiDetectionPercent,
+    lastPlagiarismPercent: scores.plagiarismPercent,
+    targetMaxAiPercent: settings.max_ai_percent,
+    targetMaxPlagiarismPercent: settings.max_plagiarism_percent,
+    tone: settings.tone,
+    domainHint: settings.domain_hint,
+    customInstructions: settings.custom_instructions,
+    protectedPatterns: settings.protected_patterns,
+    maxIterations: settings.max_iterations,
+    aiFlaggedSentences: scores.aiFlaggedSentences,
+    plagiarismMatches: scores.plagiarismMatches,
+    ...options,
+    abortSignal: signal,
+    onUsage,
+  });
+}
+
+/** Rewrites that stay below the fidelity floor are requested again. */
+const MAX_FIDELITY_ATTEMPTS = 3;
+
+/** What the fidelity check compares a rewrite against. */
+interface FidelityTarget {
+  originalText: string;
+  floor: number;
+}
+
+/** A rewrite that passed the fidelity check. */
+interface CheckedRewrite extends RewriteResult {
+  fidelity: FidelityJudgment;
+  /** Attempts it took, counting rewrites rejected by the check. */
+  attempts: number;
+}
+
+/**
+ * Score how much of the original a rewrite kept: the lower of the local fact
+ * check (entities, numbers, dates, citations) and the LLM meaning judgment,
+ * with the lost facts of both.
+ */
+async function checkFidelity(
+  appConfig: AppConfig,
+  originalText: string,
+  rewrittenText: string,
+  signal: AbortSignal | undefined,
+  onUsage: LlmUsageCallback,
+): Promise<FidelityJudgment> {
+  const facts = checkFacts(originalText, rewrittenText);
+  const judgment = await judgeFidelity(
+    appConfig,
+    originalText,
+    rewrittenText,
+    signal,
+    onUsage,
+  );
+
+  const lostFacts: string[] = [];
+  const seen = new Set<string>();
+  for (const fact of [
+    ...facts.lost.map((lost) => lost.text),
+    ...judgment.lostFacts,
+  ]) {
+    const key = fact.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      lostFacts.push(fact.trim());
+    }
+  }
+
+  return { score: Math.min(facts.score, judgment.score), lostFacts };
+}
+
+/**
+ * Rewrite and check the result against the original. A rewrite below the
+ * fidelity floor is rejected and requested again, with its lost facts in the
+ * prompt, up to MAX_FIDELITY_ATTEMPTS times.
+ */
+async function rewriteWithFidelity(
+  appConfig: AppConfig,
+  text: string,
+  scores: GrammarlyScores,
+  settings: RewriteSettings,
+  signal: AbortSignal | undefined,
+  onUsage: LlmUsageCallback,
+  options: RewriteOptions,
+  target: FidelityTarget,
+): Promise<CheckedRewrite> {
+  let lostFacts: string[] | undefined;
+  let lastScore = 0;
+  for (let attempt = 1; attempt <= MAX_FIDELITY_ATTEMPTS; attempt++) {
+    signal?.throwIfAborted();
+    const rewrite = await rewriteWithSettings(
+      appConfig,
+      text,
+      scores,
+      settings,
+      signal,
+      onUsage,
+      { ...options, lostFacts },
+    );
+    const fidelity = await checkFidelity(
+      appConfig,
+      target.originalText,
+      rewrite.rewrittenText,
+      signal,
+      onUsage,
+    );
+    if (fidelity.score >= target.floor) {
+      return { ...rewrite, fidelity, attempts: attempt };
+    }
+
+    log("warn", "Rewrite rejected by the fidelity check", {
+      attempt,
+      maxAttempts: MAX_FIDELITY_ATTEMPTS,
+      fidelityScore: fidelity.score,
+      floor: target.floor,
+      lostFacts: fidelity.lostFacts,
+    });
+    lostFacts = fidelity.lostFacts;
+    lastScore = fidelity.score;
+  }
+
+  throw new Error(
+    `Rewrite failed: fidelity score ${lastScore} stayed below the floor of ${target.floor} after ${MAX_FIDELITY_ATTEMPTS} attempts (lost: ${lostFacts?.join("; ") || "none listed"})`,
+  );
+}
+
+/**
+ * Generate `count` candidate rewrites in parallel, one per REWRITE_VARIANTS
+ * entry, each passing the fidelity check. Failed candidates are dropped; the
+ * call only fails when all do.
+ */
+async function generateRewriteCandidates(
+  appConfig: AppConfig,
+  text: string,
+  scores: GrammarlyScores,
+  settings: RewriteSettings,
+  count: number,
+  signal: AbortSignal | undefined,
+  onUsage: LlmUsageCallback,
+  backfiredRewrite: BackfiredRewrite | undefined,
+  target: FidelityTarget,
+): Promise<CheckedRewrite[]> {
+  const settled = await Promise.allSettled(
+    REWRITE_VARIANTS.slice(0, count).map((variant) =>
+      rewriteWithFidelity(
+        appConfig,
+        text,
+        scores,
+        settings,
+        signal,
+        onUsage,
+        { ...variant, backfiredRewrite },
+        target,
+      ),
+    ),
+  );
+
+  const rewrites: CheckedRewrite[] = [];
+  const failures: unknown[] = [];
+  for (const outcome of settled) {
+    if (outcome.status === "fulfilled") {
+      rewrites.push(outcome.value);
+    } else {
+      failures.push(outcome.reason);
+    }
+  }
+
+  if (rewrites.length === 0) {
+    throw failures[0];
+  }
+  if (failures.length > 0) {
+    log("warn", "Dropped failed candidate rewrites", {
+      failed: failures.length,
+      generated: rewrites.length,
+      error: errorMessage(failures[0]),
+    });
+  }
+  return rewrites;
+}
+
+/** A candidate rewrite with its local AI-likeness estimate (0-100). */
+export type RankedRewrite<T extends RewriteResult = RewriteResult> = T & {
+  estimatedAiScore: number;
+};
+
+/**
+ * The local pre-filter for candidate rewrites: drop duplicates and order the
+ * rest by estimated AI-likeness, lowest first (ties keep generation order).
+ * Only the top of this list is sent to Grammarly.
+ * @internal Exported for testing
+ */
+export function rankRewriteCandidates<T extends RewriteResult>(
+  rewrites: T[],
+): RankedRewrite<T>[] {
+  const seen = new Set<string>();
+  const unique = rewrites.filter((rewrite) => {
+    if (seen.has(rewrite.rewrittenText)) {
+      return false;
+    }
+    seen.add(rewrite.rewrittenText);
+    return true;
+  });
+  return unique
+    .map((rewrite) => ({
+      ...rewrite,
+      estimatedAiScore: estimateAiScore(rewrite.rewrittenText),
+    }))
+    .sort((a, b) => a.estimatedAiScore - b.estimatedAiScore);
+}
+
+/** Mention rewrites the fidelity check rejected, for history notes. */
+function describeFidelityRetries(rewrite: CheckedRewrite): string {
+  return rewrite.attempts > 1
+    ? ` The fidelity check rejected ${rewrite.attempts - 1} earlier attempt(s).`
+    : "";
+}
+
+/** Explain how the iteration's candidate was picked, for history notes. */
+function describeCandidateSelection(
+  rewrites: RankedRewrite[],
+  scored: ScoredRewrite[],
+  chosen: ScoredRewrite,
+): string {
+  if (rewrites.length <= 1) {
+    return "";
+  }
+  const estimates = rewrites.map((rewrite) => rewrite.estimatedAiScore);
+  const others = scored
+    .filter((candidate) => candidate !== chosen)
+    .map(
+      (candidate) =>
+        `AI ${candidate.scores.aiDetectionPercent ?? "N/A"}%, plagiarism ${candidate.scores.plagiarismPercent ?? "N/A"}%`,
+    );
+  const othersText =
+    others.length > 0 ? ` Other scored rewrites: ${others.join("; ")}.` : "";
+  return ` Best of ${rewrites.length} rewrites; the local pre-filter (estimated AI-likeness ${estimates.join(", ")}) sent ${scored.length} to Grammarly.${othersText}`;
+}
+
+/**
+ * Single LLM rewrite for grammarly_rewrite. Uses the same prompt, strategy,
+ * protected-span handling and fidelity check as an optimize iteration, but
+ * takes the current scores from the caller and never opens a browser
+ * session.
+ */
+export async function runRewrite(
+  appConfig: AppConfig,
+  input: RewriteToolInput,
+  signal?: AbortSignal,
+): Promise<RewriteToolResult> {
+  log("info", "Rewriting text without browser scoring", {
+    strategy: input.strategy,
+    ai_detection_percent: input.ai_detection_percent,
+    plagiarism_percent: input.plagiarism_percent,
+  });
+
+  const usage = new UsageTracker();
+  const result = await rewriteWithFidelity(
+    appConfig,
+    input.text,
+    {
+      aiDetectionPercent: input.ai_detection_percent,
+      plagiarismPercent: input.plagiarism_percent,
+    },
+    // A one-off rewrite is a single iteration for model selection.
+    { ...input, max_iterations: 1 },
+    signal,
+    (call) => usage.recordLlmCall(call),
+    {},
+    {
+      originalText: input.text,
+      floor: input.fidelity_floor ?? appConfig.fidelityFloor,
+    },
+  );
+
+  return {
+    rewritten_text: result.rewrittenText,
+    reasoning: result.reasoning,
+    strategy: input.strategy,
+    fidelity_score: result.fidelity.score,
+    lost_facts: result.fidelity.lostFacts,
+    attempts: result.attempts,
+    usage: usage.toUsage(getPriceTable(appConfig.priceTableFile)),
+  };
+}
+
+/**
+ * Score a document, serving it from the score cache when a fresh entry exists
+ * for the active provider. Fresh scores are written back unless either score
+ * is unavailable, so a transient UI problem is retried next time;
+ * `bypassCache` skips the lookup but still refreshes the entry. Fresh
+ * scoring work is recorded in `usage`.
+ */
+async function scoreWithCache(
+  chain: BrowserProviderChain,
+  cache: ScoreCache | null,
+  text: string,
+  options: ScoreOptions & {
+    label: string;
+    bypassCache: boolean;
+    usage?: UsageTracker;
+  },
+): Promise<DocumentScoreResult> {
+  const { bypassCache, usage, ...scoreOptions } = options;
+
+  if (cache && !bypassCache) {
+    const hit = await cache.get(text, chain.getProviderName());
+    if (hit) {
+      log("info", "Using cached Grammarly scores", {
+        label: scoreOptions.label,
+        provider: hit.provider,
+        cachedAt: hit.cachedAt,
+      });
+      return { ...hit, liveUrl: chain.getLiveUrl() };
+    }
+  }
+
+  const scores = await chain.run((provider, sessionId) =>
+    scoreDocument(provider, sessionId, text, scoreOptions),
+  );
+  usage?.recordScoring(scores.usage);
+
+  if (
+    cache &&
+    scores.aiDetectionPercent !== null &&
+    scores.plagiarismPercent !== null
+  ) {
+    await cache.set(text, scores);
+  }
+  return scores;
+}
+
+/** Prefix a history note with any provider failovers that preceded it. */
+function withFailoverNotes(chain: BrowserProviderChain, note: string): string {
+  const failovers = chain.takeFailoverNotes();
+  return failovers ? `${failovers} ${note}` : note;
+}
+
+/**
+ * Partial result for a cancelled (`error` null) or failed run: the best
+ * candidate scored so far (the original text if nothing was scored yet) and
+ * the history up to the point the run stopped.
+ */
+function buildPartialResult(
+  originalText: string,
+  candidates: OptimizationCandidate[],
+  history: HistoryEntry[],
+  liveUrl: string | null,
+  error: RunError | null,
+  usage: RunUsage,
+  granularity: DiffGranularity,
+): GrammarlyOptimizeResult {
+  const cancelled = error === null;
+
+  if (candidates.length === 0) {
+    return {
+      final_text: originalText,
+      ai_detection_percent: null,
+      plagiarism_percent: null,
+      iterations_used: 0,
+      thresholds_met: false,
+      history,
+      changes: [],
+      notes: cancelled
+        ? "Run cancelled before the text was scored."
+        : `Run failed during ${error.phase} before the text was scored (${error.code}): ${error.message}`,
+      live_url: liveUrl,
+      selected_iteration: 0,
+      chunked: false,
+      truncated: false,
+      chunk_scores: [],
+      stop_reason: null,
+      cancelled,
+      error,
+      usage,
+    };
+  }
+
+  const best = selectBestCandidate(candidates);
+  for (const entry of history) {
+    entry.selected = entry.iteration === best.iteration;
+  }
+  const completed = candidates.length - 1;
+  const stopped = cancelled
+    ? `Run cancelled after ${completed} completed iteration(s)`
+    : `Run failed during ${error.phase} after ${completed} completed iteration(s) (${error.code}: ${error.message})`;
+
+  return {
+    final_text: best.text,
+    ai_detection_percent: best.scores.aiDetectionPercent,
+    plagiarism_percent: best.scores.plagiarismPercent,
+    iterations_used: completed,
+    thresholds_met: best.thresholdsMet,
+    history,
+    changes: listChanges(diffText(originalText, best.text, granularity)),
+    notes: `${stopped}; returning the best text scored so far (iteration ${best.iteration}).`,
+    live_url: liveUrl,
+    provider: best.scores.provider,
+    selected_iteration: best.iteration,
+    chunked: best.scores.chunked,
+    truncated: best.scores.truncated,
+    chunk_scores: toChunkScoreEntries(best.scores),
+    stop_reason: null,
+    cancelled,
+    error,
+    usage,
+  };
+}
+
+/**
+ * Orchestrates scoring, analysis, or iterative optimization via browser automation
+ * and Claude. Supports both Stagehand (Browserbase) and Browser Use Cloud providers.
+ * Includes MCP 2025-11-25 progress notifications.
+ *
+ * Aborting `signal` stops work at the next safe point (between automation
+ * steps, retries and LLM calls), closes the session and resolves with a
+ * partial result (`cancelled: true`) instead of throwing. Failures resolve
+ * the same way, with `error` classifying what failed and in which phase.
+ */
+export async function runGrammarlyOptimization(
+  appConfig: AppConfig,
+  input: GrammarlyOptimizeInput,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<GrammarlyOptimizeResult> {
+  const {
+    text,
+    mode,
+    max_ai_percent,
+    max_plagiarism_percent,
+    max_iterations,
+    strategy,
+    tone,
+    domain_hint,
+    proxy_country_code,
+    max_steps,
+    bypass_cache,
+    diff_granularity,
+  } = input;
+  const startedAt = Date.now();
+  const budget: RunBudget = {
+    maxTokens: input.max_tokens ?? appConfig.budgetMaxTokens,
+    maxCostUsd: input.max_cost_usd ?? appConfig.budgetMaxCostUsd,
+    maxDurationMs:
+      input.max_duration_seconds !== undefined
+        ? input.max_duration_seconds * 1000
+        : appConfig.budgetMaxDurationMs,
+  };
+
+  const history: HistoryEntry[] = [];
+  // Every scored text is a candidate; the best one is returned even if later
+  // rewrites regress (or the run is cancelled).
+  const candidates: OptimizationCandidate[] = [];
+
+  let currentText = text;
+  let lastScores: DocumentScoreResult | null = null;
+  let iterationsUsed = 0;
+  let reachedThresholds = false;
+  // Updated before each step so a failure can be attributed to it.
+  let phase: RunPhase = "scoring";
+  const usage = new UsageTracker();
+  const prices = getPriceTable(appConfig.priceTableFile);
+  const recordLlmCall: LlmUsageCallback = (call) => usage.recordLlmCall(call);
+  const spentSoFar = (): RunSpend => {
+    const totals = usage.toUsage(prices);
+    return {
+      tokens: totals.input_tokens + totals.output_tokens,
+      costUsd: totals.estimated_cost_usd,
+      durationMs: Date.now() - startedAt,
+    };
+  };
+
+  // Progress: Creating browser session
+  await onProgress?.(
+    `Creating ${PROVIDER_LABELS[appConfig.browserProvider]} session...`,
+    5,
+  );
+
+  // Providers are tried in configured order; later ones take over when
+  // session creation or scoring keeps failing.
+  const chain = new BrowserProviderChain(
+    appConfig,
+    { proxyCountryCode: proxy_country_code },
+    signal,
+    usage,
+  );
+  const cache = appConfig.scoreCacheDir
+    ? new ScoreCache(appConfig.scoreCacheDir, appConfig.scoreCacheTtlMs)
+    : null;
+
+  try {
+    signal?.throwIfAborted();
+
+    // Progress: Initial scoring
+    await onProgress?.("Running initial Grammarly scoring...", 10);
+    log("info", "Running initial Grammarly scoring pass");
+
+    // Baseline scoring (iteration 0 before optimization loop) with retry
+    const baselineText = currentText;
+    lastScores = await scoreWithCache(chain, cache, baselineText, {
+      maxSteps: max_steps,
+      iteration: 0,
+      mode,
+      flashMode: mode === "score_only",
+      label: "initialScore",
+      signal,
+      bypassCache: bypass_cache,
+      usage,
+    });
+
+    reachedThresholds = thresholdsMet(
+      lastScores,
+      max_ai_percent,
+      max_plagiarism_percent,
+    );
+
+    history.push({
       iteration: 0,
       ai_detection_percent: lastScores.aiDetectionPercent,
       plagiarism_percent: lastScores.plagiarismPercent,
-      note: "Baseline Grammarly scores on original text (iteration 0).",
+      note: withFailoverNotes(
+        chain,
+        `Baseline Grammarly scores on original text (iteration 0).${describeChunking(lastScores)}${describeCache(lastScores)}`,
+      ),
+      candidate_text: currentText,
+      selected: true,
+      provider: lastScores.provider,
+      ...toHighlightFields(lastScores),
+    });
+    candidates.push({
+      iteration: 0,
+      text: currentText,
+      scores: lastScores,
+      thresholdsMet: reachedThresholds,
     });
 
     if (mode === "score_only") {
       await onProgress?.("Scoring complete", 100);
 
-      reachedThresholds = thresholdsMet(
-        lastScores,
-        max_ai_percent,
-        max_plagiarism_percent,
-      );
-
       const notes = reachedThresholds
         ? "Score-only run: original text already meets configured AI and plagiarism thresholds."
         : "Score-only run: thresholds not met or scores unavailable; no rewriting performed.";
@@ -348,31 +1889,51 @@ export async function runGrammarlyOptimization(
         iterations_used: 0,
         thresholds_met: reachedThresholds,
         history,
+        changes: [],
         notes,
-        live_url: liveUrl,
-        provider: activeProvider.providerName,
+        live_url: chain.getLiveUrl(),
+        provider: lastScores.provider,
+        selected_iteration: 0,
+        chunked: lastScores.chunked,
+        truncated: lastScores.truncated,
+        chunk_scores: toChunkScoreEntries(lastScores),
+        stop_reason: null,
+        cancelled: false,
+        error: null,
+        usage: usage.toUsage(prices),
       };
     }
 
     if (mode === "analyze") {
+      signal?.throwIfAborted();
+      phase = "analysis";
       await onProgress?.("Analyzing text with Claude...", 50);
 
-      const analysis = await analyzeText(
-        appConfig,
-        currentText,
-        lastScores.aiDetectionPercent,
-        lastScores.plagiarismPercent,
-        max_ai_percent,
-        max_plagiarism_percent,
-        tone,
-        domain_hint,
-      );
-
-      reachedThresholds = thresholdsMet(
-        lastScores,
-        max_ai_percent,
-        max_plagiarism_percent,
+      const analysisStop = findExceededBudget(
+        budget,
+        spentSoFar(),
+        estimateReportCall(
+          currentText.length,
+          prices.models[getRewriteModelId(appConfig, currentText.length, 1)],
+        ),
       );
+      if (analysisStop) {
+        log("info", "Budget reached; skipping analysis", analysisStop);
+      }
+      const analysis = analysisStop
+        ? describeSkippedReport("analysis", analysisStop)
+        : await analyzeText(
+            appConfig,
+            currentText,
+            lastScores.aiDetectionPercent,
+            lastScores.plagiarismPercent,
+            max_ai_percent,
+            max_plagiarism_percent,
+            tone,
+            domain_hint,
+            signal,
+            recordLlmCall,
+          );
 
       await onProgress?.("Analysis complete", 100);
 
@@ -383,21 +1944,102 @@ export async function runGrammarlyOptimization(
         iterations_used: 0,
         thresholds_met: reachedThresholds,
         history,
+        changes: [],
         notes: analysis,
-        live_url: liveUrl,
-        provider: activeProvider.providerName,
+        live_url: chain.getLiveUrl(),
+        provider: lastScores.provider,
+        selected_iteration: 0,
+        chunked: lastScores.chunked,
+        truncated: lastScores.truncated,
+        chunk_scores: toChunkScoreEntries(lastScores),
+        stop_reason: null,
+        cancelled: false,
+        error: null,
+        usage: usage.toUsage(prices),
       };
     }
 
-    // Mode: optimize
+    // Mode: optimize.
     await onProgress?.("Starting optimization loop...", 15);
     log("info", "Starting optimization loop", {
       max_iterations,
+      strategy,
       max_ai_percent,
       max_plagiarism_percent,
+      budget,
     });
 
+    // Budgets are checked before each iteration, which is expected to cost
+    // as much as the average one so far (the first one is estimated from the
+    // text length and the baseline scoring).
+    const loopStart = spentSoFar();
+    let stopReason: StopReason = "max_iterations";
+    let stopNote: string | null = null;
+    // Each rewrite starts from the best text so far, so a rewrite that makes
+    // the scores worse is reverted and the next prompt is told it backfired.
+    let bestSoFar = selectBestCandidate(candidates);
+    let backfiredRewrite: BackfiredRewrite | undefined;
+    let iterationsWithoutImprovement = 0;
+    const fidelityTarget: FidelityTarget = {
+      originalText: text,
+      floor: input.fidelity_floor ?? appConfig.fidelityFloor,
+    };
+    const candidateCount = input.candidates_per_iteration ?? 1;
+    const scoredCount = Math.min(
+      input.scored_candidates_per_iteration ?? 1,
+      candidateCount,
+    );
+    const rewriteModelId = getRewriteModelId(
+      appConfig,
+      text.length,
+      max_iterations,
+    );
+    // Fidelity checks pick their model as a one-off call.
+    const fidelityModelId = getRewriteModelId(appConfig, text.length, 1);
+    const firstIteration = estimateFirstIteration(
+      text.length,
+      candidateCount,
+      scoredCount,
+      loopStart,
+      prices.models[rewriteModelId],
+      prices.models[fidelityModelId],
+    );
+    const unpricedModels = [
+      ...new Set([rewriteModelId, fidelityModelId]),
+    ].filter((model) => !prices.models[model]);
+    if (budget.maxCostUsd !== undefined && unpricedModels.length > 0) {
+      log("warn", "Cost budget set, but a rewrite model has no price", {
+        models: unpricedModels,
+        maxCostUsd: budget.maxCostUsd,
+      });
+    }
+
     for (let iteration = 1; iteration <= max_iterations; iteration += 1) {
+      signal?.throwIfAborted();
+
+      const spent = spentSoFar();
+      const completed = iteration - 1;
+      const perIteration = (total: number) => total / completed;
+      const budgetStop = findExceededBudget(
+        budget,
+        spent,
+        completed === 0
+          ? firstIteration
+          : {
+              tokens: perIteration(spent.tokens - loopStart.tokens),
+              costUsd: perIteration(spent.costUsd - loopStart.costUsd),
+              durationMs: perIteration(spent.durationMs - loopStart.durationMs),
+            },
+      );
+      if (budgetStop) {
+        log("info", "Budget reached; stopping optimization", {
+          ...budgetStop,
+          iterationsUsed,
+        });
+        stopReason = "budget";
+        stopNote = describeBudgetStop(budgetStop, iterationsUsed);
+        break;
+      }
       iterationsUsed = iteration;
 
       // Progress is iteration-based (not wall clock): 15–85% reserved for loop.
@@ -406,23 +2048,27 @@ export async function runGrammarlyOptimization(
         Math.min(85, 15 + ((iteration - 1) / max_iterations) * 70),
       );
       await onProgress?.(
-        `Iteration ${iteration}/${max_iterations}: Rewriting with Claude...`,
+        candidateCount > 1
+          ? `Iteration ${iteration}/${max_iterations}: Generating ${candidateCount} rewrites with Claude...`
+          : `Iteration ${iteration}/${max_iterations}: Rewriting with Claude...`,
         iterationProgress,
       );
 
-      const rewriteResult = await rewriteText(appConfig, {
-        originalText: currentText,
-        lastAiPercent: lastScores.aiDetectionPercent,
-        lastPlagiarismPercent: lastScores.plagiarismPercent,
-        targetMaxAiPercent: max_ai_percent,
-        targetMaxPlagiarismPercent: max_plagiarism_percent,
-        tone,
-        domainHint: domain_hint,
-        customInstructions: custom_instructions,
-        maxIterations: max_iterations,
-      });
-
-      currentText = rewriteResult.rewrittenText;
+      phase = "rewrite";
+      const rewrites = rankRewriteCandidates(
+        await generateRewriteCandidates(
+          appConfig,
+          currentText,
+          lastScores,
+          input,
+          candidateCount,
+          signal,
+          recordLlmCall,
+          backfiredRewrite,
+          fidelityTarget,
+        ),
+      );
+      const shortlist = rewrites.slice(0, scoredCount);
 
       // Progress: Re-scoring for this iteration.
       const scoringProgress = Math.max(
@@ -434,33 +2080,82 @@ export async function runGrammarlyOptimization(
         scoringProgress,
       );
 
-      // Re-score the new candidate with retry logic
-      lastScores = await withRetry(
-        () =>
-          activeProvider.scoreText(activeSessionId, currentText, {
+      // Re-score the shortlisted rewrites with retry logic; the best of them
+      // is this iteration's candidate.
+      phase = "scoring";
+      const scored: ScoredRewrite[] = [];
+      for (const [index, rewrite] of shortlist.entries()) {
+        const scores = await scoreWithCache(
+          chain,
+          cache,
+          rewrite.rewrittenText,
+          {
             maxSteps: max_steps,
             iteration,
             mode,
             flashMode: false,
-          }),
-        {
-          maxRetries: 2,
-          backoffMs: 2000,
-          label: `score-iteration-${iteration}`,
-        },
-      );
+            label:
+              shortlist.length > 1
+                ? `score-iteration-${iteration}-${index + 1}`
+                : `score-iteration-${iteration}`,
+            signal,
+            bypassCache: bypass_cache,
+            usage,
+          },
+        );
+        const met = thresholdsMet(
+          scores,
+          max_ai_percent,
+          max_plagiarism_percent,
+        );
+        scored.push({
+          iteration,
+          text: rewrite.rewrittenText,
+          scores,
+          thresholdsMet: met,
+          rewrite,
+        });
+        if (met) {
+          // Nothing left to gain from scoring the rest.
+          break;
+        }
+      }
 
-      reachedThresholds = thresholdsMet(
-        lastScores,
-        max_ai_percent,
-        max_plagiarism_percent,
-      );
+      const chosen = selectBestCandidate(scored);
+      const rewriteResult = chosen.rewrite;
+      currentText = chosen.text;
+      lastScores = chosen.scores;
+      reachedThresholds = chosen.thresholdsMet;
+
+      const candidate: OptimizationCandidate = {
+        iteration,
+        text: currentText,
+        scores: lastScores,
+        thresholdsMet: reachedThresholds,
+      };
+      candidates.push(candidate);
+
+      const improvement =
+        combinedScore(bestSoFar.scores) - combinedScore(lastScores);
+      const regressed = improvement < 0 && !reachedThresholds;
+      const regressionNote = regressed
+        ? ` Scores got worse than iteration ${bestSoFar.iteration}; the next rewrite starts again from that text.`
+        : "";
 
       history.push({
         iteration,
         ai_detection_percent: lastScores.aiDetectionPercent,
         plagiarism_percent: lastScores.plagiarismPercent,
-        note: rewriteResult.reasoning,
+        note: withFailoverNotes(
+          chain,
+          `${rewriteResult.reasoning}${describeFidelityRetries(rewriteResult)}${describeCandidateSelection(rewrites, scored, chosen)}${describeChunking(lastScores)}${describeCache(lastScores)}${regressionNote}`,
+        ),
+        candidate_text: currentText,
+        selected: false,
+        provider: lastScores.provider,
+        fidelity_score: rewriteResult.fidelity.score,
+        lost_facts: rewriteResult.fidelity.lostFacts,
+        ...toHighlightFields(lastScores),
       });
 
       log("info", "Optimization iteration completed", {
@@ -468,53 +2163,335 @@ export async function runGrammarlyOptimization(
         aiDetectionPercent: lastScores.aiDetectionPercent,
         plagiarismPercent: lastScores.plagiarismPercent,
         thresholdsMet: reachedThresholds,
+        regressed,
       });
 
       if (reachedThresholds) {
+        stopReason = "thresholds_met";
+        break;
+      }
+
+      if (regressed) {
+        backfiredRewrite = {
+          aiDetectionPercent: lastScores.aiDetectionPercent,
+          plagiarismPercent: lastScores.plagiarismPercent,
+          reasoning: rewriteResult.reasoning,
+        };
+        currentText = bestSoFar.text;
+        lastScores = bestSoFar.scores;
+      } else {
+        backfiredRewrite = undefined;
+      }
+
+      iterationsWithoutImprovement =
+        improvement > 0 && improvement >= appConfig.plateauMinImprovement
+          ? 0
+          : iterationsWithoutImprovement + 1;
+      bestSoFar = selectBestCandidate([bestSoFar, candidate]);
+
+      if (
+        appConfig.plateauPatience > 0 &&
+        iterationsWithoutImprovement >= appConfig.plateauPatience &&
+        iteration < max_iterations
+      ) {
+        log("info", "Scores plateaued; stopping optimization", {
+          iteration,
+          iterationsWithoutImprovement,
+          minImprovement: appConfig.plateauMinImprovement,
+        });
+        stopReason = "plateau";
+        stopNote = `Stopped after ${iteration} iteration(s): the best combined AI + plagiarism score improved by less than ${appConfig.plateauMinImprovement} point(s) over the last ${iterationsWithoutImprovement} iteration(s). The best candidate so far is returned.`;
         break;
       }
     }
 
+    const best = selectBestCandidate(candidates);
+    for (const entry of history) {
+      entry.selected = entry.iteration === best.iteration;
+    }
+
+    log("info", "Selected best optimization candidate", {
+      iteration: best.iteration,
+      aiDetectionPercent: best.scores.aiDetectionPercent,
+      plagiarismPercent: best.scores.plagiarismPercent,
+      thresholdsMet: best.thresholdsMet,
+    });
+
     // Progress: Generating summary
+    signal?.throwIfAborted();
+    phase = "summary";
     await onProgress?.("Generating optimization summary...", 92);
 
-    // Final summary via LLM (optional but useful).
-    const notes = await summarizeOptimization(appConfig, {
-      mode,
-      iterationsUsed,
-      thresholdsMet: reachedThresholds,
-      history,
-      finalText: currentText,
-      maxAiPercent: max_ai_percent,
-      maxPlagiarismPercent: max_plagiarism_percent,
-    });
+    // Final summary via LLM (optional but useful), skipped when the budget
+    // has no room left for it. Candidate texts are omitted from the history
+    // to keep the prompt small.
+    const summaryHistory = history.map(
+      ({ candidate_text: _candidateText, ...entry }) => entry,
+    );
+    const summaryStop = findExceededBudget(
+      budget,
+      spentSoFar(),
+      estimateReportCall(
+        JSON.stringify(summaryHistory).length +
+          Math.min(best.text.length, SUMMARY_TEXT_LENGTH),
+        prices.models[getRewriteModelId(appConfig, best.text.length, 1)],
+      ),
+    );
+    if (summaryStop) {
+      log("info", "Budget reached; skipping summary", summaryStop);
+    }
+    const summary = summaryStop
+      ? describeSkippedReport("summary", summaryStop)
+      : await summarizeOptimization(
+          appConfig,
+          {
+            mode,
+            iterationsUsed,
+            thresholdsMet: best.thresholdsMet,
+            history: summaryHistory,
+            finalText: best.text,
+            maxAiPercent: max_ai_percent,
+            maxPlagiarismPercent: max_plagiarism_percent,
+          },
+          signal,
+          recordLlmCall,
+        );
+    const finalUsage = usage.toUsage(prices);
+    const unpricedNote =
+      budget.maxCostUsd === undefined
+        ? null
+        : describeUnpricedModels([
+            ...new Set(
+              finalUsage.components
+                .filter(
+                  (component) =>
+                    component.estimated_cost_usd === null && component.model,
+                )
+                .map((component) => component.model ?? ""),
+            ),
+          ]);
+    const notes = [summary, stopNote, unpricedNote]
+      .filter((part): part is string => part !== null)
+      .join("\n\n");
 
     // Progress: Complete
     await onProgress?.("Optimization complete", 100);
 
     return {
-      final_text: currentText,
-      ai_detection_percent: lastScores.aiDetectionPercent,
-      plagiarism_percent: lastScores.plagiarismPercent,
+      final_text: best.text,
+      ai_detection_percent: best.scores.aiDetectionPercent,
+      plagiarism_percent: best.scores.plagiarismPercent,
       iterations_used: iterationsUsed,
-      thresholds_met: reachedThresholds,
+      thresholds_met: best.thresholdsMet,
       history,
+      changes: listChanges(diffText(text, best.text, diff_granularity)),
       notes,
-      live_url: liveUrl,
-      provider: activeProvider.providerName,
+      live_url: chain.getLiveUrl(),
+      provider: best.scores.provider,
+      selected_iteration: best.iteration,
+      chunked: best.scores.chunked,
+      truncated: best.scores.truncated,
+      chunk_scores: toChunkScoreEntries(best.scores),
+      stop_reason: stopReason,
+      cancelled: false,
+      error: null,
+      usage: finalUsage,
     };
+  } catch (error) {
+    if (signal?.aborted) {
+      log("info", "Run cancelled; returning partial result", {
+        scoredCandidates: candidates.length,
+        error: errorMessage(error),
+      });
+      return buildPartialResult(
+        text,
+        candidates,
+        history,
+        chain.getLiveUrl(),
+        null,
+        usage.toUsage(prices),
+        diff_granularity,
+      );
+    }
+
+    // Scoring opens the session lazily: without one, the session failed.
+    const runError = classifyError(
+      error,
+      phase === "scoring" && !chain.isConnected() ? "session" : phase,
+    );
+    log("error", "Run failed; returning partial result", {
+      ...runError,
+      scoredCandidates: candidates.length,
+    });
+    return buildPartialResult(
+      text,
+      candidates,
+      history,
+      chain.getLiveUrl(),
+      runError,
+      usage.toUsage(prices),
+      diff_granularity,
+    );
   } finally {
     // Cleanup session
-    if (sessionId && provider) {
-      try {
-        await provider.closeSession(sessionId);
-        log("debug", "Browser session closed", { sessionId });
-      } catch (error) {
-        log("warn", "Failed to close browser session", {
-          sessionId,
-          error,
-        });
+    await chain.close();
+  }
+}
+
+/**
+ * Score many documents for grammarly_score_batch. Up to `concurrency`
+ * workers run at once; each keeps one browser session (failing over like a
+ * single run) and scores its next item in it. A failed item is recorded with
+ * its classified error, and the worker continues with a fresh session.
+ * Progress is reported after every item. Aborting `signal` stops new items;
+ * those left unscored are reported as cancelled.
+ */
+export async function runBatchScoring(
+  appConfig: AppConfig,
+  input: BatchScoreToolInput,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<BatchScoreResult> {
+  const { items, max_ai_percent, max_plagiarism_percent } = input;
+  // A local Chromium profile can only be opened by one browser at a time,
+  // and any worker may fail over onto local if it is anywhere in the chain.
+  const concurrency = appConfig.browserProviders.includes("local")
+    ? 1
+    : Math.min(input.concurrency ?? appConfig.batchConcurrency, items.length);
+
+  const results: BatchScoreItemResult[] = items.map((item) => ({
+    id: item.id,
+    status: "cancelled",
+    ai_detection_percent: null,
+    plagiarism_percent: null,
+    thresholds_met: false,
+    notes: "Not scored: the batch was cancelled first.",
+    error: null,
+  }));
+  const cache = appConfig.scoreCacheDir
+    ? new ScoreCache(appConfig.scoreCacheDir, appConfig.scoreCacheTtlMs)
+    : null;
+  const usage = new UsageTracker();
+
+  let nextIndex = 0;
+  let completed = 0;
+
+  log("info", "Scoring batch", { items: items.length, concurrency });
+  await onProgress?.(
+    `Scoring ${items.length} documents, ${concurrency} at a time...`,
+    0,
+  );
+
+  const percent = (value: number | null) =>
+    value === null ? "N/A" : `${value}%`;
+  const reportItem = async (result: BatchScoreItemResult) => {
+    completed += 1;
+    const outcome =
+      result.status === "scored"
+        ? `AI ${percent(result.ai_detection_percent)}, plagiarism ${percent(result.plagiarism_percent)}`
+        : `failed (${result.error?.code ?? "unknown"})`;
+    await onProgress?.(
+      `[${completed}/${items.length}] ${result.id}: ${outcome}`,
+      Math.round((completed / items.length) * 100),
+    );
+  };
+
+  const worker = async () => {
+    let chain: BrowserProviderChain | null = null;
+    try {
+      while (!signal?.aborted && nextIndex < items.length) {
+        const index = nextIndex++;
+        const item = items[index];
+        if (!item) {
+          break;
+        }
+        chain ??= new BrowserProviderChain(
+          appConfig,
+          { proxyCountryCode: input.proxy_country_code },
+          signal,
+          usage,
+        );
+
+        let result: BatchScoreItemResult;
+        try {
+          const scores = await scoreWithCache(chain, cache, item.text, {
+            maxSteps: input.max_steps,
+            iteration: 0,
+            mode: "score_only",
+            flashMode: true,
+            label: `batch-${item.id}`,
+            signal,
+            bypassCache: input.bypass_cache,
+            usage,
+          });
+          result = {
+            id: item.id,
+            status: "scored",
+            ai_detection_percent: scores.aiDetectionPercent,
+            plagiarism_percent: scores.plagiarismPercent,
+            thresholds_met: thresholdsMet(
+              scores,
+              max_ai_percent,
+              max_plagiarism_percent,
+            ),
+            provider: scores.provider,
+            notes: withFailoverNotes(
+              chain,
+              `${scores.notes}${describeChunking(scores)}${describeCache(scores)}`,
+            ),
+            error: null,
+          };
+        } catch (error) {
+          if (signal?.aborted) {
+            break;
+          }
+          const runError = classifyError(
+            error,
+            chain.isConnected() ? "scoring" : "session",
+          );
+          log("warn", "Batch item failed", { id: item.id, ...runError });
+          result = {
+            id: item.id,
+            status: "failed",
+            ai_detection_percent: null,
+            plagiarism_percent: null,
+            thresholds_met: false,
+            notes: withFailoverNotes(
+              chain,
+              `Scoring failed: ${runError.message}`,
+            ),
+            error: runError,
+          };
+          // The session may be stuck on a broken page; start the next item
+          // on a fresh one, from the first provider again.
+          await chain.close();
+          chain = null;
+        }
+
+        results[index] = result;
+        await reportItem(result);
       }
+    } finally {
+      await chain?.close();
     }
-  }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  const cancelled = signal?.aborted ?? false;
+  const scored = results.filter((item) => item.status === "scored");
+  log("info", "Batch scoring finished", {
+    items: items.length,
+    scored: scored.length,
+    cancelled,
+  });
+
+  return {
+    items: results,
+    scored: scored.length,
+    failed: results.filter((item) => item.status === "failed").length,
+    thresholds_met: scored.filter((item) => item.thresholds_met).length,
+    cancelled,
+    usage: usage.toUsage(getPriceTable(appConfig.priceTableFile)),
+  };
 }
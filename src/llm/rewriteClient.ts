@@ -1,7 +1,20 @@
-import { generateObject, generateText } from "ai";
+import { generateObject, generateText, type LanguageModelUsage } from "ai";
 import { z } from "zod";
+import type { PlagiarismMatch } from "../browser/highlights";
 import type { AppConfig, ClaudeModel, LLMProvider } from "../config";
 import { detectProviderFromApiKeys, log } from "../config";
+import {
+  joinParagraphs,
+  selectParagraphsForRewrite,
+  splitParagraphs,
+} from "../text/paragraphs";
+import {
+  compileProtectionPatterns,
+  describePlaceholderProblems,
+  findPlaceholderProblems,
+  protectSpans,
+  restoreSpans,
+} from "../text/protectedSpans";
 
 export const RewriterToneSchema = z.enum([
   "neutral",
@@ -14,6 +27,17 @@ export type RewriterTone = z.infer<typeof RewriterToneSchema>;
 
 export type RewriteProvider = LLMProvider;
 
+/** Token counts the model reported for one finished LLM call. */
+export interface LlmCallUsage {
+  operation: "rewrite" | "analysis" | "summary" | "fidelity";
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Receives the usage of every successful LLM call, retries included. */
+export type LlmUsageCallback = (usage: LlmCallUsage) => void;
+
 export interface RewriteParams {
   originalText: string;
   lastAiPercent: number | null;
@@ -23,7 +47,43 @@ export interface RewriteParams {
   tone: RewriterTone;
   domainHint?: string;
   customInstructions?: string;
+  /** Extra regex sources whose matches must survive the rewrite verbatim. */
+  protectedPatterns?: string[];
   maxIterations: number;
+  /**
+   * The previous rewrite made the scores worse and was discarded; the prompt
+   * asks for a different approach than the one it describes.
+   */
+  backfiredRewrite?: BackfiredRewrite;
+  /**
+   * Facts of the original that the previous attempt lost; the prompt asks
+   * for all of them to be kept.
+   */
+  lostFacts?: string[];
+  /**
+   * Extra direction for one of several candidate rewrites, so the
+   * candidates of an iteration differ from each other.
+   */
+  variationHint?: string;
+  /**
+   * Sentences Grammarly's AI Detector highlighted in the last scoring; the
+   * prompt asks for these to be reworked first.
+   */
+  aiFlaggedSentences?: string[];
+  /** Passages Grammarly matched to sources in the last scoring. */
+  plagiarismMatches?: PlagiarismMatch[];
+  /** Sampling temperature; the provider default when unset. */
+  temperature?: number;
+  /** Cancels the in-flight LLM request and any remaining retries. */
+  abortSignal?: AbortSignal;
+  onUsage?: LlmUsageCallback;
+}
+
+/** A discarded rewrite: its scores and the rewriter's own reasoning. */
+export interface BackfiredRewrite {
+  aiDetectionPercent: number | null;
+  plagiarismPercent: number | null;
+  reasoning: string;
 }
 
 export interface RewriteResult {
@@ -40,6 +100,47 @@ const RewriteSchema = z.object({
     ),
 });
 
+/** Rewrites that drop or duplicate a protected-span placeholder are retried. */
+const MAX_PROTECTED_SPAN_ATTEMPTS = 3;
+
+/** Characters of neighbouring text shown around each targeted paragraph. */
+const PARAGRAPH_CONTEXT_LENGTH = 600;
+
+export interface ParagraphRewriteTarget {
+  index: number;
+  text: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ParagraphRewriteParams
+  extends Omit<RewriteParams, "originalText"> {
+  targets: ParagraphRewriteTarget[];
+}
+
+export interface ParagraphRewriteResult {
+  rewrites: Array<{ index: number; rewrittenText: string }>;
+  reasoning: string;
+}
+
+const ParagraphRewriteSchema = z.object({
+  paragraphs: z
+    .array(
+      z.object({
+        index: z.number().int().describe("Index of the target paragraph."),
+        rewrittenText: z
+          .string()
+          .describe("The rewritten paragraph, without surrounding context."),
+      }),
+    )
+    .describe("One entry per target paragraph."),
+  reasoning: z
+    .string()
+    .describe(
+      "Short explanation of modifications and strategies used to reduce AI and plagiarism scores.",
+    ),
+});
+
 const AnalysisSchema = z.object({
   analysis: z
     .string()
@@ -86,6 +187,32 @@ export function chooseClaudeModel(
   return "sonnet";
 }
 
+/**
+ * The model ID rewrites will report in usage for a text of `textLength`,
+ * without loading the provider SDK.
+ */
+export function getRewriteModelId(
+  config: AppConfig,
+  textLength = 0,
+  maxIterations = 5,
+): string {
+  const provider = detectRewriteProvider(config);
+  switch (provider) {
+    case "claude-code":
+      return `claude-code/${chooseClaudeModel(textLength, maxIterations, config.claudeModel)}`;
+    case "openai":
+      return config.openaiModel;
+    case "google":
+      return config.googleModel;
+    case "anthropic":
+      return config.anthropicModel;
+    default: {
+      const exhaustiveCheck: never = provider;
+      throw new Error(`Unknown rewrite provider: ${exhaustiveCheck}`);
+    }
+  }
+}
+
 /**
  * Get the appropriate model instance based on provider and config.
  */
@@ -143,13 +270,61 @@ function logAuthMethod(provider: RewriteProvider, apiKey?: string): void {
   }
 }
 
-/** Rewrite text with the configured provider to reduce AI detection and plagiarism. */
-export async function rewriteText(
-  appConfig: AppConfig,
-  params: RewriteParams,
-): Promise<RewriteResult> {
+/** Report a finished call's tokens; counts a provider omits are taken as 0. */
+function reportUsage(
+  onUsage: LlmUsageCallback | undefined,
+  operation: LlmCallUsage["operation"],
+  modelId: string,
+  usage: LanguageModelUsage | undefined,
+): void {
+  onUsage?.({
+    operation,
+    modelId,
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+  });
+}
+
+/**
+ * Race an LLM call against the configured request timeout. `onTimeout` builds
+ * (and may log) the rejection error.
+ */
+async function withLlmTimeout<T>(
+  call: Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => Error,
+): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      call,
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          reject(onTimeout());
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+function formatPercent(percent: number | null): string {
+  return percent === null ? "unavailable" : `${percent}%`;
+}
+
+/**
+ * Instructions shared by whole-document and paragraph rewrites: goals,
+ * score context, tone, user constraints and formatting rules.
+ */
+function buildRewriteInstructions(
+  params: Omit<RewriteParams, "originalText" | "maxIterations">,
+  hasProtectedSpans = false,
+): string[] {
   const {
-    originalText,
     lastAiPercent,
     lastPlagiarismPercent,
     targetMaxAiPercent,
@@ -157,19 +332,13 @@ export async function rewriteText(
     tone,
     domainHint,
     customInstructions,
-    maxIterations,
+    backfiredRewrite,
+    lostFacts,
+    variationHint,
+    aiFlaggedSentences,
+    plagiarismMatches,
   } = params;
 
-  const provider = detectRewriteProvider(appConfig);
-  logAuthMethod(provider, appConfig.claudeApiKey);
-
-  const { model, modelId } = await getRewriteModel(
-    appConfig,
-    provider,
-    originalText.length,
-    maxIterations,
-  );
-
   // Use "an" for tones starting with a vowel sound (informal, academic)
   const article = /^[aeiou]/i.test(tone) ? "an" : "a";
   const toneDescription =
@@ -198,7 +367,15 @@ export async function rewriteText(
     ? `Additional constraints from the user: ${customInstructions.trim()}`
     : "No additional custom constraints were provided.";
 
-  const prompt = [
+  const backfiredText = backfiredRewrite
+    ? [
+        `Your previous rewrite backfired: Grammarly scored it worse (AI detection ${formatPercent(backfiredRewrite.aiDetectionPercent)}, plagiarism ${formatPercent(backfiredRewrite.plagiarismPercent)}), so it was discarded and the text below is the best version so far.`,
+        `That rewrite's approach was: "${backfiredRewrite.reasoning.trim()}"`,
+        "Do not repeat that approach; try a clearly different one.",
+      ]
+    : [];
+
+  return [
     "You are an expert human-writing optimizer.",
     "You rewrite text so that:",
     "- It reads as naturally human as possible.",
@@ -213,15 +390,44 @@ export async function rewriteText(
     lastAiText,
     lastPlagiarismText,
     `${targetText}.`,
+    ...backfiredText,
+    ...(aiFlaggedSentences && aiFlaggedSentences.length > 0
+      ? [
+          "Grammarly's AI Detector highlighted these sentences as likely AI-written. Rework each of them thoroughly; they matter most:",
+          ...aiFlaggedSentences.map((sentence) => `- "${sentence}"`),
+        ]
+      : []),
+    ...(plagiarismMatches && plagiarismMatches.length > 0
+      ? [
+          "Grammarly's Plagiarism Checker matched these passages to existing sources. Rephrase each in your own words so it no longer matches, keeping its meaning:",
+          ...plagiarismMatches.map(
+            (match) =>
+              `- "${match.passage}"${match.sourceUrl ? ` (source: ${match.sourceUrl})` : ""}`,
+          ),
+        ]
+      : []),
+    ...(lostFacts && lostFacts.length > 0
+      ? [
+          "Your previous attempt was rejected because it lost or changed these facts of the original; keep every one of them:",
+          ...lostFacts.map((fact) => `- ${fact}`),
+        ]
+      : []),
     "",
     toneDescription,
     customText,
+    ...(variationHint ? [`For this version: ${variationHint}`] : []),
     "",
     "Do NOT:",
     "- Add citations or references that do not exist in the original.",
     "- Fabricate sources or numeric data.",
     "- Change code blocks, inline code, or math expressions other than trivial formatting.",
     "- Use em dashes (—) or emojis in the rewritten text.",
+    ...(hasProtectedSpans
+      ? [
+          "- Change, drop or repeat placeholder tokens such as [[PROTECTED_0]]. Each stands for code,",
+          "  math, a citation, a URL or a quotation; copy every placeholder exactly once.",
+        ]
+      : []),
     "Examples of what NOT to change:",
     "- Code block (delimited by triple backticks):",
     "  ```js",
@@ -237,6 +443,107 @@ export async function rewriteText(
     "  unless they are essential to the content.",
     "- Make the text sound like a specific human author wrote it for a specific audience,",
     "  not like a generic AI assistant voice.",
+  ];
+}
+
+/**
+ * Swap protected spans for placeholders, run the rewrite, and restore them.
+ * A rewrite that loses, duplicates or invents a placeholder is rejected and
+ * requested again, up to MAX_PROTECTED_SPAN_ATTEMPTS times.
+ */
+async function rewriteWithProtectedSpans(
+  params: RewriteParams,
+  request: (
+    protectedParams: RewriteParams,
+    hasProtectedSpans: boolean,
+  ) => Promise<RewriteResult>,
+): Promise<RewriteResult> {
+  const { text, spans } = protectSpans(
+    params.originalText,
+    compileProtectionPatterns(params.protectedPatterns ?? []),
+  );
+
+  if (spans.length === 0) {
+    return request(params, false);
+  }
+
+  log("debug", "Protected spans before rewrite", {
+    count: spans.length,
+    kinds: [...new Set(spans.map((span) => span.kind))],
+  });
+
+  // Quote flagged spans the way the model sees the text, with placeholders.
+  const withPlaceholders = (passage: string) =>
+    spans.reduce(
+      (quoted, span) => quoted.split(span.text).join(span.placeholder),
+      passage,
+    );
+  const protectedParams: RewriteParams = {
+    ...params,
+    originalText: text,
+    aiFlaggedSentences: params.aiFlaggedSentences?.map(withPlaceholders),
+    plagiarismMatches: params.plagiarismMatches?.map((match) => ({
+      ...match,
+      passage: withPlaceholders(match.passage),
+    })),
+  };
+
+  let lastProblem = "";
+  for (let attempt = 1; attempt <= MAX_PROTECTED_SPAN_ATTEMPTS; attempt++) {
+    params.abortSignal?.throwIfAborted();
+    const result = await request(protectedParams, true);
+    const problems = findPlaceholderProblems(result.rewrittenText, spans);
+    if (!problems) {
+      return {
+        rewrittenText: restoreSpans(result.rewrittenText, spans),
+        reasoning: result.reasoning,
+      };
+    }
+    lastProblem = describePlaceholderProblems(problems);
+    log("warn", "Rewrite did not preserve protected spans", {
+      attempt,
+      maxAttempts: MAX_PROTECTED_SPAN_ATTEMPTS,
+      problems: lastProblem,
+    });
+  }
+
+  throw new Error(
+    `Rewrite failed: protected spans not preserved after ${MAX_PROTECTED_SPAN_ATTEMPTS} attempts (${lastProblem})`,
+  );
+}
+
+/**
+ * Rewrite text with the configured provider to reduce AI detection and
+ * plagiarism. Code, math, citations, URLs and quotations are protected.
+ */
+export async function rewriteText(
+  appConfig: AppConfig,
+  params: RewriteParams,
+): Promise<RewriteResult> {
+  return rewriteWithProtectedSpans(params, (protectedParams, hasSpans) =>
+    requestWholeRewrite(appConfig, protectedParams, hasSpans),
+  );
+}
+
+async function requestWholeRewrite(
+  appConfig: AppConfig,
+  params: RewriteParams,
+  hasProtectedSpans: boolean,
+): Promise<RewriteResult> {
+  const { originalText, maxIterations } = params;
+
+  const provider = detectRewriteProvider(appConfig);
+  logAuthMethod(provider, appConfig.claudeApiKey);
+
+  const { model, modelId } = await getRewriteModel(
+    appConfig,
+    provider,
+    originalText.length,
+    maxIterations,
+  );
+
+  const prompt = [
+    ...buildRewriteInstructions(params, hasProtectedSpans),
     "",
     "Return strictly in the JSON schema you were given.",
     "",
@@ -249,31 +556,29 @@ export async function rewriteText(
   const timeoutMs = appConfig.llmRequestTimeoutMs;
   log("info", "Calling for rewrite", { provider, modelId });
 
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
-
   try {
-    const result = await Promise.race([
+    const result = await withLlmTimeout(
       generateObject({
         model,
         schema: RewriteSchema,
         prompt,
+        temperature: params.temperature,
+        abortSignal: params.abortSignal,
       }),
-      new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          log("error", "Rewrite timed out", {
-            provider,
-            modelId,
-            timeoutMs,
-            promptPreview: prompt.slice(0, 500),
-          });
-          reject(
-            new Error(`Rewrite request exceeded timeout of ${timeoutMs}ms`),
-          );
-        }, timeoutMs);
-      }),
-    ]);
+      timeoutMs,
+      () => {
+        log("error", "Rewrite timed out", {
+          provider,
+          modelId,
+          timeoutMs,
+          promptPreview: prompt.slice(0, 500),
+        });
+        return new Error(`Rewrite request exceeded timeout of ${timeoutMs}ms`);
+      },
+    );
 
     const object = result.object;
+    reportUsage(params.onUsage, "rewrite", modelId, result.usage);
 
     log("debug", "Rewrite completed", { provider, modelId });
     return {
@@ -285,10 +590,269 @@ export async function rewriteText(
     throw new Error(
       `Rewrite failed: ${error instanceof Error ? error.message : String(error)}`,
     );
-  } finally {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Rewrite only the given paragraphs, showing neighbouring text as read-only
+ * context so the rewrite stays consistent with the rest of the document.
+ */
+export async function rewriteParagraphs(
+  appConfig: AppConfig,
+  params: ParagraphRewriteParams,
+  hasProtectedSpans = false,
+): Promise<ParagraphRewriteResult> {
+  const { targets, maxIterations } = params;
+
+  const provider = detectRewriteProvider(appConfig);
+  logAuthMethod(provider, appConfig.claudeApiKey);
+
+  const targetLength = targets.reduce(
+    (sum, target) => sum + target.text.length,
+    0,
+  );
+  const { model, modelId } = await getRewriteModel(
+    appConfig,
+    provider,
+    targetLength,
+    maxIterations,
+  );
+
+  const targetBlocks = targets.flatMap((target) => [
+    `=== Paragraph ${target.index} ===`,
+    "Context before (read-only, do not rewrite):",
+    target.before ? target.before : "(start of document)",
+    "Paragraph to rewrite:",
+    "-----",
+    target.text,
+    "-----",
+    "Context after (read-only, do not rewrite):",
+    target.after ? target.after : "(end of document)",
+    "",
+  ]);
+
+  const prompt = [
+    ...buildRewriteInstructions(params, hasProtectedSpans),
+    "",
+    "Only the paragraphs marked 'Paragraph to rewrite' should change.",
+    "The surrounding context is shown so your rewrite flows naturally; never include it in your output.",
+    "Return one entry per target paragraph, using the same index, strictly in the JSON schema you were given.",
+    "",
+    ...targetBlocks,
+  ].join("\n");
+
+  const timeoutMs = appConfig.llmRequestTimeoutMs;
+  log("info", "Calling for paragraph rewrite", {
+    provider,
+    modelId,
+    paragraphCount: targets.length,
+  });
+
+  try {
+    const result = await withLlmTimeout(
+      generateObject({
+        model,
+        schema: ParagraphRewriteSchema,
+        prompt,
+        temperature: params.temperature,
+        abortSignal: params.abortSignal,
+      }),
+      timeoutMs,
+      () => {
+        log("error", "Paragraph rewrite timed out", {
+          provider,
+          modelId,
+          timeoutMs,
+          promptPreview: prompt.slice(0, 500),
+        });
+        return new Error(
+          `Paragraph rewrite request exceeded timeout of ${timeoutMs}ms`,
+        );
+      },
+    );
+
+    reportUsage(params.onUsage, "rewrite", modelId, result.usage);
+    log("debug", "Paragraph rewrite completed", { provider, modelId });
+    return {
+      rewrites: result.object.paragraphs,
+      reasoning: result.object.reasoning,
+    };
+  } catch (error: unknown) {
+    log("error", "Paragraph rewrite failed", { provider, modelId, error });
+    throw new Error(
+      `Paragraph rewrite failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Segment-level rewrite: split the text into paragraphs, rewrite only the
+ * ones holding Grammarly's flagged sentences or plagiarism matches, topped
+ * up with the worst offenders by local AI-likeness estimate, and leave every other
+ * paragraph (and all separators) byte-identical. Protected spans are
+ * enforced across the whole document, as in rewriteText.
+ */
+export async function rewriteTextByParagraph(
+  appConfig: AppConfig,
+  params: RewriteParams,
+): Promise<RewriteResult> {
+  return rewriteWithProtectedSpans(params, (protectedParams, hasSpans) =>
+    requestParagraphRewrite(appConfig, protectedParams, hasSpans),
+  );
+}
+
+async function requestParagraphRewrite(
+  appConfig: AppConfig,
+  params: RewriteParams,
+  hasProtectedSpans: boolean,
+): Promise<RewriteResult> {
+  const segments = splitParagraphs(params.originalText);
+  const targetIndices = selectParagraphsForRewrite(segments, {
+    flaggedPassages: [
+      ...(params.aiFlaggedSentences ?? []),
+      ...(params.plagiarismMatches ?? []).map((match) => match.passage),
+    ],
+  });
+
+  if (targetIndices.length === 0) {
+    log("debug", "No paragraphs eligible for targeted rewrite; rewriting all");
+    return requestWholeRewrite(appConfig, params, hasProtectedSpans);
+  }
+
+  const { originalText: _originalText, ...shared } = params;
+  const targets = targetIndices.map((index) => ({
+    index,
+    text: segments[index]?.text ?? "",
+    before: segments[index - 1]?.text.slice(-PARAGRAPH_CONTEXT_LENGTH),
+    after: segments[index + 1]?.text.slice(0, PARAGRAPH_CONTEXT_LENGTH),
+  }));
+
+  const result = await rewriteParagraphs(
+    appConfig,
+    { ...shared, targets },
+    hasProtectedSpans,
+  );
+
+  const rewritten = new Set<number>();
+  for (const rewrite of result.rewrites) {
+    const segment = segments[rewrite.index];
+    const replacement = rewrite.rewrittenText.trim();
+    if (!segment || !targetIndices.includes(rewrite.index) || !replacement) {
+      log("warn", "Ignoring paragraph rewrite for non-target index", {
+        index: rewrite.index,
+      });
+      continue;
     }
+    segment.text = replacement;
+    rewritten.add(rewrite.index);
+  }
+
+  const paragraphList = [...rewritten]
+    .sort((a, b) => a - b)
+    .map((index) => index + 1)
+    .join(", ");
+
+  return {
+    rewrittenText: joinParagraphs(segments),
+    reasoning: `Rewrote paragraph(s) ${paragraphList || "none"} of ${segments.length}. ${result.reasoning}`,
+  };
+}
+
+export interface FidelityJudgment {
+  /** 0-100: how fully the rewrite keeps the original's meaning. */
+  score: number;
+  /** Claims or details of the original the rewrite lost or changed. */
+  lostFacts: string[];
+}
+
+const FidelitySchema = z.object({
+  score: z
+    .number()
+    .min(0)
+    .max(100)
+    .describe(
+      "How fully the rewrite preserves the original's meaning, 0 (unrelated) to 100 (nothing lost or changed).",
+    ),
+  lostFacts: z
+    .array(z.string())
+    .describe(
+      "Each claim, figure or detail of the original that the rewrite dropped or changed, as a short phrase.",
+    ),
+});
+
+/**
+ * Ask the rewrite LLM whether a rewrite still says what the original said.
+ * Style changes are fine; dropped or altered claims lower the score.
+ */
+export async function judgeFidelity(
+  appConfig: AppConfig,
+  originalText: string,
+  rewrittenText: string,
+  abortSignal?: AbortSignal,
+  onUsage?: LlmUsageCallback,
+): Promise<FidelityJudgment> {
+  const provider = detectRewriteProvider(appConfig);
+  logAuthMethod(provider, appConfig.claudeApiKey);
+
+  const { model, modelId } = await getRewriteModel(
+    appConfig,
+    provider,
+    originalText.length,
+    1,
+  );
+
+  const prompt = [
+    "You check whether a rewrite preserves the meaning of an original text.",
+    "Ignore changes of wording, tone, sentence structure and order.",
+    "Look for claims, figures, names, dates, conditions and conclusions of the original that the rewrite drops, changes or contradicts, and for claims it adds.",
+    "",
+    "Return strictly in the JSON schema you were given.",
+    "",
+    "Original text:",
+    "-----",
+    originalText,
+    "-----",
+    "",
+    "Rewrite:",
+    "-----",
+    rewrittenText,
+    "-----",
+  ].join("\n");
+
+  const timeoutMs = appConfig.llmRequestTimeoutMs;
+  log("debug", "Calling for fidelity check", { provider, modelId });
+
+  try {
+    const result = await withLlmTimeout(
+      generateObject({
+        model,
+        schema: FidelitySchema,
+        prompt,
+        abortSignal,
+      }),
+      timeoutMs,
+      () => {
+        log("error", "Fidelity check timed out", {
+          provider,
+          modelId,
+          timeoutMs,
+        });
+        return new Error(
+          `Fidelity check request exceeded timeout of ${timeoutMs}ms`,
+        );
+      },
+    );
+
+    reportUsage(onUsage, "fidelity", modelId, result.usage);
+    return {
+      score: Math.round(result.object.score),
+      lostFacts: result.object.lostFacts,
+    };
+  } catch (error: unknown) {
+    log("error", "Fidelity check failed", { provider, modelId, error });
+    throw new Error(
+      `Fidelity check failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
   }
 }
 
@@ -302,6 +866,8 @@ export async function analyzeText(
   targetMaxPlagiarismPercent: number,
   tone: RewriterTone,
   domainHint?: string,
+  abortSignal?: AbortSignal,
+  onUsage?: LlmUsageCallback,
 ): Promise<string> {
   const provider = detectRewriteProvider(appConfig);
   logAuthMethod(provider, appConfig.claudeApiKey);
@@ -362,40 +928,34 @@ export async function analyzeText(
   log("info", "Calling for analysis", { provider, modelId });
 
   const timeoutMs = appConfig.llmRequestTimeoutMs;
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
   try {
-    const result = await Promise.race([
+    const result = await withLlmTimeout(
       generateObject({
         model,
         schema: AnalysisSchema,
         prompt,
+        abortSignal,
       }),
-      new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          log("error", "Analysis timed out", {
-            provider,
-            modelId,
-            timeoutMs,
-            promptPreview: prompt.slice(0, 500),
-          });
-          reject(
-            new Error(`Analysis request exceeded timeout of ${timeoutMs}ms`),
-          );
-        }, timeoutMs);
-      }),
-    ]);
+      timeoutMs,
+      () => {
+        log("error", "Analysis timed out", {
+          provider,
+          modelId,
+          timeoutMs,
+          promptPreview: prompt.slice(0, 500),
+        });
+        return new Error(`Analysis request exceeded timeout of ${timeoutMs}ms`);
+      },
+    );
 
+    reportUsage(onUsage, "analysis", modelId, result.usage);
     return result.object.analysis;
   } catch (error: unknown) {
     log("error", "Analysis failed", { provider, modelId, error });
     throw new Error(
       `Analysis failed: ${error instanceof Error ? error.message : String(error)}`,
     );
-  } finally {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
   }
 }
 
@@ -416,6 +976,8 @@ export async function summarizeOptimization(
     maxAiPercent: number;
     maxPlagiarismPercent: number;
   },
+  abortSignal?: AbortSignal,
+  onUsage?: LlmUsageCallback,
 ): Promise<string> {
   const provider = detectRewriteProvider(appConfig);
   logAuthMethod(provider, appConfig.claudeApiKey);
@@ -428,7 +990,6 @@ export async function summarizeOptimization(
   );
 
   const timeoutMs = appConfig.llmRequestTimeoutMs;
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
   const prompt = [
     "You are summarizing the outcome of a Grammarly-based AI detection and plagiarism optimization run.",
@@ -457,37 +1018,32 @@ export async function summarizeOptimization(
   log("debug", "Calling for optimization summary", { provider, modelId });
 
   try {
-    const result = await Promise.race([
+    const result = await withLlmTimeout(
       generateText({
         model,
         prompt,
+        abortSignal,
       }),
-      new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          log("error", "Optimization summary timed out", {
-            provider,
-            modelId,
-            timeoutMs,
-            promptPreview: prompt.slice(0, 500),
-          });
-          reject(
-            new Error(
-              `Optimization summary request exceeded timeout of ${timeoutMs}ms`,
-            ),
-          );
-        }, timeoutMs);
-      }),
-    ]);
+      timeoutMs,
+      () => {
+        log("error", "Optimization summary timed out", {
+          provider,
+          modelId,
+          timeoutMs,
+          promptPreview: prompt.slice(0, 500),
+        });
+        return new Error(
+          `Optimization summary request exceeded timeout of ${timeoutMs}ms`,
+        );
+      },
+    );
 
+    reportUsage(onUsage, "summary", modelId, result.usage);
     return result.text;
   } catch (error: unknown) {
     log("error", "Summary failed", { provider, modelId, error });
     throw new Error(
       `Optimization summary failed: ${error instanceof Error ? error.message : String(error)}`,
     );
-  } finally {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
   }
 }
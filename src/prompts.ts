@@ -0,0 +1,203 @@
+import * as fs from "node:fs";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { log } from "./config";
+import {
+  MAX_CUSTOM_INSTRUCTIONS_LENGTH,
+  ToolInputSchema,
+} from "./grammarlyOptimizer";
+
+/**
+ * grammarly_optimize_text arguments a preset fixes; the text itself comes
+ * from the prompt argument.
+ */
+const PresetToolArgumentsSchema = ToolInputSchema.pick({
+  max_ai_percent: true,
+  max_plagiarism_percent: true,
+  max_iterations: true,
+  strategy: true,
+  tone: true,
+  domain_hint: true,
+  custom_instructions: true,
+  protected_patterns: true,
+}).partial();
+
+const PromptPresetSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9_-]+$/,
+      "must be lowercase letters, digits, dashes or underscores",
+    ),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  tool_arguments: PresetToolArgumentsSchema,
+});
+
+const PromptsFileSchema = z.object({
+  prompts: z.array(PromptPresetSchema),
+});
+
+export type PromptPreset = z.infer<typeof PromptPresetSchema>;
+
+export const BUILT_IN_PROMPT_PRESETS: PromptPreset[] = [
+  {
+    name: "university_essay",
+    title: "University Essay",
+    description:
+      "Humanize a university essay: academic tone, citations and quotations preserved.",
+    tool_arguments: {
+      tone: "academic",
+      domain_hint: "university essay",
+      custom_instructions:
+        "Preserve every citation, reference and quotation exactly. Keep the thesis, the argument and the paragraph order.",
+      max_ai_percent: 10,
+      max_plagiarism_percent: 5,
+    },
+  },
+  {
+    name: "blog_post",
+    title: "Blog Post",
+    description:
+      "Humanize a blog post: informal, conversational tone with headings and links kept.",
+    tool_arguments: {
+      tone: "informal",
+      domain_hint: "blog post",
+      custom_instructions:
+        "Keep headings, lists and links. A conversational, first-person voice is fine.",
+      max_ai_percent: 20,
+      max_plagiarism_percent: 10,
+    },
+  },
+  {
+    name: "cover_letter",
+    title: "Cover Letter",
+    description:
+      "Humanize a cover letter: formal tone, no invented experience.",
+    tool_arguments: {
+      tone: "formal",
+      domain_hint: "cover letter",
+      custom_instructions:
+        "Keep names, company names, job titles and dates exactly. Do not invent experience or achievements, and keep it to one page.",
+      max_ai_percent: 10,
+      max_plagiarism_percent: 5,
+    },
+  },
+];
+
+/**
+ * Built-in presets plus those from a user prompts file
+ * (`{ "prompts": [...] }`). A user preset with a built-in name replaces it.
+ * An unreadable or invalid file is logged and ignored.
+ */
+export function loadPromptPresets(
+  filePath: string | undefined,
+): PromptPreset[] {
+  const presets = new Map(
+    BUILT_IN_PROMPT_PRESETS.map((preset) => [preset.name, preset]),
+  );
+  if (!filePath) {
+    return [...presets.values()];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    log("error", "Failed to read prompts file; using built-in prompts", {
+      filePath,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return [...presets.values()];
+  }
+
+  const parsed = PromptsFileSchema.safeParse(data);
+  if (!parsed.success) {
+    log("error", "Invalid prompts file; using built-in prompts", {
+      filePath,
+      issues: parsed.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      ),
+    });
+    return [...presets.values()];
+  }
+
+  for (const preset of parsed.data.prompts) {
+    presets.set(preset.name, preset);
+  }
+  return [...presets.values()];
+}
+
+/**
+ * The user message for a preset: a ready-to-run grammarly_optimize_text
+ * call with the preset's arguments and the given text. Throws when the
+ * preset's and the extra instructions together exceed what the tool accepts.
+ */
+export function buildPromptMessage(
+  preset: PromptPreset,
+  text: string,
+  extraInstructions?: string,
+): string {
+  const customInstructions = [
+    preset.tool_arguments.custom_instructions,
+    extraInstructions?.trim(),
+  ]
+    .filter(Boolean)
+    .join(" ");
+  if (customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+    throw new Error(
+      `Extra instructions are too long for the ${preset.name} prompt: with the preset's own they come to ${customInstructions.length} characters (limit ${MAX_CUSTOM_INSTRUCTIONS_LENGTH})`,
+    );
+  }
+
+  const toolArguments = {
+    text,
+    mode: "optimize",
+    ...preset.tool_arguments,
+    ...(customInstructions ? { custom_instructions: customInstructions } : {}),
+  };
+
+  return [
+    `Use the grammarly_optimize_text tool to humanize this ${preset.title.toLowerCase()}.`,
+    "Call it with exactly these arguments:",
+    "",
+    "```json",
+    JSON.stringify(toolArguments, null, 2),
+    "```",
+  ].join("\n");
+}
+
+/** Register one MCP prompt per preset. */
+export function registerPrompts(
+  server: McpServer,
+  presets: PromptPreset[],
+): void {
+  for (const preset of presets) {
+    server.registerPrompt(
+      preset.name,
+      {
+        title: preset.title,
+        description: preset.description,
+        argsSchema: {
+          text: z.string().describe("The text to humanize."),
+          extra_instructions: z
+            .string()
+            .optional()
+            .describe("Added to the preset's custom instructions."),
+        },
+      },
+      ({ text, extra_instructions }) => ({
+        description: preset.description,
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: buildPromptMessage(preset, text, extra_instructions),
+            },
+          },
+        ],
+      }),
+    );
+  }
+}
@@ -0,0 +1,328 @@
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  type McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { log } from "./config";
+import type {
+  GrammarlyOptimizeInput,
+  GrammarlyOptimizeResult,
+} from "./grammarlyOptimizer";
+import { LOCAL_CLIENT_ID } from "./transport";
+
+/** URI of the run listing resource; each run lives at `${RUNS_URI}/<id>`. */
+export const RUNS_URI = "grammarly://runs";
+
+/** A finished tool call: what was asked and what came back. */
+export interface StoredRun {
+  id: string;
+  tool: string;
+  created_at: string;
+  /** Client that ran it (see transport.ts); only that client can read it. */
+  client_id: string;
+  input: GrammarlyOptimizeInput;
+  result: GrammarlyOptimizeResult;
+}
+
+/** One line of the run listing. */
+export interface RunSummary {
+  id: string;
+  uri: string;
+  tool: string;
+  created_at: string;
+  mode: string;
+  ai_detection_percent: number | null;
+  plagiarism_percent: number | null;
+  thresholds_met: boolean;
+  iterations_used: number;
+  cancelled: boolean;
+  error_code: string | null;
+  text_preview: string;
+}
+
+// Loose on purpose: runs written by older versions stay readable.
+const StoredRunSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  created_at: z.string(),
+  // Runs saved before runs were scoped belong to the local (stdio) client.
+  client_id: z.string().default(LOCAL_CLIENT_ID),
+  input: z.object({ text: z.string(), mode: z.string() }).passthrough(),
+  result: z
+    .object({
+      final_text: z.string(),
+      ai_detection_percent: z.number().nullable(),
+      plagiarism_percent: z.number().nullable(),
+      iterations_used: z.number(),
+      thresholds_met: z.boolean(),
+      history: z.array(z.unknown()),
+    })
+    .passthrough(),
+});
+
+// Timestamp prefix keeps ids (and file names) sorted oldest first.
+const RUN_ID_PATTERN = /^\d{8}T\d{9}Z-[0-9a-f]{6}$/;
+
+const PREVIEW_LENGTH = 80;
+
+function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:.]/g, "");
+  return `${timestamp}-${randomBytes(3).toString("hex")}`;
+}
+
+export function runUri(id: string): string {
+  return `${RUNS_URI}/${id}`;
+}
+
+function summarize(run: StoredRun): RunSummary {
+  const preview = run.input.text.replace(/\s+/g, " ").trim();
+  return {
+    id: run.id,
+    uri: runUri(run.id),
+    tool: run.tool,
+    created_at: run.created_at,
+    mode: run.input.mode,
+    ai_detection_percent: run.result.ai_detection_percent,
+    plagiarism_percent: run.result.plagiarism_percent,
+    thresholds_met: run.result.thresholds_met,
+    iterations_used: run.result.iterations_used,
+    cancelled: run.result.cancelled ?? false,
+    error_code: run.result.error?.code ?? null,
+    text_preview:
+      preview.length > PREVIEW_LENGTH
+        ? `${preview.slice(0, PREVIEW_LENGTH - 3)}...`
+        : preview,
+  };
+}
+
+/**
+ * File-backed store of finished optimization runs, one JSON file per run
+ * under `dir`. Every run belongs to the client that saved it, and only the
+ * newest `maxRuns` of each client are kept. Reads are scoped to one client,
+ * so clients of a shared HTTP server never see each other's texts. Like the
+ * score cache it is best effort: failures are logged, never thrown into a
+ * tool call.
+ */
+export class RunStore {
+  private readonly dir: string;
+  private readonly maxRuns: number;
+
+  constructor(dir: string, maxRuns: number) {
+    this.dir = dir;
+    this.maxRuns = maxRuns;
+  }
+
+  /** Persist a run; returns it with its new id, or null if it was not saved. */
+  async save(
+    clientId: string,
+    tool: string,
+    input: GrammarlyOptimizeInput,
+    result: GrammarlyOptimizeResult,
+  ): Promise<StoredRun | null> {
+    const run: StoredRun = {
+      id: createRunId(),
+      tool,
+      created_at: new Date().toISOString(),
+      client_id: clientId,
+      input,
+      result,
+    };
+    const filePath = this.runPath(run.id);
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(run), "utf-8");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      log("warn", "Failed to save run", { filePath, error });
+      return null;
+    }
+
+    await this.prune(clientId);
+    log("debug", "Saved run", { id: run.id, tool });
+    return run;
+  }
+
+  /**
+   * A stored run of `clientId` by id, or null when unknown, unreadable or
+   * another client's.
+   */
+  async get(clientId: string, id: string): Promise<StoredRun | null> {
+    if (!RUN_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    const filePath = this.runPath(id);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log("warn", "Failed to read run", { filePath, error });
+      }
+      return null;
+    }
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(raw);
+    } catch {
+      entry = null;
+    }
+    const parsed = StoredRunSchema.safeParse(entry);
+    if (!parsed.success) {
+      log("warn", "Ignoring invalid run file", { filePath });
+      return null;
+    }
+    if (parsed.data.client_id !== clientId) {
+      return null;
+    }
+    return parsed.data as unknown as StoredRun;
+  }
+
+  /** Summaries of the stored runs of `clientId`, newest first. */
+  async list(clientId: string): Promise<RunSummary[]> {
+    const ids = (await this.runIds()).reverse();
+    const runs = await Promise.all(ids.map((id) => this.get(clientId, id)));
+    return runs.filter((run): run is StoredRun => run !== null).map(summarize);
+  }
+
+  private async runIds(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log("warn", "Failed to list runs", { dir: this.dir, error });
+      }
+      return [];
+    }
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .filter((id) => RUN_ID_PATTERN.test(id))
+      .sort();
+  }
+
+  /** Remove the oldest runs of `clientId` past maxRuns; others are kept. */
+  private async prune(clientId: string): Promise<void> {
+    const runs = await Promise.all(
+      (await this.runIds()).map((id) => this.get(clientId, id)),
+    );
+    const ids = runs
+      .filter((run): run is StoredRun => run !== null)
+      .map((run) => run.id);
+    const excess = ids.slice(0, Math.max(0, ids.length - this.maxRuns));
+    for (const id of excess) {
+      try {
+        await fs.unlink(this.runPath(id));
+      } catch (error) {
+        log("warn", "Failed to remove old run", { id, error });
+      }
+    }
+  }
+
+  private runPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+/**
+ * Expose the stored runs of `clientId` as MCP resources:
+ * - `grammarly://runs`: JSON listing of its runs, newest first
+ * - `grammarly://runs/{runId}`: the full run (input, result, history)
+ * - `grammarly://runs/{runId}/final_text`: the returned text as plain text,
+ *   handy for attaching as context or diffing against a newer run
+ */
+export function registerRunResources(
+  server: McpServer,
+  store: RunStore,
+  clientId: string,
+): void {
+  server.registerResource(
+    "grammarly_runs",
+    RUNS_URI,
+    {
+      title: "Grammarly Runs",
+      description:
+        "Past grammarly_optimize_text, grammarly_score and grammarly_analyze runs, newest first.",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(await store.list(clientId), null, 2),
+        },
+      ],
+    }),
+  );
+
+  const readRun = async (runId: unknown): Promise<StoredRun> => {
+    const run =
+      typeof runId === "string" ? await store.get(clientId, runId) : null;
+    if (!run) {
+      throw new Error(`Run not found: ${String(runId)}`);
+    }
+    return run;
+  };
+
+  server.registerResource(
+    "grammarly_run",
+    new ResourceTemplate(`${RUNS_URI}/{runId}`, {
+      list: async () => ({
+        resources: (await store.list(clientId)).map((summary) => ({
+          uri: summary.uri,
+          name: `Run ${summary.id}`,
+          description: `${summary.tool} (${summary.mode}): ${summary.text_preview}`,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      title: "Grammarly Run",
+      description:
+        "One stored run: the tool input and the full result, including history and notes.",
+      mimeType: "application/json",
+    },
+    async (uri, { runId }) => {
+      const run = await readRun(runId);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(run, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerResource(
+    "grammarly_run_final_text",
+    new ResourceTemplate(`${RUNS_URI}/{runId}/final_text`, { list: undefined }),
+    {
+      title: "Grammarly Run Final Text",
+      description: "The text a stored run returned, as plain text.",
+      mimeType: "text/plain",
+    },
+    async (uri, { runId }) => {
+      const run = await readRun(runId);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: run.result.final_text,
+          },
+        ],
+      };
+    },
+  );
+}
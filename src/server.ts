@@ -1,21 +1,94 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { drainSharedSessionPool } from "./browser/stagehand/sessionPool";
 import { config, log } from "./config";
+import { classifyError, type RunError } from "./errors";
 import {
+  AnalyzeToolInputSchema,
+  type BatchScoreResult,
+  BatchScoreToolInputSchema,
+  BatchScoreToolOutputSchema,
   type GrammarlyOptimizeInput,
   type GrammarlyOptimizeResult,
   type ProgressCallback,
+  RewriteToolInputSchema,
+  RewriteToolOutputSchema,
+  type RewriteToolResult,
+  runBatchScoring,
   runGrammarlyOptimization,
+  runRewrite,
+  ScoreToolInputSchema,
+  type StopReason,
   ToolInputSchema,
   ToolOutputSchema,
 } from "./grammarlyOptimizer";
+import { loadPromptPresets, registerPrompts } from "./prompts";
+import {
+  RunStore,
+  registerRunResources,
+  runUri,
+  type StoredRun,
+} from "./runStore";
+import { type DiffGranularity, diffText, formatInlineDiff } from "./text/diff";
+import {
+  LOCAL_CLIENT_ID,
+  type RunningHttpServer,
+  resolveTransportMode,
+  startHttpServer,
+  withConnectTimeout,
+} from "./transport";
+import type { RunUsage } from "./usage";
+
+function formatCost(usd: number | null): string {
+  return usd === null ? "unpriced" : `$${usd.toFixed(4)}`;
+}
+
+/** Markdown "Usage" section: one row per component, then the total. */
+function formatUsageSection(usage: RunUsage): string[] {
+  if (usage.components.length === 0) {
+    return [];
+  }
+  const lines = [
+    "",
+    "## Usage",
+    "",
+    "| Component | Model | Tokens (in / out) | Steps / Time | Estimated Cost |",
+    "|-----------|-------|-------------------|--------------|----------------|",
+  ];
+  for (const component of usage.components) {
+    const tokens =
+      component.input_tokens !== undefined
+        ? `${component.input_tokens} / ${component.output_tokens ?? 0}`
+        : "-";
+    const work =
+      component.steps !== undefined
+        ? `${component.steps} steps`
+        : component.session_seconds !== undefined
+          ? `${component.session_seconds}s`
+          : "-";
+    lines.push(
+      `| ${component.component} | ${component.model ?? "-"} | ${tokens} | ${work} | ${formatCost(component.estimated_cost_usd)} |`,
+    );
+  }
+  lines.push(
+    `| **Total** | | ${usage.input_tokens} / ${usage.output_tokens} | | ${formatCost(usage.estimated_cost_usd)} |`,
+  );
+  return lines;
+}
+
+const STOP_REASON_LABELS: Record<StopReason, string> = {
+  thresholds_met: "Thresholds met",
+  max_iterations: "Iteration limit",
+  plateau: "Scores stopped improving",
+  budget: "Budget reached",
+};
 
 /**
  * Format optimization result as human-readable markdown.
  */
 export function formatAsMarkdown(result: GrammarlyOptimizeResult): string {
-  const statusEmoji = result.thresholds_met ? "✅" : "⚠️";
+  const statusEmoji = result.error ? "❌" : result.thresholds_met ? "✅" : "⚠️";
   const aiScore =
     result.ai_detection_percent !== null
       ? `${result.ai_detection_percent}%`
@@ -38,11 +111,49 @@ export function formatAsMarkdown(result: GrammarlyOptimizeResult): string {
     `| Iterations Used | ${result.iterations_used} |`,
   ];
 
+  if (result.stop_reason) {
+    lines.push(`| Stopped By | ${STOP_REASON_LABELS[result.stop_reason]} |`);
+  }
+
+  if (result.cancelled) {
+    lines.push("| Cancelled | Yes (partial result) |");
+  }
+
+  if (result.error) {
+    lines.push(`| Error | ${describeRunError(result.error)} |`);
+  }
+
+  if (result.chunked) {
+    lines.push(
+      `| Scored In Chunks | ${result.chunk_scores.length}${result.truncated ? " (truncated)" : ""} |`,
+    );
+  }
+
   if (result.live_url) {
     lines.push(`| Live Preview | [Browser Session](${result.live_url}) |`);
   }
 
   lines.push("", "## Notes", "", result.notes);
+  lines.push(...formatUsageSection(result.usage));
+
+  if (result.chunked) {
+    lines.push("", "## Chunk Scores", "");
+    lines.push("| Chunk | Characters | AI % | Plagiarism % |");
+    lines.push("|-------|------------|------|--------------|");
+    for (const chunk of result.chunk_scores) {
+      const ai =
+        chunk.ai_detection_percent !== null
+          ? `${chunk.ai_detection_percent}%`
+          : "N/A";
+      const plag =
+        chunk.plagiarism_percent !== null
+          ? `${chunk.plagiarism_percent}%`
+          : "N/A";
+      lines.push(
+        `| ${chunk.chunk_index + 1} | ${chunk.char_count} | ${ai} | ${plag} |`,
+      );
+    }
+  }
 
   if (result.history.length > 0) {
     lines.push("", "## Iteration History", "");
@@ -60,7 +171,12 @@ export function formatAsMarkdown(result: GrammarlyOptimizeResult): string {
       // Truncate long notes for table readability
       const note =
         entry.note.length > 60 ? `${entry.note.slice(0, 57)}...` : entry.note;
-      lines.push(`| ${entry.iteration} | ${ai} | ${plag} | ${note} |`);
+      // Mark the returned candidate when rewrites produced alternatives
+      const iteration =
+        entry.selected && result.iterations_used > 0
+          ? `${entry.iteration} (selected)`
+          : `${entry.iteration}`;
+      lines.push(`| ${iteration} | ${ai} | ${plag} | ${note} |`);
     }
   }
 
@@ -78,6 +194,297 @@ export function formatAsMarkdown(result: GrammarlyOptimizeResult): string {
   return lines.join("\n");
 }
 
+/**
+ * Format what a run changed for review: the edits from the input text to
+ * final_text, then the edits between consecutive iterations' candidates.
+ */
+export function formatAsDiff(
+  result: GrammarlyOptimizeResult,
+  originalText: string,
+  granularity: DiffGranularity = "word",
+): string {
+  const statusEmoji = result.error ? "❌" : result.thresholds_met ? "✅" : "⚠️";
+  const percent = (value: number | null) =>
+    value === null ? "N/A" : `${value}%`;
+
+  const lines: string[] = [
+    `# Grammarly Optimization Changes ${statusEmoji}`,
+    "",
+    `AI Detection ${percent(result.ai_detection_percent)}, Plagiarism ${percent(result.plagiarism_percent)}, Thresholds Met: ${result.thresholds_met ? "Yes" : "No"}.`,
+  ];
+
+  if (result.error) {
+    lines.push("", `Error: ${describeRunError(result.error)}`);
+  }
+
+  lines.push("", "## Input → Final Text", "");
+  if (result.changes.length === 0) {
+    lines.push("The final text is the input text, unchanged.");
+  } else {
+    lines.push(
+      `${result.changes.length} change(s); the final text is iteration ${result.selected_iteration}. Removed text is marked [-like this-], added text {+like this+}.`,
+      "",
+      "```",
+      formatInlineDiff(diffText(originalText, result.final_text, granularity)),
+      "```",
+      "",
+      "| # | Type | Original | Revised |",
+      "|---|------|----------|---------|",
+    );
+    result.changes.forEach((change, index) => {
+      lines.push(
+        `| ${index + 1} | ${change.type} | ${escapeTableCell(change.original) || "-"} | ${escapeTableCell(change.revised) || "-"} |`,
+      );
+    });
+  }
+
+  if (result.history.length > 1) {
+    lines.push("", "## Changes Between Iterations");
+    result.history.forEach((entry, index) => {
+      const previous = result.history[index - 1];
+      if (!previous) {
+        return;
+      }
+      lines.push(
+        "",
+        `### Iteration ${previous.iteration} → ${entry.iteration}`,
+        "",
+      );
+      if (previous.candidate_text === entry.candidate_text) {
+        lines.push("No changes.");
+        return;
+      }
+      lines.push(
+        "```",
+        formatInlineDiff(
+          diffText(previous.candidate_text, entry.candidate_text, granularity),
+        ),
+        "```",
+      );
+    });
+  }
+
+  return lines.join("\n");
+}
+
+/** One-line description of a run error for markdown output. */
+function describeRunError(error: RunError): string {
+  return `${error.code} during ${error.phase} (${error.retryable ? "retryable" : "not retryable"})`;
+}
+
+/**
+ * Format a failed grammarly_rewrite call as human-readable markdown.
+ */
+export function formatRewriteErrorAsMarkdown(error: RunError): string {
+  return [
+    "# Rewrite Failed ❌",
+    "",
+    `Error: ${describeRunError(error)}`,
+    "",
+    error.message,
+  ].join("\n");
+}
+
+/**
+ * Format a grammarly_rewrite result as human-readable markdown.
+ */
+export function formatRewriteAsMarkdown(result: RewriteToolResult): string {
+  return [
+    "# Rewrite Result",
+    "",
+    `Strategy: ${result.strategy}`,
+    `Fidelity: ${result.fidelity_score}/100${result.attempts > 1 ? ` (after ${result.attempts} attempts)` : ""}`,
+    ...(result.lost_facts.length > 0
+      ? [`Lost or changed: ${result.lost_facts.join("; ")}`]
+      : []),
+    "",
+    "## Reasoning",
+    "",
+    result.reasoning,
+    ...formatUsageSection(result.usage),
+    "",
+    "---",
+    "",
+    "## Rewritten Text",
+    "",
+    "```",
+    result.rewritten_text,
+    "```",
+  ].join("\n");
+}
+
+/** Make free text safe for a markdown table cell. */
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Format a grammarly_score_batch result as a markdown table, one row per item.
+ */
+export function formatBatchAsMarkdown(result: BatchScoreResult): string {
+  const percent = (value: number | null) =>
+    value === null ? "N/A" : `${value}%`;
+  const statusEmoji =
+    result.thresholds_met === result.items.length ? "✅" : "⚠️";
+
+  const lines: string[] = [
+    `# Grammarly Batch Scores ${statusEmoji}`,
+    "",
+    `Scored ${result.scored} of ${result.items.length} documents; ${result.thresholds_met} met the thresholds` +
+      (result.failed > 0 ? `, ${result.failed} failed` : "") +
+      (result.cancelled ? " (batch cancelled)" : "") +
+      ".",
+    "",
+    "| ID | AI Detection | Plagiarism | Thresholds Met | Provider | Notes |",
+    "|----|--------------|------------|----------------|----------|-------|",
+  ];
+
+  for (const item of result.items) {
+    const thresholds =
+      item.status === "scored"
+        ? item.thresholds_met
+          ? "Yes"
+          : "No"
+        : item.status === "failed"
+          ? "❌ Failed"
+          : "Cancelled";
+    const notes = item.error ? describeRunError(item.error) : item.notes;
+    lines.push(
+      `| ${escapeTableCell(item.id)} | ${percent(item.ai_detection_percent)} | ${percent(item.plagiarism_percent)} | ${thresholds} | ${item.provider ?? "-"} | ${escapeTableCell(notes)} |`,
+    );
+  }
+  lines.push(...formatUsageSection(result.usage));
+
+  return lines.join("\n");
+}
+
+/**
+ * Build a progress callback that forwards MCP progress notifications when
+ * the client supplied a progress token.
+ */
+function createProgressCallback(extra: {
+  sendNotification?: (notification: {
+    method: "notifications/progress";
+    params: {
+      progressToken: string | number;
+      progress: number;
+      total: number;
+      message: string;
+    };
+  }) => Promise<void>;
+}): ProgressCallback {
+  // Prefer a public accessor if available (MCP SDK >=1.25.x expected to expose a getter;
+  // see README), and only fall back to the private `_meta` escape hatch when nothing
+  // else exists.
+  // Allow either the public getter (preferred) or fall back to legacy fields.
+  type ProgressTokenCarrier = {
+    getProgressToken?: () => unknown;
+    progressToken?: unknown;
+    meta?: { progressToken?: unknown };
+    /** legacy/private hook */
+    // biome-ignore lint/style/useNamingConvention: external SDK uses _meta for request metadata
+    _meta?: { progressToken?: unknown };
+  };
+  const progressTokenCarrier = extra as unknown as ProgressTokenCarrier;
+  const progressTokenCandidate =
+    typeof progressTokenCarrier.getProgressToken === "function"
+      ? progressTokenCarrier.getProgressToken()
+      : (progressTokenCarrier.progressToken ??
+        progressTokenCarrier.meta?.progressToken ??
+        // Legacy/private path: keep guarded to avoid hard-coupling to internals.
+        progressTokenCarrier._meta?.progressToken);
+  const progressToken =
+    typeof progressTokenCandidate === "string" ||
+    typeof progressTokenCandidate === "number"
+      ? progressTokenCandidate
+      : undefined;
+
+  return async (message, progress) => {
+    if (extra.sendNotification && progressToken) {
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: progress ?? 0,
+            total: 100,
+            message,
+          },
+        });
+      } catch (err) {
+        log("debug", "Failed to send progress notification", {
+          error: err instanceof Error ? err.message : err,
+        });
+      }
+    }
+    log("debug", `Progress: ${message}`, { progress });
+  };
+}
+
+// One store for the process; each client only sees the runs it saved.
+const runStore =
+  config.runStoreMaxRuns > 0
+    ? new RunStore(config.runStoreDir, config.runStoreMaxRuns)
+    : null;
+
+// Read once at startup; every session gets the same prompts.
+const promptPresets = loadPromptPresets(config.promptsFile);
+
+/**
+ * Persist a finished run to the run store, if enabled. Never throws.
+ */
+async function recordRun(
+  clientId: string,
+  tool: string,
+  input: GrammarlyOptimizeInput,
+  result: GrammarlyOptimizeResult,
+): Promise<StoredRun | null> {
+  return runStore ? runStore.save(clientId, tool, input, result) : null;
+}
+
+/**
+ * Validate a scoring/optimization result and wrap it as a tool result in the
+ * requested response format, linking the stored run when there is one. A
+ * failed run is an `isError` result that still carries the partial history.
+ */
+function toOptimizeToolResult(
+  result: GrammarlyOptimizeResult,
+  input: GrammarlyOptimizeInput,
+  run: StoredRun | null,
+) {
+  const validatedOutput = ToolOutputSchema.parse(result);
+
+  // Format output based on response_format preference
+  // Use result (GrammarlyOptimizeResult) for formatting, validatedOutput for structuredContent
+  const textSummary =
+    input.response_format === "markdown"
+      ? formatAsMarkdown(result)
+      : input.response_format === "diff"
+        ? formatAsDiff(result, input.text, input.diff_granularity)
+        : JSON.stringify(validatedOutput, null, 2);
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: textSummary,
+      },
+      ...(run
+        ? [
+            {
+              type: "resource_link" as const,
+              uri: runUri(run.id),
+              name: `Run ${run.id}`,
+              mimeType: "application/json",
+            },
+          ]
+        : []),
+    ],
+    structuredContent: validatedOutput,
+    ...(result.error ? { isError: true } : {}),
+  };
+}
+
 /**
  * Create and configure the MCP server.
  *
@@ -87,8 +494,11 @@ export function formatAsMarkdown(result: GrammarlyOptimizeResult): string {
  * - Output schema for structured responses
  * - Tasks support for async operations (experimental)
  * - Progress notifications during long operations
+ *
+ * The HTTP transport calls this once per client session, passing the
+ * client the session belongs to; stored runs are scoped to that client.
  */
-async function main(): Promise<void> {
+function createServer(clientId: string = LOCAL_CLIENT_ID): McpServer {
   const server = new McpServer(
     {
       name: "grammarly-mcp",
@@ -122,73 +532,105 @@ async function main(): Promise<void> {
 
       log("info", "Received grammarly_optimize_text tool call", {
         mode: parsed.mode,
+        strategy: parsed.strategy,
         max_ai_percent: parsed.max_ai_percent,
         max_plagiarism_percent: parsed.max_plagiarism_percent,
         max_iterations: parsed.max_iterations,
+        bypass_cache: parsed.bypass_cache,
       });
 
-      // Create progress callback for MCP progress notifications.
-      // Prefer a public accessor if available (MCP SDK >=1.25.x expected to expose a getter;
-      // see README), and only fall back to the private `_meta` escape hatch when nothing
-      // else exists.
-      // Allow either the public getter (preferred) or fall back to legacy fields.
-      type ProgressTokenCarrier = {
-        getProgressToken?: () => unknown;
-        progressToken?: unknown;
-        meta?: { progressToken?: unknown };
-        /** legacy/private hook */
-        // biome-ignore lint/style/useNamingConvention: external SDK uses _meta for request metadata
-        _meta?: { progressToken?: unknown };
-      };
-      const progressTokenCarrier = extra as unknown as ProgressTokenCarrier;
-      const progressTokenCandidate =
-        typeof progressTokenCarrier.getProgressToken === "function"
-          ? progressTokenCarrier.getProgressToken()
-          : (progressTokenCarrier.progressToken ??
-            progressTokenCarrier.meta?.progressToken ??
-            // Legacy/private path: keep guarded to avoid hard-coupling to internals.
-            progressTokenCarrier._meta?.progressToken);
-      const progressToken =
-        typeof progressTokenCandidate === "string" ||
-        typeof progressTokenCandidate === "number"
-          ? progressTokenCandidate
-          : undefined;
-      const onProgress: ProgressCallback = async (message, progress) => {
-        if (extra.sendNotification && progressToken) {
-          try {
-            await extra.sendNotification({
-              method: "notifications/progress",
-              params: {
-                progressToken,
-                progress: progress ?? 0,
-                total: 100,
-                message,
-              },
-            });
-          } catch (err) {
-            log("debug", "Failed to send progress notification", {
-              error: err instanceof Error ? err.message : err,
-            });
-          }
-        }
-        log("debug", `Progress: ${message}`, { progress });
-      };
+      const result = await runGrammarlyOptimization(
+        config,
+        parsed,
+        createProgressCallback(extra),
+        extra.signal,
+      );
+      const run = await recordRun(
+        clientId,
+        "grammarly_optimize_text",
+        parsed,
+        result,
+      );
+      return toOptimizeToolResult(result, parsed, run);
+    },
+  );
+
+  server.registerTool(
+    "grammarly_score",
+    {
+      title: "Grammarly Score",
+      description:
+        "Get Grammarly AI detection and plagiarism scores for text. Read-only: no rewriting and no LLM calls.",
+      inputSchema: ScoreToolInputSchema,
+      outputSchema: ToolOutputSchema,
+      annotations: {
+        readOnlyHint: true, // Only reads scores
+        destructiveHint: false,
+        idempotentHint: true, // Same text, same scoring request
+        openWorldHint: true, // Interacts with Grammarly
+      },
+    },
+    async (args, extra) => {
+      const parsed = ToolInputSchema.parse({
+        ...args,
+        mode: "score_only",
+      }) as GrammarlyOptimizeInput;
+
+      log("info", "Received grammarly_score tool call", {
+        textLength: parsed.text.length,
+      });
+
+      const result = await runGrammarlyOptimization(
+        config,
+        parsed,
+        createProgressCallback(extra),
+        extra.signal,
+      );
+      const run = await recordRun(clientId, "grammarly_score", parsed, result);
+      return toOptimizeToolResult(result, parsed, run);
+    },
+  );
+
+  server.registerTool(
+    "grammarly_score_batch",
+    {
+      title: "Grammarly Batch Score",
+      description:
+        "Get Grammarly AI detection and plagiarism scores for several documents in one call. " +
+        "Documents are scored in parallel browser sessions (bounded by `concurrency`) and reported per item; one failed item does not fail the batch.",
+      inputSchema: BatchScoreToolInputSchema,
+      outputSchema: BatchScoreToolOutputSchema,
+      annotations: {
+        readOnlyHint: true, // Only reads scores
+        destructiveHint: false,
+        idempotentHint: true, // Same texts, same scoring requests
+        openWorldHint: true, // Interacts with Grammarly
+      },
+    },
+    async (args, extra) => {
+      const parsed = BatchScoreToolInputSchema.parse(args);
 
-      const result = await runGrammarlyOptimization(config, parsed, onProgress);
-      const validatedOutput = ToolOutputSchema.parse(result);
+      log("info", "Received grammarly_score_batch tool call", {
+        items: parsed.items.length,
+        concurrency: parsed.concurrency,
+      });
 
-      // Format output based on response_format preference
-      // Use result (GrammarlyOptimizeResult) for formatting, validatedOutput for structuredContent
-      const textSummary =
-        parsed.response_format === "markdown"
-          ? formatAsMarkdown(result)
-          : JSON.stringify(validatedOutput, null, 2);
+      const result = await runBatchScoring(
+        config,
+        parsed,
+        createProgressCallback(extra),
+        extra.signal,
+      );
+      const validatedOutput = BatchScoreToolOutputSchema.parse(result);
 
       return {
         content: [
           {
             type: "text",
-            text: textSummary,
+            text:
+              parsed.response_format === "markdown"
+                ? formatBatchAsMarkdown(result)
+                : JSON.stringify(validatedOutput, null, 2),
           },
         ],
         structuredContent: validatedOutput,
@@ -196,28 +638,186 @@ async function main(): Promise<void> {
     },
   );
 
-  const transport = new StdioServerTransport();
+  server.registerTool(
+    "grammarly_analyze",
+    {
+      title: "Grammarly Analyze",
+      description:
+        "Get Grammarly AI detection and plagiarism scores plus an LLM analysis with concrete suggestions. Does not rewrite the text.",
+      inputSchema: AnalyzeToolInputSchema,
+      outputSchema: ToolOutputSchema,
+      annotations: {
+        readOnlyHint: true, // Scores and advises; text is not changed
+        destructiveHint: false,
+        idempotentHint: false, // Analysis wording varies between runs
+        openWorldHint: true, // Interacts with Grammarly and external LLM APIs
+      },
+    },
+    async (args, extra) => {
+      const parsed = ToolInputSchema.parse({
+        ...args,
+        mode: "analyze",
+      }) as GrammarlyOptimizeInput;
 
-  log("info", "Starting Grammarly Browser Use MCP server over stdio");
+      log("info", "Received grammarly_analyze tool call", {
+        textLength: parsed.text.length,
+        tone: parsed.tone,
+      });
+
+      const result = await runGrammarlyOptimization(
+        config,
+        parsed,
+        createProgressCallback(extra),
+        extra.signal,
+      );
+      const run = await recordRun(
+        clientId,
+        "grammarly_analyze",
+        parsed,
+        result,
+      );
+      return toOptimizeToolResult(result, parsed, run);
+    },
+  );
+
+  server.registerTool(
+    "grammarly_rewrite",
+    {
+      title: "Grammarly Rewrite",
+      description:
+        "Rewrite text once with the configured LLM to lower AI detection and plagiarism scores, given the current scores. " +
+        "No browser session: pass scores from grammarly_score (or null if unknown).",
+      inputSchema: RewriteToolInputSchema,
+      outputSchema: RewriteToolOutputSchema,
+      annotations: {
+        readOnlyHint: false, // Tool rewrites text
+        destructiveHint: false, // Non-destructive (original preserved in input)
+        idempotentHint: false, // Each run may produce different results
+        openWorldHint: true, // Interacts with external LLM APIs
+      },
+    },
+    async (args, extra) => {
+      const parsed = RewriteToolInputSchema.parse(args);
+
+      log("info", "Received grammarly_rewrite tool call", {
+        strategy: parsed.strategy,
+        ai_detection_percent: parsed.ai_detection_percent,
+        plagiarism_percent: parsed.plagiarism_percent,
+      });
+
+      let result: RewriteToolResult;
+      try {
+        result = await runRewrite(config, parsed, extra.signal);
+      } catch (error) {
+        if (extra.signal.aborted) {
+          throw error;
+        }
+        const runError = classifyError(error, "rewrite");
+        log("error", "grammarly_rewrite failed", runError);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                parsed.response_format === "markdown"
+                  ? formatRewriteErrorAsMarkdown(runError)
+                  : JSON.stringify({ error: runError }, null, 2),
+            },
+          ],
+          structuredContent: { error: runError },
+          isError: true,
+        };
+      }
+      const validatedOutput = RewriteToolOutputSchema.parse(result);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              parsed.response_format === "markdown"
+                ? formatRewriteAsMarkdown(result)
+                : JSON.stringify(validatedOutput, null, 2),
+          },
+        ],
+        structuredContent: validatedOutput,
+      };
+    },
+  );
 
-  const timeoutMs = config.connectTimeoutMs;
-  const connectPromise = server.connect(transport);
+  registerPrompts(server, promptPresets);
 
-  let timeoutHandle: NodeJS.Timeout | undefined;
+  if (runStore) {
+    registerRunResources(server, runStore, clientId);
+  }
+
+  return server;
+}
 
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutHandle = setTimeout(() => {
-      reject(new Error(`Server connect timed out after ${timeoutMs}ms`));
-    }, timeoutMs);
-  });
+/**
+ * Serve over Streamable HTTP until SIGINT/SIGTERM, then close every client
+ * session before exiting.
+ */
+async function serveHttp(): Promise<void> {
+  log(
+    "info",
+    "Starting Grammarly Browser Use MCP server over Streamable HTTP",
+    {
+      host: config.httpHost,
+      port: config.httpPort,
+      auth: config.httpAuthTokens.length > 0,
+    },
+  );
 
+  let running: RunningHttpServer;
   try {
-    await Promise.race([connectPromise, timeoutPromise]);
+    running = await startHttpServer(createServer, {
+      host: config.httpHost,
+      port: config.httpPort,
+      authTokens: config.httpAuthTokens,
+      maxConcurrentPerClient: config.httpMaxConcurrentPerClient,
+      maxSessionsPerClient: config.httpMaxSessionsPerClient,
+      sessionIdleTimeoutMs: config.httpSessionIdleTimeoutMs,
+      connectTimeoutMs: config.connectTimeoutMs,
+    });
   } catch (error: unknown) {
-    if (timeoutHandle) {
-      clearTimeout(timeoutHandle);
-    }
+    log("error", "Failed to start MCP server", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  }
+
+  log("info", `MCP server listening on ${running.url}`);
 
+  const shutdown = (signal: string) => {
+    log("info", `Received ${signal}, closing MCP HTTP sessions`);
+    void Promise.allSettled([
+      running.close(),
+      drainSharedSessionPool(),
+    ]).finally(() => process.exit(0));
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+async function main(): Promise<void> {
+  const mode = resolveTransportMode(process.argv.slice(2), config.transport);
+  if (mode === "http") {
+    await serveHttp();
+    return;
+  }
+
+  const server = createServer();
+  const transport = new StdioServerTransport();
+
+  log("info", "Starting Grammarly Browser Use MCP server over stdio");
+
+  try {
+    await withConnectTimeout(
+      server.connect(transport),
+      config.connectTimeoutMs,
+    );
+  } catch (error: unknown) {
     log("error", "Failed to start MCP server", {
       message: error instanceof Error ? error.message : String(error),
     });
@@ -233,11 +833,15 @@ async function main(): Promise<void> {
     }
 
     process.exit(1);
-  } finally {
-    if (timeoutHandle) {
-      clearTimeout(timeoutHandle);
-    }
   }
+
+  // Pooled Browserbase sessions would otherwise run until they time out.
+  const shutdown = (signal: string) => {
+    log("info", `Received ${signal}, releasing pooled browser sessions`);
+    void drainSharedSessionPool().finally(() => process.exit(0));
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
 }
 
 // Top-level await is supported in Node 18+ ESM.
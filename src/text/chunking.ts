@@ -0,0 +1,167 @@
+/**
+ * Maximum characters Grammarly is asked to score in one pass. Both browser
+ * providers truncate anything past this, so longer documents are chunked.
+ */
+export const MAX_CHUNK_LENGTH = 8000;
+
+/**
+ * Upper bound on chunks scored per document. Each chunk costs a full
+ * Grammarly pass, so text past this limit is left unscored and flagged.
+ */
+export const MAX_SCORED_CHUNKS = 10;
+
+export interface TextChunk {
+  index: number;
+  text: string;
+}
+
+export interface ChunkedText {
+  chunks: TextChunk[];
+  /** True when text beyond MAX_SCORED_CHUNKS was dropped. */
+  truncated: boolean;
+}
+
+export interface ChunkScore {
+  chunkIndex: number;
+  charCount: number;
+  aiDetectionPercent: number | null;
+  plagiarismPercent: number | null;
+}
+
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*/;
+const SENTENCE_BREAK = /(?<=[.!?])\s+/;
+
+/**
+ * Split a block that exceeds maxLength on sentence boundaries, falling back
+ * to hard cuts for single sentences that are still too long.
+ */
+function splitOversizedBlock(block: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of block.split(SENTENCE_BREAK)) {
+    if (sentence.length > maxLength) {
+      if (current) {
+        pieces.push(current);
+        current = "";
+      }
+      for (let start = 0; start < sentence.length; start += maxLength) {
+        pieces.push(sentence.slice(start, start + maxLength));
+      }
+      continue;
+    }
+
+    const candidate = current ? `${current} ${sentence}` : sentence;
+    if (candidate.length > maxLength) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+/**
+ * Split text into chunks of at most maxLength characters, packing whole
+ * paragraphs greedily so each chunk reads as coherent prose for Grammarly.
+ */
+export function splitIntoChunks(
+  text: string,
+  maxLength = MAX_CHUNK_LENGTH,
+  maxChunks = MAX_SCORED_CHUNKS,
+): ChunkedText {
+  if (maxLength <= 0) {
+    throw new RangeError("maxLength must be positive");
+  }
+
+  if (text.length <= maxLength) {
+    return { chunks: [{ index: 0, text }], truncated: false };
+  }
+
+  const blocks = text
+    .split(PARAGRAPH_BREAK)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .flatMap((paragraph) =>
+      paragraph.length > maxLength
+        ? splitOversizedBlock(paragraph, maxLength)
+        : [paragraph],
+    );
+
+  const packed: string[] = [];
+  let current = "";
+
+  for (const block of blocks) {
+    const candidate = current ? `${current}\n\n${block}` : block;
+    if (candidate.length > maxLength) {
+      packed.push(current);
+      current = block;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    packed.push(current);
+  }
+
+  const truncated = packed.length > maxChunks;
+  const chunks = packed
+    .slice(0, maxChunks)
+    .map((chunkText, index) => ({ index, text: chunkText }));
+
+  return { chunks, truncated };
+}
+
+/**
+ * Length-weighted average of one score across chunks. Chunks without a score
+ * are excluded from both numerator and denominator; null if none scored.
+ */
+function weightedAverage(
+  chunkScores: ChunkScore[],
+  pick: (score: ChunkScore) => number | null,
+): number | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const score of chunkScores) {
+    const value = pick(score);
+    if (value === null) {
+      continue;
+    }
+    weightedSum += value * score.charCount;
+    totalWeight += score.charCount;
+  }
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  // One decimal place keeps combined scores readable without hiding drift.
+  return Math.round((weightedSum / totalWeight) * 10) / 10;
+}
+
+/**
+ * Combine per-chunk Grammarly scores into a single document score.
+ */
+export function combineChunkScores(chunkScores: ChunkScore[]): {
+  aiDetectionPercent: number | null;
+  plagiarismPercent: number | null;
+} {
+  return {
+    aiDetectionPercent: weightedAverage(
+      chunkScores,
+      (score) => score.aiDetectionPercent,
+    ),
+    plagiarismPercent: weightedAverage(
+      chunkScores,
+      (score) => score.plagiarismPercent,
+    ),
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Word- and sentence-level diffs between two versions of a text, so an
+ * editor can review what a rewrite changed before accepting it.
+ */
+
+import { z } from "zod";
+
+export type DiffGranularity = "word" | "sentence";
+
+export interface DiffPart {
+  type: "equal" | "delete" | "insert";
+  text: string;
+}
+
+/** Zod schema for one entry of the `changes` array in tool results. */
+export const TextChangeSchema = z.object({
+  type: z.enum(["insert", "delete", "replace"]),
+  original: z
+    .string()
+    .describe("Text removed from the original (empty for an insert)."),
+  revised: z
+    .string()
+    .describe("Text that takes its place (empty for a delete)."),
+  original_offset: z
+    .number()
+    .int()
+    .describe("Character offset of the change in the original text."),
+  revised_offset: z
+    .number()
+    .int()
+    .describe("Character offset of the change in the revised text."),
+});
+
+export type TextChange = z.infer<typeof TextChangeSchema>;
+
+/**
+ * Largest token table (original tokens × revised tokens) diffed exactly.
+ * A word diff past it falls back to sentences, a sentence diff to one
+ * replacement of everything between the common prefix and suffix.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Words (with inner apostrophes and hyphens), whitespace runs, other characters. */
+const WORD_TOKEN = /\s+|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*|\S/gu;
+
+/** Breaks after sentence-ending punctuation or a newline, keeping the whitespace. */
+const SENTENCE_TOKEN_BREAK = /(?<=[.!?]["'”’)\]]*\s+|\n)(?=\S)/;
+
+function tokenize(text: string, granularity: DiffGranularity): string[] {
+  if (granularity === "word") {
+    return text.match(WORD_TOKEN) ?? [];
+  }
+  return text.split(SENTENCE_TOKEN_BREAK).filter((token) => token.length > 0);
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  if (text.length === 0) {
+    return;
+  }
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/** Longest-common-subsequence walk over the tokens left after trimming. */
+function diffTokens(original: string[], revised: string[]): DiffPart[] {
+  const rows = original.length + 1;
+  const cols = revised.length + 1;
+  // lengths[i * cols + j]: LCS length of original[i..] and revised[j..].
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = revised.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        original[i] === revised[j]
+          ? (lengths[(i + 1) * cols + j + 1] ?? 0) + 1
+          : Math.max(
+              lengths[(i + 1) * cols + j] ?? 0,
+              lengths[i * cols + j + 1] ?? 0,
+            );
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < original.length && j < revised.length) {
+    if (original[i] === revised[j]) {
+      pushPart(parts, "equal", original[i] ?? "");
+      i++;
+      j++;
+    } else if (
+      (lengths[(i + 1) * cols + j] ?? 0) >= (lengths[i * cols + j + 1] ?? 0)
+    ) {
+      pushPart(parts, "delete", original[i] ?? "");
+      i++;
+    } else {
+      pushPart(parts, "insert", revised[j] ?? "");
+      j++;
+    }
+  }
+  pushPart(parts, "delete", original.slice(i).join(""));
+  pushPart(parts, "insert", revised.slice(j).join(""));
+  return parts;
+}
+
+/**
+ * Fold whitespace that only separates two edits into them, so "a b" → "c d"
+ * reads as one replacement instead of two around an unchanged space. Each
+ * run of edits becomes one delete followed by one insert.
+ */
+function mergeEdits(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  let deleted = "";
+  let inserted = "";
+  const flush = () => {
+    pushPart(merged, "delete", deleted);
+    pushPart(merged, "insert", inserted);
+    deleted = "";
+    inserted = "";
+  };
+
+  parts.forEach((part, index) => {
+    if (part.type === "delete") {
+      deleted += part.text;
+      return;
+    }
+    if (part.type === "insert") {
+      inserted += part.text;
+      return;
+    }
+    const next = parts[index + 1];
+    const bridgesEdits =
+      (deleted || inserted) &&
+      next !== undefined &&
+      next.type !== "equal" &&
+      part.text.trim() === "";
+    if (bridgesEdits) {
+      deleted += part.text;
+      inserted += part.text;
+      return;
+    }
+    flush();
+    pushPart(merged, "equal", part.text);
+  });
+  flush();
+  return merged;
+}
+
+/**
+ * Diff `revised` against `original` by words or sentences. Concatenating
+ * the equal and delete parts gives back `original`; equal and insert parts
+ * give `revised`.
+ */
+export function diffText(
+  original: string,
+  revised: string,
+  granularity: DiffGranularity = "word",
+): DiffPart[] {
+  if (original === revised) {
+    return original ? [{ type: "equal", text: original }] : [];
+  }
+
+  const originalTokens = tokenize(original, granularity);
+  const revisedTokens = tokenize(revised, granularity);
+
+  let prefix = 0;
+  while (
+    prefix < originalTokens.length &&
+    prefix < revisedTokens.length &&
+    originalTokens[prefix] === revisedTokens[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < originalTokens.length - prefix &&
+    suffix < revisedTokens.length - prefix &&
+    originalTokens[originalTokens.length - 1 - suffix] ===
+      revisedTokens[revisedTokens.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const originalMiddle = originalTokens.slice(
+    prefix,
+    originalTokens.length - suffix,
+  );
+  const revisedMiddle = revisedTokens.slice(
+    prefix,
+    revisedTokens.length - suffix,
+  );
+  const cells = (originalMiddle.length + 1) * (revisedMiddle.length + 1);
+  if (cells > MAX_DIFF_CELLS && granularity === "word") {
+    return diffText(original, revised, "sentence");
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, "equal", originalTokens.slice(0, prefix).join(""));
+  const middle =
+    cells > MAX_DIFF_CELLS
+      ? [
+          { type: "delete" as const, text: originalMiddle.join("") },
+          { type: "insert" as const, text: revisedMiddle.join("") },
+        ]
+      : diffTokens(originalMiddle, revisedMiddle);
+  for (const part of middle) {
+    pushPart(parts, part.type, part.text);
+  }
+  pushPart(
+    parts,
+    "equal",
+    originalTokens.slice(originalTokens.length - suffix).join(""),
+  );
+  return mergeEdits(parts);
+}
+
+/** The edits in a diff, with where they sit in each text. */
+export function listChanges(parts: DiffPart[]): TextChange[] {
+  const changes: TextChange[] = [];
+  let originalOffset = 0;
+  let revisedOffset = 0;
+  let pending: TextChange | null = null;
+
+  for (const part of parts) {
+    if (part.type === "equal") {
+      pending = null;
+      originalOffset += part.text.length;
+      revisedOffset += part.text.length;
+      continue;
+    }
+    if (!pending) {
+      pending = {
+        type: part.type,
+        original: "",
+        revised: "",
+        original_offset: originalOffset,
+        revised_offset: revisedOffset,
+      };
+      changes.push(pending);
+    }
+    if (part.type === "delete") {
+      pending.original += part.text;
+      originalOffset += part.text.length;
+    } else {
+      pending.revised += part.text;
+      revisedOffset += part.text.length;
+    }
+    if (pending.original && pending.revised) {
+      pending.type = "replace";
+    }
+  }
+  return changes;
+}
+
+/**
+ * The revised text with edits marked inline, git word-diff style:
+ * `[-removed-]{+added+}`.
+ */
+export function formatInlineDiff(parts: DiffPart[]): string {
+  return parts
+    .map((part) =>
+      part.type === "equal"
+        ? part.text
+        : part.type === "delete"
+          ? `[-${part.text}-]`
+          : `{+${part.text}+}`,
+    )
+    .join("");
+}
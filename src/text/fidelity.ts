@@ -0,0 +1,181 @@
+/**
+ * Local fact check between an original text and a rewrite: named entities,
+ * numbers, dates and citations of the original that the rewrite no longer
+ * contains. It complements the LLM meaning judgment, which can miss a
+ * changed figure but catches paraphrased claims that were dropped.
+ */
+
+import { CITATION_PATTERNS } from "./protectedSpans";
+
+export type FactKind = "entity" | "number" | "date" | "citation";
+
+export interface Fact {
+  kind: FactKind;
+  text: string;
+}
+
+export interface FactCheck {
+  /** Share of the original's facts the rewrite kept, 0-100 (100 with none). */
+  score: number;
+  lost: Fact[];
+}
+
+const MONTHS =
+  "Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?";
+
+const DATE_PATTERNS: RegExp[] = [
+  // "March 3, 2021", "Mar. 3rd" or "March 2021"
+  new RegExp(
+    `\\b(?:${MONTHS})\\.?\\s+(?:\\d{1,2}(?:st|nd|rd|th)?(?:,\\s*\\d{4})?|\\d{4})\\b`,
+    "g",
+  ),
+  // "3 March 2021"
+  new RegExp(`\\b\\d{1,2}\\s+(?:${MONTHS})\\.?(?:\\s+\\d{4})?\\b`, "g"),
+  // ISO and slashed dates
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g,
+];
+
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*%?/g;
+
+/** Runs of capitalized words, e.g. "World Health Organization". */
+const ENTITY_PATTERN = /\b[A-Z][\w'’-]*(?:\s+[A-Z][\w'’-]*)*/g;
+
+/** Capitalized words that are not names on their own. */
+const NON_ENTITY_WORDS = new Set([
+  "A",
+  "An",
+  "And",
+  "But",
+  "For",
+  "He",
+  "How",
+  "I",
+  "If",
+  "In",
+  "It",
+  "Its",
+  "Our",
+  "She",
+  "So",
+  "That",
+  "The",
+  "Their",
+  "There",
+  "These",
+  "They",
+  "This",
+  "Those",
+  "We",
+  "What",
+  "When",
+  "Which",
+  "While",
+  "Why",
+  "You",
+]);
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ");
+}
+
+/** Blank out matches so later patterns do not see them again. */
+function takeMatches(
+  text: string,
+  patterns: RegExp[],
+): { found: string[]; rest: string } {
+  const found: string[] = [];
+  let rest = text;
+  for (const pattern of patterns) {
+    rest = rest.replace(pattern, (match) => {
+      found.push(normalize(match));
+      return " ".repeat(match.length);
+    });
+  }
+  return { found, rest };
+}
+
+function isSentenceStart(text: string, index: number): boolean {
+  return /(?:^|[.!?:]\s+|\n\s*)$/.test(text.slice(0, index));
+}
+
+function findEntities(text: string): string[] {
+  const entities: string[] = [];
+  for (const match of text.matchAll(ENTITY_PATTERN)) {
+    const words = match[0].split(/\s+/);
+    // A sentence-initial capital says nothing; drop it and keep the rest.
+    const startsSentence = isSentenceStart(text, match.index ?? 0);
+    const kept = (startsSentence ? words.slice(1) : words).filter(
+      (word, position) => position > 0 || !NON_ENTITY_WORDS.has(word),
+    );
+    if (kept.length > 0) {
+      entities.push(kept.join(" "));
+    }
+  }
+  return entities;
+}
+
+/** Named entities, numbers, dates and citations found in `text`. */
+export function extractFacts(text: string): Fact[] {
+  const citations = takeMatches(text, CITATION_PATTERNS);
+  const dates = takeMatches(citations.rest, DATE_PATTERNS);
+  const numbers = [...dates.rest.matchAll(NUMBER_PATTERN)].map(
+    (match) => match[0],
+  );
+
+  const facts: Fact[] = [
+    ...citations.found.map((fact) => ({
+      kind: "citation" as const,
+      text: fact,
+    })),
+    ...dates.found.map((fact) => ({ kind: "date" as const, text: fact })),
+    ...numbers.map((fact) => ({ kind: "number" as const, text: fact })),
+    ...findEntities(dates.rest).map((fact) => ({
+      kind: "entity" as const,
+      text: fact,
+    })),
+  ];
+
+  const seen = new Set<string>();
+  return facts.filter((fact) => {
+    const key = `${fact.kind}:${fact.text}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function keeps(rewrite: string, fact: Fact): boolean {
+  switch (fact.kind) {
+    case "number": {
+      // Thousands separators may change ("1,200" vs "1200").
+      const digits = fact.text.replace(/,(?=\d{3}\b)/g, "");
+      const rewriteNumbers = [...rewrite.matchAll(NUMBER_PATTERN)].map(
+        (match) => match[0].replace(/,(?=\d{3}\b)/g, ""),
+      );
+      return rewriteNumbers.includes(digits);
+    }
+    case "entity": {
+      // Every word of the name must survive; word order may change.
+      const words = new Set(rewrite.match(/[\w'’-]+/g) ?? []);
+      return fact.text.split(" ").every((word) => words.has(word));
+    }
+    default:
+      return normalize(rewrite).toLowerCase().includes(fact.text.toLowerCase());
+  }
+}
+
+/** The original's facts that the rewrite dropped or changed. */
+export function checkFacts(original: string, rewrite: string): FactCheck {
+  const facts = extractFacts(original);
+  if (facts.length === 0) {
+    return { score: 100, lost: [] };
+  }
+  const lost = facts.filter((fact) => !keeps(rewrite, fact));
+  return {
+    score: Math.round(((facts.length - lost.length) / facts.length) * 100),
+    lost,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Cheap local estimate of how "AI-like" a passage reads. This is not a
+ * detector: it only ranks passages so expensive Grammarly passes and LLM
+ * rewrites are spent on the likeliest offenders.
+ */
+
+/** Phrases that AI assistants overuse and detectors tend to flag. */
+const AI_PHRASES = [
+  "delve",
+  "in today's",
+  "it is important to note",
+  "it's important to note",
+  "it is worth noting",
+  "furthermore",
+  "moreover",
+  "additionally",
+  "in conclusion",
+  "in summary",
+  "overall,",
+  "ultimately,",
+  "tapestry",
+  "landscape",
+  "leverage",
+  "crucial",
+  "seamless",
+  "robust",
+  "plays a vital role",
+  "plays a crucial role",
+  "navigate",
+  "realm",
+  "underscore",
+  "foster",
+  "embark",
+  "ever-evolving",
+  "a testament to",
+];
+
+const SENTENCE_BREAK = /(?<=[.!?])\s+/;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_BREAK)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+/** Density of stock AI phrases, saturating at 3 hits per 100 words. */
+function phraseSignal(text: string, wordCount: number): number {
+  const lower = text.toLowerCase();
+  let hits = 0;
+  for (const phrase of AI_PHRASES) {
+    let from = lower.indexOf(phrase);
+    while (from !== -1) {
+      hits += 1;
+      from = lower.indexOf(phrase, from + phrase.length);
+    }
+  }
+  const hitsPer100Words = (hits * 100) / Math.max(wordCount, 1);
+  return clamp01(hitsPer100Words / 3);
+}
+
+/**
+ * Low variation in sentence length ("burstiness") is typical of model output.
+ * Returns a neutral 0.5 when there are too few sentences to judge.
+ */
+function uniformitySignal(sentences: string[]): number {
+  if (sentences.length < 3) {
+    return 0.5;
+  }
+  const lengths = sentences.map(countWords);
+  const mean = lengths.reduce((sum, n) => sum + n, 0) / lengths.length;
+  if (mean === 0) {
+    return 0.5;
+  }
+  const variance =
+    lengths.reduce((sum, n) => sum + (n - mean) ** 2, 0) / lengths.length;
+  const coefficientOfVariation = Math.sqrt(variance) / mean;
+  return clamp01((0.6 - coefficientOfVariation) / 0.6);
+}
+
+/** Share of sentences that open with the same word as another sentence. */
+function repeatedOpenerSignal(sentences: string[]): number {
+  if (sentences.length < 2) {
+    return 0;
+  }
+  const openers = sentences.map(
+    (sentence) => sentence.split(/\s+/)[0]?.toLowerCase() ?? "",
+  );
+  const counts = new Map<string, number>();
+  for (const opener of openers) {
+    counts.set(opener, (counts.get(opener) ?? 0) + 1);
+  }
+  const repeated = openers.filter((opener) => (counts.get(opener) ?? 0) > 1);
+  return repeated.length / openers.length;
+}
+
+/**
+ * Estimate an AI-likeness score (0-100) for a passage from phrase density,
+ * sentence-length uniformity, em dash use and repeated sentence openings.
+ */
+export function estimateAiScore(text: string): number {
+  const wordCount = countWords(text);
+  if (wordCount === 0) {
+    return 0;
+  }
+
+  const sentences = splitSentences(text);
+  const emDashSignal = clamp01((text.match(/—/g)?.length ?? 0) / 2);
+
+  const score =
+    0.45 * phraseSignal(text, wordCount) +
+    0.35 * uniformitySignal(sentences) +
+    0.1 * emDashSignal +
+    0.1 * repeatedOpenerSignal(sentences);
+
+  return Math.round(score * 100);
+}
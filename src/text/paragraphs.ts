@@ -0,0 +1,92 @@
+import { estimateAiScore } from "./heuristics";
+
+/**
+ * A paragraph plus the exact separator that followed it in the source, so
+ * joining segments reproduces the original text byte for byte.
+ */
+export interface ParagraphSegment {
+  text: string;
+  separator: string;
+}
+
+/** Paragraphs shorter than this (headings, list stubs) are never targeted. */
+export const MIN_REWRITE_PARAGRAPH_LENGTH = 40;
+
+const PARAGRAPH_SEPARATOR = /(\n[ \t]*\n\s*)/;
+
+/** Split text into paragraphs, preserving separators verbatim. */
+export function splitParagraphs(text: string): ParagraphSegment[] {
+  const parts = text.split(PARAGRAPH_SEPARATOR);
+  const segments: ParagraphSegment[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    segments.push({ text: parts[i] ?? "", separator: parts[i + 1] ?? "" });
+  }
+  return segments;
+}
+
+/** Inverse of splitParagraphs. */
+export function joinParagraphs(segments: ParagraphSegment[]): string {
+  return segments.map((segment) => segment.text + segment.separator).join("");
+}
+
+export interface ParagraphSelectionOptions {
+  /** Cap on targets; defaults to a third of eligible paragraphs (minimum one). */
+  maxTargets?: number;
+  /** Passages Grammarly flagged (AI-like sentences, plagiarism matches). */
+  flaggedPassages?: string[];
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Choose which paragraphs to rewrite. Paragraphs containing a flagged
+ * passage come first, regardless of length or cap, since only targeted
+ * paragraphs can change; the rest of the cap goes to the highest local
+ * AI-likeness estimates. Returns indices in document order.
+ */
+export function selectParagraphsForRewrite(
+  segments: ParagraphSegment[],
+  options: ParagraphSelectionOptions = {},
+): number[] {
+  const passages = (options.flaggedPassages ?? [])
+    .map(normalizeWhitespace)
+    .filter((passage) => passage.length > 0);
+  const flagged = new Set<number>();
+  segments.forEach((segment, index) => {
+    const paragraph = normalizeWhitespace(segment.text);
+    if (
+      paragraph.length > 0 &&
+      passages.some(
+        (passage) => paragraph.includes(passage) || passage.includes(paragraph),
+      )
+    ) {
+      flagged.add(index);
+    }
+  });
+
+  const eligible = segments
+    .map((segment, index) => ({
+      index,
+      score: estimateAiScore(segment.text),
+      length: segment.text.trim().length,
+    }))
+    .filter(
+      (candidate) =>
+        candidate.length >= MIN_REWRITE_PARAGRAPH_LENGTH &&
+        !flagged.has(candidate.index),
+    );
+
+  const limit =
+    options.maxTargets ??
+    Math.max(1, Math.ceil((eligible.length + flagged.size) / 3));
+
+  return [
+    ...flagged,
+    ...eligible
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, Math.max(0, limit - flagged.size))
+      .map((candidate) => candidate.index),
+  ].sort((a, b) => a - b);
+}
@@ -0,0 +1,291 @@
+/**
+ * Protected spans are passages a rewrite must never touch: code, math,
+ * citations, URLs and quotations. They are swapped for opaque placeholders
+ * before the LLM call and restored afterwards, so preservation is enforced
+ * rather than merely requested in the prompt.
+ */
+
+export interface ProtectedSpan {
+  placeholder: string;
+  text: string;
+  kind: string;
+}
+
+export interface ProtectedText {
+  text: string;
+  spans: ProtectedSpan[];
+}
+
+export interface PlaceholderProblems {
+  missing: string[];
+  duplicated: string[];
+  unexpected: string[];
+}
+
+interface ProtectionPattern {
+  kind: string;
+  pattern: RegExp;
+}
+
+const PLACEHOLDER_PATTERN = /\[\[PROTECTED_(\d+)\]\]/g;
+
+/** In-text citations; also checked by the fidelity check. */
+export const CITATION_PATTERNS: RegExp[] = [
+  // Author-year citations such as "(Smith, 2019)" or "(Lee et al., 2020a, p. 4)".
+  /\([A-Z][^()\n]*?\b\d{4}[a-z]?\b[^()\n]*\)/g,
+  // Numeric citations such as "[3]" or "[1, 4-6]".
+  /\[\d+(?:\s*[,–-]\s*\d+)*\]/g,
+];
+
+/**
+ * Built-in patterns in priority order: when matches overlap, the earlier
+ * pattern wins (so a URL inside a fenced block stays part of the block).
+ * The first entry guards literal placeholder-like text in the input.
+ */
+const DEFAULT_PATTERNS: ProtectionPattern[] = [
+  { kind: "placeholder", pattern: PLACEHOLDER_PATTERN },
+  { kind: "fenced code", pattern: /(```|~~~)[\s\S]*?\1/g },
+  {
+    kind: "math",
+    pattern: /\\begin\{([a-zA-Z]+\*?)\}[\s\S]*?\\end\{\1\}/g,
+  },
+  { kind: "math", pattern: /\$\$[\s\S]+?\$\$/g },
+  { kind: "math", pattern: /\\\[[\s\S]+?\\\]/g },
+  { kind: "math", pattern: /\\\([\s\S]+?\\\)/g },
+  // Inline $...$ must hug its content so "$5 and $10" is not math.
+  { kind: "math", pattern: /\$(?=\S)[^$\n]+?(?<=\S)\$(?!\d)/g },
+  { kind: "inline code", pattern: /`[^`\n]+`/g },
+  { kind: "url", pattern: /\bhttps?:\/\/[^\s<>()"]*[^\s<>()".,;:!?'’]/g },
+  ...CITATION_PATTERNS.map((pattern) => ({ kind: "citation", pattern })),
+  { kind: "quote", pattern: /"[^"\n]+"/g },
+  { kind: "quote", pattern: /“[^”\n]+”/g },
+];
+
+/** Longest custom protection pattern source accepted. */
+export const MAX_PROTECTION_PATTERN_LENGTH = 200;
+
+const QUANTIFIER_START = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+
+/**
+ * Why a custom pattern could backtrack catastrophically, or null if it is
+ * safe to run. Custom patterns run on the server's main thread over the
+ * whole text, so anything that can take exponential time is refused:
+ * backreferences, and repeated groups that contain a quantifier or an
+ * alternation, such as `(a+)+` or `(a|ab)*`.
+ */
+function findUnsafeSyntax(source: string): string | null {
+  // One frame per open group (the first is the whole pattern).
+  const groups = [{ quantified: false, alternation: false }];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const top = groups[groups.length - 1];
+    if (!top) {
+      return null;
+    }
+    if (char === "\\") {
+      if (/^\\(?:[1-9]|k<)/.test(source.slice(index))) {
+        return "backreferences are not allowed";
+      }
+      index += 2;
+      continue;
+    }
+    if (char === "[") {
+      index++;
+      while (index < source.length && source[index] !== "]") {
+        index += source[index] === "\\" ? 2 : 1;
+      }
+      index++;
+      continue;
+    }
+    if (char === "(") {
+      groups.push({ quantified: false, alternation: false });
+      const modifier = /^\(\?(?:[:=!]|<[=!]|<[A-Za-z_$][\w$]*>)/.exec(
+        source.slice(index),
+      );
+      index += modifier ? modifier[0].length : 1;
+      continue;
+    }
+    if (char === "|") {
+      top.alternation = true;
+      index++;
+      continue;
+    }
+    if (char === ")" && groups.length > 1) {
+      groups.pop();
+      const parent = groups[groups.length - 1];
+      const repeated = QUANTIFIER_START.test(source.slice(index + 1));
+      if (repeated && (top.quantified || top.alternation)) {
+        return "repeated groups may not contain quantifiers or alternations";
+      }
+      if (parent) {
+        parent.quantified ||= top.quantified || repeated;
+        parent.alternation ||= top.alternation;
+      }
+      index++;
+      continue;
+    }
+    const quantifier = QUANTIFIER_START.exec(source.slice(index));
+    if (quantifier) {
+      top.quantified = true;
+      index += quantifier[0].length;
+      continue;
+    }
+    index++;
+  }
+  return null;
+}
+
+/**
+ * Why a custom protection pattern is refused (too long, invalid, or prone
+ * to catastrophic backtracking), or null if it can be used.
+ */
+export function checkProtectionPattern(source: string): string | null {
+  if (source.length > MAX_PROTECTION_PATTERN_LENGTH) {
+    return `longer than ${MAX_PROTECTION_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(source);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return findUnsafeSyntax(source);
+}
+
+/**
+ * Compile user-supplied protection regexes. Patterns are plain sources
+ * (no slashes or flags); matching is always global.
+ * Throws on a pattern checkProtectionPattern refuses.
+ */
+export function compileProtectionPatterns(sources: string[]): RegExp[] {
+  return sources.map((source) => {
+    const problem = checkProtectionPattern(source);
+    if (problem) {
+      throw new Error(
+        `Invalid protected pattern ${JSON.stringify(source)}: ${problem}`,
+      );
+    }
+    return new RegExp(source, "g");
+  });
+}
+
+function placeholderFor(index: number): string {
+  return `[[PROTECTED_${index}]]`;
+}
+
+/**
+ * Replace every protected span with a numbered placeholder. Custom patterns
+ * run after the built-ins; overlapping matches are dropped.
+ */
+export function protectSpans(
+  text: string,
+  customPatterns: RegExp[] = [],
+): ProtectedText {
+  const patterns: ProtectionPattern[] = [
+    ...DEFAULT_PATTERNS,
+    ...customPatterns.map((pattern) => ({ kind: "custom", pattern })),
+  ];
+
+  const accepted: Array<{ start: number; end: number; kind: string }> = [];
+  const overlaps = (start: number, end: number) =>
+    accepted.some((range) => start < range.end && end > range.start);
+
+  for (const { kind, pattern } of patterns) {
+    const global = pattern.global
+      ? pattern
+      : new RegExp(pattern.source, `${pattern.flags}g`);
+    for (const match of text.matchAll(global)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (end > start && !overlaps(start, end)) {
+        accepted.push({ start, end, kind });
+      }
+    }
+  }
+
+  accepted.sort((a, b) => a.start - b.start);
+
+  const spans: ProtectedSpan[] = [];
+  let output = "";
+  let cursor = 0;
+  for (const range of accepted) {
+    const placeholder = placeholderFor(spans.length);
+    spans.push({
+      placeholder,
+      text: text.slice(range.start, range.end),
+      kind: range.kind,
+    });
+    output += text.slice(cursor, range.start) + placeholder;
+    cursor = range.end;
+  }
+  output += text.slice(cursor);
+
+  return { text: output, spans };
+}
+
+/** Compare the placeholders in a rewrite against the ones that were issued. */
+export function findPlaceholderProblems(
+  text: string,
+  spans: ProtectedSpan[],
+): PlaceholderProblems | null {
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+  }
+
+  const issued = new Set(spans.map((span) => span.placeholder));
+  const problems: PlaceholderProblems = {
+    missing: spans
+      .filter((span) => !counts.has(span.placeholder))
+      .map((span) => span.placeholder),
+    duplicated: spans
+      .filter((span) => (counts.get(span.placeholder) ?? 0) > 1)
+      .map((span) => span.placeholder),
+    unexpected: [...counts.keys()].filter((token) => !issued.has(token)),
+  };
+
+  const hasProblems =
+    problems.missing.length > 0 ||
+    problems.duplicated.length > 0 ||
+    problems.unexpected.length > 0;
+  return hasProblems ? problems : null;
+}
+
+/** Human-readable summary of placeholder problems for logs and errors. */
+export function describePlaceholderProblems(
+  problems: PlaceholderProblems,
+): string {
+  return [
+    problems.missing.length > 0
+      ? `missing ${problems.missing.join(", ")}`
+      : null,
+    problems.duplicated.length > 0
+      ? `duplicated ${problems.duplicated.join(", ")}`
+      : null,
+    problems.unexpected.length > 0
+      ? `unexpected ${problems.unexpected.join(", ")}`
+      : null,
+  ]
+    .filter((part): part is string => part !== null)
+    .join("; ");
+}
+
+/**
+ * Put the original spans back. Callers must check findPlaceholderProblems
+ * first; this throws if any placeholder is missing, duplicated or unknown.
+ */
+export function restoreSpans(text: string, spans: ProtectedSpan[]): string {
+  const problems = findPlaceholderProblems(text, spans);
+  if (problems) {
+    throw new Error(
+      `Protected spans not preserved: ${describePlaceholderProblems(problems)}`,
+    );
+  }
+
+  const originals = new Map(spans.map((span) => [span.placeholder, span.text]));
+  // Single pass, so restored text that looks like a placeholder is not expanded.
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (token) => originals.get(token) ?? token,
+  );
+}
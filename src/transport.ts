@@ -0,0 +1,553 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { log, type TransportMode } from "./config";
+
+/** Path the Streamable HTTP endpoint is served on. */
+export const MCP_HTTP_PATH = "/mcp";
+
+/** Largest request body accepted over HTTP (texts can be long essays). */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Race a startup step against the connect timeout so a stuck transport
+ * fails fast instead of hanging the MCP host.
+ */
+export async function withConnectTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  label = "Server connect",
+): Promise<T> {
+  let timeoutHandle: NodeJS.Timeout | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutHandle = setTimeout(() => {
+      reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    if (timeoutHandle) {
+      clearTimeout(timeoutHandle);
+    }
+  }
+}
+
+/**
+ * Resolve the transport from CLI flags (`--http`, `--stdio`,
+ * `--transport http`, `--transport=http`), falling back to MCP_TRANSPORT.
+ */
+export function resolveTransportMode(
+  argv: string[],
+  fallback: TransportMode,
+): TransportMode {
+  let mode = fallback;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    let value: string | undefined;
+
+    if (arg === "--http" || arg === "--stdio") {
+      value = arg.slice(2);
+    } else if (arg === "--transport") {
+      value = argv[++i];
+    } else if (arg?.startsWith("--transport=")) {
+      value = arg.slice("--transport=".length);
+    } else {
+      continue;
+    }
+
+    if (value !== "stdio" && value !== "http") {
+      throw new Error(
+        `Unknown transport "${value ?? ""}"; expected "stdio" or "http"`,
+      );
+    }
+    mode = value;
+  }
+
+  return mode;
+}
+
+/** Whether a bind address or Host name only accepts local connections. */
+export function isLoopbackHost(host: string): boolean {
+  const name = host.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  return name === "localhost" || name === "::1" || name.startsWith("127.");
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Find the configured bearer token an Authorization header presents, or
+ * null if none matches. Digests are compared in constant time so the check
+ * does not leak how much of a token matched.
+ */
+export function matchBearerToken(
+  authorization: string | undefined,
+  tokens: readonly string[],
+): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? "");
+  if (!match?.[1]) {
+    return null;
+  }
+
+  const presented = digest(match[1]);
+  let matched: string | null = null;
+  for (const token of tokens) {
+    if (timingSafeEqual(presented, digest(token))) {
+      matched = token;
+    }
+  }
+  return matched;
+}
+
+/** Check an Authorization header against the configured bearer tokens. */
+export function bearerTokenMatches(
+  authorization: string | undefined,
+  tokens: readonly string[],
+): boolean {
+  return matchBearerToken(authorization, tokens) !== null;
+}
+
+/** Client id used when auth is off: every (loopback) caller is one client. */
+export const LOCAL_CLIENT_ID = "local";
+
+/**
+ * Client id for a bearer token: a digest prefix, so ids can be logged and
+ * stored without revealing the token.
+ */
+export function clientIdForToken(token: string): string {
+  return `token-${digest(token).toString("hex").slice(0, 16)}`;
+}
+
+/**
+ * Counts in-flight tool calls per client (one bearer token, however many
+ * MCP sessions it opens) and refuses new ones past the limit, so one client
+ * cannot tie up every browser session of a shared server.
+ */
+export class ClientConcurrencyLimiter {
+  private readonly limit: number;
+  private readonly inFlight = new Map<string, number>();
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  /** Reserve `count` slots for a client; false (nothing reserved) if full. */
+  tryAcquire(clientId: string, count = 1): boolean {
+    const active = this.active(clientId);
+    if (active + count > this.limit) {
+      return false;
+    }
+    this.inFlight.set(clientId, active + count);
+    return true;
+  }
+
+  release(clientId: string, count = 1): void {
+    const remaining = this.active(clientId) - count;
+    if (remaining > 0) {
+      this.inFlight.set(clientId, remaining);
+    } else {
+      this.inFlight.delete(clientId);
+    }
+  }
+
+  active(clientId: string): number {
+    return this.inFlight.get(clientId) ?? 0;
+  }
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Accepted bearer tokens; empty disables auth (loopback only). */
+  authTokens: string[];
+  maxConcurrentPerClient: number;
+  /** Open sessions per client; the least recently used idle one makes room. */
+  maxSessionsPerClient: number;
+  /** Sessions with no request in flight for this long are closed. */
+  sessionIdleTimeoutMs: number;
+  connectTimeoutMs: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** The client that initialized the session; no other client may use it. */
+  clientId: string;
+  /**
+   * POSTs on the session still being answered. The standalone GET stream
+   * for server notifications is not counted: it stays open while the
+   * client is connected, busy or not.
+   */
+  activeRequests: number;
+  lastActiveAt: number;
+}
+
+/** Longest pause between sweeps for idle sessions. */
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+  );
+}
+
+/**
+ * Read the request body, or null as soon as it exceeds MAX_BODY_BYTES
+ * (declared or actually sent). The rest of an oversized body is left
+ * unread; the caller answers and destroys the request.
+ */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_BYTES) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req.iterator({ destroyOnReturn: false })) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/** Number of tools/call requests in a JSON-RPC message or batch. */
+function countToolCalls(body: unknown): number {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.filter(
+    (message) =>
+      typeof message === "object" &&
+      message !== null &&
+      (message as { method?: unknown }).method === "tools/call" &&
+      "id" in message,
+  ).length;
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Serve MCP over Streamable HTTP at MCP_HTTP_PATH. Every client session gets
+ * its own McpServer from `createServer`, all sharing this process (and so the
+ * configured Browserbase context and Grammarly login). A client is one
+ * bearer token (or, without auth, every local caller): its sessions are
+ * bound to it, share its tool-call allowance, count against its session cap
+ * and close after sitting idle.
+ */
+export async function startHttpServer(
+  createServer: (clientId: string) => McpServer,
+  options: HttpServerOptions,
+): Promise<RunningHttpServer> {
+  const authEnabled = options.authTokens.length > 0;
+  if (!authEnabled && !isLoopbackHost(options.host)) {
+    throw new Error(
+      `MCP_HTTP_AUTH_TOKENS is required when binding the HTTP transport to a non-loopback host (${options.host})`,
+    );
+  }
+
+  const sessions = new Map<string, HttpSession>();
+  const limiter = new ClientConcurrencyLimiter(options.maxConcurrentPerClient);
+
+  const closeSession = (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    log("info", `Closing MCP HTTP session: ${reason}`, {
+      sessionId,
+      clientId: session.clientId,
+    });
+    session.transport.close().catch((error: unknown) => {
+      log("warn", "Failed to close MCP HTTP session", {
+        sessionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    });
+    sessions.delete(sessionId);
+  };
+
+  /**
+   * Make room for one more session of `clientId` by closing its least
+   * recently used idle session; false if every one is busy.
+   */
+  const makeRoomForSession = (clientId: string): boolean => {
+    const own = [...sessions.entries()].filter(
+      ([, session]) => session.clientId === clientId,
+    );
+    if (own.length < options.maxSessionsPerClient) {
+      return true;
+    }
+    const idle = own
+      .filter(([, session]) => session.activeRequests === 0)
+      .sort(([, a], [, b]) => a.lastActiveAt - b.lastActiveAt);
+    const oldest = idle[0];
+    if (!oldest) {
+      return false;
+    }
+    closeSession(oldest[0], "session limit reached");
+    return true;
+  };
+
+  const sweepTimer = setInterval(
+    () => {
+      const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+      for (const [sessionId, session] of sessions) {
+        if (session.activeRequests === 0 && session.lastActiveAt <= cutoff) {
+          closeSession(sessionId, "idle timeout");
+        }
+      }
+    },
+    Math.min(options.sessionIdleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS),
+  );
+  sweepTimer.unref();
+
+  /**
+   * Close a server/transport pair whose initialize never opened a session.
+   * It is in no map, so neither the idle sweep nor the cap would see it.
+   */
+  const discardSession = (session: HttpSession, reason: string) => {
+    log("warn", `Discarding MCP HTTP session: ${reason}`, {
+      clientId: session.clientId,
+    });
+    void Promise.allSettled([
+      session.server.close(),
+      session.transport.close(),
+    ]);
+  };
+
+  const openSession = async (clientId: string): Promise<HttpSession> => {
+    const server = createServer(clientId);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, session);
+        log("info", "MCP HTTP session opened", { sessionId, clientId });
+      },
+    });
+    const session: HttpSession = {
+      transport,
+      server,
+      clientId,
+      activeRequests: 0,
+      lastActiveAt: Date.now(),
+    };
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && sessions.delete(sessionId)) {
+        log("info", "MCP HTTP session closed", { sessionId });
+      }
+    };
+
+    try {
+      await withConnectTimeout(
+        server.connect(transport),
+        options.connectTimeoutMs,
+        "Session connect",
+      );
+    } catch (error) {
+      discardSession(session, "connect failed");
+      throw error;
+    }
+    return session;
+  };
+
+  const handleRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, -32000, "Not found");
+      return;
+    }
+
+    let clientId = LOCAL_CLIENT_ID;
+    if (authEnabled) {
+      const token = matchBearerToken(
+        req.headers.authorization,
+        options.authTokens,
+      );
+      if (!token) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="grammarly-mcp"');
+        sendJsonRpcError(res, 401, -32000, "Unauthorized");
+        return;
+      }
+      clientId = clientIdForToken(token);
+    } else {
+      // Without auth, only accept local Host names so a web page cannot
+      // reach the server through DNS rebinding.
+      const hostname = new URL(`http://${req.headers.host ?? ""}`).hostname;
+      if (!isLoopbackHost(hostname)) {
+        sendJsonRpcError(res, 403, -32000, "Forbidden host");
+        return;
+      }
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      const raw = await readBody(req);
+      if (raw === null) {
+        res.setHeader("Connection", "close");
+        res.once("finish", () => req.destroy());
+        sendJsonRpcError(res, 413, -32000, "Request body too large");
+        return;
+      }
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, "Parse error");
+        return;
+      }
+    }
+
+    const sessionId = headerValue(req.headers["mcp-session-id"]);
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session && session.clientId !== clientId) {
+      // Answer as for an unknown session so ids cannot be probed.
+      log("warn", "Rejected a session used by another client", {
+        sessionId,
+        clientId,
+      });
+      session = undefined;
+    }
+    if (sessionId && !session) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    let opened = false;
+    if (!session) {
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        sendJsonRpcError(
+          res,
+          400,
+          -32000,
+          "Bad Request: no valid session ID provided",
+        );
+        return;
+      }
+      if (!makeRoomForSession(clientId)) {
+        sendJsonRpcError(
+          res,
+          429,
+          -32000,
+          `Too many open sessions for this client (limit ${options.maxSessionsPerClient})`,
+        );
+        return;
+      }
+      session = await openSession(clientId);
+      opened = true;
+    }
+
+    const toolCalls = countToolCalls(body);
+    if (toolCalls > 0) {
+      if (!limiter.tryAcquire(clientId, toolCalls)) {
+        log("warn", "Rejected tool call over the per-client limit", {
+          sessionId,
+          clientId,
+          limit: options.maxConcurrentPerClient,
+        });
+        sendJsonRpcError(
+          res,
+          429,
+          -32000,
+          `Too many concurrent tool calls for this client (limit ${options.maxConcurrentPerClient})`,
+        );
+        return;
+      }
+      // The response closes once every reply in the POST has been sent.
+      res.once("close", () => limiter.release(clientId, toolCalls));
+    }
+
+    const active = session;
+    active.lastActiveAt = Date.now();
+    if (req.method === "POST") {
+      active.activeRequests++;
+      res.once("close", () => {
+        active.activeRequests--;
+        active.lastActiveAt = Date.now();
+      });
+    }
+
+    try {
+      await active.transport.handleRequest(req, res, body);
+    } finally {
+      if (opened && !active.transport.sessionId) {
+        discardSession(active, "initialize did not assign a session ID");
+      }
+    }
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      log("error", "Failed to handle MCP HTTP request", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    });
+  });
+
+  await withConnectTimeout(
+    new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(options.port, options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    }),
+    options.connectTimeoutMs,
+    "HTTP server listen",
+  ).catch((error: unknown) => {
+    httpServer.close();
+    throw error;
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host =
+    address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}${MCP_HTTP_PATH}`,
+    close: async () => {
+      clearInterval(sweepTimer);
+      await Promise.allSettled(
+        [...sessions.values()].map((session) => session.transport.close()),
+      );
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
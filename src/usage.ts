@@ -0,0 +1,329 @@
+import * as fs from "node:fs";
+import { z } from "zod";
+import type { ScoringUsage } from "./browser/provider";
+import { log } from "./config";
+import type { LlmCallUsage } from "./llm/rewriteClient";
+
+const ModelPriceSchema = z.object({
+  input_per_million: z.number().nonnegative(),
+  output_per_million: z.number().nonnegative(),
+});
+
+/** USD per million input and output tokens for one model. */
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+const PriceTableFileSchema = z.object({
+  models: z.record(z.string(), ModelPriceSchema).optional(),
+  browser_use_per_step: z.number().nonnegative().optional(),
+  browserbase_per_hour: z.number().nonnegative().optional(),
+});
+
+/** Prices used to estimate what a run cost, in USD. */
+export interface PriceTable {
+  /** Keyed by model ID as reported in usage (e.g. `gpt-4o`, `claude-code/sonnet`). */
+  models: Record<string, ModelPrice>;
+  browser_use_per_step: number;
+  browserbase_per_hour: number;
+}
+
+/**
+ * List prices at the time of writing. Claude Code models are left out: with
+ * a Pro/Max subscription a call has no per-token price. Override or extend
+ * them with PRICE_TABLE_FILE.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  models: {
+    "gpt-4o": { input_per_million: 2.5, output_per_million: 10 },
+    "gpt-4o-mini": { input_per_million: 0.15, output_per_million: 0.6 },
+    "gemini-2.5-flash": { input_per_million: 0.3, output_per_million: 2.5 },
+    "gemini-2.5-pro": { input_per_million: 1.25, output_per_million: 10 },
+    "claude-sonnet-4-20250514": {
+      input_per_million: 3,
+      output_per_million: 15,
+    },
+    "claude-3-5-haiku-latest": {
+      input_per_million: 0.8,
+      output_per_million: 4,
+    },
+  },
+  browser_use_per_step: 0.01,
+  browserbase_per_hour: 0.12,
+};
+
+/**
+ * The default price table with a user price file
+ * (`{ "models": {...}, "browser_use_per_step": n, "browserbase_per_hour": n }`)
+ * merged over it; a model listed in the file replaces the built-in price.
+ * An unreadable or invalid file is logged and ignored.
+ */
+export function loadPriceTable(filePath: string | undefined): PriceTable {
+  if (!filePath) {
+    return DEFAULT_PRICE_TABLE;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    log("error", "Failed to read price table file; using built-in prices", {
+      filePath,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return DEFAULT_PRICE_TABLE;
+  }
+
+  const parsed = PriceTableFileSchema.safeParse(data);
+  if (!parsed.success) {
+    log("error", "Invalid price table file; using built-in prices", {
+      filePath,
+      issues: parsed.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      ),
+    });
+    return DEFAULT_PRICE_TABLE;
+  }
+
+  return {
+    models: { ...DEFAULT_PRICE_TABLE.models, ...parsed.data.models },
+    browser_use_per_step:
+      parsed.data.browser_use_per_step ??
+      DEFAULT_PRICE_TABLE.browser_use_per_step,
+    browserbase_per_hour:
+      parsed.data.browserbase_per_hour ??
+      DEFAULT_PRICE_TABLE.browserbase_per_hour,
+  };
+}
+
+const priceTables = new Map<string, PriceTable>();
+
+/** loadPriceTable, read once per file for the life of the process. */
+export function getPriceTable(filePath: string | undefined): PriceTable {
+  const key = filePath ?? "";
+  let table = priceTables.get(key);
+  if (!table) {
+    table = loadPriceTable(filePath);
+    priceTables.set(key, table);
+  }
+  return table;
+}
+
+export const UsageComponentSchema = z.enum([
+  "rewrite",
+  "analysis",
+  "summary",
+  "fidelity",
+  "stagehand_llm",
+  "browser_use",
+  "browserbase",
+]);
+
+export type UsageComponent = z.infer<typeof UsageComponentSchema>;
+
+/** Zod schema for the `usage` block of tool results. */
+export const UsageSchema = z.object({
+  components: z
+    .array(
+      z.object({
+        component: UsageComponentSchema,
+        model: z.string().optional(),
+        calls: z.number().int().optional(),
+        input_tokens: z.number().int().optional(),
+        output_tokens: z.number().int().optional(),
+        steps: z.number().int().optional().describe("Browser Use task steps."),
+        session_seconds: z
+          .number()
+          .optional()
+          .describe("Time Browserbase sessions were held by this run."),
+        estimated_cost_usd: z
+          .number()
+          .nullable()
+          .describe("Null when the price table has no price for the model."),
+      }),
+    )
+    .describe("One entry per LLM step and model, plus browser usage."),
+  input_tokens: z.number().int().describe("LLM input tokens, all components."),
+  output_tokens: z
+    .number()
+    .int()
+    .describe("LLM output tokens, all components."),
+  estimated_cost_usd: z
+    .number()
+    .describe("Sum of the priced components' estimates."),
+});
+
+export type RunUsage = z.infer<typeof UsageSchema>;
+export type UsageComponentEntry = RunUsage["components"][number];
+
+/** Add up the usage of several scoring passes (e.g. chunks of one document). */
+export function addScoringUsage(
+  total: ScoringUsage | undefined,
+  next: ScoringUsage | undefined,
+): ScoringUsage | undefined {
+  if (!total || !next) {
+    return total ?? next;
+  }
+  const sum = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  return {
+    steps: sum(total.steps, next.steps),
+    llmModel: total.llmModel ?? next.llmModel,
+    inputTokens: sum(total.inputTokens, next.inputTokens),
+    outputTokens: sum(total.outputTokens, next.outputTokens),
+  };
+}
+
+interface LlmTally {
+  component: UsageComponent;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function roundCost(usd: number): number {
+  return Math.round(usd * 1e6) / 1e6;
+}
+
+/**
+ * Collects what one tool call used: LLM tokens per step and model, Browser
+ * Use steps and time held on Browserbase sessions. Scores served from the
+ * score cache cost nothing and are not recorded.
+ */
+export class UsageTracker {
+  private llm = new Map<string, LlmTally>();
+  private browserUseSteps = 0;
+  private browserbaseMs = 0;
+  private openSessions = new Set<{ startedAt: number }>();
+
+  /** Record one finished rewrite, analysis, summary or fidelity LLM call. */
+  recordLlmCall(usage: LlmCallUsage): void {
+    this.addTokens(
+      usage.operation,
+      usage.modelId,
+      usage.inputTokens,
+      usage.outputTokens,
+    );
+  }
+
+  /** Record the automation work behind one freshly scored document. */
+  recordScoring(usage: ScoringUsage | undefined): void {
+    if (!usage) {
+      return;
+    }
+    this.browserUseSteps += usage.steps ?? 0;
+    if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+      this.addTokens(
+        "stagehand_llm",
+        usage.llmModel ?? "unknown",
+        usage.inputTokens ?? 0,
+        usage.outputTokens ?? 0,
+      );
+    }
+  }
+
+  /**
+   * Start timing a browser session; call the returned function once it is
+   * closed. Only Stagehand (Browserbase) sessions are billed by time.
+   */
+  startSession(provider: string): () => void {
+    if (provider !== "stagehand") {
+      return () => {
+        // Other providers are not billed by session time.
+      };
+    }
+    const session = { startedAt: Date.now() };
+    this.openSessions.add(session);
+    return () => {
+      if (this.openSessions.delete(session)) {
+        this.browserbaseMs += Date.now() - session.startedAt;
+      }
+    };
+  }
+
+  /**
+   * Usage so far, priced with `prices`. Sessions still open are counted up
+   * to now.
+   */
+  toUsage(prices: PriceTable): RunUsage {
+    const components: UsageComponentEntry[] = [];
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (const tally of this.llm.values()) {
+      const price = prices.models[tally.model];
+      inputTokens += tally.inputTokens;
+      outputTokens += tally.outputTokens;
+      components.push({
+        component: tally.component,
+        model: tally.model,
+        calls: tally.calls,
+        input_tokens: tally.inputTokens,
+        output_tokens: tally.outputTokens,
+        estimated_cost_usd: price
+          ? roundCost(
+              (tally.inputTokens * price.input_per_million +
+                tally.outputTokens * price.output_per_million) /
+                1_000_000,
+            )
+          : null,
+      });
+    }
+
+    if (this.browserUseSteps > 0) {
+      components.push({
+        component: "browser_use",
+        steps: this.browserUseSteps,
+        estimated_cost_usd: roundCost(
+          this.browserUseSteps * prices.browser_use_per_step,
+        ),
+      });
+    }
+
+    const now = Date.now();
+    let browserbaseMs = this.browserbaseMs;
+    for (const session of this.openSessions) {
+      browserbaseMs += now - session.startedAt;
+    }
+    if (browserbaseMs > 0) {
+      components.push({
+        component: "browserbase",
+        session_seconds: Math.round(browserbaseMs / 100) / 10,
+        estimated_cost_usd: roundCost(
+          (browserbaseMs / 3_600_000) * prices.browserbase_per_hour,
+        ),
+      });
+    }
+
+    return {
+      components,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      estimated_cost_usd: roundCost(
+        components.reduce(
+          (sum, component) => sum + (component.estimated_cost_usd ?? 0),
+          0,
+        ),
+      ),
+    };
+  }
+
+  private addTokens(
+    component: UsageComponent,
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+  ): void {
+    const key = `${component}\n${model}`;
+    const tally = this.llm.get(key) ?? {
+      component,
+      model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+    };
+    tally.calls += 1;
+    tally.inputTokens += inputTokens;
+    tally.outputTokens += outputTokens;
+    this.llm.set(key, tally);
+  }
+}
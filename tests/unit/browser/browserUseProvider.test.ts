@@ -20,6 +20,7 @@ import { BrowserUseProvider } from "../../../src/browser/browserUseProvider";
 const baseConfig: AppConfig = {
 	ignoreSystemEnv: false,
 	browserProvider: "browser-use",
+	browserProviders: ["browser-use"],
 	browserUseApiKey: "test-browser-use-key",
 	browserUseProfileId: "test-profile-id",
 	browserbaseApiKey: undefined,
@@ -28,6 +29,34 @@ const baseConfig: AppConfig = {
 	browserbaseContextId: undefined,
 	stagehandModel: "gemini-2.5-flash",
 	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
 	stagehandLlmProvider: undefined,
 	rewriteLlmProvider: undefined,
 	claudeModel: "auto",
@@ -213,6 +242,22 @@ describe("BrowserUseProvider", () => {
 			});
 		});
 
+		it("reports the task's steps as usage", async () => {
+			mockRunGrammarlyScoreTask.mockResolvedValueOnce({
+				aiDetectionPercent: 25,
+				plagiarismPercent: 8,
+				notes: "Scored",
+				liveUrl: null,
+				steps: 7,
+			});
+
+			const provider = new BrowserUseProvider(baseConfig);
+			await provider.createSession();
+			const result = await provider.scoreText("session-123", "Text");
+
+			expect(result.usage).toEqual({ steps: 7 });
+		});
+
 		it("handles null liveUrl for unknown sessions", async () => {
 			mockRunGrammarlyScoreTask.mockResolvedValueOnce({
 				aiDetectionPercent: 10,
@@ -293,4 +338,24 @@ describe("BrowserUseProvider", () => {
 			).resolves.not.toThrow();
 		});
 	});
+
+	describe("openLoginSession", () => {
+		it("opens a profile session on the sign-in page", async () => {
+			mockCreateGrammarlySession.mockResolvedValueOnce({
+				sessionId: "login-session",
+				liveUrl: "https://live.url",
+			});
+
+			const provider = new BrowserUseProvider(baseConfig);
+			const result = await provider.openLoginSession();
+
+			expect(mockCreateGrammarlySession).toHaveBeenCalledWith(mockClient, baseConfig, {
+				startUrl: "https://www.grammarly.com/signin",
+			});
+			expect(result).toEqual({
+				sessionId: "login-session",
+				liveUrl: "https://live.url",
+			});
+		});
+	});
 });
@@ -10,6 +10,7 @@ vi.mock("../../../src/config", () => ({
 const mockSessionsCreateSession = vi.fn();
 const mockTasksCreateTask = vi.fn();
 const mockTaskComplete = vi.fn();
+const mockTasksUpdateTask = vi.fn();
 
 // Mock BrowserUseClient class
 vi.mock("browser-use-sdk", () => ({
@@ -19,6 +20,7 @@ vi.mock("browser-use-sdk", () => ({
     };
     tasks = {
       createTask: mockTasksCreateTask,
+      updateTask: mockTasksUpdateTask,
     };
   },
 }));
@@ -31,10 +33,12 @@ import {
   BrowserUseLlmSchema,
   type BrowserUseLlm,
 } from "../../../src/browser/grammarlyTask";
+import { GrammarlyAuthError } from "../../../src/errors";
 
 const baseConfig: AppConfig = {
   ignoreSystemEnv: false,
   browserProvider: "browser-use",
+  browserProviders: ["browser-use"],
   browserUseApiKey: "test-browser-use-key",
   browserUseProfileId: "test-profile-id",
   browserbaseApiKey: undefined,
@@ -43,6 +47,34 @@ const baseConfig: AppConfig = {
   browserbaseContextId: undefined,
   stagehandModel: "gemini-2.5-flash",
   stagehandCacheDir: undefined,
+  stagehandPoolSize: 0,
+  stagehandPoolIdleTimeoutMs: 300000,
+  localUserDataDir: undefined,
+  localChromePath: undefined,
+  localHeadless: true,
+  mockFixturesPath: undefined,
+  mockLatencyMs: 0,
+  mockFailureRate: 0,
+  scoreCacheDir: undefined,
+  scoreCacheTtlMs: 86400000,
+  runStoreDir: "/tmp/grammarly-mcp-runs",
+  runStoreMaxRuns: 200,
+  batchConcurrency: 3,
+  priceTableFile: undefined,
+  budgetMaxTokens: undefined,
+  budgetMaxCostUsd: undefined,
+  budgetMaxDurationMs: undefined,
+  plateauPatience: 0,
+  plateauMinImprovement: 1,
+  fidelityFloor: 80,
+  promptsFile: undefined,
+  transport: "stdio",
+  httpHost: "127.0.0.1",
+  httpPort: 3000,
+  httpAuthTokens: [],
+  httpMaxConcurrentPerClient: 2,
+  httpMaxSessionsPerClient: 10,
+  httpSessionIdleTimeoutMs: 1800000,
   stagehandLlmProvider: undefined,
   rewriteLlmProvider: undefined,
   claudeModel: "auto",
@@ -529,6 +561,60 @@ describe("runGrammarlyScoreTask", () => {
       expect(result.liveUrl).toBe("https://live.url");
     });
 
+    it("counts the steps the task took", async () => {
+      mockTaskComplete.mockResolvedValue({
+        parsed: {
+          aiDetectionPercent: 25,
+          plagiarismPercent: 8,
+          notes: "Scored",
+        },
+        steps: [{ number: 1 }, { number: 2 }, { number: 3 }],
+      });
+
+      const result = await runGrammarlyScoreTask(
+        client,
+        "session-123",
+        "Test text",
+        baseConfig
+      );
+
+      expect(result.steps).toBe(3);
+    });
+
+    it("returns the flagged sentences and plagiarism matches", async () => {
+      mockTaskComplete.mockResolvedValue({
+        parsed: {
+          aiDetectionPercent: 40,
+          plagiarismPercent: 10,
+          notes: "Highlights shown",
+          aiFlaggedSentences: ["It is important to note this."],
+          plagiarismMatches: [
+            { passage: "A famous line.", sourceUrl: "https://example.com/source" },
+          ],
+        },
+      });
+
+      const result = await runGrammarlyScoreTask(
+        client,
+        "session-123",
+        "Test text",
+        baseConfig
+      );
+
+      expect(result.aiFlaggedSentences).toEqual(["It is important to note this."]);
+      expect(result.plagiarismMatches).toEqual([
+        { passage: "A famous line.", sourceUrl: "https://example.com/source" },
+      ]);
+    });
+
+    it("asks the agent for the highlighted sentences and passages", async () => {
+      await runGrammarlyScoreTask(client, "session-123", "Test text", baseConfig);
+
+      const createCall = mockTasksCreateTask.mock.calls[0][0];
+      expect(createCall.task).toContain("aiFlaggedSentences");
+      expect(createCall.task).toContain("plagiarismMatches");
+    });
+
     it("handles null scores gracefully", async () => {
       mockTaskComplete.mockResolvedValue({
         parsed: {
@@ -549,6 +635,36 @@ describe("runGrammarlyScoreTask", () => {
       expect(result.plagiarismPercent).toBeNull();
     });
 
+    it("throws a GrammarlyAuthError when the agent found the sign-in page", async () => {
+      mockTaskComplete.mockResolvedValue({
+        parsed: {
+          aiDetectionPercent: null,
+          plagiarismPercent: null,
+          notes: "Sign in page shown",
+          loggedIn: false,
+        },
+      });
+
+      const promise = runGrammarlyScoreTask(
+        client,
+        "session-123",
+        "Test text",
+        baseConfig
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(GrammarlyAuthError);
+      await expect(promise).rejects.toThrow(
+        "Grammarly is not authenticated: Browser Use found the sign-in page (Sign in page shown)"
+      );
+    });
+
+    it("asks the agent to check the login before scoring", async () => {
+      await runGrammarlyScoreTask(client, "session-123", "Test text", baseConfig);
+
+      const createCall = mockTasksCreateTask.mock.calls[0][0];
+      expect(createCall.task).toContain("Login check (do this first):");
+    });
+
     it("throws error when result missing parsed field", async () => {
       mockTaskComplete.mockResolvedValue({
         rawOutput: "some text",
@@ -611,6 +727,66 @@ describe("runGrammarlyScoreTask", () => {
       ).rejects.toThrow("Task timed out");
     });
   });
+
+  describe("cancellation", () => {
+    beforeEach(() => {
+      mockTasksCreateTask.mockResolvedValue({
+        id: "task-789",
+        complete: mockTaskComplete,
+      });
+      mockTasksUpdateTask.mockResolvedValue({});
+    });
+
+    it("passes the signal to task polling", async () => {
+      const controller = new AbortController();
+
+      await runGrammarlyScoreTask(
+        client,
+        "session-123",
+        "Test text",
+        baseConfig,
+        { signal: controller.signal }
+      );
+
+      expect(mockTaskComplete).toHaveBeenCalledWith(undefined, {
+        signal: controller.signal,
+      });
+      expect(mockTasksUpdateTask).not.toHaveBeenCalled();
+    });
+
+    it("stops the remote task when cancelled", async () => {
+      const controller = new AbortController();
+      mockTaskComplete.mockImplementation(async () => {
+        controller.abort();
+        throw new Error("Stream ended before the task finished!");
+      });
+
+      await expect(
+        runGrammarlyScoreTask(client, "session-123", "Test text", baseConfig, {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow("Stream ended before the task finished!");
+      expect(mockTasksUpdateTask).toHaveBeenCalledWith({
+        task_id: "task-789",
+        action: "stop",
+      });
+    });
+
+    it("still rethrows when stopping the task fails", async () => {
+      const controller = new AbortController();
+      mockTaskComplete.mockImplementation(async () => {
+        controller.abort();
+        throw new Error("Stream ended before the task finished!");
+      });
+      mockTasksUpdateTask.mockRejectedValue(new Error("API down"));
+
+      await expect(
+        runGrammarlyScoreTask(client, "session-123", "Test text", baseConfig, {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow("Stream ended before the task finished!");
+    });
+  });
 });
 
 describe("BrowserUseLlmSchema", () => {
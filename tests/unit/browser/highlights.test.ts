@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { MAX_HIGHLIGHTS, matchHighlights } from "../../../src/browser/highlights";
+
+const text = "Our team shipped the release.  It is important to note that\nquality matters. To be or not to be.";
+
+describe("matchHighlights", () => {
+	it("keeps highlights found in the text, ignoring whitespace differences", () => {
+		const result = matchHighlights(text, {
+			aiFlaggedSentences: ["It is important to note that quality matters."],
+			plagiarismMatches: [{ passage: " To be or not to be. ", sourceUrl: "https://example.com/hamlet" }],
+		});
+
+		expect(result).toEqual({
+			aiFlaggedSentences: ["It is important to note that quality matters."],
+			plagiarismMatches: [{ passage: "To be or not to be.", sourceUrl: "https://example.com/hamlet" }],
+		});
+	});
+
+	it("drops paraphrased sentences and duplicates", () => {
+		const result = matchHighlights(text, {
+			aiFlaggedSentences: [
+				"Our team shipped the release.",
+				"Our team shipped the release.",
+				"The team released it.",
+				"",
+			],
+		});
+
+		expect(result.aiFlaggedSentences).toEqual(["Our team shipped the release."]);
+		expect(result.plagiarismMatches).toEqual([]);
+	});
+
+	it(`keeps at most ${MAX_HIGHLIGHTS} of each kind`, () => {
+		const sentences = Array.from({ length: MAX_HIGHLIGHTS + 5 }, (_, index) => `Sentence ${index}.`);
+
+		const result = matchHighlights(sentences.join(" "), { aiFlaggedSentences: sentences });
+
+		expect(result.aiFlaggedSentences).toHaveLength(MAX_HIGHLIGHTS);
+	});
+});
@@ -0,0 +1,294 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	fixtureKey,
+	heuristicScores,
+	MockProvider,
+} from "../../../src/browser/mockProvider";
+import type { AppConfig } from "../../../src/config";
+
+const baseConfig: AppConfig = {
+	ignoreSystemEnv: false,
+	browserProvider: "mock",
+	browserProviders: ["mock"],
+	browserUseApiKey: undefined,
+	browserUseProfileId: undefined,
+	browserbaseApiKey: undefined,
+	browserbaseProjectId: undefined,
+	browserbaseSessionId: undefined,
+	browserbaseContextId: undefined,
+	stagehandModel: "gemini-2.5-flash",
+	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
+	stagehandLlmProvider: undefined,
+	rewriteLlmProvider: undefined,
+	claudeModel: "auto",
+	openaiModel: "gpt-4o",
+	googleModel: "gemini-2.5-flash",
+	anthropicModel: "claude-sonnet-4-20250514",
+	claudeApiKey: undefined,
+	openaiApiKey: undefined,
+	googleApiKey: undefined,
+	anthropicApiKey: undefined,
+	llmRequestTimeoutMs: 120000,
+	connectTimeoutMs: 30000,
+	logLevel: "error",
+	browserUseDefaultTimeoutMs: 300000,
+	defaultMaxAiPercent: 10,
+	defaultMaxPlagiarismPercent: 5,
+	defaultMaxIterations: 5,
+};
+
+const sampleText = "Moreover, it is crucial to leverage robust tools.";
+
+describe("fixtureKey", () => {
+	it("hashes trimmed text as SHA-256 hex", () => {
+		expect(fixtureKey("  hello \n")).toBe(fixtureKey("hello"));
+		expect(fixtureKey("hello")).toMatch(/^[0-9a-f]{64}$/);
+		expect(fixtureKey("hello")).not.toBe(fixtureKey("hello!"));
+	});
+});
+
+describe("heuristicScores", () => {
+	it("is deterministic", () => {
+		expect(heuristicScores(sampleText)).toEqual(heuristicScores(sampleText));
+	});
+
+	it("derives plagiarism from the quoted share of the text", () => {
+		expect(heuristicScores("No quotes at all here.").plagiarismPercent).toBe(0);
+		expect(heuristicScores('"abcd" efgh').plagiarismPercent).toBe(55);
+	});
+
+	it("returns zero scores for empty text", () => {
+		expect(heuristicScores("")).toMatchObject({
+			aiDetectionPercent: 0,
+			plagiarismPercent: 0,
+		});
+	});
+});
+
+describe("MockProvider", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-provider-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	function writeFixtures(fixtures: unknown): string {
+		const fixturesPath = path.join(tempDir, "fixtures.json");
+		fs.writeFileSync(fixturesPath, JSON.stringify(fixtures), "utf-8");
+		return fixturesPath;
+	}
+
+	it("identifies as the mock provider", () => {
+		expect(new MockProvider(baseConfig).providerName).toBe("mock");
+	});
+
+	it("creates numbered sessions without a live URL", async () => {
+		const provider = new MockProvider(baseConfig);
+
+		await expect(provider.createSession()).resolves.toEqual({
+			sessionId: "mock-session-1",
+			liveUrl: null,
+		});
+		await expect(provider.createSession()).resolves.toEqual({
+			sessionId: "mock-session-2",
+			liveUrl: null,
+		});
+	});
+
+	it("scores with the heuristic when no fixture matches", async () => {
+		const provider = new MockProvider(baseConfig);
+		const { sessionId } = await provider.createSession();
+
+		const result = await provider.scoreText(sessionId, sampleText);
+
+		expect(result).toEqual({ ...heuristicScores(sampleText), liveUrl: null });
+	});
+
+	it("returns fixture scores keyed by text hash", async () => {
+		const provider = new MockProvider({
+			...baseConfig,
+			mockFixturesPath: writeFixtures({
+				[fixtureKey(sampleText)]: {
+					aiDetectionPercent: 42,
+					plagiarismPercent: null,
+					notes: "From fixture",
+				},
+			}),
+		});
+		const { sessionId } = await provider.createSession();
+
+		const result = await provider.scoreText(sessionId, `${sampleText}\n`);
+
+		expect(result).toEqual({
+			aiDetectionPercent: 42,
+			plagiarismPercent: null,
+			notes: "From fixture",
+			liveUrl: null,
+		});
+	});
+
+	it("returns fixture highlights", async () => {
+		const highlights = {
+			aiFlaggedSentences: ["A flagged sentence."],
+			plagiarismMatches: [{ passage: "A copied passage.", sourceUrl: "https://example.com" }],
+		};
+		const provider = new MockProvider({
+			...baseConfig,
+			mockFixturesPath: writeFixtures({
+				[fixtureKey(sampleText)]: { aiDetectionPercent: 30, plagiarismPercent: 5, ...highlights },
+			}),
+		});
+		const { sessionId } = await provider.createSession();
+
+		const result = await provider.scoreText(sessionId, sampleText);
+
+		expect(result).toMatchObject(highlights);
+	});
+
+	it("fails scoring for fixtures that declare an error", async () => {
+		const provider = new MockProvider({
+			...baseConfig,
+			mockFixturesPath: writeFixtures({
+				[fixtureKey(sampleText)]: {
+					aiDetectionPercent: null,
+					plagiarismPercent: null,
+					error: "Grammarly login expired",
+				},
+			}),
+		});
+		const { sessionId } = await provider.createSession();
+
+		await expect(provider.scoreText(sessionId, sampleText)).rejects.toThrow(
+			"Mock provider: Grammarly login expired",
+		);
+	});
+
+	it("throws on a missing fixtures file", () => {
+		expect(
+			() =>
+				new MockProvider({
+					...baseConfig,
+					mockFixturesPath: path.join(tempDir, "missing.json"),
+				}),
+		).toThrow("Failed to read mock fixtures file");
+	});
+
+	it("throws on a malformed fixtures file", () => {
+		expect(
+			() =>
+				new MockProvider({
+					...baseConfig,
+					mockFixturesPath: writeFixtures({
+						abc: { aiDetectionPercent: 150, plagiarismPercent: 0 },
+					}),
+				}),
+		).toThrow("Invalid mock fixtures file");
+	});
+
+	it("simulates failures at the configured rate, reproducibly", async () => {
+		const outcomes = async (failureRate: number) => {
+			const provider = new MockProvider({ ...baseConfig, mockFailureRate: failureRate });
+			const { sessionId } = await provider.createSession();
+			const results: boolean[] = [];
+			for (let attempt = 0; attempt < 20; attempt++) {
+				results.push(
+					await provider.scoreText(sessionId, sampleText).then(
+						() => true,
+						(error: Error) => {
+							expect(error.message).toBe("Mock provider: simulated scoring failure");
+							return false;
+						},
+					),
+				);
+			}
+			return results;
+		};
+
+		const first = await outcomes(0.5);
+		expect(first).toContain(true);
+		expect(first).toContain(false);
+		expect(await outcomes(0.5)).toEqual(first);
+		expect(await outcomes(0)).not.toContain(false);
+		expect(await outcomes(1)).not.toContain(true);
+	});
+
+	it("waits for the configured latency before scoring", async () => {
+		vi.useFakeTimers();
+		const provider = new MockProvider({ ...baseConfig, mockLatencyMs: 1000 });
+		const { sessionId } = await provider.createSession();
+
+		let settled = false;
+		const promise = provider.scoreText(sessionId, sampleText).then((result) => {
+			settled = true;
+			return result;
+		});
+
+		await vi.advanceTimersByTimeAsync(999);
+		expect(settled).toBe(false);
+
+		await vi.advanceTimersByTimeAsync(1);
+		await promise;
+		expect(settled).toBe(true);
+	});
+
+	it("stops waiting out the latency when the signal aborts", async () => {
+		vi.useFakeTimers();
+		const provider = new MockProvider({ ...baseConfig, mockLatencyMs: 60_000 });
+		const { sessionId } = await provider.createSession();
+		const controller = new AbortController();
+
+		const promise = provider.scoreText(sessionId, sampleText, { signal: controller.signal });
+		const rejection = expect(promise).rejects.toThrow("cancelled");
+		await vi.advanceTimersByTimeAsync(10);
+		controller.abort(new Error("cancelled"));
+		await rejection;
+		expect(vi.getTimerCount()).toBe(0);
+	});
+
+	it("rejects scoring on unknown or closed sessions", async () => {
+		const provider = new MockProvider(baseConfig);
+		const { sessionId } = await provider.createSession();
+		await provider.closeSession(sessionId);
+
+		await expect(provider.scoreText(sessionId, sampleText)).rejects.toThrow(
+			`Mock session ${sessionId} not found`,
+		);
+	});
+});
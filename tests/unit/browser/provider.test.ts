@@ -27,11 +27,25 @@ vi.mock("../../../src/browser/browserUseProvider", () => {
 	return { BrowserUseProvider };
 });
 
+// Mock the local Stagehand provider module
+vi.mock("../../../src/browser/stagehand/localProvider", () => {
+	const LocalStagehandProvider = function (this: unknown) {
+		return {
+			providerName: "local" as const,
+			createSession: vi.fn(),
+			scoreText: vi.fn(),
+			closeSession: vi.fn(),
+		};
+	};
+	return { LocalStagehandProvider };
+});
+
 import { createBrowserProvider } from "../../../src/browser/provider";
 
 const baseConfig: AppConfig = {
 	ignoreSystemEnv: false,
 	browserProvider: "stagehand",
+	browserProviders: ["stagehand"],
 	browserUseApiKey: undefined,
 	browserUseProfileId: undefined,
 	browserbaseApiKey: "test-api-key",
@@ -40,6 +54,34 @@ const baseConfig: AppConfig = {
 	browserbaseContextId: undefined,
 	stagehandModel: "gemini-2.5-flash",
 	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
 	stagehandLlmProvider: undefined,
 	rewriteLlmProvider: undefined,
 	claudeModel: "auto",
@@ -80,6 +122,26 @@ describe("createBrowserProvider", () => {
 		expect(provider.providerName).toBe("browser-use");
 	});
 
+	it("returns LocalStagehandProvider when browserProvider is 'local'", async () => {
+		const config: AppConfig = {
+			...baseConfig,
+			browserProvider: "local",
+			localUserDataDir: "/tmp/grammarly-profile",
+		};
+
+		const provider = await createBrowserProvider(config);
+
+		expect(provider.providerName).toBe("local");
+	});
+
+	it("returns MockProvider when browserProvider is 'mock'", async () => {
+		const config: AppConfig = { ...baseConfig, browserProvider: "mock" };
+
+		const provider = await createBrowserProvider(config);
+
+		expect(provider.providerName).toBe("mock");
+	});
+
 	it("creates provider with BrowserProvider interface methods", async () => {
 		const config: AppConfig = { ...baseConfig, browserProvider: "stagehand" };
 
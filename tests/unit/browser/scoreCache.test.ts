@@ -0,0 +1,145 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type CachedScores,
+	normalizeForCache,
+	ScoreCache,
+	scoreCacheKey,
+} from "../../../src/browser/scoreCache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sampleScores: CachedScores = {
+	aiDetectionPercent: 42,
+	plagiarismPercent: 3,
+	notes: "Scored",
+	provider: "stagehand",
+	chunked: false,
+	truncated: false,
+	chunkScores: [
+		{ chunkIndex: 0, charCount: 11, aiDetectionPercent: 42, plagiarismPercent: 3 },
+	],
+};
+
+describe("normalizeForCache", () => {
+	it("ignores whitespace differences Grammarly does not score", () => {
+		expect(normalizeForCache("  Hello \t world  \r\nNext line \n")).toBe(
+			"Hello world\nNext line",
+		);
+	});
+
+	it("applies Unicode NFC normalization", () => {
+		expect(normalizeForCache("café")).toBe("café");
+	});
+
+	it("keeps line and paragraph breaks", () => {
+		expect(normalizeForCache("a\n\nb")).toBe("a\n\nb");
+	});
+});
+
+describe("scoreCacheKey", () => {
+	it("matches texts that differ only in whitespace", () => {
+		expect(scoreCacheKey("Hello  world ", "stagehand")).toBe(
+			scoreCacheKey("Hello world", "stagehand"),
+		);
+	});
+
+	it("separates providers and texts", () => {
+		const key = scoreCacheKey("Hello world", "stagehand");
+		expect(key).toMatch(/^[0-9a-f]{64}$/);
+		expect(key).not.toBe(scoreCacheKey("Hello world", "browser-use"));
+		expect(key).not.toBe(scoreCacheKey("Hello world!", "stagehand"));
+	});
+});
+
+describe("ScoreCache", () => {
+	let tempDir: string;
+	let cacheDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "score-cache-"));
+		cacheDir = path.join(tempDir, "cache");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+		vi.useRealTimers();
+	});
+
+	it("returns null for unknown text", async () => {
+		const cache = new ScoreCache(cacheDir, DAY_MS);
+
+		expect(await cache.get("Hello world", "stagehand")).toBeNull();
+	});
+
+	it("round-trips scores and records when they were cached", async () => {
+		const cache = new ScoreCache(cacheDir, DAY_MS);
+
+		await cache.set("Hello world", sampleScores);
+		const hit = await cache.get("Hello  world\n", "stagehand");
+
+		expect(hit).toMatchObject(sampleScores);
+		expect(Number.isNaN(Date.parse(hit?.cachedAt ?? ""))).toBe(false);
+		expect(fs.readdirSync(cacheDir)).toEqual([
+			`${scoreCacheKey("Hello world", "stagehand")}.json`,
+		]);
+	});
+
+	it("round-trips Grammarly's highlights", async () => {
+		const cache = new ScoreCache(cacheDir, DAY_MS);
+		const highlights = {
+			aiFlaggedSentences: ["Hello world"],
+			plagiarismMatches: [{ passage: "Hello", sourceUrl: null }],
+		};
+
+		await cache.set("Hello world", { ...sampleScores, ...highlights });
+
+		expect(await cache.get("Hello world", "stagehand")).toMatchObject(highlights);
+	});
+
+	it("misses for a different provider", async () => {
+		const cache = new ScoreCache(cacheDir, DAY_MS);
+
+		await cache.set("Hello world", sampleScores);
+
+		expect(await cache.get("Hello world", "browser-use")).toBeNull();
+	});
+
+	it("expires and removes entries older than the TTL", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+		const cache = new ScoreCache(cacheDir, 60_000);
+		await cache.set("Hello world", sampleScores);
+
+		vi.setSystemTime(new Date("2026-01-01T00:00:59Z"));
+		expect(await cache.get("Hello world", "stagehand")).not.toBeNull();
+
+		vi.setSystemTime(new Date("2026-01-01T00:01:00Z"));
+		expect(await cache.get("Hello world", "stagehand")).toBeNull();
+		expect(fs.readdirSync(cacheDir)).toEqual([]);
+	});
+
+	it("discards corrupt entries", async () => {
+		const cache = new ScoreCache(cacheDir, DAY_MS);
+		fs.mkdirSync(cacheDir, { recursive: true });
+		const entryPath = path.join(
+			cacheDir,
+			`${scoreCacheKey("Hello world", "stagehand")}.json`,
+		);
+		fs.writeFileSync(entryPath, "{not json", "utf-8");
+
+		expect(await cache.get("Hello world", "stagehand")).toBeNull();
+		expect(fs.existsSync(entryPath)).toBe(false);
+	});
+
+	it("never throws when the directory cannot be written", async () => {
+		const blocker = path.join(tempDir, "file");
+		fs.writeFileSync(blocker, "", "utf-8");
+		const cache = new ScoreCache(path.join(blocker, "cache"), DAY_MS);
+
+		await expect(cache.set("Hello world", sampleScores)).resolves.toBeUndefined();
+		expect(await cache.get("Hello world", "stagehand")).toBeNull();
+	});
+});
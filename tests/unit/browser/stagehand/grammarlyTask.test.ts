@@ -55,9 +55,11 @@ function createMockStagehand(pages: unknown[] = [createMockPage()]) {
 // Import after mocking (the module uses named imports)
 import type { Stagehand } from "@browserbasehq/stagehand";
 import {
+	assertGrammarlyLoggedIn,
 	cleanupGrammarlyDocument,
 	runStagehandGrammarlyTask,
 } from "../../../../src/browser/stagehand/grammarlyTask";
+import { GrammarlyAuthError } from "../../../../src/errors";
 
 describe("runStagehandGrammarlyTask", () => {
 	beforeEach(() => {
@@ -285,6 +287,25 @@ describe("runStagehandGrammarlyTask", () => {
 			});
 		});
 
+		it("returns the sentences and passages Grammarly highlighted", async () => {
+			mockStagehandExtract.mockResolvedValue({
+				aiDetectionPercent: 60,
+				plagiarismPercent: 12,
+				notes: "Highlights visible",
+				aiFlaggedSentences: ["In today's world, technology matters."],
+				plagiarismMatches: [{ passage: "To be or not to be.", sourceUrl: null }],
+			});
+			const stagehand = createMockStagehand([createMockPage("https://app.grammarly.com")]);
+
+			const result = await runStagehandGrammarlyTask(
+				stagehand as unknown as Stagehand,
+				"Test"
+			);
+
+			expect(result.aiFlaggedSentences).toEqual(["In today's world, technology matters."]);
+			expect(result.plagiarismMatches).toEqual([{ passage: "To be or not to be.", sourceUrl: null }]);
+		});
+
 		it("handles null scores when features unavailable", async () => {
 			mockStagehandExtract.mockResolvedValue({
 				aiDetectionPercent: null,
@@ -315,6 +336,39 @@ describe("runStagehandGrammarlyTask", () => {
 		});
 	});
 
+	describe("token usage", () => {
+		it("reports the tokens used during the task from Stagehand metrics", async () => {
+			const totals = [
+				{ totalPromptTokens: 1000, totalCompletionTokens: 100 },
+				{ totalPromptTokens: 4500, totalCompletionTokens: 350 },
+			];
+			const stagehand = {
+				...createMockStagehand([createMockPage("https://app.grammarly.com")]),
+				get metrics() {
+					return Promise.resolve(totals.shift());
+				},
+			};
+
+			const result = await runStagehandGrammarlyTask(stagehand as unknown as Stagehand, "Test");
+
+			expect(result.tokenUsage).toEqual({ inputTokens: 3500, outputTokens: 250 });
+		});
+
+		it("omits usage when metrics are unavailable", async () => {
+			const stagehand = {
+				...createMockStagehand([createMockPage("https://app.grammarly.com")]),
+				get metrics() {
+					return Promise.reject(new Error("metrics API unavailable"));
+				},
+			};
+
+			const result = await runStagehandGrammarlyTask(stagehand as unknown as Stagehand, "Test");
+
+			expect(result.tokenUsage).toBeUndefined();
+			expect(result.aiDetectionPercent).toBe(15);
+		});
+	});
+
 	describe("error handling", () => {
 		it("attempts fallback extraction on primary extraction error", async () => {
 			mockStagehandExtract
@@ -348,6 +402,83 @@ describe("runStagehandGrammarlyTask", () => {
 		});
 	});
 
+	describe("login check", () => {
+		it("throws a GrammarlyAuthError on the sign-in page without further steps", async () => {
+			const stagehand = createMockStagehand([
+				createMockPage("https://www.grammarly.com/signin?allowUtmParams=true"),
+			]);
+
+			await expect(
+				runStagehandGrammarlyTask(stagehand as unknown as Stagehand, "Test")
+			).rejects.toBeInstanceOf(GrammarlyAuthError);
+			expect(mockStagehandObserve).not.toHaveBeenCalled();
+			expect(mockStagehandExtract).not.toHaveBeenCalled();
+		});
+
+		it("throws when the extraction reports a sign-in prompt", async () => {
+			mockStagehandExtract.mockResolvedValue({
+				aiDetectionPercent: null,
+				plagiarismPercent: null,
+				notes: "Log in to continue",
+				loggedIn: false,
+			});
+			const stagehand = createMockStagehand([createMockPage("https://app.grammarly.com")]);
+
+			await expect(
+				runStagehandGrammarlyTask(stagehand as unknown as Stagehand, "Test")
+			).rejects.toThrow("Grammarly is not authenticated");
+			expect(mockStagehandExtract).toHaveBeenCalledTimes(1);
+		});
+
+		it("prefers a sign-in prompt from the fallback extraction over the original error", async () => {
+			mockStagehandExtract
+				.mockRejectedValueOnce(new Error("Primary extraction failed"))
+				.mockResolvedValueOnce({
+					aiDetectionPercent: null,
+					plagiarismPercent: null,
+					notes: "Sign in page",
+					loggedIn: false,
+				});
+			const stagehand = createMockStagehand([createMockPage("https://app.grammarly.com")]);
+
+			await expect(
+				runStagehandGrammarlyTask(stagehand as unknown as Stagehand, "Test")
+			).rejects.toBeInstanceOf(GrammarlyAuthError);
+		});
+
+		it.each([
+			["https://www.grammarly.com/signin", true],
+			["https://www.grammarly.com/signup?page=free", true],
+			["https://app.grammarly.com/login", true],
+			["https://app.grammarly.com/docs/123", false],
+			["https://app.grammarly.com/ddocs/signing-tips", false],
+		])("assertGrammarlyLoggedIn(%s) throws: %s", (url, throws) => {
+			if (throws) {
+				expect(() => assertGrammarlyLoggedIn(url)).toThrow(GrammarlyAuthError);
+			} else {
+				expect(() => assertGrammarlyLoggedIn(url)).not.toThrow();
+			}
+		});
+	});
+
+	describe("cancellation", () => {
+		it("stops before the next step once the signal is aborted", async () => {
+			const controller = new AbortController();
+			mockStagehandObserve.mockImplementationOnce(async () => {
+				controller.abort(new Error("cancelled"));
+				return [];
+			});
+			const stagehand = createMockStagehand([createMockPage("https://app.grammarly.com")]);
+
+			await expect(
+				runStagehandGrammarlyTask(stagehand as unknown as Stagehand, "Test", {
+					signal: controller.signal,
+				})
+			).rejects.toThrow("cancelled");
+			expect(mockStagehandExtract).not.toHaveBeenCalled();
+		});
+	});
+
 	describe("options handling", () => {
 		it("logs iteration number when provided", async () => {
 			const stagehand = createMockStagehand([createMockPage("https://app.grammarly.com")]);
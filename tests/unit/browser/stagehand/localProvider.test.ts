@@ -0,0 +1,315 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AppConfig } from "../../../../src/config";
+
+// Mock functions at top level
+const mockStagehandClose = vi.fn();
+const mockStagehandInit = vi.fn();
+const mockStagehandConstructor = vi.fn();
+const mockRunStagehandGrammarlyTask = vi.fn();
+const mockOpenGrammarlySignIn = vi.fn();
+
+// Mock Stagehand class
+vi.mock("@browserbasehq/stagehand", () => ({
+	Stagehand: class MockStagehand {
+		init = mockStagehandInit;
+		close = mockStagehandClose;
+		context = { pages: vi.fn().mockReturnValue([{}]) };
+		constructor(options: unknown) {
+			mockStagehandConstructor(options);
+		}
+	},
+}));
+
+// Mock stagehand LLM
+vi.mock("../../../../src/llm/stagehandLlm", () => ({
+	createStagehandLlmClient: vi.fn().mockResolvedValue({}),
+	getLlmModelName: vi.fn().mockReturnValue("gemini-2.5-flash"),
+}));
+
+// Mock grammarly task
+vi.mock("../../../../src/browser/stagehand/grammarlyTask", () => ({
+	runStagehandGrammarlyTask: (...args: unknown[]) => mockRunStagehandGrammarlyTask(...args),
+	openGrammarlySignIn: (...args: unknown[]) => mockOpenGrammarlySignIn(...args),
+}));
+
+// Import after mocking
+import {
+	LocalStagehandProvider,
+	resetProfileLocks,
+} from "../../../../src/browser/stagehand/localProvider";
+
+const baseConfig: AppConfig = {
+	ignoreSystemEnv: false,
+	browserProvider: "local",
+	browserProviders: ["local"],
+	browserUseApiKey: undefined,
+	browserUseProfileId: undefined,
+	browserbaseApiKey: undefined,
+	browserbaseProjectId: undefined,
+	browserbaseSessionId: undefined,
+	browserbaseContextId: undefined,
+	stagehandModel: "gemini-2.5-flash",
+	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: "/tmp/grammarly-profile",
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
+	stagehandLlmProvider: undefined,
+	rewriteLlmProvider: undefined,
+	claudeModel: "auto",
+	openaiModel: "gpt-4o",
+	googleModel: "gemini-2.5-flash",
+	anthropicModel: "claude-sonnet-4-20250514",
+	claudeApiKey: "test-claude-key",
+	openaiApiKey: undefined,
+	googleApiKey: undefined,
+	anthropicApiKey: undefined,
+	llmRequestTimeoutMs: 120000,
+	connectTimeoutMs: 30000,
+	logLevel: "error",
+	browserUseDefaultTimeoutMs: 300000,
+	defaultMaxAiPercent: 10,
+	defaultMaxPlagiarismPercent: 5,
+	defaultMaxIterations: 5,
+};
+
+describe("LocalStagehandProvider", () => {
+	beforeEach(() => {
+		mockStagehandInit.mockResolvedValue(undefined);
+		mockStagehandClose.mockResolvedValue(undefined);
+		mockRunStagehandGrammarlyTask.mockResolvedValue({
+			aiDetectionPercent: 15,
+			plagiarismPercent: 3,
+			notes: "Scored",
+		});
+	});
+
+	afterEach(() => {
+		vi.clearAllMocks();
+		resetProfileLocks();
+	});
+
+	describe("constructor", () => {
+		it("sets providerName to local", () => {
+			expect(new LocalStagehandProvider(baseConfig).providerName).toBe("local");
+		});
+
+		it("requires a user data directory", () => {
+			expect(
+				() => new LocalStagehandProvider({ ...baseConfig, localUserDataDir: undefined }),
+			).toThrow("LocalStagehandProvider requires LOCAL_USER_DATA_DIR");
+		});
+	});
+
+	describe("createSession", () => {
+		it("launches Stagehand in LOCAL env on the persistent profile", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+			await provider.createSession();
+
+			expect(mockStagehandConstructor).toHaveBeenCalledWith(
+				expect.objectContaining({
+					env: "LOCAL",
+					localBrowserLaunchOptions: {
+						userDataDir: "/tmp/grammarly-profile",
+						preserveUserDataDir: true,
+						headless: true,
+					},
+				}),
+			);
+			expect(mockStagehandInit).toHaveBeenCalled();
+		});
+
+		it("passes headless and executable path from config", async () => {
+			const provider = new LocalStagehandProvider({
+				...baseConfig,
+				localHeadless: false,
+				localChromePath: "/usr/bin/chromium",
+			});
+			await provider.createSession();
+
+			const options = mockStagehandConstructor.mock.calls[0][0];
+			expect(options.localBrowserLaunchOptions).toMatchObject({
+				headless: false,
+				executablePath: "/usr/bin/chromium",
+			});
+			expect(options).not.toHaveProperty("apiKey");
+		});
+
+		it("returns a local session without a live URL", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+			const result = await provider.createSession();
+
+			expect(result.sessionId).toMatch(/^local-/);
+			expect(result.liveUrl).toBeNull();
+		});
+
+		it("rejects a second concurrent session on the same profile", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+			await provider.createSession();
+
+			await expect(provider.createSession()).rejects.toThrow(
+				"Local browser is already in use",
+			);
+		});
+
+		it("rejects a session on a profile another provider instance holds", async () => {
+			await new LocalStagehandProvider(baseConfig).createSession();
+			const other = new LocalStagehandProvider({
+				...baseConfig,
+				localUserDataDir: "/tmp/../tmp/grammarly-profile",
+			});
+
+			await expect(other.createSession()).rejects.toThrow("Local browser is already in use");
+			await expect(other.openLoginSession()).rejects.toThrow("Local browser is already in use");
+		});
+
+		it("claims the profile before the browser finishes launching", async () => {
+			const first = new LocalStagehandProvider(baseConfig).createSession();
+			const second = new LocalStagehandProvider(baseConfig).createSession();
+
+			await expect(first).resolves.toBeDefined();
+			await expect(second).rejects.toThrow("Local browser is already in use");
+			expect(mockStagehandConstructor).toHaveBeenCalledTimes(1);
+		});
+
+		it("allows sessions on different profiles at the same time", async () => {
+			await new LocalStagehandProvider(baseConfig).createSession();
+
+			await expect(
+				new LocalStagehandProvider({
+					...baseConfig,
+					localUserDataDir: "/tmp/other-profile",
+				}).createSession(),
+			).resolves.toBeDefined();
+		});
+
+		it("allows a new session once the previous one is closed", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+			const first = await provider.createSession();
+			await provider.closeSession(first.sessionId);
+
+			await expect(provider.createSession()).resolves.toMatchObject({
+				liveUrl: null,
+			});
+		});
+
+		it("propagates Stagehand init failures", async () => {
+			mockStagehandInit.mockRejectedValueOnce(new Error("Chrome not found"));
+			const provider = new LocalStagehandProvider(baseConfig);
+
+			await expect(provider.createSession()).rejects.toThrow("Chrome not found");
+			await expect(provider.createSession()).resolves.toBeDefined();
+		});
+	});
+
+	describe("scoreText", () => {
+		it("throws when no Stagehand instance exists for session", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+
+			await expect(provider.scoreText("unknown", "Text")).rejects.toThrow(
+				"No Stagehand instance found for session: unknown",
+			);
+		});
+
+		it("runs the shared Stagehand Grammarly task", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+			const { sessionId } = await provider.createSession();
+
+			const result = await provider.scoreText(sessionId, "Test text", {
+				maxSteps: 10,
+				iteration: 2,
+				mode: "optimize",
+			});
+
+			expect(mockRunStagehandGrammarlyTask).toHaveBeenCalledWith(
+				expect.anything(),
+				"Test text",
+				{ maxSteps: 10, iteration: 2, mode: "optimize" },
+			);
+			expect(result).toEqual({
+				aiDetectionPercent: 15,
+				plagiarismPercent: 3,
+				notes: "Scored",
+				liveUrl: null,
+			});
+		});
+	});
+
+	describe("closeSession", () => {
+		it("closes the Stagehand instance", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+			const { sessionId } = await provider.createSession();
+
+			await provider.closeSession(sessionId);
+
+			expect(mockStagehandClose).toHaveBeenCalledTimes(1);
+		});
+
+		it("swallows close errors and forgets the session", async () => {
+			mockStagehandClose.mockRejectedValueOnce(new Error("already closed"));
+			const provider = new LocalStagehandProvider(baseConfig);
+			const { sessionId } = await provider.createSession();
+
+			await expect(provider.closeSession(sessionId)).resolves.toBeUndefined();
+			await expect(provider.scoreText(sessionId, "x")).rejects.toThrow(
+				"No Stagehand instance found",
+			);
+		});
+
+		it("ignores unknown sessions", async () => {
+			const provider = new LocalStagehandProvider(baseConfig);
+
+			await expect(provider.closeSession("nope")).resolves.toBeUndefined();
+			expect(mockStagehandClose).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("openLoginSession", () => {
+		it("launches a visible browser on the sign-in page even when headless is set", async () => {
+			mockOpenGrammarlySignIn.mockResolvedValue(undefined);
+			const provider = new LocalStagehandProvider(baseConfig);
+
+			const result = await provider.openLoginSession();
+
+			expect(mockStagehandConstructor.mock.calls[0][0].localBrowserLaunchOptions).toMatchObject({
+				userDataDir: "/tmp/grammarly-profile",
+				headless: false,
+			});
+			expect(mockOpenGrammarlySignIn).toHaveBeenCalledTimes(1);
+			expect(result).toMatchObject({ liveUrl: null });
+		});
+
+		it("closes the browser when navigation fails", async () => {
+			mockOpenGrammarlySignIn.mockRejectedValue(new Error("goto failed"));
+			const provider = new LocalStagehandProvider(baseConfig);
+
+			await expect(provider.openLoginSession()).rejects.toThrow("goto failed");
+			expect(mockStagehandClose).toHaveBeenCalledTimes(1);
+			await expect(provider.createSession()).resolves.toBeDefined();
+		});
+	});
+});
@@ -31,6 +31,7 @@ import { BrowserbaseSessionManager } from "../../../../src/browser/stagehand/ses
 const baseConfig: AppConfig = {
 	ignoreSystemEnv: false,
 	browserProvider: "stagehand",
+	browserProviders: ["stagehand"],
 	browserUseApiKey: undefined,
 	browserUseProfileId: undefined,
 	browserbaseApiKey: "test-api-key",
@@ -39,6 +40,34 @@ const baseConfig: AppConfig = {
 	browserbaseContextId: undefined,
 	stagehandModel: "gemini-2.5-flash",
 	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
 	stagehandLlmProvider: undefined,
 	rewriteLlmProvider: undefined,
 	claudeModel: "auto",
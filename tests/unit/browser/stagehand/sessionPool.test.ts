@@ -0,0 +1,139 @@
+import type { Stagehand } from "@browserbasehq/stagehand";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AppConfig } from "../../../../src/config";
+
+vi.mock("../../../../src/config", () => ({
+	log: vi.fn(),
+}));
+
+import {
+	drainSharedSessionPool,
+	getSharedSessionPool,
+	type PooledSession,
+	StagehandSessionPool,
+} from "../../../../src/browser/stagehand/sessionPool";
+
+const mockIsSessionActive = vi.fn();
+const mockCloseSession = vi.fn();
+const sessionManager = {
+	isSessionActive: mockIsSessionActive,
+	closeSession: mockCloseSession,
+};
+
+function createSession(sessionId: string): PooledSession {
+	return {
+		sessionId,
+		contextId: "ctx-1",
+		liveUrl: `https://debug.url/${sessionId}`,
+		stagehand: { close: vi.fn().mockResolvedValue(undefined) } as unknown as Stagehand,
+	};
+}
+
+describe("StagehandSessionPool", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		mockIsSessionActive.mockResolvedValue(true);
+		mockCloseSession.mockResolvedValue(undefined);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.clearAllMocks();
+	});
+
+	it("returns null when empty", async () => {
+		const pool = new StagehandSessionPool(2, 60000, sessionManager);
+
+		await expect(pool.checkout()).resolves.toBeNull();
+	});
+
+	it("hands out the most recently returned session first", async () => {
+		const pool = new StagehandSessionPool(2, 60000, sessionManager);
+		const first = createSession("s1");
+		const second = createSession("s2");
+		pool.checkin(first);
+		pool.checkin(second);
+
+		await expect(pool.checkout()).resolves.toBe(second);
+		await expect(pool.checkout()).resolves.toBe(first);
+		expect(mockIsSessionActive).toHaveBeenCalledWith("s2");
+		expect(pool.size).toBe(0);
+	});
+
+	it("refuses sessions beyond its size", () => {
+		const pool = new StagehandSessionPool(1, 60000, sessionManager);
+
+		expect(pool.checkin(createSession("s1"))).toBe(true);
+		expect(pool.checkin(createSession("s2"))).toBe(false);
+		expect(pool.size).toBe(1);
+	});
+
+	it("discards sessions that are no longer running", async () => {
+		const pool = new StagehandSessionPool(2, 60000, sessionManager);
+		const healthy = createSession("s1");
+		const stopped = createSession("s2");
+		pool.checkin(healthy);
+		pool.checkin(stopped);
+		mockIsSessionActive.mockImplementation(async (id: string) => id === "s1");
+
+		await expect(pool.checkout()).resolves.toBe(healthy);
+		expect(stopped.stagehand.close).toHaveBeenCalled();
+		expect(mockCloseSession).toHaveBeenCalledWith("s2");
+	});
+
+	it("releases sessions that stay idle past the timeout", async () => {
+		const pool = new StagehandSessionPool(2, 60000, sessionManager);
+		const session = createSession("s1");
+		pool.checkin(session);
+
+		await vi.advanceTimersByTimeAsync(59999);
+		expect(mockCloseSession).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(pool.size).toBe(0);
+		expect(session.stagehand.close).toHaveBeenCalled();
+		expect(mockCloseSession).toHaveBeenCalledWith("s1");
+	});
+
+	it("does not expire a session once it is checked out", async () => {
+		const pool = new StagehandSessionPool(2, 60000, sessionManager);
+		pool.checkin(createSession("s1"));
+
+		await pool.checkout();
+		await vi.advanceTimersByTimeAsync(120000);
+
+		expect(mockCloseSession).not.toHaveBeenCalled();
+	});
+
+	it("drains every idle session", async () => {
+		const pool = new StagehandSessionPool(2, 60000, sessionManager);
+		pool.checkin(createSession("s1"));
+		pool.checkin(createSession("s2"));
+
+		await pool.drain();
+
+		expect(pool.size).toBe(0);
+		expect(mockCloseSession).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("getSharedSessionPool", () => {
+	afterEach(async () => {
+		await drainSharedSessionPool();
+	});
+
+	it("is disabled when the pool size is 0", () => {
+		const config = { stagehandPoolSize: 0, stagehandPoolIdleTimeoutMs: 1000 } as AppConfig;
+
+		expect(getSharedSessionPool(config, sessionManager)).toBeNull();
+	});
+
+	it("returns one pool for the whole process", () => {
+		const config = { stagehandPoolSize: 2, stagehandPoolIdleTimeoutMs: 1000 } as AppConfig;
+
+		const pool = getSharedSessionPool(config, sessionManager);
+
+		expect(pool).toBeInstanceOf(StagehandSessionPool);
+		expect(getSharedSessionPool(config, sessionManager)).toBe(pool);
+	});
+});
@@ -7,7 +7,9 @@ const mockStagehandInit = vi.fn();
 const mockGetOrCreateSession = vi.fn();
 const mockCloseSession = vi.fn();
 const mockGetDebugUrl = vi.fn();
+const mockIsSessionActive = vi.fn();
 const mockRunStagehandGrammarlyTask = vi.fn();
+const mockOpenGrammarlySignIn = vi.fn();
 
 // Mock Stagehand class
 vi.mock("@browserbasehq/stagehand", () => ({
@@ -24,6 +26,7 @@ vi.mock("../../../../src/browser/stagehand/sessionManager", () => ({
 		getOrCreateSession = mockGetOrCreateSession;
 		closeSession = mockCloseSession;
 		getDebugUrl = mockGetDebugUrl;
+		isSessionActive = mockIsSessionActive;
 	},
 }));
 
@@ -36,14 +39,17 @@ vi.mock("../../../../src/llm/stagehandLlm", () => ({
 // Mock grammarly task
 vi.mock("../../../../src/browser/stagehand/grammarlyTask", () => ({
 	runStagehandGrammarlyTask: (...args: unknown[]) => mockRunStagehandGrammarlyTask(...args),
+	openGrammarlySignIn: (...args: unknown[]) => mockOpenGrammarlySignIn(...args),
 }));
 
 // Import after mocking
 import { StagehandProvider } from "../../../../src/browser/stagehand/index";
+import { drainSharedSessionPool } from "../../../../src/browser/stagehand/sessionPool";
 
 const baseConfig: AppConfig = {
 	ignoreSystemEnv: false,
 	browserProvider: "stagehand",
+	browserProviders: ["stagehand"],
 	browserUseApiKey: undefined,
 	browserUseProfileId: undefined,
 	browserbaseApiKey: "test-api-key",
@@ -52,6 +58,34 @@ const baseConfig: AppConfig = {
 	browserbaseContextId: undefined,
 	stagehandModel: "gemini-2.5-flash",
 	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
 	stagehandLlmProvider: undefined,
 	rewriteLlmProvider: undefined,
 	claudeModel: "auto",
@@ -276,4 +310,122 @@ describe("StagehandProvider", () => {
 			expect(mockCloseSession).toHaveBeenCalledWith("non-existent");
 		});
 	});
+
+	describe("openLoginSession", () => {
+		it("requires a persisted context", async () => {
+			const provider = new StagehandProvider(baseConfig);
+
+			await expect(provider.openLoginSession()).rejects.toThrow(
+				"BROWSERBASE_CONTEXT_ID is required to persist the Grammarly login",
+			);
+			expect(mockGetOrCreateSession).not.toHaveBeenCalled();
+		});
+
+		it("opens the sign-in page on the context session", async () => {
+			mockOpenGrammarlySignIn.mockResolvedValue(undefined);
+			const provider = new StagehandProvider({
+				...baseConfig,
+				browserbaseContextId: "ctx-456",
+			});
+
+			const session = await provider.openLoginSession();
+
+			expect(mockGetOrCreateSession).toHaveBeenCalledWith({ contextId: "ctx-456" });
+			expect(mockOpenGrammarlySignIn).toHaveBeenCalledTimes(1);
+			expect(session).toEqual({
+				sessionId: "bb-session-123",
+				liveUrl: "https://debug.url",
+				contextId: "ctx-456",
+			});
+		});
+
+		it("closes the session when navigation fails", async () => {
+			mockOpenGrammarlySignIn.mockRejectedValue(new Error("goto failed"));
+			const provider = new StagehandProvider({
+				...baseConfig,
+				browserbaseContextId: "ctx-456",
+			});
+
+			await expect(provider.openLoginSession()).rejects.toThrow("goto failed");
+			expect(mockCloseSession).toHaveBeenCalledWith("bb-session-123");
+		});
+	});
+
+	describe("session pool", () => {
+		const pooledConfig: AppConfig = { ...baseConfig, stagehandPoolSize: 1 };
+
+		beforeEach(() => {
+			mockIsSessionActive.mockResolvedValue(true);
+			mockRunStagehandGrammarlyTask.mockResolvedValue({
+				aiDetectionPercent: 15,
+				plagiarismPercent: 3,
+				notes: "Scored",
+			});
+		});
+
+		afterEach(async () => {
+			await drainSharedSessionPool();
+		});
+
+		it("returns a session to the pool instead of releasing it", async () => {
+			const first = new StagehandProvider(pooledConfig);
+			const { sessionId } = await first.createSession();
+			await first.scoreText(sessionId, "Text");
+			await first.closeSession(sessionId);
+
+			expect(mockCloseSession).not.toHaveBeenCalled();
+			expect(mockStagehandClose).not.toHaveBeenCalled();
+
+			const second = new StagehandProvider(pooledConfig);
+			const reused = await second.createSession();
+
+			expect(reused).toEqual({
+				sessionId: "bb-session-123",
+				liveUrl: "https://debug.url",
+				contextId: "ctx-456",
+			});
+			expect(mockGetOrCreateSession).toHaveBeenCalledTimes(1);
+			expect(mockStagehandInit).toHaveBeenCalledTimes(1);
+			await expect(second.scoreText(reused.sessionId, "Text")).resolves.toMatchObject({
+				aiDetectionPercent: 15,
+			});
+		});
+
+		it("creates a new session when the pooled one stopped running", async () => {
+			const first = new StagehandProvider(pooledConfig);
+			const { sessionId } = await first.createSession();
+			await first.closeSession(sessionId);
+			mockIsSessionActive.mockResolvedValue(false);
+
+			await new StagehandProvider(pooledConfig).createSession();
+
+			expect(mockCloseSession).toHaveBeenCalledWith("bb-session-123");
+			expect(mockGetOrCreateSession).toHaveBeenCalledTimes(2);
+		});
+
+		it("releases a session whose scoring failed", async () => {
+			mockRunStagehandGrammarlyTask.mockRejectedValue(new Error("Grammarly is not authenticated"));
+			const provider = new StagehandProvider(pooledConfig);
+			const { sessionId } = await provider.createSession();
+
+			await expect(provider.scoreText(sessionId, "Text")).rejects.toThrow();
+			await provider.closeSession(sessionId);
+
+			expect(mockStagehandClose).toHaveBeenCalled();
+			expect(mockCloseSession).toHaveBeenCalledWith("bb-session-123");
+		});
+
+		it("releases a login session so the login is saved", async () => {
+			mockOpenGrammarlySignIn.mockResolvedValue(undefined);
+			const provider = new StagehandProvider({
+				...pooledConfig,
+				browserbaseContextId: "ctx-456",
+			});
+			const { sessionId } = await provider.openLoginSession();
+
+			await provider.closeSession(sessionId);
+
+			expect(mockCloseSession).toHaveBeenCalledWith("bb-session-123");
+		});
+	});
 });
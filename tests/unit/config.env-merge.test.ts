@@ -38,4 +38,34 @@ describe("config environment merging", () => {
       vi.resetModules();
     }
   });
+
+  it("parses BROWSER_PROVIDER as an ordered failover chain", async () => {
+    const originalEnv = { ...process.env };
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-chain-"));
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(tempDir);
+    // Intentionally replace process.env to isolate this test's variables; restored in finally to avoid leaking to other tests.
+    process.env = {
+      IGNORE_SYSTEM_ENV: "false",
+      BROWSER_PROVIDER: " browser-use , stagehand ",
+      BROWSERBASE_API_KEY: "bb-key",
+      BROWSERBASE_PROJECT_ID: "bb-project",
+      BROWSER_USE_API_KEY: "bu-key",
+      BROWSER_USE_PROFILE_ID: "bu-profile",
+    } as NodeJS.ProcessEnv;
+
+    vi.resetModules();
+
+    try {
+      const { config } = await import("../../src/config");
+
+      expect(config.browserProvider).toBe("browser-use");
+      expect(config.browserProviders).toEqual(["browser-use", "stagehand"]);
+    } finally {
+      process.env = originalEnv;
+      cwdSpy.mockRestore();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      vi.resetModules();
+    }
+  });
 });
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { classifyError, GrammarlyAuthError, RunErrorSchema } from "../../src/errors";
+
+describe("classifyError", () => {
+	it.each([
+		["session", "Grammarly login required", "auth_expired", false],
+		["scoring", "Not logged in to Grammarly", "auth_expired", false],
+		["session", "Grammarly login expired", "auth_expired", false],
+		["scoring", "Grammarly login button not found", "scoring_failed", true],
+		["rewrite", 'Rewrite failed: model echoed "Click login to continue"', "llm_failed", true],
+		["scoring", "Browserbase: 429 Too Many Requests", "quota_exhausted", false],
+		["rewrite", "You exceeded your current quota", "quota_exhausted", false],
+		["session", "Failed to create Browserbase session", "session_failed", true],
+		["scoring", "Could not find AI detection score", "scoring_failed", true],
+		["rewrite", "Rewrite request exceeded timeout of 1000ms", "llm_timeout", true],
+		["analysis", "Analysis failed: 500 Internal Server Error", "llm_failed", true],
+		["summary", "401 Unauthorized", "llm_failed", true],
+	] as const)("%s: %s -> %s", (phase, message, code, retryable) => {
+		expect(classifyError(new Error(message), phase)).toEqual({
+			code,
+			phase,
+			message,
+			retryable,
+		});
+	});
+
+	it("treats a TimeoutError during an LLM phase as a timeout", () => {
+		const error = new Error("The operation was aborted");
+		error.name = "TimeoutError";
+
+		expect(classifyError(error, "summary").code).toBe("llm_timeout");
+	});
+
+	it("classifies a GrammarlyAuthError as auth_expired", () => {
+		const error = new GrammarlyAuthError("redirected to the sign-in page");
+
+		expect(classifyError(error, "session")).toMatchObject({
+			code: "auth_expired",
+			retryable: false,
+		});
+		expect(error.message).toBe(
+			'Grammarly is not authenticated: redirected to the sign-in page. Log in again with "pnpm grammarly-login".',
+		);
+	});
+
+	it("accepts non-Error values", () => {
+		const error = classifyError("boom", "scoring");
+
+		expect(error).toMatchObject({ code: "scoring_failed", message: "boom" });
+		expect(RunErrorSchema.safeParse(error).success).toBe(true);
+	});
+});
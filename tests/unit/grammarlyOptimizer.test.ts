@@ -1,3 +1,6 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { AppConfig } from "../../src/config";
 
@@ -7,8 +10,11 @@ const mockProviderCreateSession = vi.fn();
 const mockProviderScoreText = vi.fn();
 const mockProviderCloseSession = vi.fn();
 const mockRewriteText = vi.fn();
+const mockRewriteTextByParagraph = vi.fn();
 const mockAnalyzeText = vi.fn();
 const mockSummarizeOptimization = vi.fn();
+const mockJudgeFidelity = vi.fn();
+const mockGetRewriteModelId = vi.fn();
 
 // Mock the browser provider module
 vi.mock("../../src/browser/provider", () => ({
@@ -18,9 +24,13 @@ vi.mock("../../src/browser/provider", () => ({
 // Mock the rewrite client module
 vi.mock("../../src/llm/rewriteClient", () => ({
 	rewriteText: (...args: unknown[]) => mockRewriteText(...args),
+	rewriteTextByParagraph: (...args: unknown[]) =>
+		mockRewriteTextByParagraph(...args),
 	analyzeText: (...args: unknown[]) => mockAnalyzeText(...args),
 	summarizeOptimization: (...args: unknown[]) =>
 		mockSummarizeOptimization(...args),
+	judgeFidelity: (...args: unknown[]) => mockJudgeFidelity(...args),
+	getRewriteModelId: (...args: unknown[]) => mockGetRewriteModelId(...args),
 	RewriterToneSchema: {
 		default: vi.fn().mockReturnThis(),
 		describe: vi.fn().mockReturnThis(),
@@ -38,16 +48,29 @@ vi.mock("../../src/config", async (importOriginal) => {
 
 // Import after mocking
 import {
+	type BatchScoreToolInput,
+	combinedScore,
+	estimateFirstIteration,
+	estimateReportCall,
+	findExceededBudget,
 	type GrammarlyScores,
+	type OptimizationCandidate,
+	rankRewriteCandidates,
+	runBatchScoring,
 	runGrammarlyOptimization,
+	runRewrite,
+	selectBestCandidate,
 	thresholdsMet,
 	withRetry,
 	type GrammarlyOptimizeInput,
+	type GrammarlyOptimizeResult,
 } from "../../src/grammarlyOptimizer";
+import { GrammarlyAuthError } from "../../src/errors";
 
 const baseConfig: AppConfig = {
 	ignoreSystemEnv: false,
 	browserProvider: "stagehand",
+	browserProviders: ["stagehand"],
 	browserUseApiKey: undefined,
 	browserUseProfileId: undefined,
 	browserbaseApiKey: "test-api-key",
@@ -56,6 +79,34 @@ const baseConfig: AppConfig = {
 	browserbaseContextId: undefined,
 	stagehandModel: "gemini-2.5-flash",
 	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
 	stagehandLlmProvider: undefined,
 	rewriteLlmProvider: undefined,
 	claudeModel: "auto",
@@ -171,6 +222,174 @@ describe("thresholdsMet", () => {
 	});
 });
 
+describe("combinedScore", () => {
+	it("sums available scores", () => {
+		expect(combinedScore({ aiDetectionPercent: 12, plagiarismPercent: 3 })).toBe(15);
+	});
+
+	it("counts unavailable scores as the worst case", () => {
+		expect(combinedScore({ aiDetectionPercent: null, plagiarismPercent: 3 })).toBe(103);
+		expect(combinedScore({ aiDetectionPercent: null, plagiarismPercent: null })).toBe(
+			200
+		);
+	});
+});
+
+describe("selectBestCandidate", () => {
+	const candidate = (
+		iteration: number,
+		aiDetectionPercent: number | null,
+		plagiarismPercent: number | null,
+		met: boolean
+	): OptimizationCandidate => ({
+		iteration,
+		text: `text-${iteration}`,
+		scores: {
+			aiDetectionPercent,
+			plagiarismPercent,
+			notes: "",
+			chunked: false,
+			truncated: false,
+			chunkScores: [],
+		},
+		thresholdsMet: met,
+	});
+
+	it("prefers candidates that meet thresholds", () => {
+		const best = selectBestCandidate([
+			candidate(0, 2, 1, false),
+			candidate(1, 9, 4, true),
+		]);
+		expect(best.iteration).toBe(1);
+	});
+
+	it("picks the lowest combined score among equals", () => {
+		const best = selectBestCandidate([
+			candidate(0, 50, 3, false),
+			candidate(1, 8, 3, false),
+			candidate(2, 30, 3, false),
+		]);
+		expect(best.iteration).toBe(1);
+	});
+
+	it("keeps the earliest candidate on ties", () => {
+		const best = selectBestCandidate([
+			candidate(0, 20, 3, false),
+			candidate(1, 20, 3, false),
+		]);
+		expect(best.iteration).toBe(0);
+	});
+
+	it("throws when no candidates are given", () => {
+		expect(() => selectBestCandidate([])).toThrow();
+	});
+});
+
+const AI_LIKE_TEXT = "Moreover, it is crucial to delve into this robust landscape. Furthermore, we leverage it.";
+const PLAIN_TEXT = "I walked home. The rain had stopped by then, and the streets smelled of wet stone and old leaves. Nice.";
+const MIDDLE_TEXT = "The results matter here, although the team checked them twice before the meeting.";
+
+describe("rankRewriteCandidates", () => {
+	it("orders rewrites by local AI-likeness estimate", () => {
+		const ranked = rankRewriteCandidates([
+			{ rewrittenText: AI_LIKE_TEXT, reasoning: "a" },
+			{ rewrittenText: PLAIN_TEXT, reasoning: "b" },
+			{ rewrittenText: MIDDLE_TEXT, reasoning: "c" },
+		]);
+
+		expect(ranked.map((rewrite) => rewrite.reasoning)).toEqual(["b", "c", "a"]);
+		expect(ranked[0].estimatedAiScore).toBeLessThan(ranked[2].estimatedAiScore);
+	});
+
+	it("drops duplicate rewrites and keeps generation order on ties", () => {
+		const ranked = rankRewriteCandidates([
+			{ rewrittenText: "Same.", reasoning: "first" },
+			{ rewrittenText: "Same.", reasoning: "duplicate" },
+			{ rewrittenText: "Other.", reasoning: "second" },
+		]);
+
+		expect(ranked.map((rewrite) => rewrite.reasoning)).toEqual(["first", "second"]);
+	});
+});
+
+describe("findExceededBudget", () => {
+	const nothing = { tokens: 0, costUsd: 0, durationMs: 0 };
+
+	it("never stops without budgets", () => {
+		expect(findExceededBudget({}, { tokens: 1e9, costUsd: 100, durationMs: 1e9 }, nothing)).toBeNull();
+	});
+
+	it("allows an iteration that fits", () => {
+		expect(
+			findExceededBudget({ maxTokens: 3000 }, { ...nothing, tokens: 2000 }, { ...nothing, tokens: 1000 }),
+		).toBeNull();
+	});
+
+	it("stops before an iteration that would exceed a budget", () => {
+		expect(
+			findExceededBudget({ maxCostUsd: 0.05 }, { ...nothing, costUsd: 0.03 }, { ...nothing, costUsd: 0.03 }),
+		).toEqual({ budget: "cost", limit: 0.05, spent: 0.03 });
+	});
+
+	it("stops once a budget is used up, even without an estimate", () => {
+		expect(findExceededBudget({ maxDurationMs: 1000 }, { ...nothing, durationMs: 1000 }, nothing)).toEqual({
+			budget: "duration",
+			limit: 1000,
+			spent: 1000,
+		});
+	});
+
+	it("reports the token budget first", () => {
+		expect(
+			findExceededBudget({ maxTokens: 10, maxCostUsd: 0.01 }, { tokens: 10, costUsd: 0.01, durationMs: 0 }, nothing),
+		).toMatchObject({ budget: "tokens" });
+	});
+});
+
+describe("estimateFirstIteration", () => {
+	const baseline = { tokens: 2000, costUsd: 0.01, durationMs: 30_000 };
+
+	const price = { input_per_million: 1, output_per_million: 10 };
+
+	it("prices each candidate's rewrite and fidelity check and each scored rewrite", () => {
+		// 400 characters ≈ 100 tokens: 2 × (1600 + 300) in, 2 × 100 out.
+		expect(estimateFirstIteration(400, 2, 1, baseline, price, price)).toEqual({
+			tokens: 3800 + 200 + 2000,
+			costUsd: 0.0038 + 0.002 + 0.01,
+			durationMs: 30_000,
+		});
+	});
+
+	it("prices fidelity checks with the fidelity model", () => {
+		// Rewrites: 2 × 900 in, 2 × 100 out; fidelity checks: 2 × 1000 in.
+		const estimate = estimateFirstIteration(400, 2, 0, baseline, price, {
+			input_per_million: 0.1,
+			output_per_million: 1,
+		});
+
+		expect(estimate.costUsd).toBeCloseTo(0.0018 + 0.002 + 0.0002, 10);
+	});
+
+	it("counts unpriced rewrites as free and scales scoring by the shortlist", () => {
+		expect(estimateFirstIteration(400, 3, 2, baseline, undefined, undefined)).toMatchObject({
+			costUsd: 0.02,
+			durationMs: 60_000,
+		});
+	});
+});
+
+describe("estimateReportCall", () => {
+	it("prices the prompt and a fixed-length reply", () => {
+		// 400 characters ≈ 100 tokens plus 800 of prompt; 400 out.
+		expect(estimateReportCall(400, { input_per_million: 1, output_per_million: 10 })).toEqual({
+			tokens: 900 + 400,
+			costUsd: 0.0009 + 0.004,
+			durationMs: 0,
+		});
+		expect(estimateReportCall(400, undefined).costUsd).toBe(0);
+	});
+});
+
 describe("withRetry", () => {
 	beforeEach(() => {
 		vi.useFakeTimers();
@@ -280,6 +499,15 @@ describe("withRetry", () => {
 		expect(result).toBe("success");
 	});
 
+	it("rethrows immediately when retryIf rejects the error", async () => {
+		const fn = vi.fn().mockRejectedValue(new Error("permanent"));
+
+		await expect(
+			withRetry(fn, { maxRetries: 3, backoffMs: 100, retryIf: () => false }),
+		).rejects.toThrow("permanent");
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
 	it("throws RangeError for negative maxRetries", async () => {
 		const fn = vi.fn().mockResolvedValue("success");
 
@@ -287,6 +515,47 @@ describe("withRetry", () => {
 			RangeError
 		);
 	});
+
+	it("does not retry once the signal is aborted", async () => {
+		const controller = new AbortController();
+		const fn = vi.fn().mockImplementation(async () => {
+			controller.abort();
+			throw new Error("aborted mid-call");
+		});
+
+		await expect(
+			withRetry(fn, { maxRetries: 3, backoffMs: 100, signal: controller.signal }),
+		).rejects.toThrow("aborted mid-call");
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops waiting for backoff when aborted", async () => {
+		const controller = new AbortController();
+		const fn = vi.fn().mockRejectedValue(new Error("fail"));
+
+		const resultPromise = withRetry(fn, {
+			maxRetries: 3,
+			backoffMs: 10000,
+			signal: controller.signal,
+		}).catch((error: unknown) => error);
+		await vi.advanceTimersByTimeAsync(0);
+		controller.abort(new Error("cancelled"));
+
+		const error = await resultPromise;
+		expect((error as Error).message).toBe("cancelled");
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it("does not call fn when already aborted", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const fn = vi.fn().mockResolvedValue("success");
+
+		await expect(
+			withRetry(fn, { maxRetries: 1, backoffMs: 100, signal: controller.signal }),
+		).rejects.toThrow();
+		expect(fn).not.toHaveBeenCalled();
+	});
 });
 
 describe("runGrammarlyOptimization", () => {
@@ -318,6 +587,8 @@ describe("runGrammarlyOptimization", () => {
 		});
 		mockAnalyzeText.mockResolvedValue("Analysis: Text appears AI-generated");
 		mockSummarizeOptimization.mockResolvedValue("Optimization summary");
+		mockJudgeFidelity.mockResolvedValue({ score: 100, lostFacts: [] });
+		mockGetRewriteModelId.mockReturnValue("gpt-4o");
 	});
 
 	afterEach(() => {
@@ -428,7 +699,9 @@ describe("runGrammarlyOptimization", () => {
 				expect.anything(),
 				expect.anything(),
 				"academic",
-				"university essay"
+				"university essay",
+				undefined,
+				expect.any(Function),
 			);
 		});
 	});
@@ -567,6 +840,146 @@ describe("runGrammarlyOptimization", () => {
 		});
 	});
 
+	describe("rewrite strategy", () => {
+		it("rewrites the whole text by default", async () => {
+			await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+			});
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(1);
+			expect(mockRewriteTextByParagraph).not.toHaveBeenCalled();
+		});
+
+		it("passes protected patterns to the rewriter", async () => {
+			await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+				protected_patterns: ["Acme \\w+"],
+			});
+
+			expect(mockRewriteText).toHaveBeenCalledWith(
+				baseConfig,
+				expect.objectContaining({ protectedPatterns: ["Acme \\w+"] }),
+			);
+		});
+
+		it("uses paragraph-targeted rewrites when strategy is paragraph", async () => {
+			mockRewriteTextByParagraph.mockResolvedValue({
+				rewrittenText: "Paragraph rewrite",
+				reasoning: "Rewrote paragraph(s) 1 of 1.",
+			});
+			mockProviderScoreText
+				.mockResolvedValueOnce({ aiDetectionPercent: 40, plagiarismPercent: 2, notes: "" })
+				.mockResolvedValueOnce({ aiDetectionPercent: 5, plagiarismPercent: 2, notes: "" });
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				strategy: "paragraph",
+				max_iterations: 1,
+			});
+
+			expect(mockRewriteText).not.toHaveBeenCalled();
+			expect(mockRewriteTextByParagraph).toHaveBeenCalledWith(
+				baseConfig,
+				expect.objectContaining({ originalText: baseInput.text }),
+			);
+			expect(result.final_text).toBe("Paragraph rewrite");
+		});
+	});
+
+	describe("best candidate selection", () => {
+		it("returns the best-scoring iteration instead of the last one", async () => {
+			mockRewriteText
+				.mockResolvedValueOnce({ rewrittenText: "Rewrite 1", reasoning: "1" })
+				.mockResolvedValueOnce({ rewrittenText: "Rewrite 2", reasoning: "2" })
+				.mockResolvedValueOnce({ rewrittenText: "Rewrite 3", reasoning: "3" });
+			mockProviderScoreText
+				.mockResolvedValueOnce({ aiDetectionPercent: 60, plagiarismPercent: 2, notes: "" })
+				.mockResolvedValueOnce({ aiDetectionPercent: 25, plagiarismPercent: 2, notes: "" })
+				.mockResolvedValueOnce({ aiDetectionPercent: 12, plagiarismPercent: 2, notes: "" })
+				.mockResolvedValueOnce({ aiDetectionPercent: 30, plagiarismPercent: 2, notes: "" });
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 3,
+			});
+
+			expect(result.final_text).toBe("Rewrite 2");
+			expect(result.ai_detection_percent).toBe(12);
+			expect(result.selected_iteration).toBe(2);
+			expect(result.thresholds_met).toBe(false);
+			expect(result.history.map((entry) => entry.selected)).toEqual([
+				false,
+				false,
+				true,
+				false,
+			]);
+		});
+
+		it("keeps the candidate text of every iteration in history", async () => {
+			mockRewriteText
+				.mockResolvedValueOnce({ rewrittenText: "Rewrite 1", reasoning: "1" })
+				.mockResolvedValueOnce({ rewrittenText: "Rewrite 2", reasoning: "2" });
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: 40,
+				plagiarismPercent: 2,
+				notes: "",
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 2,
+			});
+
+			expect(result.history.map((entry) => entry.candidate_text)).toEqual([
+				baseInput.text,
+				"Rewrite 1",
+				"Rewrite 2",
+			]);
+		});
+
+		it("returns the original text when no rewrite improves on it", async () => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({ aiDetectionPercent: 20, plagiarismPercent: 2, notes: "" })
+				.mockResolvedValue({ aiDetectionPercent: 35, plagiarismPercent: 2, notes: "" });
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 2,
+			});
+
+			expect(result.final_text).toBe(baseInput.text);
+			expect(result.selected_iteration).toBe(0);
+			expect(result.iterations_used).toBe(2);
+		});
+
+		it("omits candidate texts from the summary prompt input", async () => {
+			await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+			});
+
+			const summaryInput = mockSummarizeOptimization.mock.calls[0][1];
+			expect(summaryInput.history[0]).not.toHaveProperty("candidate_text");
+		});
+
+		it("selects iteration 0 in score_only mode", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, baseInput);
+
+			expect(result.selected_iteration).toBe(0);
+			expect(result.history[0].selected).toBe(true);
+			expect(result.history[0].candidate_text).toBe(baseInput.text);
+		});
+	});
+
 	describe("progress callback", () => {
 		it("calls progress callback at each stage", async () => {
 			const onProgress = vi.fn().mockResolvedValue(undefined);
@@ -643,23 +1056,14 @@ describe("runGrammarlyOptimization", () => {
 
 			// Use fake timers to handle retry backoff delays
 			vi.useFakeTimers();
-
-			// Attach catch handler immediately to prevent unhandled rejection
-			let caughtError: Error | undefined;
-			const promise = runGrammarlyOptimization(baseConfig, baseInput).catch((e: Error) => {
-				caughtError = e;
-			});
+			const promise = runGrammarlyOptimization(baseConfig, baseInput);
 
 			// Advance through all retry delays
 			await vi.runAllTimersAsync();
-
-			// Wait for catch handler to complete
-			await promise;
-
 			vi.useRealTimers();
 
-			expect(caughtError).toBeDefined();
-			expect(caughtError?.message).toBe("Scoring failed");
+			const result = await promise;
+			expect(result.error?.message).toBe("Scoring failed");
 			expect(mockProviderCloseSession).toHaveBeenCalledWith("test-session-123");
 		});
 
@@ -744,52 +1148,1503 @@ describe("runGrammarlyOptimization", () => {
 		});
 	});
 
-	describe("null score handling", () => {
-		it("handles null AI detection score", async () => {
-			mockProviderScoreText.mockResolvedValue({
-				aiDetectionPercent: null,
-				plagiarismPercent: 3,
-				notes: "AI detection unavailable",
-			});
+	describe("cancellation", () => {
+		const optimizeInput: GrammarlyOptimizeInput = {
+			...baseInput,
+			mode: "optimize",
+			max_iterations: 3,
+		};
 
-			const result = await runGrammarlyOptimization(baseConfig, {
-				...baseInput,
-				mode: "score_only",
-			});
+		beforeEach(() => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 50,
+					plagiarismPercent: 2,
+					notes: "Baseline",
+				})
+				.mockResolvedValue({
+					aiDetectionPercent: 30,
+					plagiarismPercent: 2,
+					notes: "Rescored",
+				});
+		});
 
-			expect(result.ai_detection_percent).toBeNull();
-			expect(result.thresholds_met).toBe(true); // null treated as passing
+		it("passes the signal to scoring and rewriting", async () => {
+			const controller = new AbortController();
+
+			await runGrammarlyOptimization(
+				baseConfig,
+				{ ...optimizeInput, max_iterations: 1 },
+				undefined,
+				controller.signal,
+			);
+
+			expect(mockProviderScoreText).toHaveBeenCalledWith(
+				"test-session-123",
+				baseInput.text,
+				expect.objectContaining({ signal: controller.signal }),
+			);
+			expect(mockRewriteText).toHaveBeenCalledWith(
+				baseConfig,
+				expect.objectContaining({ abortSignal: controller.signal }),
+			);
 		});
 
-		it("handles null plagiarism score", async () => {
-			mockProviderScoreText.mockResolvedValue({
-				aiDetectionPercent: 5,
-				plagiarismPercent: null,
-				notes: "Plagiarism check unavailable",
+		it("returns the history so far when cancelled mid-run", async () => {
+			const controller = new AbortController();
+			mockRewriteText
+				.mockResolvedValueOnce({
+					rewrittenText: "First rewrite",
+					reasoning: "Pass 1",
+				})
+				.mockImplementationOnce(async () => {
+					controller.abort();
+					throw new Error("Rewrite failed: This operation was aborted");
+				});
+
+			const result = await runGrammarlyOptimization(
+				baseConfig,
+				optimizeInput,
+				undefined,
+				controller.signal,
+			);
+
+			expect(result.cancelled).toBe(true);
+			expect(result.final_text).toBe("First rewrite");
+			expect(result.ai_detection_percent).toBe(30);
+			expect(result.iterations_used).toBe(1);
+			expect(result.selected_iteration).toBe(1);
+			expect(result.history.map((entry) => entry.iteration)).toEqual([0, 1]);
+			expect(result.history[1].selected).toBe(true);
+			expect(result.notes).toContain("cancelled after 1 completed iteration");
+			expect(mockSummarizeOptimization).not.toHaveBeenCalled();
+			expect(mockProviderCloseSession).toHaveBeenCalledWith("test-session-123");
+		});
+
+		it("stops before the next iteration when cancelled between steps", async () => {
+			const controller = new AbortController();
+			mockProviderScoreText.mockReset();
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 50,
+					plagiarismPercent: 2,
+					notes: "Baseline",
+				})
+				.mockImplementationOnce(async () => {
+					controller.abort();
+					return {
+						aiDetectionPercent: 60,
+						plagiarismPercent: 2,
+						notes: "Worse",
+					};
+				});
+
+			const result = await runGrammarlyOptimization(
+				baseConfig,
+				optimizeInput,
+				undefined,
+				controller.signal,
+			);
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(1);
+			expect(result.cancelled).toBe(true);
+			expect(result.final_text).toBe(baseInput.text);
+			expect(result.selected_iteration).toBe(0);
+			expect(result.history).toHaveLength(2);
+		});
+
+		it("returns the original text when cancelled before scoring", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			const result = await runGrammarlyOptimization(
+				baseConfig,
+				optimizeInput,
+				undefined,
+				controller.signal,
+			);
+
+			expect(result).toMatchObject({
+				final_text: baseInput.text,
+				ai_detection_percent: null,
+				plagiarism_percent: null,
+				iterations_used: 0,
+				history: [],
+				cancelled: true,
 			});
+			expect(mockCreateBrowserProvider).not.toHaveBeenCalled();
+		});
 
-			const result = await runGrammarlyOptimization(baseConfig, {
-				...baseInput,
-				mode: "score_only",
+		it("does not fail over to the next provider when cancelled", async () => {
+			const controller = new AbortController();
+			mockProviderScoreText.mockReset();
+			mockProviderScoreText.mockImplementation(async () => {
+				controller.abort();
+				throw new Error("Stream ended before the task finished!");
 			});
 
-			expect(result.plagiarism_percent).toBeNull();
-			expect(result.thresholds_met).toBe(true);
+			const result = await runGrammarlyOptimization(
+				{ ...baseConfig, browserProviders: ["stagehand", "mock"] },
+				baseInput,
+				undefined,
+				controller.signal,
+			);
+
+			expect(result.cancelled).toBe(true);
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(1);
+			expect(mockCreateBrowserProvider).toHaveBeenCalledTimes(1);
 		});
 
-		it("handles both scores null", async () => {
-			mockProviderScoreText.mockResolvedValue({
-				aiDetectionPercent: null,
-				plagiarismPercent: null,
-				notes: "Premium features unavailable",
+		it("passes the signal to analysis and stops when cancelled during it", async () => {
+			const controller = new AbortController();
+			mockAnalyzeText.mockImplementationOnce(async () => {
+				controller.abort();
+				throw new Error("Analysis failed: This operation was aborted");
 			});
 
-			const result = await runGrammarlyOptimization(baseConfig, {
-				...baseInput,
-				mode: "score_only",
-			});
+			const result = await runGrammarlyOptimization(
+				baseConfig,
+				{ ...baseInput, mode: "analyze" },
+				undefined,
+				controller.signal,
+			);
 
-			expect(result.thresholds_met).toBe(false); // Can't verify with no scores
+			expect(mockAnalyzeText.mock.calls[0][8]).toBe(controller.signal);
+			expect(result.cancelled).toBe(true);
+			expect(mockSummarizeOptimization).not.toHaveBeenCalled();
+		});
+
+		it("passes the signal to the summary", async () => {
+			const controller = new AbortController();
+
+			await runGrammarlyOptimization(
+				baseConfig,
+				{ ...optimizeInput, max_iterations: 1 },
+				undefined,
+				controller.signal,
+			);
+
+			expect(mockSummarizeOptimization).toHaveBeenCalledWith(
+				baseConfig,
+				expect.anything(),
+				controller.signal,
+				expect.any(Function),
+			);
 		});
+
+		it("reports cancelled: false for completed runs", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, baseInput);
+
+			expect(result.cancelled).toBe(false);
+		});
+	});
+
+	describe("usage", () => {
+		it("reports LLM tokens and scoring work per component", async () => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 50,
+					plagiarismPercent: 2,
+					notes: "Baseline",
+					usage: { llmModel: "gemini-2.5-flash", inputTokens: 4000, outputTokens: 400 },
+				})
+				.mockResolvedValue({
+					aiDetectionPercent: 5,
+					plagiarismPercent: 2,
+					notes: "Rescored",
+					usage: { llmModel: "gemini-2.5-flash", inputTokens: 3000, outputTokens: 300 },
+				});
+			mockRewriteText.mockImplementation(async (_config, params) => {
+				params.onUsage?.({ operation: "rewrite", modelId: "gpt-4o", inputTokens: 1000, outputTokens: 500 });
+				return { rewrittenText: "Rewritten text", reasoning: "Rewrite" };
+			});
+			mockSummarizeOptimization.mockImplementation(async (_config, _input, _signal, onUsage) => {
+				onUsage?.({ operation: "summary", modelId: "gpt-4o", inputTokens: 200, outputTokens: 100 });
+				return "Summary";
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+			});
+
+			expect(result.usage.components).toEqual(
+				expect.arrayContaining([
+					expect.objectContaining({ component: "stagehand_llm", calls: 2, input_tokens: 7000, output_tokens: 700 }),
+					expect.objectContaining({ component: "rewrite", model: "gpt-4o", calls: 1, estimated_cost_usd: 0.0075 }),
+					expect.objectContaining({ component: "summary", model: "gpt-4o", calls: 1 }),
+				]),
+			);
+			expect(result.usage.input_tokens).toBe(8200);
+			expect(result.usage.output_tokens).toBe(1300);
+		});
+
+		it("counts the time the Browserbase session was held", async () => {
+			vi.useFakeTimers();
+			mockProviderScoreText.mockImplementation(async () => {
+				await new Promise((resolve) => setTimeout(resolve, 30_000));
+				return { aiDetectionPercent: 5, plagiarismPercent: 1, notes: "Scored" };
+			});
+
+			const promise = runGrammarlyOptimization(baseConfig, baseInput);
+			await vi.runAllTimersAsync();
+			const result = await promise;
+			vi.useRealTimers();
+
+			expect(result.usage.components).toEqual([
+				{ component: "browserbase", session_seconds: 30, estimated_cost_usd: 0.001 },
+			]);
+		});
+
+		it("keeps the usage of a failed run", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: 50,
+				plagiarismPercent: 2,
+				notes: "Baseline",
+				usage: { steps: 9 },
+			});
+			mockRewriteText.mockRejectedValue(new Error("Rewrite request exceeded timeout of 1000ms"));
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+			});
+
+			expect(result.error?.code).toBe("llm_timeout");
+			expect(result.usage.components).toContainEqual({
+				component: "browser_use",
+				steps: 9,
+				estimated_cost_usd: 0.09,
+			});
+		});
+	});
+
+	describe("budgets", () => {
+		beforeEach(() => {
+			mockRewriteText.mockImplementation(async (_config, params) => {
+				params.onUsage?.({ operation: "rewrite", modelId: "gpt-4o", inputTokens: 1000, outputTokens: 500 });
+				return { rewrittenText: "Rewritten text", reasoning: "Rewrite" };
+			});
+		});
+
+		it("stops before an iteration that would exceed the token budget", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_tokens: 4000,
+			});
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(2);
+			expect(result.iterations_used).toBe(2);
+			expect(result.history).toHaveLength(3);
+			expect(result.stop_reason).toBe("budget");
+			expect(result.error).toBeNull();
+			expect(result.notes).toContain(
+				"Stopped by the token budget after 2 iteration(s): 3000 tokens used of 4000 tokens",
+			);
+		});
+
+		it("stops before the first iteration when even it would exceed a budget", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_tokens: 1000,
+			});
+
+			expect(mockRewriteText).not.toHaveBeenCalled();
+			expect(result.iterations_used).toBe(0);
+			expect(result.stop_reason).toBe("budget");
+			expect(result.notes).toContain("Stopped by the token budget after 0 iteration(s)");
+		});
+
+		it("warns that a cost budget cannot see unpriced models", async () => {
+			mockGetRewriteModelId.mockReturnValue("claude-code/sonnet");
+			mockRewriteText.mockImplementation(async (_config, params) => {
+				params.onUsage?.({ operation: "rewrite", modelId: "claude-code/sonnet", inputTokens: 1000, outputTokens: 500 });
+				return { rewrittenText: "Rewritten text", reasoning: "Rewrite" };
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_cost_usd: 0.01,
+			});
+
+			expect(result.iterations_used).toBe(5);
+			expect(result.notes).toContain(
+				"The cost budget counts calls to claude-code/sonnet as $0: the price table has no price for it.",
+			);
+		});
+
+		it("skips the summary once the budget has no room for it", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_tokens: 4000,
+			});
+
+			expect(mockSummarizeOptimization).not.toHaveBeenCalled();
+			expect(result.usage.input_tokens + result.usage.output_tokens).toBeLessThanOrEqual(4000);
+			expect(result.notes).toContain(
+				"No summary was generated: the token budget has 3000 tokens used of 4000 tokens, not enough for the summary call.",
+			);
+		});
+
+		it("still summarizes when the budget has room", async () => {
+			await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+				max_tokens: 100_000,
+			});
+
+			expect(mockSummarizeOptimization).toHaveBeenCalledTimes(1);
+		});
+
+		it("skips the analysis when the budget is already spent", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: 30,
+				plagiarismPercent: 3,
+				notes: "Scored",
+				usage: { inputTokens: 1500, outputTokens: 200, llmModel: "gpt-4o" },
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "analyze",
+				max_tokens: 1000,
+			});
+
+			expect(mockAnalyzeText).not.toHaveBeenCalled();
+			expect(result.notes).toContain("No analysis was generated: the token budget has 1700 tokens used of 1000 tokens");
+		});
+
+		it("takes the default budgets from the config", async () => {
+			const result = await runGrammarlyOptimization(
+				{ ...baseConfig, budgetMaxCostUsd: 0.01 },
+				{ ...baseInput, mode: "optimize" },
+			);
+
+			expect(result.iterations_used).toBe(1);
+			expect(result.notes).toContain("Stopped by the cost budget after 1 iteration(s): $0.0075 used of $0.0100");
+		});
+
+		it("lets the call override the configured budget", async () => {
+			const result = await runGrammarlyOptimization(
+				{ ...baseConfig, budgetMaxCostUsd: 0.01 },
+				{ ...baseInput, mode: "optimize", max_cost_usd: 1 },
+			);
+
+			expect(result.iterations_used).toBe(5);
+			expect(result.notes).not.toContain("budget");
+		});
+
+		it("stops before an iteration that would run past the time budget", async () => {
+			vi.useFakeTimers();
+			mockProviderScoreText.mockImplementation(async () => {
+				await new Promise((resolve) => setTimeout(resolve, 30_000));
+				return { aiDetectionPercent: 15, plagiarismPercent: 3, notes: "Scored" };
+			});
+
+			const promise = runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_duration_seconds: 100,
+			});
+			await vi.runAllTimersAsync();
+			const result = await promise;
+			vi.useRealTimers();
+
+			expect(result.iterations_used).toBe(2);
+			expect(result.notes).toContain("Stopped by the time budget after 2 iteration(s): 90s used of 100s");
+		});
+	});
+
+	describe("convergence", () => {
+		const optimizeInput: GrammarlyOptimizeInput = { ...baseInput, mode: "optimize" };
+
+		function mockScores(...aiPercents: number[]) {
+			for (const aiDetectionPercent of aiPercents) {
+				mockProviderScoreText.mockResolvedValueOnce({ aiDetectionPercent, plagiarismPercent: 2, notes: "Scored" });
+			}
+		}
+
+		beforeEach(() => {
+			let count = 0;
+			mockRewriteText.mockImplementation(async () => {
+				count += 1;
+				return { rewrittenText: `Rewrite ${count}`, reasoning: `Approach ${count}` };
+			});
+		});
+
+		it("reverts to the best text and reports the backfired rewrite", async () => {
+			mockScores(50, 30, 60, 25);
+
+			const result = await runGrammarlyOptimization(baseConfig, { ...optimizeInput, max_iterations: 3 });
+
+			const thirdCall = mockRewriteText.mock.calls[2][1];
+			expect(thirdCall.originalText).toBe("Rewrite 1");
+			expect(thirdCall.lastAiPercent).toBe(30);
+			expect(thirdCall.backfiredRewrite).toEqual({
+				aiDetectionPercent: 60,
+				plagiarismPercent: 2,
+				reasoning: "Approach 2",
+			});
+			expect(mockRewriteText.mock.calls[1][1].backfiredRewrite).toBeUndefined();
+			expect(result.history[2].note).toContain(
+				"Scores got worse than iteration 1; the next rewrite starts again from that text.",
+			);
+			expect(result.final_text).toBe("Rewrite 3");
+			expect(result.stop_reason).toBe("max_iterations");
+		});
+
+		it("clears the backfired note once a rewrite does not regress", async () => {
+			mockScores(50, 60, 40, 35);
+
+			await runGrammarlyOptimization(baseConfig, { ...optimizeInput, max_iterations: 3 });
+
+			expect(mockRewriteText.mock.calls[1][1].backfiredRewrite).toBeDefined();
+			expect(mockRewriteText.mock.calls[2][1].backfiredRewrite).toBeUndefined();
+			expect(mockRewriteText.mock.calls[2][1].originalText).toBe("Rewrite 2");
+		});
+
+		it("stops once scores plateau", async () => {
+			mockScores(50, 40, 39.5, 39.8);
+
+			const result = await runGrammarlyOptimization(
+				{ ...baseConfig, plateauPatience: 2, plateauMinImprovement: 1 },
+				optimizeInput,
+			);
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(3);
+			expect(result.iterations_used).toBe(3);
+			expect(result.stop_reason).toBe("plateau");
+			expect(result.selected_iteration).toBe(2);
+			expect(result.notes).toContain(
+				"Stopped after 3 iteration(s): the best combined AI + plagiarism score improved by less than 1 point(s) over the last 2 iteration(s).",
+			);
+		});
+
+		it("keeps going while patience is 0", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(result.iterations_used).toBe(5);
+			expect(result.stop_reason).toBe("max_iterations");
+		});
+
+		it("reports when the thresholds were met", async () => {
+			mockScores(50, 5);
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(result.stop_reason).toBe("thresholds_met");
+		});
+
+		it("has no stop reason outside optimize mode", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, baseInput);
+
+			expect(result.stop_reason).toBeNull();
+		});
+	});
+
+	describe("multiple candidates per iteration", () => {
+		const optimizeInput: GrammarlyOptimizeInput = {
+			...baseInput,
+			mode: "optimize",
+			max_iterations: 1,
+			candidates_per_iteration: 3,
+			scored_candidates_per_iteration: 2,
+		};
+
+		beforeEach(() => {
+			mockRewriteText.mockImplementation(async (_config, params) => {
+				const text = { 0.9: PLAIN_TEXT, 1: MIDDLE_TEXT }[params.temperature as number] ?? AI_LIKE_TEXT;
+				return { rewrittenText: text, reasoning: `Reasoning for ${text.slice(0, 10)}` };
+			});
+			mockProviderScoreText.mockImplementation(async (_sessionId, text: string) => ({
+				aiDetectionPercent: { [PLAIN_TEXT]: 30, [MIDDLE_TEXT]: 20 }[text] ?? 50,
+				plagiarismPercent: 2,
+				notes: "Scored",
+			}));
+		});
+
+		it("generates varied rewrites and scores only the pre-filtered top ones", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(3);
+			const variants = mockRewriteText.mock.calls.map(([, params]) => [params.temperature, params.variationHint]);
+			expect(variants[0]).toEqual([undefined, undefined]);
+			expect(new Set(variants.map(([, hint]) => hint)).size).toBe(3);
+
+			const scoredTexts = mockProviderScoreText.mock.calls.map(([, text]) => text);
+			expect(scoredTexts).toEqual([baseInput.text, PLAIN_TEXT, MIDDLE_TEXT]);
+			expect(result.final_text).toBe(MIDDLE_TEXT);
+			expect(result.ai_detection_percent).toBe(20);
+			expect(result.history).toHaveLength(2);
+			expect(result.history[1].note).toContain("Best of 3 rewrites; the local pre-filter");
+			expect(result.history[1].note).toContain("sent 2 to Grammarly. Other scored rewrites: AI 30%, plagiarism 2%.");
+		});
+
+		it("stops scoring an iteration's rewrites once one meets the thresholds", async () => {
+			mockProviderScoreText.mockImplementation(async (_sessionId, text: string) => ({
+				aiDetectionPercent: text === PLAIN_TEXT ? 5 : 50,
+				plagiarismPercent: 2,
+				notes: "Scored",
+			}));
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(2);
+			expect(result.final_text).toBe(PLAIN_TEXT);
+			expect(result.stop_reason).toBe("thresholds_met");
+		});
+
+		it("scores at most as many rewrites as were generated", async () => {
+			await runGrammarlyOptimization(baseConfig, {
+				...optimizeInput,
+				candidates_per_iteration: 1,
+				scored_candidates_per_iteration: 3,
+			});
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(1);
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(2);
+		});
+
+		it("continues with the rewrites that did not fail", async () => {
+			mockRewriteText.mockRejectedValueOnce(new Error("Rewrite failed: overloaded"));
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(result.error).toBeNull();
+			expect(result.final_text).toBe(MIDDLE_TEXT);
+		});
+
+		it("fails the iteration when every rewrite fails", async () => {
+			mockRewriteText.mockRejectedValue(new Error("Rewrite request exceeded timeout of 1000ms"));
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(3);
+			expect(result.error).toMatchObject({ code: "llm_timeout", phase: "rewrite" });
+		});
+	});
+
+	describe("Grammarly highlights", () => {
+		it("feeds the flagged sentences and passages into the next rewrite", async () => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 40,
+					plagiarismPercent: 9,
+					notes: "",
+					aiFlaggedSentences: ["Sample text", "Not in the document"],
+					plagiarismMatches: [{ passage: "to optimize", sourceUrl: "https://example.com" }],
+				})
+				.mockResolvedValueOnce({ aiDetectionPercent: 5, plagiarismPercent: 1, notes: "" });
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+			});
+
+			expect(mockRewriteText).toHaveBeenCalledWith(
+				baseConfig,
+				expect.objectContaining({
+					aiFlaggedSentences: ["Sample text"],
+					plagiarismMatches: [{ passage: "to optimize", sourceUrl: "https://example.com" }],
+				}),
+			);
+			expect(result.history[0]).toMatchObject({
+				ai_flagged_sentences: ["Sample text"],
+				plagiarism_matches: [{ passage: "to optimize", source_url: "https://example.com" }],
+			});
+			expect(result.history[1]).not.toHaveProperty("ai_flagged_sentences");
+		});
+
+		it("collects the highlights of every chunk", async () => {
+			const text = ["a".repeat(6000), "Flagged one.", "b".repeat(6000), "Flagged two."].join("\n\n");
+			mockProviderScoreText
+				.mockResolvedValueOnce({ aiDetectionPercent: 40, plagiarismPercent: 0, notes: "", aiFlaggedSentences: ["Flagged one."] })
+				.mockResolvedValueOnce({ aiDetectionPercent: 40, plagiarismPercent: 0, notes: "", aiFlaggedSentences: ["Flagged two."] });
+
+			const result = await runGrammarlyOptimization(baseConfig, { ...baseInput, text });
+
+			expect(result.history[0]?.ai_flagged_sentences).toEqual(["Flagged one.", "Flagged two."]);
+		});
+	});
+
+	describe("changes", () => {
+		it("lists the edits from the input text to the final text", async () => {
+			mockRewriteText.mockResolvedValueOnce({
+				rewrittenText: "Sample prose to optimize",
+				reasoning: "Reworded",
+			});
+			mockProviderScoreText
+				.mockResolvedValueOnce({ aiDetectionPercent: 40, plagiarismPercent: 2, notes: "" })
+				.mockResolvedValueOnce({ aiDetectionPercent: 5, plagiarismPercent: 2, notes: "" });
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+			});
+
+			expect(result.changes).toEqual([
+				{ type: "replace", original: "text", revised: "prose", original_offset: 7, revised_offset: 7 },
+			]);
+		});
+
+		it("is empty in score_only mode", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, baseInput);
+
+			expect(result.changes).toEqual([]);
+		});
+	});
+
+	describe("fidelity check", () => {
+		const optimizeInput: GrammarlyOptimizeInput = {
+			...baseInput,
+			text: "Acme Corp hired 40 people.",
+			mode: "optimize",
+			max_iterations: 1,
+		};
+
+		it("records the fidelity score and lost facts of each rewrite", async () => {
+			mockRewriteText.mockResolvedValue({ rewrittenText: "Acme Corp took on 40 staff.", reasoning: "Rewrite" });
+			mockJudgeFidelity.mockResolvedValue({ score: 85, lostFacts: ["that they are people"] });
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(mockJudgeFidelity).toHaveBeenCalledWith(
+				baseConfig,
+				"Acme Corp hired 40 people.",
+				"Acme Corp took on 40 staff.",
+				undefined,
+				expect.any(Function),
+			);
+			expect(result.history[0].fidelity_score).toBeUndefined();
+			expect(result.history[1]).toMatchObject({ fidelity_score: 85, lost_facts: ["that they are people"] });
+		});
+
+		it("rejects a rewrite below the floor and retries with its lost facts", async () => {
+			mockRewriteText
+				.mockResolvedValueOnce({ rewrittenText: "Acme Corp hired people.", reasoning: "First" })
+				.mockResolvedValueOnce({ rewrittenText: "Acme Corp hired 40 new people.", reasoning: "Second" });
+			mockJudgeFidelity.mockResolvedValue({ score: 95, lostFacts: [] });
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(2);
+			expect(mockRewriteText.mock.calls[0][1].lostFacts).toBeUndefined();
+			expect(mockRewriteText.mock.calls[1][1].lostFacts).toEqual(["40"]);
+			expect(result.history[1].candidate_text).toBe("Acme Corp hired 40 new people.");
+			expect(result.history[1].fidelity_score).toBe(95);
+			expect(result.history[1].note).toContain("The fidelity check rejected 1 earlier attempt(s).");
+		});
+
+		it("fails the rewrite once every attempt stays below the floor", async () => {
+			mockRewriteText.mockResolvedValue({ rewrittenText: "Acme Corp hired people.", reasoning: "Lossy" });
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(3);
+			expect(result.error).toMatchObject({ code: "llm_failed", phase: "rewrite" });
+			expect(result.error?.message).toContain(
+				"fidelity score 50 stayed below the floor of 80 after 3 attempts (lost: 40)",
+			);
+			expect(result.final_text).toBe("Acme Corp hired 40 people.");
+		});
+
+		it("lets the call lower the floor", async () => {
+			mockRewriteText.mockResolvedValue({ rewrittenText: "Acme Corp hired people.", reasoning: "Lossy" });
+
+			const result = await runGrammarlyOptimization(baseConfig, { ...optimizeInput, fidelity_floor: 50 });
+
+			expect(mockRewriteText).toHaveBeenCalledTimes(1);
+			expect(result.history[1]).toMatchObject({ fidelity_score: 50, lost_facts: ["40"] });
+		});
+	});
+
+	describe("structured errors", () => {
+		const optimizeInput: GrammarlyOptimizeInput = {
+			...baseInput,
+			mode: "optimize",
+			max_iterations: 3,
+		};
+
+		beforeEach(() => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 50,
+					plagiarismPercent: 2,
+					notes: "Baseline",
+				})
+				.mockResolvedValue({
+					aiDetectionPercent: 30,
+					plagiarismPercent: 2,
+					notes: "Rescored",
+				});
+		});
+
+		it("returns the baseline history when a rewrite times out", async () => {
+			mockRewriteText.mockRejectedValue(
+				new Error("Rewrite request exceeded timeout of 120000ms"),
+			);
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(result.error).toEqual({
+				code: "llm_timeout",
+				phase: "rewrite",
+				message: "Rewrite request exceeded timeout of 120000ms",
+				retryable: true,
+			});
+			expect(result.cancelled).toBe(false);
+			expect(result.final_text).toBe(baseInput.text);
+			expect(result.iterations_used).toBe(0);
+			expect(result.history).toHaveLength(1);
+			expect(result.ai_detection_percent).toBe(50);
+			expect(result.notes).toContain("Run failed during rewrite");
+			expect(mockProviderCloseSession).toHaveBeenCalledWith("test-session-123");
+		});
+
+		it("keeps the best candidate when a later iteration fails", async () => {
+			mockRewriteText
+				.mockResolvedValueOnce({ rewrittenText: "Better text", reasoning: "Pass 1" })
+				.mockRejectedValueOnce(new Error("OpenAI: You exceeded your current quota"));
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(result.error).toMatchObject({
+				code: "quota_exhausted",
+				phase: "rewrite",
+				retryable: false,
+			});
+			expect(result.final_text).toBe("Better text");
+			expect(result.selected_iteration).toBe(1);
+			expect(result.history.map((entry) => entry.selected)).toEqual([false, true]);
+		});
+
+		it("does not retry a GrammarlyAuthError", async () => {
+			mockProviderScoreText.mockReset();
+			mockProviderScoreText.mockRejectedValue(
+				new GrammarlyAuthError("redirected to the sign-in page"),
+			);
+
+			const result = await runGrammarlyOptimization(baseConfig, optimizeInput);
+
+			expect(result.error).toMatchObject({
+				code: "auth_expired",
+				phase: "scoring",
+				retryable: false,
+			});
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(1);
+			expect(mockProviderCloseSession).toHaveBeenCalledWith("test-session-123");
+		});
+
+		it("classifies an expired Grammarly login while scoring", async () => {
+			mockProviderScoreText.mockReset();
+			mockProviderScoreText.mockRejectedValue(
+				new Error("Grammarly login page shown instead of the editor"),
+			);
+
+			vi.useFakeTimers();
+			const promise = runGrammarlyOptimization(baseConfig, optimizeInput);
+			await vi.runAllTimersAsync();
+			vi.useRealTimers();
+			const result = await promise;
+
+			expect(result.error).toMatchObject({
+				code: "auth_expired",
+				phase: "scoring",
+				retryable: false,
+			});
+			expect(result.history).toEqual([]);
+			expect(result.notes).toContain("before the text was scored");
+		});
+
+		it("attributes analysis and summary failures to their phase", async () => {
+			mockAnalyzeText.mockRejectedValueOnce(new Error("Analysis failed: 500"));
+			mockSummarizeOptimization.mockRejectedValueOnce(
+				new Error("Optimization summary failed: overloaded"),
+			);
+			mockRewriteText.mockResolvedValue({ rewrittenText: "New", reasoning: "Pass" });
+
+			const analysis = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "analyze",
+			});
+			const optimize = await runGrammarlyOptimization(baseConfig, {
+				...optimizeInput,
+				max_iterations: 1,
+			});
+
+			expect(analysis.error).toMatchObject({ code: "llm_failed", phase: "analysis" });
+			expect(optimize.error).toMatchObject({ code: "llm_failed", phase: "summary" });
+			expect(optimize.iterations_used).toBe(1);
+		});
+	});
+
+	describe("provider failover", () => {
+		const chainConfig: AppConfig = {
+			...baseConfig,
+			browserProviders: ["stagehand", "browser-use"],
+		};
+		const fallbackCreateSession = vi.fn();
+		const fallbackScoreText = vi.fn();
+		const fallbackCloseSession = vi.fn();
+		const fallbackProvider = {
+			providerName: "browser-use" as const,
+			createSession: fallbackCreateSession,
+			scoreText: fallbackScoreText,
+			closeSession: fallbackCloseSession,
+		};
+
+		beforeEach(() => {
+			mockCreateBrowserProvider.mockImplementation(async (config: AppConfig) =>
+				config.browserProvider === "browser-use" ? fallbackProvider : mockProvider,
+			);
+			fallbackCreateSession.mockResolvedValue({
+				sessionId: "fallback-session",
+				liveUrl: "https://fallback.url",
+			});
+			fallbackScoreText.mockResolvedValue({
+				aiDetectionPercent: 7,
+				plagiarismPercent: 1,
+				notes: "Fallback scores",
+			});
+			fallbackCloseSession.mockResolvedValue(undefined);
+		});
+
+		async function runWithTimers(
+			config: AppConfig,
+			input: GrammarlyOptimizeInput,
+		) {
+			vi.useFakeTimers();
+			const promise = runGrammarlyOptimization(config, input).catch(
+				(error: Error) => error,
+			);
+			await vi.runAllTimersAsync();
+			vi.useRealTimers();
+			return promise;
+		}
+
+		it("uses only the primary provider when it works", async () => {
+			const result = await runGrammarlyOptimization(chainConfig, baseInput);
+
+			expect(result.provider).toBe("stagehand");
+			expect(result.history[0].provider).toBe("stagehand");
+			expect(mockCreateBrowserProvider).toHaveBeenCalledTimes(1);
+			expect(fallbackCreateSession).not.toHaveBeenCalled();
+		});
+
+		it("fails over when session creation keeps failing", async () => {
+			mockProviderCreateSession.mockRejectedValue(new Error("Session error"));
+
+			const result = await runWithTimers(chainConfig, baseInput);
+
+			if (result instanceof Error) {
+				throw result;
+			}
+			expect(mockProviderCreateSession).toHaveBeenCalledTimes(4);
+			expect(result.provider).toBe("browser-use");
+			expect(result.live_url).toBe("https://fallback.url");
+			expect(result.ai_detection_percent).toBe(7);
+			expect(result.history[0].provider).toBe("browser-use");
+			expect(result.history[0].note).toContain(
+				"Provider failover: stagehand -> browser-use (Session error).",
+			);
+			expect(mockCreateBrowserProvider).toHaveBeenLastCalledWith(
+				expect.objectContaining({ browserProvider: "browser-use" }),
+			);
+		});
+
+		it("fails over mid-run when scoring keeps failing and records providers per score", async () => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 40,
+					plagiarismPercent: 2,
+					notes: "Baseline",
+				})
+				.mockRejectedValue(new Error("Scoring error"));
+
+			const result = await runWithTimers(chainConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+			});
+
+			if (result instanceof Error) {
+				throw result;
+			}
+			expect(mockProviderCloseSession).toHaveBeenCalledWith("test-session-123");
+			expect(fallbackScoreText).toHaveBeenCalledWith(
+				"fallback-session",
+				"Rewritten text",
+				expect.anything(),
+			);
+			expect(result.history.map((entry) => entry.provider)).toEqual([
+				"stagehand",
+				"browser-use",
+			]);
+			expect(result.history[1].note).toMatch(
+				/^Provider failover: stagehand -> browser-use \(Scoring error\)\./,
+			);
+			expect(result.provider).toBe("browser-use");
+			expect(fallbackCloseSession).toHaveBeenCalledWith("fallback-session");
+		});
+
+		it("reports the last error when every provider fails", async () => {
+			mockProviderCreateSession.mockRejectedValue(new Error("Session error"));
+			fallbackCreateSession.mockRejectedValue(new Error("Fallback down"));
+
+			const result = await runWithTimers(chainConfig, baseInput);
+
+			expect((result as GrammarlyOptimizeResult).error).toMatchObject({
+				code: "session_failed",
+				message: "Fallback down",
+			});
+		});
+
+		it("does not fail over with a single configured provider", async () => {
+			mockProviderCreateSession.mockRejectedValue(new Error("Session error"));
+
+			const result = await runWithTimers(baseConfig, baseInput);
+
+			expect((result as GrammarlyOptimizeResult).error?.message).toBe(
+				"Session error",
+			);
+			expect(fallbackCreateSession).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("score cache", () => {
+		let tempDir: string;
+		let cacheConfig: AppConfig;
+
+		beforeEach(() => {
+			tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "optimizer-cache-"));
+			cacheConfig = { ...baseConfig, scoreCacheDir: tempDir };
+		});
+
+		afterEach(() => {
+			fs.rmSync(tempDir, { recursive: true, force: true });
+		});
+
+		it("serves repeated scoring from the cache without a browser session", async () => {
+			await runGrammarlyOptimization(cacheConfig, baseInput);
+			vi.clearAllMocks();
+
+			const result = await runGrammarlyOptimization(cacheConfig, baseInput);
+
+			expect(mockCreateBrowserProvider).not.toHaveBeenCalled();
+			expect(mockProviderScoreText).not.toHaveBeenCalled();
+			expect(result.ai_detection_percent).toBe(15);
+			expect(result.provider).toBe("stagehand");
+			expect(result.live_url).toBeNull();
+			expect(result.history[0].note).toContain(
+				"Served from the score cache (scored by stagehand at",
+			);
+		});
+
+		it("reuses the score_only baseline when optimizing", async () => {
+			await runGrammarlyOptimization(cacheConfig, baseInput);
+			mockProviderScoreText.mockClear();
+
+			const result = await runGrammarlyOptimization(cacheConfig, {
+				...baseInput,
+				mode: "optimize",
+				max_iterations: 1,
+			});
+
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(1);
+			expect(mockProviderScoreText).toHaveBeenCalledWith(
+				"test-session-123",
+				"Rewritten text",
+				expect.anything(),
+			);
+			expect(result.history[0].note).toContain("Served from the score cache");
+			expect(result.history[1].note).not.toContain("score cache");
+		});
+
+		it("scores fresh with bypass_cache and refreshes the entry", async () => {
+			await runGrammarlyOptimization(cacheConfig, baseInput);
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: 9,
+				plagiarismPercent: 1,
+				notes: "Fresh",
+			});
+
+			const bypassed = await runGrammarlyOptimization(cacheConfig, {
+				...baseInput,
+				bypass_cache: true,
+			});
+			mockProviderScoreText.mockClear();
+			const cached = await runGrammarlyOptimization(cacheConfig, baseInput);
+
+			expect(bypassed.ai_detection_percent).toBe(9);
+			expect(bypassed.history[0].note).not.toContain("score cache");
+			expect(mockProviderScoreText).not.toHaveBeenCalled();
+			expect(cached.ai_detection_percent).toBe(9);
+		});
+
+		it("does not cache unavailable scores", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: null,
+				plagiarismPercent: 3,
+				notes: "AI detector unavailable",
+			});
+
+			await runGrammarlyOptimization(cacheConfig, baseInput);
+			await runGrammarlyOptimization(cacheConfig, baseInput);
+
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(2);
+			expect(fs.readdirSync(tempDir)).toEqual([]);
+		});
+
+		it("is disabled without SCORE_CACHE_DIR", async () => {
+			await runGrammarlyOptimization(baseConfig, baseInput);
+			await runGrammarlyOptimization(baseConfig, baseInput);
+
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("chunked scoring", () => {
+		const longDocument = [
+			"a".repeat(6000),
+			"b".repeat(6000),
+			"c".repeat(3000),
+		].join("\n\n");
+
+		it("scores short text in a single pass", async () => {
+			const result = await runGrammarlyOptimization(baseConfig, baseInput);
+
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(1);
+			expect(result.chunked).toBe(false);
+			expect(result.truncated).toBe(false);
+			expect(result.chunk_scores).toEqual([
+				{
+					chunk_index: 0,
+					char_count: baseInput.text.length,
+					ai_detection_percent: 15,
+					plagiarism_percent: 3,
+				},
+			]);
+		});
+
+		it("scores each paragraph chunk in the same session", async () => {
+			mockProviderScoreText
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 40,
+					plagiarismPercent: 0,
+					notes: "First chunk",
+				})
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 10,
+					plagiarismPercent: 6,
+					notes: "Second chunk",
+				})
+				.mockResolvedValueOnce({
+					aiDetectionPercent: 10,
+					plagiarismPercent: 6,
+					notes: "Third chunk",
+				});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				text: longDocument,
+			});
+
+			expect(mockProviderScoreText).toHaveBeenCalledTimes(3);
+			for (const call of mockProviderScoreText.mock.calls) {
+				expect(call[0]).toBe("test-session-123");
+				expect((call[1] as string).length).toBeLessThanOrEqual(8000);
+			}
+			expect(result.chunked).toBe(true);
+			expect(result.truncated).toBe(false);
+			expect(result.chunk_scores.map((chunk) => chunk.char_count)).toEqual([
+				6000, 6000, 3000,
+			]);
+			// (6000*40 + 6000*10 + 3000*10) / 15000 = 22
+			expect(result.ai_detection_percent).toBe(22);
+			// (6000*0 + 6000*6 + 3000*6) / 15000 = 3.6
+			expect(result.plagiarism_percent).toBe(3.6);
+			expect(result.history[0].note).toContain("Scored in 3 chunks");
+		});
+
+		it("re-scores rewritten long text in chunks during optimize", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: 5,
+				plagiarismPercent: 1,
+				notes: "Passing",
+			});
+			mockRewriteText.mockResolvedValue({
+				rewrittenText: longDocument,
+				reasoning: "Rewrote",
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				text: longDocument,
+				mode: "optimize",
+			});
+
+			expect(result.thresholds_met).toBe(true);
+			expect(result.chunk_scores).toHaveLength(3);
+		});
+	});
+
+	describe("null score handling", () => {
+		it("handles null AI detection score", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: null,
+				plagiarismPercent: 3,
+				notes: "AI detection unavailable",
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "score_only",
+			});
+
+			expect(result.ai_detection_percent).toBeNull();
+			expect(result.thresholds_met).toBe(true); // null treated as passing
+		});
+
+		it("handles null plagiarism score", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: 5,
+				plagiarismPercent: null,
+				notes: "Plagiarism check unavailable",
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "score_only",
+			});
+
+			expect(result.plagiarism_percent).toBeNull();
+			expect(result.thresholds_met).toBe(true);
+		});
+
+		it("handles both scores null", async () => {
+			mockProviderScoreText.mockResolvedValue({
+				aiDetectionPercent: null,
+				plagiarismPercent: null,
+				notes: "Premium features unavailable",
+			});
+
+			const result = await runGrammarlyOptimization(baseConfig, {
+				...baseInput,
+				mode: "score_only",
+			});
+
+			expect(result.thresholds_met).toBe(false); // Can't verify with no scores
+		});
+	});
+});
+
+describe("runRewrite", () => {
+	beforeEach(() => {
+		mockRewriteText.mockResolvedValue({
+			rewrittenText: "Rewritten",
+			reasoning: "Whole rewrite",
+		});
+		mockRewriteTextByParagraph.mockResolvedValue({
+			rewrittenText: "Paragraph rewritten",
+			reasoning: "Paragraph rewrite",
+		});
+		mockJudgeFidelity.mockResolvedValue({ score: 100, lostFacts: [] });
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	const rewriteInput = {
+		text: "Original text",
+		ai_detection_percent: 42,
+		plagiarism_percent: null,
+		max_ai_percent: 10,
+		max_plagiarism_percent: 5,
+		strategy: "whole" as const,
+		tone: "formal" as const,
+		response_format: "json" as const,
+		custom_instructions: "Keep it short",
+		protected_patterns: ["Acme"],
+	};
+
+	it("rewrites with caller-supplied scores and no browser session", async () => {
+		const result = await runRewrite(baseConfig, rewriteInput);
+
+		expect(result).toEqual({
+			rewritten_text: "Rewritten",
+			reasoning: "Whole rewrite",
+			strategy: "whole",
+			fidelity_score: 100,
+			lost_facts: [],
+			attempts: 1,
+			usage: { components: [], input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 },
+		});
+		expect(mockRewriteText).toHaveBeenCalledWith(baseConfig, {
+			originalText: "Original text",
+			lastAiPercent: 42,
+			lastPlagiarismPercent: null,
+			targetMaxAiPercent: 10,
+			targetMaxPlagiarismPercent: 5,
+			tone: "formal",
+			domainHint: undefined,
+			customInstructions: "Keep it short",
+			protectedPatterns: ["Acme"],
+			maxIterations: 1,
+			onUsage: expect.any(Function),
+		});
+		expect(mockJudgeFidelity).toHaveBeenCalledWith(
+			baseConfig,
+			"Original text",
+			"Rewritten",
+			undefined,
+			expect.any(Function),
+		);
+		expect(mockCreateBrowserProvider).not.toHaveBeenCalled();
+	});
+
+	it("retries a rewrite below the fidelity floor with its lost facts", async () => {
+		mockJudgeFidelity
+			.mockResolvedValueOnce({ score: 40, lostFacts: ["the 1998 founding"] })
+			.mockResolvedValueOnce({ score: 90, lostFacts: [] });
+
+		const result = await runRewrite(baseConfig, { ...rewriteInput, fidelity_floor: 80 });
+
+		expect(mockRewriteText).toHaveBeenCalledTimes(2);
+		expect(mockRewriteText.mock.calls[1][1].lostFacts).toEqual(["the 1998 founding"]);
+		expect(result).toMatchObject({ fidelity_score: 90, lost_facts: [], attempts: 2 });
+	});
+
+	it("reports the tokens of every rewrite and fidelity call", async () => {
+		mockRewriteText.mockImplementation(async (_config, params) => {
+			params.onUsage?.({ operation: "rewrite", modelId: "gpt-4o", inputTokens: 1000, outputTokens: 200 });
+			return { rewrittenText: "Rewritten", reasoning: "Whole rewrite" };
+		});
+		mockJudgeFidelity.mockImplementation(
+			async (_config, _original, _rewritten, _signal, onUsage) => {
+				onUsage?.({ operation: "fidelity", modelId: "gpt-4o", inputTokens: 300, outputTokens: 40 });
+				return mockJudgeFidelity.mock.calls.length === 1
+					? { score: 40, lostFacts: ["the 1998 founding"] }
+					: { score: 90, lostFacts: [] };
+			},
+		);
+
+		const result = await runRewrite(baseConfig, { ...rewriteInput, fidelity_floor: 80 });
+
+		expect(result.usage.components).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ component: "rewrite", calls: 2, input_tokens: 2000, output_tokens: 400 }),
+				expect.objectContaining({ component: "fidelity", calls: 2, input_tokens: 600, output_tokens: 80 }),
+			]),
+		);
+		expect(result.usage.input_tokens).toBe(2600);
+	});
+
+	it("fails when every attempt stays below the fidelity floor", async () => {
+		mockJudgeFidelity.mockResolvedValue({ score: 40, lostFacts: ["the 1998 founding"] });
+
+		await expect(runRewrite(baseConfig, rewriteInput)).rejects.toThrow(
+			"fidelity score 40 stayed below the floor of 80 after 3 attempts",
+		);
+		expect(mockRewriteText).toHaveBeenCalledTimes(3);
+	});
+
+	it("uses the paragraph strategy when requested", async () => {
+		const result = await runRewrite(baseConfig, {
+			...rewriteInput,
+			strategy: "paragraph",
+		});
+
+		expect(mockRewriteTextByParagraph).toHaveBeenCalledTimes(1);
+		expect(mockRewriteText).not.toHaveBeenCalled();
+		expect(result.strategy).toBe("paragraph");
+	});
+});
+
+describe("runBatchScoring", () => {
+	const mockProvider = {
+		providerName: "stagehand" as const,
+		createSession: mockProviderCreateSession,
+		scoreText: mockProviderScoreText,
+		closeSession: mockProviderCloseSession,
+	};
+
+	const batchInput: BatchScoreToolInput = {
+		items: [
+			{ id: "a", text: "Text A" },
+			{ id: "b", text: "Text B" },
+			{ id: "c", text: "Text C" },
+			{ id: "d", text: "Text D" },
+		],
+		max_ai_percent: 10,
+		max_plagiarism_percent: 5,
+		response_format: "json",
+		concurrency: 2,
+	};
+
+	let sessionCount = 0;
+
+	beforeEach(() => {
+		sessionCount = 0;
+		mockCreateBrowserProvider.mockResolvedValue(mockProvider);
+		mockProviderCreateSession.mockImplementation(async () => {
+			sessionCount += 1;
+			return { sessionId: `session-${sessionCount}`, liveUrl: null };
+		});
+		mockProviderScoreText.mockImplementation(
+			async (_sessionId: string, text: string) => ({
+				aiDetectionPercent: text === "Text B" ? 40 : 5,
+				plagiarismPercent: 1,
+				notes: `Scored ${text}`,
+			}),
+		);
+		mockProviderCloseSession.mockResolvedValue(undefined);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it("scores every item and reports results in input order", async () => {
+		const result = await runBatchScoring(baseConfig, batchInput);
+
+		expect(result.items.map((item) => [item.id, item.status])).toEqual([
+			["a", "scored"],
+			["b", "scored"],
+			["c", "scored"],
+			["d", "scored"],
+		]);
+		expect(result.items[1]).toMatchObject({
+			ai_detection_percent: 40,
+			thresholds_met: false,
+			provider: "stagehand",
+			error: null,
+		});
+		expect(result).toMatchObject({
+			scored: 4,
+			failed: 0,
+			thresholds_met: 3,
+			cancelled: false,
+		});
+	});
+
+	it("never scores more items at once than the concurrency", async () => {
+		let active = 0;
+		let maxActive = 0;
+		mockProviderScoreText.mockImplementation(async () => {
+			active += 1;
+			maxActive = Math.max(maxActive, active);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			active -= 1;
+			return { aiDetectionPercent: 5, plagiarismPercent: 1, notes: "ok" };
+		});
+
+		await runBatchScoring(baseConfig, batchInput);
+
+		expect(maxActive).toBe(2);
+		// One session per worker, reused for its following items.
+		expect(mockProviderCreateSession).toHaveBeenCalledTimes(2);
+		expect(mockProviderCloseSession).toHaveBeenCalledTimes(2);
+	});
+
+	it("falls back to BATCH_CONCURRENCY and never exceeds the item count", async () => {
+		await runBatchScoring(
+			{ ...baseConfig, batchConcurrency: 5 },
+			{ ...batchInput, concurrency: undefined },
+		);
+
+		expect(mockProviderCreateSession).toHaveBeenCalledTimes(4);
+	});
+
+	it("scores one item at a time with the local provider", async () => {
+		await runBatchScoring(
+			{ ...baseConfig, browserProvider: "local", browserProviders: ["local"] },
+			batchInput,
+		);
+
+		expect(mockProviderCreateSession).toHaveBeenCalledTimes(1);
+	});
+
+	it("scores one item at a time when local is a failover provider", async () => {
+		await runBatchScoring(
+			{ ...baseConfig, browserProvider: "stagehand", browserProviders: ["stagehand", "local"] },
+			batchInput,
+		);
+
+		expect(mockProviderCreateSession).toHaveBeenCalledTimes(1);
+	});
+
+	it("reports progress after every item", async () => {
+		const onProgress = vi.fn();
+
+		await runBatchScoring(baseConfig, { ...batchInput, concurrency: 1 }, onProgress);
+
+		expect(onProgress).toHaveBeenCalledWith("Scoring 4 documents, 1 at a time...", 0);
+		expect(onProgress).toHaveBeenCalledWith("[1/4] a: AI 5%, plagiarism 1%", 25);
+		expect(onProgress).toHaveBeenLastCalledWith(
+			"[4/4] d: AI 5%, plagiarism 1%",
+			100,
+		);
+	});
+
+	it("records a failed item and continues on a fresh session", async () => {
+		mockProviderScoreText.mockImplementation(
+			async (_sessionId: string, text: string) => {
+				if (text === "Text B") {
+					throw new GrammarlyAuthError("sign-in page shown");
+				}
+				return { aiDetectionPercent: 5, plagiarismPercent: 1, notes: "ok" };
+			},
+		);
+		const onProgress = vi.fn();
+
+		const result = await runBatchScoring(
+			baseConfig,
+			{ ...batchInput, concurrency: 1 },
+			onProgress,
+		);
+
+		expect(result.items[1]).toMatchObject({
+			id: "b",
+			status: "failed",
+			ai_detection_percent: null,
+			thresholds_met: false,
+			error: expect.objectContaining({ code: "auth_expired", phase: "scoring" }),
+		});
+		expect(result.items.filter((item) => item.status === "scored")).toHaveLength(3);
+		expect(result).toMatchObject({ scored: 3, failed: 1 });
+		expect(mockProviderCreateSession).toHaveBeenCalledTimes(2);
+		expect(onProgress).toHaveBeenCalledWith("[2/4] b: failed (auth_expired)", 50);
+	});
+
+	it("reports unscored items as cancelled when aborted", async () => {
+		const controller = new AbortController();
+		mockProviderScoreText.mockImplementation(async () => {
+			controller.abort();
+			return { aiDetectionPercent: 5, plagiarismPercent: 1, notes: "ok" };
+		});
+
+		const result = await runBatchScoring(
+			baseConfig,
+			{ ...batchInput, concurrency: 1 },
+			undefined,
+			controller.signal,
+		);
+
+		expect(result.items.map((item) => item.status)).toEqual([
+			"scored",
+			"cancelled",
+			"cancelled",
+			"cancelled",
+		]);
+		expect(result.cancelled).toBe(true);
+		expect(mockProviderCloseSession).toHaveBeenCalled();
 	});
 });
@@ -5,8 +5,12 @@ import {
 	analyzeText,
 	chooseClaudeModel,
 	detectRewriteProvider,
+	getRewriteModelId,
+	judgeFidelity,
 	RewriterToneSchema,
+	rewriteParagraphs,
 	rewriteText,
+	rewriteTextByParagraph,
 	summarizeOptimization,
 } from "../../../src/llm/rewriteClient";
 
@@ -46,6 +50,7 @@ const mockGenerateText = generateText as ReturnType<typeof vi.fn>;
 const baseConfig: AppConfig = {
 	ignoreSystemEnv: false,
 	browserProvider: "stagehand",
+	browserProviders: ["stagehand"],
 	browserUseApiKey: undefined,
 	browserUseProfileId: undefined,
 	browserbaseApiKey: "test-api-key",
@@ -54,6 +59,34 @@ const baseConfig: AppConfig = {
 	browserbaseContextId: undefined,
 	stagehandModel: "gemini-2.5-flash",
 	stagehandCacheDir: undefined,
+	stagehandPoolSize: 0,
+	stagehandPoolIdleTimeoutMs: 300000,
+	localUserDataDir: undefined,
+	localChromePath: undefined,
+	localHeadless: true,
+	mockFixturesPath: undefined,
+	mockLatencyMs: 0,
+	mockFailureRate: 0,
+	scoreCacheDir: undefined,
+	scoreCacheTtlMs: 86400000,
+	runStoreDir: "/tmp/grammarly-mcp-runs",
+	runStoreMaxRuns: 200,
+	batchConcurrency: 3,
+	priceTableFile: undefined,
+	budgetMaxTokens: undefined,
+	budgetMaxCostUsd: undefined,
+	budgetMaxDurationMs: undefined,
+	plateauPatience: 0,
+	plateauMinImprovement: 1,
+	fidelityFloor: 80,
+	promptsFile: undefined,
+	transport: "stdio",
+	httpHost: "127.0.0.1",
+	httpPort: 3000,
+	httpAuthTokens: [],
+	httpMaxConcurrentPerClient: 2,
+	httpMaxSessionsPerClient: 10,
+	httpSessionIdleTimeoutMs: 1800000,
 	stagehandLlmProvider: undefined,
 	rewriteLlmProvider: undefined,
 	claudeModel: "auto",
@@ -132,6 +165,16 @@ describe("detectRewriteProvider", () => {
 	});
 });
 
+describe("getRewriteModelId", () => {
+	it("names the model rewrites will report in usage", () => {
+		expect(getRewriteModelId(baseConfig, 100, 1)).toBe("claude-code/haiku");
+		expect(getRewriteModelId({ ...baseConfig, rewriteLlmProvider: "openai" })).toBe("gpt-4o");
+		expect(getRewriteModelId({ ...baseConfig, rewriteLlmProvider: "anthropic" })).toBe(
+			"claude-sonnet-4-20250514",
+		);
+	});
+});
+
 describe("chooseClaudeModel", () => {
 	describe("with forced model", () => {
 		it("returns forced haiku regardless of text length", () => {
@@ -288,6 +331,36 @@ describe("rewriteText", () => {
 			expect(mockGenerateObject).toHaveBeenCalledTimes(1);
 		});
 
+		it("reports the call's token usage", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+				usage: { inputTokens: 1200, outputTokens: 300, totalTokens: 1500 },
+			});
+			const onUsage = vi.fn();
+
+			await rewriteText(baseConfig, { ...baseParams, onUsage });
+
+			expect(onUsage).toHaveBeenCalledWith({
+				operation: "rewrite",
+				modelId: expect.any(String),
+				inputTokens: 1200,
+				outputTokens: 300,
+			});
+		});
+
+		it("counts missing token counts as zero", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+			const onUsage = vi.fn();
+
+			await rewriteText(baseConfig, { ...baseParams, onUsage });
+
+			expect(onUsage).toHaveBeenCalledWith(
+				expect.objectContaining({ inputTokens: 0, outputTokens: 0 }),
+			);
+		});
+
 		it.each([
 			["neutral", "Use a neutral tone that feels like a human wrote it."],
 			["formal", "Use a formal tone that feels like a human wrote it."],
@@ -335,6 +408,110 @@ describe("rewriteText", () => {
 			const call = mockGenerateObject.mock.calls[0][0];
 			expect(call.prompt).toContain("Additional constraints from the user: Keep technical terms intact");
 		});
+
+		it("tells the model when its previous rewrite backfired", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, {
+				...baseParams,
+				backfiredRewrite: {
+					aiDetectionPercent: 60,
+					plagiarismPercent: null,
+					reasoning: "Added casual asides.",
+				},
+			});
+
+			const call = mockGenerateObject.mock.calls[0][0];
+			expect(call.prompt).toContain(
+				"Your previous rewrite backfired: Grammarly scored it worse (AI detection 60%, plagiarism unavailable)",
+			);
+			expect(call.prompt).toContain('That rewrite\'s approach was: "Added casual asides."');
+			expect(call.prompt).toContain("Do not repeat that approach; try a clearly different one.");
+		});
+
+		it("passes the variation hint and temperature of a candidate rewrite", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, {
+				...baseParams,
+				variationHint: "Favour short sentences.",
+				temperature: 0.9,
+			});
+
+			const call = mockGenerateObject.mock.calls[0][0];
+			expect(call.prompt).toContain("For this version: Favour short sentences.");
+			expect(call.temperature).toBe(0.9);
+		});
+
+		it("lists the facts a rejected attempt lost", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, { ...baseParams, lostFacts: ["40", "Jane Doe"] });
+
+			const call = mockGenerateObject.mock.calls[0][0];
+			expect(call.prompt).toContain("it lost or changed these facts of the original; keep every one of them:\n- 40\n- Jane Doe");
+		});
+
+		it("asks to rework the sentences and passages Grammarly flagged", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, {
+				...baseParams,
+				aiFlaggedSentences: ["It is worth noting this."],
+				plagiarismMatches: [
+					{ passage: "A known line.", sourceUrl: "https://example.com/a" },
+					{ passage: "Another line.", sourceUrl: null },
+				],
+			});
+
+			const prompt = mockGenerateObject.mock.calls[0][0].prompt;
+			expect(prompt).toContain("highlighted these sentences as likely AI-written");
+			expect(prompt).toContain('- "It is worth noting this."');
+			expect(prompt).toContain('- "A known line." (source: https://example.com/a)');
+			expect(prompt).toContain('- "Another line."\n');
+		});
+
+		it("quotes flagged sentences with the placeholders of their protected spans", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Rewritten, see [[PROTECTED_0]].", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, {
+				...baseParams,
+				originalText: "Results improved (Smith, 2020).",
+				aiFlaggedSentences: ["Results improved (Smith, 2020)."],
+			});
+
+			expect(mockGenerateObject.mock.calls[0][0].prompt).toContain('- "Results improved [[PROTECTED_0]]."');
+		});
+
+		it("does not mention flagged sentences by default", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, baseParams);
+
+			expect(mockGenerateObject.mock.calls[0][0].prompt).not.toContain("highlighted these sentences");
+		});
+
+		it("does not mention a backfired rewrite by default", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { rewrittenText: "Text", reasoning: "Reason" },
+			});
+
+			await rewriteText(baseConfig, baseParams);
+
+			expect(mockGenerateObject.mock.calls[0][0].prompt).not.toContain("backfired");
+		});
 	});
 
 	describe("null score handling", () => {
@@ -426,6 +603,344 @@ describe("rewriteText", () => {
 	});
 });
 
+describe("rewriteText protected spans", () => {
+	const originalText =
+		"Cite (Smith, 2019) and run `npm test` before https://example.com.";
+
+	const baseParams: RewriteParams = {
+		originalText,
+		lastAiPercent: 45,
+		lastPlagiarismPercent: 12,
+		targetMaxAiPercent: 10,
+		targetMaxPlagiarismPercent: 5,
+		tone: "neutral",
+		maxIterations: 5,
+	};
+
+	afterEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("sends placeholders to the model and restores the originals", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: {
+				rewrittenText:
+					"Run [[PROTECTED_1]] first, per [[PROTECTED_0]], then visit [[PROTECTED_2]].",
+				reasoning: "Reordered",
+			},
+		});
+
+		const result = await rewriteText(baseConfig, baseParams);
+
+		const prompt = mockGenerateObject.mock.calls[0][0].prompt as string;
+		expect(prompt).toContain(
+			"Cite [[PROTECTED_0]] and run [[PROTECTED_1]] before [[PROTECTED_2]].",
+		);
+		expect(prompt).not.toContain("(Smith, 2019)");
+		expect(prompt).toContain("copy every placeholder exactly once");
+		expect(result.rewrittenText).toBe(
+			"Run `npm test` first, per (Smith, 2019), then visit https://example.com.",
+		);
+	});
+
+	it("omits placeholder instructions when nothing is protected", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: { rewrittenText: "Plain", reasoning: "" },
+		});
+
+		await rewriteText(baseConfig, { ...baseParams, originalText: "Plain." });
+
+		const prompt = mockGenerateObject.mock.calls[0][0].prompt as string;
+		expect(prompt).not.toContain("PROTECTED_");
+	});
+
+	it("retries when a placeholder is dropped or duplicated", async () => {
+		mockGenerateObject
+			.mockResolvedValueOnce({
+				object: { rewrittenText: "Lost [[PROTECTED_0]].", reasoning: "" },
+			})
+			.mockResolvedValueOnce({
+				object: {
+					rewrittenText:
+						"[[PROTECTED_0]] [[PROTECTED_0]] [[PROTECTED_1]] [[PROTECTED_2]]",
+					reasoning: "",
+				},
+			})
+			.mockResolvedValueOnce({
+				object: {
+					rewrittenText: "[[PROTECTED_0]] [[PROTECTED_1]] [[PROTECTED_2]]",
+					reasoning: "Third time",
+				},
+			});
+
+		const result = await rewriteText(baseConfig, baseParams);
+
+		expect(mockGenerateObject).toHaveBeenCalledTimes(3);
+		expect(result).toEqual({
+			rewrittenText: "(Smith, 2019) `npm test` https://example.com",
+			reasoning: "Third time",
+		});
+	});
+
+	it("fails after repeated placeholder losses", async () => {
+		mockGenerateObject.mockResolvedValue({
+			object: { rewrittenText: "Nothing kept.", reasoning: "" },
+		});
+
+		await expect(rewriteText(baseConfig, baseParams)).rejects.toThrow(
+			"Rewrite failed: protected spans not preserved after 3 attempts (missing [[PROTECTED_0]], [[PROTECTED_1]], [[PROTECTED_2]])",
+		);
+		expect(mockGenerateObject).toHaveBeenCalledTimes(3);
+	});
+
+	it("protects matches of custom patterns", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: {
+				rewrittenText: "We trust [[PROTECTED_0]].",
+				reasoning: "",
+			},
+		});
+
+		const result = await rewriteText(baseConfig, {
+			...baseParams,
+			originalText: "We rely on Acme Widget 3000.",
+			protectedPatterns: ["Acme Widget \\d+"],
+		});
+
+		expect(mockGenerateObject.mock.calls[0][0].prompt).toContain(
+			"We rely on [[PROTECTED_0]].",
+		);
+		expect(result.rewrittenText).toBe("We trust Acme Widget 3000.");
+	});
+
+	it("does not retry once the abort signal fires", async () => {
+		const controller = new AbortController();
+		mockGenerateObject.mockImplementationOnce(async () => {
+			controller.abort(new Error("cancelled"));
+			return { object: { rewrittenText: "Nothing kept.", reasoning: "" } };
+		});
+
+		await expect(
+			rewriteText(baseConfig, { ...baseParams, abortSignal: controller.signal }),
+		).rejects.toThrow("cancelled");
+		expect(mockGenerateObject).toHaveBeenCalledTimes(1);
+		expect(mockGenerateObject.mock.calls[0][0].abortSignal).toBe(
+			controller.signal,
+		);
+	});
+});
+
+describe("rewriteParagraphs", () => {
+	const baseParams = {
+		lastAiPercent: 45,
+		lastPlagiarismPercent: 12,
+		targetMaxAiPercent: 10,
+		targetMaxPlagiarismPercent: 5,
+		tone: "neutral" as const,
+		maxIterations: 5,
+		targets: [
+			{
+				index: 1,
+				text: "Target paragraph text.",
+				before: "Previous paragraph.",
+				after: "Next paragraph.",
+			},
+		],
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.clearAllMocks();
+	});
+
+	it("returns per-paragraph rewrites and reasoning", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: {
+				paragraphs: [{ index: 1, rewrittenText: "Rewritten target." }],
+				reasoning: "Varied rhythm",
+			},
+		});
+
+		const result = await rewriteParagraphs(baseConfig, baseParams);
+
+		expect(result).toEqual({
+			rewrites: [{ index: 1, rewrittenText: "Rewritten target." }],
+			reasoning: "Varied rhythm",
+		});
+	});
+
+	it("includes surrounding context marked read-only", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: { paragraphs: [], reasoning: "" },
+		});
+
+		await rewriteParagraphs(baseConfig, baseParams);
+
+		const call = mockGenerateObject.mock.calls[0][0];
+		expect(call.prompt).toContain("=== Paragraph 1 ===");
+		expect(call.prompt).toContain("Context before (read-only, do not rewrite):\nPrevious paragraph.");
+		expect(call.prompt).toContain("Context after (read-only, do not rewrite):\nNext paragraph.");
+		expect(call.prompt).toContain("Target paragraph text.");
+	});
+
+	it("marks document boundaries when context is missing", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: { paragraphs: [], reasoning: "" },
+		});
+
+		await rewriteParagraphs(baseConfig, {
+			...baseParams,
+			targets: [{ index: 0, text: "Only paragraph." }],
+		});
+
+		const call = mockGenerateObject.mock.calls[0][0];
+		expect(call.prompt).toContain("(start of document)");
+		expect(call.prompt).toContain("(end of document)");
+	});
+
+	it("wraps API errors with context", async () => {
+		mockGenerateObject.mockRejectedValueOnce(new Error("boom"));
+
+		await expect(rewriteParagraphs(baseConfig, baseParams)).rejects.toThrow(
+			"Paragraph rewrite failed: boom",
+		);
+	});
+
+	it("rejects when request exceeds configured timeout", async () => {
+		mockGenerateObject.mockImplementationOnce(() => new Promise(() => {}));
+
+		const promise = rewriteParagraphs(baseConfig, baseParams);
+		promise.catch(() => {});
+		const expectation = expect(promise).rejects.toThrow(
+			`Paragraph rewrite request exceeded timeout of ${baseConfig.llmRequestTimeoutMs}ms`,
+		);
+
+		await vi.advanceTimersByTimeAsync(baseConfig.llmRequestTimeoutMs + 1);
+
+		await expectation;
+	});
+});
+
+describe("rewriteTextByParagraph", () => {
+	const aiParagraph =
+		"Moreover, it is important to note that teams must leverage robust tools. Furthermore, they should navigate the landscape with care. Additionally, this plays a crucial role.";
+	const humanParagraph =
+		"We tried the cheap printer first. It jammed twice before lunch, so Dana drove to the store and came back with something that worked.";
+	const originalText = `${humanParagraph}\n\n${aiParagraph}\n\n\n${humanParagraph}\n`;
+
+	const baseParams: RewriteParams = {
+		originalText,
+		lastAiPercent: 45,
+		lastPlagiarismPercent: 12,
+		targetMaxAiPercent: 10,
+		targetMaxPlagiarismPercent: 5,
+		tone: "neutral",
+		maxIterations: 5,
+	};
+
+	afterEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("rewrites only the targeted paragraph and keeps the rest byte-identical", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: {
+				paragraphs: [{ index: 1, rewrittenText: "  Plainer middle paragraph.\n" }],
+				reasoning: "Dropped stock phrases",
+			},
+		});
+
+		const result = await rewriteTextByParagraph(baseConfig, baseParams);
+
+		expect(result.rewrittenText).toBe(
+			`${humanParagraph}\n\nPlainer middle paragraph.\n\n\n${humanParagraph}\n`,
+		);
+		expect(result.reasoning).toBe(
+			"Rewrote paragraph(s) 2 of 3. Dropped stock phrases",
+		);
+		expect(mockGenerateObject.mock.calls[0][0].schema).toBeDefined();
+	});
+
+	it("ignores rewrites for paragraphs that were not targeted", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: {
+				paragraphs: [{ index: 0, rewrittenText: "Should not apply." }],
+				reasoning: "Oops",
+			},
+		});
+
+		const result = await rewriteTextByParagraph(baseConfig, baseParams);
+
+		expect(result.rewrittenText).toBe(originalText);
+		expect(result.reasoning).toContain("Rewrote paragraph(s) none of 3.");
+	});
+
+	it("enforces protected spans across paragraph rewrites", async () => {
+		const text = `${humanParagraph}\n\n${aiParagraph} See (Smith, 2019).`;
+		mockGenerateObject
+			.mockResolvedValueOnce({
+				object: {
+					paragraphs: [{ index: 1, rewrittenText: "Dropped the cite." }],
+					reasoning: "",
+				},
+			})
+			.mockResolvedValueOnce({
+				object: {
+					paragraphs: [
+						{ index: 1, rewrittenText: "Plainer, as [[PROTECTED_0]] says." },
+					],
+					reasoning: "Kept cite",
+				},
+			});
+
+		const result = await rewriteTextByParagraph(baseConfig, {
+			...baseParams,
+			originalText: text,
+		});
+
+		expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+		expect(result.rewrittenText).toBe(
+			`${humanParagraph}\n\nPlainer, as (Smith, 2019) says.`,
+		);
+	});
+
+	it("targets paragraphs Grammarly flagged over the heuristic's pick", async () => {
+		const text = `${humanParagraph}\n\n${aiParagraph}`;
+		mockGenerateObject.mockResolvedValueOnce({
+			object: {
+				paragraphs: [{ index: 0, rewrittenText: "Reworded printer story." }],
+				reasoning: "Reworked the flagged sentence",
+			},
+		});
+
+		const result = await rewriteTextByParagraph(baseConfig, {
+			...baseParams,
+			originalText: text,
+			aiFlaggedSentences: ["We tried the cheap printer first."],
+		});
+
+		expect(result.rewrittenText).toBe(`Reworded printer story.\n\n${aiParagraph}`);
+		expect(result.reasoning).toContain("Rewrote paragraph(s) 1 of 2.");
+	});
+
+	it("falls back to a whole rewrite when no paragraph is eligible", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: { rewrittenText: "Whole rewrite", reasoning: "Whole" },
+		});
+
+		const result = await rewriteTextByParagraph(baseConfig, {
+			...baseParams,
+			originalText: "Too short.",
+		});
+
+		expect(result.rewrittenText).toBe("Whole rewrite");
+	});
+});
+
 describe("analyzeText", () => {
 	beforeEach(() => {
 		vi.useFakeTimers();
@@ -476,6 +991,20 @@ describe("analyzeText", () => {
 			const call = mockGenerateObject.mock.calls[0][0];
 			expect(call.prompt).toContain("Domain: scientific paper");
 		});
+
+		it("reports the call's token usage", async () => {
+			mockGenerateObject.mockResolvedValueOnce({
+				object: { analysis: "Analysis result" },
+				usage: { inputTokens: 800, outputTokens: 120 },
+			});
+			const onUsage = vi.fn();
+
+			await analyzeText(baseConfig, "Test text", 25, 5, 10, 5, "neutral", undefined, undefined, onUsage);
+
+			expect(onUsage).toHaveBeenCalledWith(
+				expect.objectContaining({ operation: "analysis", inputTokens: 800, outputTokens: 120 }),
+			);
+		});
 	});
 
 	describe("null score handling", () => {
@@ -510,6 +1039,32 @@ describe("analyzeText", () => {
 				analyzeText(baseConfig, "Text", 25, 5, 10, 5, "neutral")
 			).rejects.toThrow("Analysis failed: Network error");
 		});
+
+		it("stops the request when the abort signal fires", async () => {
+			const controller = new AbortController();
+			mockGenerateObject.mockImplementationOnce(
+				({ abortSignal }: { abortSignal: AbortSignal }) =>
+					new Promise((_, reject) => {
+						abortSignal.addEventListener("abort", () => reject(abortSignal.reason));
+						controller.abort(new Error("cancelled"));
+					}),
+			);
+
+			const promise = analyzeText(
+				baseConfig,
+				"Text",
+				25,
+				5,
+				10,
+				5,
+				"neutral",
+				undefined,
+				controller.signal,
+			);
+
+			await expect(promise).rejects.toThrow("Analysis failed: cancelled");
+			expect(mockGenerateObject.mock.calls[0][0].abortSignal).toBe(controller.signal);
+		});
 	});
 });
 
@@ -549,6 +1104,20 @@ describe("summarizeOptimization", () => {
 			expect(mockGenerateText).toHaveBeenCalledTimes(1);
 		});
 
+		it("reports the call's token usage", async () => {
+			mockGenerateText.mockResolvedValueOnce({
+				text: "Summary",
+				usage: { inputTokens: 900, outputTokens: 150 },
+			});
+			const onUsage = vi.fn();
+
+			await summarizeOptimization(baseConfig, baseSummaryInput, undefined, onUsage);
+
+			expect(onUsage).toHaveBeenCalledWith(
+				expect.objectContaining({ operation: "summary", inputTokens: 900, outputTokens: 150 }),
+			);
+		});
+
 		it.each([
 			["score_only", "Mode: score_only"],
 			["analyze", "Mode: analyze"],
@@ -616,5 +1185,54 @@ describe("summarizeOptimization", () => {
 				summarizeOptimization(baseConfig, baseSummaryInput)
 			).rejects.toThrow("Optimization summary failed:");
 		});
+
+		it("stops the request when the abort signal fires", async () => {
+			const controller = new AbortController();
+			mockGenerateText.mockImplementationOnce(
+				({ abortSignal }: { abortSignal: AbortSignal }) =>
+					new Promise((_, reject) => {
+						abortSignal.addEventListener("abort", () => reject(abortSignal.reason));
+						controller.abort(new Error("cancelled"));
+					}),
+			);
+
+			const promise = summarizeOptimization(
+				baseConfig,
+				baseSummaryInput,
+				controller.signal,
+			);
+
+			await expect(promise).rejects.toThrow("Optimization summary failed: cancelled");
+		});
+	});
+});
+
+describe("judgeFidelity", () => {
+	afterEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("returns the rounded score, lost facts and usage", async () => {
+		mockGenerateObject.mockResolvedValueOnce({
+			object: { score: 87.6, lostFacts: ["the 2023 deadline"] },
+			usage: { inputTokens: 500, outputTokens: 40 },
+		});
+		const onUsage = vi.fn();
+
+		const judgment = await judgeFidelity(baseConfig, "Original claim.", "Rewritten claim.", undefined, onUsage);
+
+		expect(judgment).toEqual({ score: 88, lostFacts: ["the 2023 deadline"] });
+		expect(onUsage).toHaveBeenCalledWith(
+			expect.objectContaining({ operation: "fidelity", inputTokens: 500, outputTokens: 40 }),
+		);
+		const call = mockGenerateObject.mock.calls[0][0];
+		expect(call.prompt).toContain("Original text:\n-----\nOriginal claim.\n-----");
+		expect(call.prompt).toContain("Rewrite:\n-----\nRewritten claim.\n-----");
+	});
+
+	it("wraps API errors with context", async () => {
+		mockGenerateObject.mockRejectedValueOnce(new Error("Server error"));
+
+		await expect(judgeFidelity(baseConfig, "a", "b")).rejects.toThrow("Fidelity check failed: Server error");
 	});
 });
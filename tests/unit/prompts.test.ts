@@ -0,0 +1,207 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	MAX_CUSTOM_INSTRUCTIONS_LENGTH,
+	ToolInputSchema,
+} from "../../src/grammarlyOptimizer";
+import {
+	BUILT_IN_PROMPT_PRESETS,
+	buildPromptMessage,
+	loadPromptPresets,
+	type PromptPreset,
+	registerPrompts,
+} from "../../src/prompts";
+
+/** Pull the JSON tool arguments out of a prompt message. */
+function extractToolArguments(message: string): unknown {
+	const match = /```json\n([\s\S]*)\n```/.exec(message);
+	return JSON.parse(match?.[1] ?? "null");
+}
+
+const essay = BUILT_IN_PROMPT_PRESETS.find(
+	(preset) => preset.name === "university_essay",
+) as PromptPreset;
+
+describe("BUILT_IN_PROMPT_PRESETS", () => {
+	it("covers essays, blog posts and cover letters", () => {
+		expect(BUILT_IN_PROMPT_PRESETS.map((preset) => preset.name)).toEqual([
+			"university_essay",
+			"blog_post",
+			"cover_letter",
+		]);
+	});
+
+	it.each(BUILT_IN_PROMPT_PRESETS.map((preset) => [preset.name, preset]))(
+		"%s builds valid grammarly_optimize_text arguments",
+		(_, preset) => {
+			const args = extractToolArguments(
+				buildPromptMessage(preset as PromptPreset, "Some text."),
+			);
+			expect(ToolInputSchema.safeParse(args).success).toBe(true);
+		},
+	);
+});
+
+describe("buildPromptMessage", () => {
+	it("fills in the text and the preset arguments", () => {
+		const message = buildPromptMessage(essay, "My essay on tides.");
+
+		expect(message).toContain("grammarly_optimize_text");
+		expect(extractToolArguments(message)).toEqual({
+			text: "My essay on tides.",
+			mode: "optimize",
+			...essay.tool_arguments,
+		});
+	});
+
+	it("appends extra instructions to the preset's", () => {
+		const args = extractToolArguments(
+			buildPromptMessage(essay, "Text", " Use British spelling. "),
+		) as { custom_instructions: string };
+
+		expect(args.custom_instructions).toBe(
+			`${essay.tool_arguments.custom_instructions} Use British spelling.`,
+		);
+	});
+
+	it("rejects extra instructions that push the total over the tool's limit", () => {
+		const longest = "x".repeat(MAX_CUSTOM_INSTRUCTIONS_LENGTH);
+
+		expect(ToolInputSchema.safeParse({ text: "Text", custom_instructions: longest }).success).toBe(
+			true,
+		);
+		expect(() => buildPromptMessage(essay, "Text", longest)).toThrow(
+			"Extra instructions are too long for the university_essay prompt",
+		);
+	});
+
+	it("accepts maximum-length extra instructions when the preset has none", () => {
+		const { custom_instructions: _, ...toolArguments } = essay.tool_arguments;
+		const args = extractToolArguments(
+			buildPromptMessage(
+				{ ...essay, tool_arguments: toolArguments },
+				"Text",
+				"x".repeat(MAX_CUSTOM_INSTRUCTIONS_LENGTH),
+			),
+		);
+
+		expect(ToolInputSchema.safeParse(args).success).toBe(true);
+	});
+});
+
+describe("loadPromptPresets", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "prompts-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function writePromptsFile(content: unknown): string {
+		const filePath = path.join(tempDir, "prompts.json");
+		fs.writeFileSync(filePath, JSON.stringify(content), "utf-8");
+		return filePath;
+	}
+
+	it("returns the built-ins without a file", () => {
+		expect(loadPromptPresets(undefined)).toEqual(BUILT_IN_PROMPT_PRESETS);
+	});
+
+	it("adds user presets and overrides built-ins by name", () => {
+		const filePath = writePromptsFile({
+			prompts: [
+				{
+					name: "grant_proposal",
+					title: "Grant Proposal",
+					description: "Formal grant proposal",
+					tool_arguments: { tone: "formal", max_ai_percent: 5 },
+				},
+				{
+					name: "blog_post",
+					title: "Blog Post",
+					description: "House style blog post",
+					tool_arguments: { tone: "neutral" },
+				},
+			],
+		});
+
+		const presets = loadPromptPresets(filePath);
+
+		expect(presets.map((preset) => preset.name)).toEqual([
+			"university_essay",
+			"blog_post",
+			"cover_letter",
+			"grant_proposal",
+		]);
+		expect(presets[1]?.description).toBe("House style blog post");
+	});
+
+	it.each([
+		["invalid tone", { prompts: [{ name: "x", title: "X", description: "X", tool_arguments: { tone: "pirate" } }] }],
+		["invalid name", { prompts: [{ name: "Bad Name", title: "X", description: "X", tool_arguments: {} }] }],
+		["missing prompts key", [{ name: "x" }]],
+	])("falls back to the built-ins for %s", (_, content) => {
+		expect(loadPromptPresets(writePromptsFile(content))).toEqual(
+			BUILT_IN_PROMPT_PRESETS,
+		);
+	});
+
+	it("falls back to the built-ins when the file is missing", () => {
+		expect(loadPromptPresets(path.join(tempDir, "missing.json"))).toEqual(
+			BUILT_IN_PROMPT_PRESETS,
+		);
+	});
+});
+
+describe("registerPrompts", () => {
+	let client: Client;
+
+	beforeEach(async () => {
+		const server = new McpServer({ name: "test", version: "0.0.0" });
+		registerPrompts(server, BUILT_IN_PROMPT_PRESETS);
+
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+		client = new Client({ name: "test-client", version: "0.0.0" });
+		await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+	});
+
+	it("lists one prompt per preset with its arguments", async () => {
+		const { prompts } = await client.listPrompts();
+
+		expect(prompts.map((prompt) => prompt.name)).toEqual([
+			"university_essay",
+			"blog_post",
+			"cover_letter",
+		]);
+		expect(prompts[0]?.arguments).toEqual([
+			expect.objectContaining({ name: "text", required: true }),
+			expect.objectContaining({ name: "extra_instructions", required: false }),
+		]);
+	});
+
+	it("returns a ready-to-run tool call message", async () => {
+		const result = await client.getPrompt({
+			name: "cover_letter",
+			arguments: { text: "Dear hiring manager," },
+		});
+		const content = result.messages[0]?.content;
+
+		expect(result.messages[0]?.role).toBe("user");
+		expect(content?.type).toBe("text");
+		expect(
+			extractToolArguments(content?.type === "text" ? content.text : ""),
+		).toMatchObject({ text: "Dear hiring manager,", tone: "formal" });
+	});
+});
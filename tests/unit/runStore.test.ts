@@ -0,0 +1,231 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	type GrammarlyOptimizeInput,
+	type GrammarlyOptimizeResult,
+	ToolInputSchema,
+} from "../../src/grammarlyOptimizer";
+import { RunStore, registerRunResources, runUri } from "../../src/runStore";
+import { LOCAL_CLIENT_ID } from "../../src/transport";
+
+const input: GrammarlyOptimizeInput = ToolInputSchema.parse({
+	text: "Original   essay\ntext about tides.",
+});
+
+const result: GrammarlyOptimizeResult = {
+	final_text: "Rewritten essay text about tides.",
+	ai_detection_percent: 8,
+	plagiarism_percent: 2,
+	iterations_used: 1,
+	thresholds_met: true,
+	history: [
+		{ iteration: 0, ai_detection_percent: 40, plagiarism_percent: 2, note: "Baseline" },
+		{ iteration: 1, ai_detection_percent: 8, plagiarism_percent: 2, note: "Rewrite", selected: true },
+	],
+	notes: "Done",
+	live_url: null,
+	selected_iteration: 1,
+	chunked: false,
+	truncated: false,
+	chunk_scores: [],
+	stop_reason: "max_iterations",
+	cancelled: false,
+	error: null,
+	usage: { components: [], input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 },
+};
+
+describe("RunStore", () => {
+	let tempDir: string;
+	let runsDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "run-store-"));
+		runsDir = path.join(tempDir, "runs");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("saves a run and reads it back by id", async () => {
+		const store = new RunStore(runsDir, 10);
+
+		const saved = await store.save("alice", "grammarly_optimize_text", input, result);
+
+		expect(saved?.id).toMatch(/^\d{8}T\d{9}Z-[0-9a-f]{6}$/);
+		expect(await store.get("alice", saved?.id ?? "")).toEqual(saved);
+	});
+
+	it("lists summaries newest first", async () => {
+		const store = new RunStore(runsDir, 10);
+		const first = await store.save("alice", "grammarly_score", input, result);
+		await new Promise((resolve) => setTimeout(resolve, 2));
+		const second = await store.save("alice", "grammarly_optimize_text", input, result);
+
+		const runs = await store.list("alice");
+
+		expect(runs.map((run) => run.id)).toEqual([second?.id, first?.id]);
+		expect(runs[0]).toMatchObject({
+			uri: runUri(second?.id ?? ""),
+			tool: "grammarly_optimize_text",
+			mode: "optimize",
+			ai_detection_percent: 8,
+			thresholds_met: true,
+			cancelled: false,
+			error_code: null,
+			text_preview: "Original essay text about tides.",
+		});
+	});
+
+	it("keeps only the newest maxRuns", async () => {
+		const store = new RunStore(runsDir, 2);
+		const ids: string[] = [];
+		for (let i = 0; i < 3; i++) {
+			const saved = await store.save("alice", "grammarly_score", input, result);
+			ids.push(saved?.id ?? "");
+			await new Promise((resolve) => setTimeout(resolve, 2));
+		}
+
+		const runs = await store.list("alice");
+
+		expect(runs.map((run) => run.id)).toEqual([ids[2], ids[1]]);
+		expect(await store.get("alice", ids[0] ?? "")).toBeNull();
+	});
+
+	it("prunes only the runs of the client that went over the cap", async () => {
+		const store = new RunStore(runsDir, 2);
+		const bobRun = await store.save("bob", "grammarly_score", input, result);
+		for (let i = 0; i < 3; i++) {
+			await new Promise((resolve) => setTimeout(resolve, 2));
+			await store.save("alice", "grammarly_score", input, result);
+		}
+
+		expect(await store.list("alice")).toHaveLength(2);
+		expect(await store.get("bob", bobRun?.id ?? "")).toEqual(bobRun);
+	});
+
+	it("returns null for unknown, malformed and corrupt ids", async () => {
+		const store = new RunStore(runsDir, 10);
+		fs.mkdirSync(runsDir, { recursive: true });
+		const corruptId = "20260101T000000000Z-abcdef";
+		fs.writeFileSync(path.join(runsDir, `${corruptId}.json`), "{oops", "utf-8");
+
+		expect(await store.get("alice", "20260101T000000000Z-000000")).toBeNull();
+		expect(await store.get("alice", "../../etc/passwd")).toBeNull();
+		expect(await store.get("alice", corruptId)).toBeNull();
+		expect(await store.list("alice")).toEqual([]);
+	});
+
+	it("only shows a client its own runs", async () => {
+		const store = new RunStore(runsDir, 10);
+		const saved = await store.save("alice", "grammarly_score", input, result);
+
+		expect(saved?.client_id).toBe("alice");
+		expect(await store.get("bob", saved?.id ?? "")).toBeNull();
+		expect(await store.list("bob")).toEqual([]);
+		expect(await store.list("alice")).toHaveLength(1);
+	});
+
+	it("gives runs saved without a client to the local client", async () => {
+		const store = new RunStore(runsDir, 10);
+		const saved = await store.save("alice", "grammarly_score", input, result);
+		const filePath = path.join(runsDir, `${saved?.id}.json`);
+		const { client_id: _, ...legacy } = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+		fs.writeFileSync(filePath, JSON.stringify(legacy), "utf-8");
+
+		expect(await store.list("alice")).toEqual([]);
+		expect(await store.get(LOCAL_CLIENT_ID, saved?.id ?? "")).toMatchObject({
+			client_id: LOCAL_CLIENT_ID,
+		});
+	});
+
+	it("never throws when the directory cannot be written", async () => {
+		const blocker = path.join(tempDir, "file");
+		fs.writeFileSync(blocker, "", "utf-8");
+		const store = new RunStore(path.join(blocker, "runs"), 10);
+
+		await expect(store.save("alice", "grammarly_score", input, result)).resolves.toBeNull();
+		expect(await store.list("alice")).toEqual([]);
+	});
+});
+
+describe("registerRunResources", () => {
+	let tempDir: string;
+	let store: RunStore;
+	let client: Client;
+
+	beforeEach(async () => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "run-resources-"));
+		store = new RunStore(tempDir, 10);
+		const server = new McpServer({ name: "test", version: "0.0.0" });
+		registerRunResources(server, store, "alice");
+
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+		client = new Client({ name: "test-client", version: "0.0.0" });
+		await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("lists the listing resource and one resource per run", async () => {
+		const saved = await store.save("alice", "grammarly_optimize_text", input, result);
+
+		const { resources } = await client.listResources();
+
+		expect(resources.map((resource) => resource.uri)).toEqual([
+			"grammarly://runs",
+			runUri(saved?.id ?? ""),
+		]);
+	});
+
+	it("reads the run listing", async () => {
+		const saved = await store.save("alice", "grammarly_score", input, result);
+
+		const { contents } = await client.readResource({ uri: "grammarly://runs" });
+		const listing = JSON.parse(String(contents[0]?.text));
+
+		expect(listing).toHaveLength(1);
+		expect(listing[0]).toMatchObject({ id: saved?.id, tool: "grammarly_score" });
+	});
+
+	it("reads a full run and its final text", async () => {
+		const saved = await store.save("alice", "grammarly_optimize_text", input, result);
+		const uri = runUri(saved?.id ?? "");
+
+		const full = await client.readResource({ uri });
+		const text = await client.readResource({ uri: `${uri}/final_text` });
+
+		expect(JSON.parse(String(full.contents[0]?.text))).toEqual(saved);
+		expect(text.contents[0]).toMatchObject({
+			mimeType: "text/plain",
+			text: "Rewritten essay text about tides.",
+		});
+	});
+
+	it("hides runs saved by another client", async () => {
+		const saved = await store.save("bob", "grammarly_optimize_text", input, result);
+		const uri = runUri(saved?.id ?? "");
+
+		const { resources } = await client.listResources();
+		const { contents } = await client.readResource({ uri: "grammarly://runs" });
+
+		expect(resources.map((resource) => resource.uri)).toEqual(["grammarly://runs"]);
+		expect(JSON.parse(String(contents[0]?.text))).toEqual([]);
+		await expect(client.readResource({ uri })).rejects.toThrow("Run not found");
+		await expect(client.readResource({ uri: `${uri}/final_text` })).rejects.toThrow("Run not found");
+	});
+
+	it("errors for an unknown run", async () => {
+		await expect(
+			client.readResource({ uri: runUri("20260101T000000000Z-000000") }),
+		).rejects.toThrow("Run not found");
+	});
+});
@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { ToolInputSchema, ToolOutputSchema } from "../../src/grammarlyOptimizer";
+import {
+	AnalyzeToolInputSchema,
+	RewriteToolInputSchema,
+	RewriteToolOutputSchema,
+	ScoreToolInputSchema,
+	ToolInputSchema,
+	ToolOutputSchema,
+} from "../../src/grammarlyOptimizer";
 import {
 	GrammarlyExtractSchema,
 	ObservationSchema,
@@ -18,10 +25,14 @@ describe("ToolInputSchema", () => {
 			["with tone", { text: "sample", tone: "formal" }],
 			["with domain hint", { text: "sample", domain_hint: "university essay" }],
 			["with custom instructions", { text: "sample", custom_instructions: "preserve citations" }],
+			["with protected patterns", { text: "sample", protected_patterns: ["Acme \\w+", "v\\d+\\.\\d+"] }],
 			["with proxy country", { text: "sample", proxy_country_code: "us" }],
 			["with response format json", { text: "sample", response_format: "json" }],
 			["with response format markdown", { text: "sample", response_format: "markdown" }],
+			["with response format diff", { text: "sample", response_format: "diff" }],
+			["with sentence diffs", { text: "sample", diff_granularity: "sentence" }],
 			["with max steps", { text: "sample", max_steps: 50 }],
+			["with bypass_cache", { text: "sample", bypass_cache: true }],
 			["full valid input", {
 				text: "sample text",
 				mode: "optimize",
@@ -53,10 +64,16 @@ describe("ToolInputSchema", () => {
 			["iterations > 20", { text: "x", max_iterations: 21 }],
 			["iterations < 1", { text: "x", max_iterations: 0 }],
 			["invalid tone", { text: "x", tone: "invalid_tone" }],
+			["invalid protected pattern", { text: "x", protected_patterns: ["(unclosed"] }],
+			["nested quantifier protected pattern", { text: "x", protected_patterns: ["(a+)+$"] }],
+			["empty protected pattern", { text: "x", protected_patterns: [""] }],
+			["too many protected patterns", { text: "x", protected_patterns: Array.from({ length: 21 }, () => "a") }],
 			["proxy code too long", { text: "x", proxy_country_code: "usa" }],
 			["proxy code too short", { text: "x", proxy_country_code: "u" }],
 			["invalid response format", { text: "x", response_format: "xml" }],
+			["invalid diff granularity", { text: "x", diff_granularity: "character" }],
 			["max steps < 5", { text: "x", max_steps: 4 }],
+			["non-boolean bypass_cache", { text: "x", bypass_cache: "yes" }],
 			["max steps > 100", { text: "x", max_steps: 101 }],
 		])("%s", (_, input) => {
 			const result = ToolInputSchema.safeParse(input);
@@ -88,7 +105,10 @@ describe("ToolInputSchema", () => {
 			expect(result.max_plagiarism_percent).toBe(5);
 			expect(result.max_iterations).toBe(5);
 			expect(result.tone).toBe("neutral");
+			expect(result.strategy).toBe("whole");
 			expect(result.response_format).toBe("json");
+			expect(result.diff_granularity).toBe("word");
+			expect(result.bypass_cache).toBe(false);
 		});
 	});
 });
@@ -219,3 +239,115 @@ describe("RewriterToneSchema", () => {
 		expect(result.success).toBe(false);
 	});
 });
+
+describe("focused tool schemas", () => {
+	describe("ScoreToolInputSchema", () => {
+		it("accepts scoring fields with defaults", () => {
+			const result = ScoreToolInputSchema.parse({ text: "sample" });
+			expect(result).toEqual({
+				text: "sample",
+				max_ai_percent: 10,
+				max_plagiarism_percent: 5,
+				response_format: "json",
+				bypass_cache: false,
+			});
+		});
+
+		it("strips rewrite-only fields", () => {
+			const result = ScoreToolInputSchema.parse({
+				text: "sample",
+				tone: "formal",
+				custom_instructions: "x",
+			});
+			expect(result).not.toHaveProperty("tone");
+			expect(result).not.toHaveProperty("custom_instructions");
+		});
+
+		it("rejects the diff response format", () => {
+			expect(
+				ScoreToolInputSchema.safeParse({ text: "sample", response_format: "diff" }).success,
+			).toBe(false);
+		});
+	});
+
+	describe("AnalyzeToolInputSchema", () => {
+		it("accepts tone and domain hint", () => {
+			const result = AnalyzeToolInputSchema.parse({
+				text: "sample",
+				tone: "academic",
+				domain_hint: "essay",
+			});
+			expect(result.tone).toBe("academic");
+			expect(result.domain_hint).toBe("essay");
+			expect(result).not.toHaveProperty("mode");
+		});
+
+		it("rejects the diff response format", () => {
+			expect(
+				AnalyzeToolInputSchema.safeParse({ text: "sample", response_format: "diff" }).success,
+			).toBe(false);
+		});
+	});
+
+	describe("RewriteToolInputSchema", () => {
+		it("requires explicit scores", () => {
+			expect(RewriteToolInputSchema.safeParse({ text: "sample" }).success).toBe(false);
+		});
+
+		it("accepts null scores when unknown", () => {
+			const result = RewriteToolInputSchema.parse({
+				text: "sample",
+				ai_detection_percent: null,
+				plagiarism_percent: null,
+			});
+			expect(result.strategy).toBe("whole");
+			expect(result.tone).toBe("neutral");
+		});
+
+		it("does not offer the diff response format", () => {
+			expect(
+				RewriteToolInputSchema.safeParse({
+					text: "sample",
+					ai_detection_percent: null,
+					plagiarism_percent: null,
+					response_format: "diff",
+				}).success,
+			).toBe(false);
+		});
+
+		it.each([
+			["ai score > 100", { ai_detection_percent: 101, plagiarism_percent: 0 }],
+			["plagiarism score < 0", { ai_detection_percent: 0, plagiarism_percent: -1 }],
+		])("rejects %s", (_, scores) => {
+			expect(
+				RewriteToolInputSchema.safeParse({ text: "sample", ...scores }).success,
+			).toBe(false);
+		});
+	});
+
+	describe("RewriteToolOutputSchema", () => {
+		it("accepts a rewrite result", () => {
+			const result = RewriteToolOutputSchema.safeParse({
+				rewritten_text: "new",
+				reasoning: "why",
+				strategy: "paragraph",
+				fidelity_score: 92,
+				lost_facts: [],
+				attempts: 1,
+			});
+			expect(result.success).toBe(true);
+		});
+
+		it("rejects an unknown strategy", () => {
+			const result = RewriteToolOutputSchema.safeParse({
+				rewritten_text: "new",
+				reasoning: "why",
+				strategy: "sentence",
+				fidelity_score: 92,
+				lost_facts: [],
+				attempts: 1,
+			});
+			expect(result.success).toBe(false);
+		});
+	});
+});
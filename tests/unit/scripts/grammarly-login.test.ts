@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	loginInstructions,
+	resolveLoginProvider,
+	runLogin,
+} from "../../../scripts/grammarly-login";
+import type { BrowserProvider } from "../../../src/browser/provider";
+
+function createProvider(overrides: Partial<BrowserProvider> = {}): BrowserProvider {
+	return {
+		providerName: "stagehand",
+		createSession: vi.fn(),
+		scoreText: vi.fn(),
+		closeSession: vi.fn().mockResolvedValue(undefined),
+		openLoginSession: vi
+			.fn()
+			.mockResolvedValue({ sessionId: "login-1", liveUrl: "https://live.example/1" }),
+		...overrides,
+	};
+}
+
+describe("resolveLoginProvider", () => {
+	it("uses the configured provider without an argument", () => {
+		expect(resolveLoginProvider([], "browser-use")).toBe("browser-use");
+	});
+
+	it("prefers the provider named on the command line", () => {
+		expect(resolveLoginProvider(["local"], "stagehand")).toBe("local");
+	});
+
+	it.each([["mock"], ["chrome"]])("rejects %s", (name) => {
+		expect(() => resolveLoginProvider([name], "stagehand")).toThrow(
+			`Cannot log into provider "${name}"`,
+		);
+	});
+});
+
+describe("loginInstructions", () => {
+	it("points to the live URL when there is one", () => {
+		expect(loginInstructions("stagehand", "https://live.example/1")).toContain(
+			"Open this URL and log into Grammarly:\n\n  https://live.example/1",
+		);
+	});
+
+	it("points to the local window otherwise", () => {
+		expect(loginInstructions("local", null)).toContain("browser window that just opened");
+	});
+});
+
+describe("runLogin", () => {
+	it("closes the login session after the user confirms", async () => {
+		const provider = createProvider();
+		const order: string[] = [];
+		const waitForUser = vi.fn(async () => {
+			order.push("wait");
+		});
+		vi.mocked(provider.closeSession).mockImplementation(async () => {
+			order.push("close");
+		});
+		const write = vi.fn();
+
+		await runLogin(provider, waitForUser, write);
+
+		expect(order).toEqual(["wait", "close"]);
+		expect(provider.closeSession).toHaveBeenCalledWith("login-1");
+		expect(write.mock.calls[0]?.[0]).toContain("https://live.example/1");
+	});
+
+	it("closes the session when waiting fails", async () => {
+		const provider = createProvider();
+
+		await expect(
+			runLogin(provider, () => Promise.reject(new Error("stdin closed")), vi.fn()),
+		).rejects.toThrow("stdin closed");
+		expect(provider.closeSession).toHaveBeenCalledWith("login-1");
+	});
+
+	it("rejects providers without a saved login", async () => {
+		const provider = createProvider({ providerName: "mock", openLoginSession: undefined });
+
+		await expect(runLogin(provider, vi.fn(), vi.fn())).rejects.toThrow(
+			"The mock provider has no saved login to refresh",
+		);
+	});
+});
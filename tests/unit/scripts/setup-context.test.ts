@@ -0,0 +1,118 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	bootstrapContext,
+	isConfirmation,
+	upsertEnvValue,
+	writeEnvValue,
+} from "../../../scripts/setup-context";
+
+function createManager() {
+	return {
+		createContext: vi.fn().mockResolvedValue("ctx-new"),
+		getOrCreateSession: vi
+			.fn()
+			.mockResolvedValue({ sessionId: "bb-session-1", contextId: "ctx-new" }),
+		getDebugUrl: vi.fn().mockResolvedValue("https://debug.example/1"),
+		closeSession: vi.fn().mockResolvedValue(undefined),
+	};
+}
+
+describe("upsertEnvValue", () => {
+	it("replaces an existing assignment in place", () => {
+		const content = "A=1\nBROWSERBASE_CONTEXT_ID=ctx-old\nB=2\n";
+
+		expect(upsertEnvValue(content, "BROWSERBASE_CONTEXT_ID", "ctx-new")).toBe(
+			"A=1\nBROWSERBASE_CONTEXT_ID=ctx-new\nB=2\n",
+		);
+	});
+
+	it("replaces an exported assignment", () => {
+		expect(upsertEnvValue("export BROWSERBASE_CONTEXT_ID=old\n", "BROWSERBASE_CONTEXT_ID", "new")).toBe(
+			"BROWSERBASE_CONTEXT_ID=new\n",
+		);
+	});
+
+	it("appends when the key is missing or only commented out", () => {
+		expect(upsertEnvValue("# BROWSERBASE_CONTEXT_ID=\nA=1", "BROWSERBASE_CONTEXT_ID", "ctx")).toBe(
+			"# BROWSERBASE_CONTEXT_ID=\nA=1\nBROWSERBASE_CONTEXT_ID=ctx\n",
+		);
+		expect(upsertEnvValue("", "BROWSERBASE_CONTEXT_ID", "ctx")).toBe("BROWSERBASE_CONTEXT_ID=ctx\n");
+	});
+
+	it("does not match keys that only share a prefix", () => {
+		expect(upsertEnvValue("BROWSERBASE_CONTEXT_ID_OLD=x\n", "BROWSERBASE_CONTEXT_ID", "ctx")).toBe(
+			"BROWSERBASE_CONTEXT_ID_OLD=x\nBROWSERBASE_CONTEXT_ID=ctx\n",
+		);
+	});
+});
+
+describe("writeEnvValue", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "setup-context-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("creates the file when it does not exist", () => {
+		const envPath = path.join(tempDir, ".env");
+
+		writeEnvValue(envPath, "BROWSERBASE_CONTEXT_ID", "ctx");
+
+		expect(fs.readFileSync(envPath, "utf-8")).toBe("BROWSERBASE_CONTEXT_ID=ctx\n");
+	});
+});
+
+describe("isConfirmation", () => {
+	it.each([
+		["y", true],
+		["Yes", true],
+		[" y ", true],
+		["", false],
+		["n", false],
+		["yeah", false],
+	])("%j -> %s", (answer, expected) => {
+		expect(isConfirmation(answer)).toBe(expected);
+	});
+});
+
+describe("bootstrapContext", () => {
+	it("opens a fresh session on the new context and releases it after confirmation", async () => {
+		const manager = createManager();
+		const write = vi.fn();
+
+		const contextId = await bootstrapContext(manager, async () => "y", write);
+
+		expect(contextId).toBe("ctx-new");
+		expect(manager.getOrCreateSession).toHaveBeenCalledWith({
+			contextId: "ctx-new",
+			forceNew: true,
+		});
+		expect(manager.closeSession).toHaveBeenCalledWith("bb-session-1");
+		expect(write.mock.calls.map((call) => call[0]).join("\n")).toContain(
+			"https://debug.example/1",
+		);
+	});
+
+	it("returns null but still releases the session when the login is not confirmed", async () => {
+		const manager = createManager();
+
+		await expect(bootstrapContext(manager, async () => "n", vi.fn())).resolves.toBeNull();
+		expect(manager.closeSession).toHaveBeenCalledWith("bb-session-1");
+	});
+
+	it("releases the session when the prompt fails", async () => {
+		const manager = createManager();
+
+		await expect(
+			bootstrapContext(manager, () => Promise.reject(new Error("stdin closed")), vi.fn()),
+		).rejects.toThrow("stdin closed");
+		expect(manager.closeSession).toHaveBeenCalledWith("bb-session-1");
+	});
+});
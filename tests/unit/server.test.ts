@@ -1,6 +1,15 @@
 import { describe, expect, it } from "vitest";
-import type { GrammarlyOptimizeResult } from "../../src/grammarlyOptimizer";
-import { formatAsMarkdown } from "../../src/server";
+import type {
+	BatchScoreResult,
+	GrammarlyOptimizeResult,
+} from "../../src/grammarlyOptimizer";
+import {
+	formatAsDiff,
+	formatAsMarkdown,
+	formatBatchAsMarkdown,
+	formatRewriteAsMarkdown,
+	formatRewriteErrorAsMarkdown,
+} from "../../src/server";
 
 describe("formatAsMarkdown", () => {
 	const baseResult: GrammarlyOptimizeResult = {
@@ -11,7 +20,16 @@ describe("formatAsMarkdown", () => {
 		iterations_used: 2,
 		notes: "Optimization completed successfully",
 		history: [],
+		changes: [],
 		live_url: null,
+		selected_iteration: 2,
+		chunked: false,
+		truncated: false,
+		chunk_scores: [],
+		stop_reason: "max_iterations",
+		cancelled: false,
+		error: null,
+		usage: { components: [], input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 },
 	};
 
 	describe("basic formatting", () => {
@@ -101,6 +119,82 @@ describe("formatAsMarkdown", () => {
 		});
 	});
 
+	describe("cancelled runs", () => {
+		it("marks a cancelled run as a partial result", () => {
+			const result = formatAsMarkdown({ ...baseResult, cancelled: true });
+			expect(result).toContain("| Cancelled | Yes (partial result) |");
+		});
+
+		it("omits the cancelled row for completed runs", () => {
+			const result = formatAsMarkdown(baseResult);
+			expect(result).not.toContain("Cancelled");
+		});
+	});
+
+	describe("failed runs", () => {
+		const error = {
+			code: "auth_expired" as const,
+			phase: "scoring" as const,
+			message: "Grammarly login required",
+			retryable: false,
+		};
+
+		it("marks a failed run and names the error", () => {
+			const result = formatAsMarkdown({ ...baseResult, error });
+			expect(result).toContain("❌");
+			expect(result).toContain("| Error | auth_expired during scoring (not retryable) |");
+		});
+
+		it("omits the error row for successful runs", () => {
+			const result = formatAsMarkdown(baseResult);
+			expect(result).not.toContain("| Error |");
+		});
+	});
+
+	describe("usage", () => {
+		it("omits the usage section when nothing was used", () => {
+			expect(formatAsMarkdown(baseResult)).not.toContain("## Usage");
+		});
+
+		it("lists each component and the total", () => {
+			const result = formatAsMarkdown({
+				...baseResult,
+				usage: {
+					components: [
+						{
+							component: "rewrite",
+							model: "gpt-4o",
+							calls: 2,
+							input_tokens: 2000,
+							output_tokens: 400,
+							estimated_cost_usd: 0.009,
+						},
+						{
+							component: "analysis",
+							model: "claude-code/sonnet",
+							calls: 1,
+							input_tokens: 500,
+							output_tokens: 50,
+							estimated_cost_usd: null,
+						},
+						{ component: "browser_use", steps: 12, estimated_cost_usd: 0.12 },
+						{ component: "browserbase", session_seconds: 95.5, estimated_cost_usd: 0.003183 },
+					],
+					input_tokens: 2500,
+					output_tokens: 450,
+					estimated_cost_usd: 0.132183,
+				},
+			});
+
+			expect(result).toContain("## Usage");
+			expect(result).toContain("| rewrite | gpt-4o | 2000 / 400 | - | $0.0090 |");
+			expect(result).toContain("| analysis | claude-code/sonnet | 500 / 50 | - | unpriced |");
+			expect(result).toContain("| browser_use | - | - | 12 steps | $0.1200 |");
+			expect(result).toContain("| browserbase | - | - | 95.5s | $0.0032 |");
+			expect(result).toContain("| **Total** | | 2500 / 450 | | $0.1322 |");
+		});
+	});
+
 	describe("iteration history", () => {
 		it("omits history section when empty", () => {
 			const result = formatAsMarkdown(baseResult);
@@ -131,6 +225,32 @@ describe("formatAsMarkdown", () => {
 			expect(result).toContain("| 2 | 8% | 2% | After rewrite |");
 		});
 
+		it("marks the selected iteration after optimization", () => {
+			const result = formatAsMarkdown({
+				...baseResult,
+				history: [
+					{
+						iteration: 0,
+						ai_detection_percent: 40,
+						plagiarism_percent: 2,
+						note: "Baseline",
+						candidate_text: "Original",
+						selected: false,
+					},
+					{
+						iteration: 1,
+						ai_detection_percent: 8,
+						plagiarism_percent: 2,
+						note: "Rewrite",
+						candidate_text: "Optimized text content",
+						selected: true,
+					},
+				],
+			});
+			expect(result).toContain("| 0 | 40% | 2% | Baseline |");
+			expect(result).toContain("| 1 (selected) | 8% | 2% | Rewrite |");
+		});
+
 		it("handles null scores in history", () => {
 			const result = formatAsMarkdown({
 				...baseResult,
@@ -182,6 +302,49 @@ describe("formatAsMarkdown", () => {
 		});
 	});
 
+	describe("chunk scores", () => {
+		it("omits chunk section for single-pass scoring", () => {
+			const result = formatAsMarkdown(baseResult);
+			expect(result).not.toContain("## Chunk Scores");
+			expect(result).not.toContain("Scored In Chunks");
+		});
+
+		it("includes chunk table when text was chunked", () => {
+			const result = formatAsMarkdown({
+				...baseResult,
+				chunked: true,
+				chunk_scores: [
+					{
+						chunk_index: 0,
+						char_count: 7900,
+						ai_detection_percent: 12,
+						plagiarism_percent: 1,
+					},
+					{
+						chunk_index: 1,
+						char_count: 4000,
+						ai_detection_percent: null,
+						plagiarism_percent: 3,
+					},
+				],
+			});
+			expect(result).toContain("| Scored In Chunks | 2 |");
+			expect(result).toContain("## Chunk Scores");
+			expect(result).toContain("| 1 | 7900 | 12% | 1% |");
+			expect(result).toContain("| 2 | 4000 | N/A | 3% |");
+		});
+
+		it("marks truncated chunked scoring", () => {
+			const result = formatAsMarkdown({
+				...baseResult,
+				chunked: true,
+				truncated: true,
+				chunk_scores: [],
+			});
+			expect(result).toContain("| Scored In Chunks | 0 (truncated) |");
+		});
+	});
+
 	describe("markdown structure", () => {
 		it("starts with header", () => {
 			const result = formatAsMarkdown(baseResult);
@@ -199,6 +362,13 @@ describe("formatAsMarkdown", () => {
 			expect(result).toContain("|--------|-------|");
 		});
 
+		it("shows why the optimize loop stopped", () => {
+			expect(formatAsMarkdown({ ...baseResult, stop_reason: "plateau" })).toContain(
+				"| Stopped By | Scores stopped improving |",
+			);
+			expect(formatAsMarkdown({ ...baseResult, stop_reason: null })).not.toContain("Stopped By");
+		});
+
 		it("ends with final text code block", () => {
 			const result = formatAsMarkdown(baseResult);
 			const lines = result.trim().split("\n");
@@ -261,3 +431,233 @@ describe("formatAsMarkdown", () => {
 		});
 	});
 });
+
+describe("formatAsDiff", () => {
+	const entry = {
+		ai_detection_percent: 10,
+		plagiarism_percent: 2,
+		note: "",
+		selected: false,
+		provider: "mock",
+	};
+	const baseResult: GrammarlyOptimizeResult = {
+		final_text: "The slow brown fox.",
+		ai_detection_percent: 8,
+		plagiarism_percent: 2,
+		thresholds_met: true,
+		iterations_used: 2,
+		notes: "Done",
+		history: [
+			{ ...entry, iteration: 0, candidate_text: "The quick brown fox." },
+			{ ...entry, iteration: 1, candidate_text: "The slow brown fox." },
+			{ ...entry, iteration: 2, candidate_text: "The slow brown fox." },
+		],
+		changes: [
+			{ type: "replace", original: "quick", revised: "slow", original_offset: 4, revised_offset: 4 },
+		],
+		live_url: null,
+		selected_iteration: 1,
+		chunked: false,
+		truncated: false,
+		chunk_scores: [],
+		stop_reason: "max_iterations",
+		cancelled: false,
+		error: null,
+		usage: { components: [], input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 },
+	};
+
+	it("marks the edits from the input to the final text inline", () => {
+		const diff = formatAsDiff(baseResult, "The quick brown fox.");
+
+		expect(diff).toContain("# Grammarly Optimization Changes ✅");
+		expect(diff).toContain("1 change(s); the final text is iteration 1.");
+		expect(diff).toContain("The [-quick-]{+slow+} brown fox.");
+	});
+
+	it("lists each change in a table", () => {
+		expect(formatAsDiff(baseResult, "The quick brown fox.")).toContain("| 1 | replace | quick | slow |");
+	});
+
+	it("diffs consecutive iterations", () => {
+		const diff = formatAsDiff(baseResult, "The quick brown fox.");
+
+		expect(diff).toContain("## Changes Between Iterations");
+		expect(diff).toContain("### Iteration 0 → 1");
+		expect(diff).toMatch(/### Iteration 1 → 2\n\nNo changes\./);
+	});
+
+	it("says when the text was not changed", () => {
+		const diff = formatAsDiff(
+			{ ...baseResult, final_text: "Same.", changes: [], history: [] },
+			"Same.",
+		);
+
+		expect(diff).toContain("The final text is the input text, unchanged.");
+		expect(diff).not.toContain("## Changes Between Iterations");
+	});
+
+	it("includes the error of a failed run", () => {
+		const diff = formatAsDiff(
+			{
+				...baseResult,
+				error: { code: "llm_failed", phase: "rewrite", message: "boom", retryable: false },
+			},
+			"The quick brown fox.",
+		);
+
+		expect(diff).toContain("# Grammarly Optimization Changes ❌");
+		expect(diff).toContain("Error: llm_failed during rewrite (not retryable)");
+	});
+});
+
+describe("formatRewriteAsMarkdown", () => {
+	const result = {
+		rewritten_text: "Rewritten content",
+		reasoning: "Varied sentence length",
+		strategy: "paragraph" as const,
+		fidelity_score: 85,
+		lost_facts: ["the 1998 founding"],
+		attempts: 2,
+		usage: { components: [], input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 },
+	};
+
+	it("includes strategy, fidelity and reasoning", () => {
+		const markdown = formatRewriteAsMarkdown(result);
+		expect(markdown).toContain("# Rewrite Result");
+		expect(markdown).toContain("Strategy: paragraph");
+		expect(markdown).toContain("Fidelity: 85/100 (after 2 attempts)");
+		expect(markdown).toContain("Lost or changed: the 1998 founding");
+		expect(markdown).toContain("## Reasoning");
+		expect(markdown).toContain("Varied sentence length");
+	});
+
+	it("ends with the rewritten text code block", () => {
+		const lines = formatRewriteAsMarkdown(result).trim().split("\n");
+		expect(lines.slice(-3)).toEqual(["```", "Rewritten content", "```"]);
+	});
+
+	it("lists the LLM usage of the rewrite and fidelity calls", () => {
+		const markdown = formatRewriteAsMarkdown({
+			...result,
+			usage: {
+				components: [
+					{
+						component: "rewrite",
+						model: "gpt-4o",
+						calls: 2,
+						input_tokens: 2000,
+						output_tokens: 400,
+						estimated_cost_usd: 0.009,
+					},
+					{
+						component: "fidelity",
+						model: "gpt-4o",
+						calls: 2,
+						input_tokens: 600,
+						output_tokens: 80,
+						estimated_cost_usd: 0.0023,
+					},
+				],
+				input_tokens: 2600,
+				output_tokens: 480,
+				estimated_cost_usd: 0.0113,
+			},
+		});
+
+		expect(markdown).toContain("## Usage");
+		expect(markdown).toContain("| fidelity | gpt-4o | 600 / 80 | - | $0.0023 |");
+		expect(markdown).toContain("| **Total** | | 2600 / 480 | | $0.0113 |");
+	});
+});
+
+describe("formatRewriteErrorAsMarkdown", () => {
+	it("includes the classification and the message", () => {
+		const markdown = formatRewriteErrorAsMarkdown({
+			code: "llm_timeout",
+			phase: "rewrite",
+			message: "Rewrite request exceeded timeout of 1000ms",
+			retryable: true,
+		});
+		expect(markdown).toContain("# Rewrite Failed");
+		expect(markdown).toContain("llm_timeout during rewrite (retryable)");
+		expect(markdown).toContain("Rewrite request exceeded timeout of 1000ms");
+	});
+});
+
+describe("formatBatchAsMarkdown", () => {
+	const batchResult: BatchScoreResult = {
+		items: [
+			{
+				id: "intro",
+				status: "scored",
+				ai_detection_percent: 4,
+				plagiarism_percent: 0,
+				thresholds_met: true,
+				provider: "stagehand",
+				notes: "Scores extracted",
+				error: null,
+			},
+			{
+				id: "body",
+				status: "failed",
+				ai_detection_percent: null,
+				plagiarism_percent: null,
+				thresholds_met: false,
+				notes: "Scoring failed",
+				error: {
+					code: "session_failed",
+					phase: "session",
+					message: "Session could not start",
+					retryable: true,
+				},
+			},
+		],
+		scored: 1,
+		failed: 1,
+		thresholds_met: 1,
+		cancelled: false,
+		usage: { components: [], input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 },
+	};
+
+	it("renders one table row per item", () => {
+		const markdown = formatBatchAsMarkdown(batchResult);
+
+		expect(markdown).toContain("# Grammarly Batch Scores ⚠️");
+		expect(markdown).toContain("Scored 1 of 2 documents; 1 met the thresholds, 1 failed.");
+		expect(markdown).toContain("| intro | 4% | 0% | Yes | stagehand | Scores extracted |");
+		expect(markdown).toContain(
+			"| body | N/A | N/A | ❌ Failed | - | session_failed during session (retryable) |",
+		);
+	});
+
+	it("shows success when every item meets the thresholds", () => {
+		const first = batchResult.items[0];
+		if (!first) {
+			throw new Error("fixture missing");
+		}
+		const markdown = formatBatchAsMarkdown({
+			items: [first],
+			scored: 1,
+			failed: 0,
+			thresholds_met: 1,
+			cancelled: false,
+			usage: batchResult.usage,
+		});
+
+		expect(markdown).toContain("# Grammarly Batch Scores ✅");
+	});
+
+	it("escapes pipes and newlines in cells", () => {
+		const first = batchResult.items[0];
+		if (!first) {
+			throw new Error("fixture missing");
+		}
+		const markdown = formatBatchAsMarkdown({
+			...batchResult,
+			items: [{ ...first, id: "a|b", notes: "line one\nline two" }],
+		});
+
+		expect(markdown).toContain("| a\\|b |");
+		expect(markdown).toContain("line one line two");
+	});
+});
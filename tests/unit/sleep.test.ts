@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sleep } from "../../src/sleep";
+
+describe("sleep", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("resolves after the given delay", async () => {
+		vi.useFakeTimers();
+		let settled = false;
+		const promise = sleep(1000).then(() => {
+			settled = true;
+		});
+
+		await vi.advanceTimersByTimeAsync(999);
+		expect(settled).toBe(false);
+		await vi.advanceTimersByTimeAsync(1);
+		await promise;
+		expect(settled).toBe(true);
+	});
+
+	it("rejects with the abort reason and clears its timer", async () => {
+		vi.useFakeTimers();
+		const controller = new AbortController();
+		const promise = sleep(60_000, controller.signal);
+
+		controller.abort(new Error("cancelled"));
+
+		await expect(promise).rejects.toThrow("cancelled");
+		expect(vi.getTimerCount()).toBe(0);
+	});
+
+	it("rejects immediately when the signal has already aborted", async () => {
+		await expect(sleep(60_000, AbortSignal.abort(new Error("early")))).rejects.toThrow(
+			"early",
+		);
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+	type ChunkScore,
+	combineChunkScores,
+	MAX_CHUNK_LENGTH,
+	splitIntoChunks,
+} from "../../../src/text/chunking";
+
+describe("splitIntoChunks", () => {
+	it("returns a single chunk for text within the limit", () => {
+		const result = splitIntoChunks("Short text.");
+
+		expect(result.chunks).toEqual([{ index: 0, text: "Short text." }]);
+		expect(result.truncated).toBe(false);
+	});
+
+	it("keeps text of exactly the limit in one chunk", () => {
+		const text = "x".repeat(MAX_CHUNK_LENGTH);
+
+		expect(splitIntoChunks(text).chunks).toHaveLength(1);
+	});
+
+	it("packs whole paragraphs into chunks under the limit", () => {
+		const paragraph = "a".repeat(40);
+		const text = [paragraph, paragraph, paragraph].join("\n\n");
+
+		const result = splitIntoChunks(text, 100);
+
+		expect(result.chunks.map((chunk) => chunk.text)).toEqual([
+			`${paragraph}\n\n${paragraph}`,
+			paragraph,
+		]);
+		expect(result.chunks.map((chunk) => chunk.index)).toEqual([0, 1]);
+	});
+
+	it("splits oversized paragraphs on sentence boundaries", () => {
+		const sentence = `${"b".repeat(30)}.`;
+		const text = [sentence, sentence, sentence, sentence].join(" ");
+
+		const result = splitIntoChunks(text, 70);
+
+		expect(result.chunks.map((chunk) => chunk.text)).toEqual([
+			`${sentence} ${sentence}`,
+			`${sentence} ${sentence}`,
+		]);
+	});
+
+	it("hard-splits a single sentence longer than the limit", () => {
+		const result = splitIntoChunks("c".repeat(250), 100);
+
+		expect(result.chunks.map((chunk) => chunk.text.length)).toEqual([
+			100, 100, 50,
+		]);
+	});
+
+	it("never produces chunks longer than the limit", () => {
+		const text = Array.from(
+			{ length: 30 },
+			(_, i) => `Paragraph ${i}. ${"word ".repeat(60 + i)}`,
+		).join("\n\n");
+
+		const result = splitIntoChunks(text, 500, 100);
+
+		for (const chunk of result.chunks) {
+			expect(chunk.text.length).toBeLessThanOrEqual(500);
+		}
+	});
+
+	it("flags truncation when the chunk cap is exceeded", () => {
+		const paragraph = "d".repeat(90);
+		const text = Array.from({ length: 5 }, () => paragraph).join("\n\n");
+
+		const result = splitIntoChunks(text, 100, 3);
+
+		expect(result.chunks).toHaveLength(3);
+		expect(result.truncated).toBe(true);
+	});
+
+	it("throws RangeError for non-positive maxLength", () => {
+		expect(() => splitIntoChunks("text", 0)).toThrow(RangeError);
+	});
+});
+
+describe("combineChunkScores", () => {
+	const chunk = (
+		charCount: number,
+		aiDetectionPercent: number | null,
+		plagiarismPercent: number | null,
+	): ChunkScore => ({
+		chunkIndex: 0,
+		charCount,
+		aiDetectionPercent,
+		plagiarismPercent,
+	});
+
+	it("weights scores by chunk length", () => {
+		const result = combineChunkScores([chunk(3000, 40, 0), chunk(1000, 0, 8)]);
+
+		expect(result.aiDetectionPercent).toBe(30);
+		expect(result.plagiarismPercent).toBe(2);
+	});
+
+	it("rounds combined scores to one decimal place", () => {
+		const result = combineChunkScores([chunk(1, 10, 0), chunk(2, 0, 0)]);
+
+		expect(result.aiDetectionPercent).toBe(3.3);
+	});
+
+	it("ignores chunks with unavailable scores", () => {
+		const result = combineChunkScores([
+			chunk(1000, null, 4),
+			chunk(1000, 20, null),
+		]);
+
+		expect(result.aiDetectionPercent).toBe(20);
+		expect(result.plagiarismPercent).toBe(4);
+	});
+
+	it("returns null when no chunk has a score", () => {
+		const result = combineChunkScores([chunk(1000, null, null)]);
+
+		expect(result).toEqual({
+			aiDetectionPercent: null,
+			plagiarismPercent: null,
+		});
+	});
+});
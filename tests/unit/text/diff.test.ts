@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { diffText, formatInlineDiff, listChanges } from "../../../src/text/diff";
+
+function rebuild(parts: ReturnType<typeof diffText>, side: "original" | "revised"): string {
+	const skipped = side === "original" ? "insert" : "delete";
+	return parts
+		.filter((part) => part.type !== skipped)
+		.map((part) => part.text)
+		.join("");
+}
+
+describe("diffText", () => {
+	it("marks changed words and keeps the rest", () => {
+		const parts = diffText("The quick brown fox jumps.", "The slow brown fox leaps.");
+
+		expect(formatInlineDiff(parts)).toBe("The [-quick-]{+slow+} brown fox [-jumps-]{+leaps+}.");
+	});
+
+	it("reads adjacent changed words as one replacement", () => {
+		const parts = diffText("It was very good indeed.", "It was rather nice indeed.");
+
+		expect(formatInlineDiff(parts)).toBe("It was [-very good-]{+rather nice+} indeed.");
+	});
+
+	it("diffs whole sentences at sentence granularity", () => {
+		const parts = diffText(
+			"First stays. Second goes. Third stays.",
+			"First stays. A new second. Third stays.",
+			"sentence",
+		);
+
+		expect(formatInlineDiff(parts)).toBe("First stays. [-Second goes. -]{+A new second. +}Third stays.");
+	});
+
+	it("rebuilds both texts from its parts", () => {
+		const original = "Line one here.\n\nLine two, with a comma.";
+		const revised = "Line one is here.\n\nA second line without one.";
+
+		for (const granularity of ["word", "sentence"] as const) {
+			const parts = diffText(original, revised, granularity);
+			expect(rebuild(parts, "original")).toBe(original);
+			expect(rebuild(parts, "revised")).toBe(revised);
+		}
+	});
+
+	it("returns one equal part for identical texts", () => {
+		expect(diffText("Same text.", "Same text.")).toEqual([{ type: "equal", text: "Same text." }]);
+		expect(diffText("", "")).toEqual([]);
+	});
+});
+
+describe("listChanges", () => {
+	it("lists replacements and inserts with their offsets", () => {
+		const changes = listChanges(diffText("We saw 3 big dogs today.", "We saw 4 dogs there today, sadly."));
+
+		expect(changes).toEqual([
+			{ type: "replace", original: "3 big", revised: "4", original_offset: 7, revised_offset: 7 },
+			{ type: "insert", original: "", revised: "there ", original_offset: 18, revised_offset: 14 },
+			{ type: "insert", original: "", revised: ", sadly", original_offset: 23, revised_offset: 25 },
+		]);
+	});
+
+	it("is empty when nothing changed", () => {
+		expect(listChanges(diffText("No edits.", "No edits."))).toEqual([]);
+	});
+});
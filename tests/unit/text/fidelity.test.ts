@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { checkFacts, extractFacts } from "../../../src/text/fidelity";
+
+describe("extractFacts", () => {
+	it("finds entities, numbers, dates and citations", () => {
+		const facts = extractFacts(
+			"The World Health Organization reported 1,200 cases on March 3, 2021 (Smith, 2020). Revenue grew 12.5% [4].",
+		);
+
+		expect(facts).toEqual(
+			expect.arrayContaining([
+				{ kind: "entity", text: "World Health Organization" },
+				{ kind: "number", text: "1,200" },
+				{ kind: "date", text: "March 3, 2021" },
+				{ kind: "citation", text: "(Smith, 2020)" },
+				{ kind: "number", text: "12.5%" },
+				{ kind: "citation", text: "[4]" },
+			]),
+		);
+	});
+
+	it("does not count numbers inside dates and citations twice", () => {
+		const facts = extractFacts("It shipped on 2021-03-03 (Lee et al., 2019).");
+
+		expect(facts.filter((fact) => fact.kind === "number")).toEqual([]);
+	});
+
+	it("ignores capitalized words that only start a sentence", () => {
+		const facts = extractFacts("Results were good. However, the team in Berlin was tired.");
+
+		expect(facts).toEqual([{ kind: "entity", text: "Berlin" }]);
+	});
+});
+
+describe("checkFacts", () => {
+	it("scores 100 when every fact survives", () => {
+		const check = checkFacts(
+			"Acme Corp hired 40 people in 2023.",
+			"In 2023, 40 new people joined Acme Corp.",
+		);
+
+		expect(check).toEqual({ score: 100, lost: [] });
+	});
+
+	it("reports changed numbers and dropped names", () => {
+		const check = checkFacts(
+			"Acme Corp hired 40 people in 2023 under Jane Doe.",
+			"Acme Corp hired 45 people in 2023.",
+		);
+
+		expect(check.lost).toEqual([
+			{ kind: "number", text: "40" },
+			{ kind: "entity", text: "Jane Doe" },
+		]);
+		expect(check.score).toBe(50);
+	});
+
+	it("accepts a different thousands separator", () => {
+		expect(checkFacts("It cost 1,200 dollars.", "The price was 1200 dollars.").lost).toEqual([]);
+	});
+
+	it("scores 100 when the original states no facts", () => {
+		expect(checkFacts("it was a nice day.", "the day was lovely.")).toEqual({ score: 100, lost: [] });
+	});
+});
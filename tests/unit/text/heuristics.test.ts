@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { estimateAiScore } from "../../../src/text/heuristics";
+
+describe("estimateAiScore", () => {
+	it("returns 0 for empty text", () => {
+		expect(estimateAiScore("")).toBe(0);
+		expect(estimateAiScore("   \n ")).toBe(0);
+	});
+
+	it("stays within 0-100", () => {
+		const score = estimateAiScore(
+			"Moreover, it is important to note that we must delve into the landscape. Furthermore, it is crucial to leverage robust tools. Additionally, it is vital to foster seamless growth.",
+		);
+		expect(score).toBeGreaterThanOrEqual(0);
+		expect(score).toBeLessThanOrEqual(100);
+	});
+
+	it("scores stock AI phrasing above casual human prose", () => {
+		const aiLike =
+			"In today's ever-evolving landscape, it is important to note that organizations must leverage robust solutions. Furthermore, teams should navigate the realm of innovation with care. Moreover, this approach plays a crucial role in fostering seamless collaboration.";
+		const humanLike =
+			"I missed the bus again. Honestly? Not the worst thing, since the walk took me past that bakery on Fifth where the old guy always gives me a free roll if I look sad enough, which, given the rain, I did.";
+
+		expect(estimateAiScore(aiLike)).toBeGreaterThan(estimateAiScore(humanLike));
+	});
+
+	it("penalizes em dashes", () => {
+		const base = "The plan worked. We shipped on time and the team was happy with it.";
+		const withDashes = "The plan worked — we shipped on time — and the team was happy with it.";
+
+		expect(estimateAiScore(withDashes)).toBeGreaterThan(estimateAiScore(base));
+	});
+
+	it("is deterministic", () => {
+		const text = "Moreover, the results were robust. The data was clear. The end.";
+		expect(estimateAiScore(text)).toBe(estimateAiScore(text));
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+	joinParagraphs,
+	MIN_REWRITE_PARAGRAPH_LENGTH,
+	selectParagraphsForRewrite,
+	splitParagraphs,
+} from "../../../src/text/paragraphs";
+
+const aiParagraph =
+	"Moreover, it is important to note that teams must leverage robust tools. Furthermore, they should navigate the landscape with care. Additionally, this plays a crucial role.";
+const humanParagraph =
+	"We tried the cheap printer first. It jammed twice before lunch, so Dana drove to the store and came back with something that actually worked, mostly.";
+
+describe("splitParagraphs / joinParagraphs", () => {
+	it.each([
+		["single paragraph", "Just one paragraph."],
+		["blank-line separated", "First.\n\nSecond.\n\nThird."],
+		["windows-ish spacing", "First.\n  \n\n   Indented second."],
+		["leading and trailing breaks", "\n\nBody text.\n\n"],
+		["empty string", ""],
+	])("round-trips %s byte-for-byte", (_, text) => {
+		expect(joinParagraphs(splitParagraphs(text))).toBe(text);
+	});
+
+	it("keeps single newlines inside a paragraph", () => {
+		const segments = splitParagraphs("Line one\nline two\n\nNext");
+		expect(segments.map((segment) => segment.text)).toEqual([
+			"Line one\nline two",
+			"Next",
+		]);
+		expect(segments[0].separator).toBe("\n\n");
+		expect(segments[1].separator).toBe("");
+	});
+});
+
+describe("selectParagraphsForRewrite", () => {
+	it("targets the most AI-like paragraph first", () => {
+		const segments = splitParagraphs(
+			[humanParagraph, aiParagraph, humanParagraph].join("\n\n"),
+		);
+
+		expect(selectParagraphsForRewrite(segments)).toEqual([1]);
+	});
+
+	it("targets at most a third of eligible paragraphs", () => {
+		const text = Array.from({ length: 6 }, (_, i) =>
+			i % 2 === 0 ? aiParagraph : humanParagraph,
+		).join("\n\n");
+
+		expect(selectParagraphsForRewrite(splitParagraphs(text))).toHaveLength(2);
+	});
+
+	it("returns indices in document order", () => {
+		const text = [aiParagraph, humanParagraph, aiParagraph].join("\n\n");
+
+		expect(selectParagraphsForRewrite(splitParagraphs(text), { maxTargets: 2 })).toEqual([0, 2]);
+	});
+
+	it("skips paragraphs shorter than the minimum length", () => {
+		const heading = "Intro";
+		expect(heading.length).toBeLessThan(MIN_REWRITE_PARAGRAPH_LENGTH);
+
+		const segments = splitParagraphs([heading, humanParagraph].join("\n\n"));
+		expect(selectParagraphsForRewrite(segments)).toEqual([1]);
+	});
+
+	it("returns no targets when nothing is eligible", () => {
+		expect(selectParagraphsForRewrite(splitParagraphs("Short.\n\nTiny."))).toEqual(
+			[],
+		);
+	});
+});
+
+describe("selectParagraphsForRewrite with flagged passages", () => {
+	it("targets Grammarly's flagged paragraph over the heuristic's pick", () => {
+		const segments = splitParagraphs([aiParagraph, humanParagraph].join("\n\n"));
+		expect(selectParagraphsForRewrite(segments)).toEqual([0]);
+
+		expect(
+			selectParagraphsForRewrite(segments, {
+				flaggedPassages: ["It jammed twice before lunch,  so Dana\ndrove to the store"],
+			}),
+		).toEqual([1]);
+	});
+
+	it("targets every flagged paragraph even beyond the cap", () => {
+		const segments = splitParagraphs(
+			[aiParagraph, "Intro", humanParagraph].join("\n\n"),
+		);
+
+		expect(
+			selectParagraphsForRewrite(segments, {
+				maxTargets: 1,
+				flaggedPassages: ["Intro", "We tried the cheap printer first."],
+			}),
+		).toEqual([1, 2]);
+	});
+
+	it("tops up with the heuristic when the cap allows", () => {
+		const segments = splitParagraphs(
+			[humanParagraph, humanParagraph.replace("Dana", "Sam"), aiParagraph].join(
+				"\n\n",
+			),
+		);
+
+		expect(
+			selectParagraphsForRewrite(segments, {
+				maxTargets: 2,
+				flaggedPassages: ["so Sam drove to the store"],
+			}),
+		).toEqual([1, 2]);
+	});
+});
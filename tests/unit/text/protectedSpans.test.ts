@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+	checkProtectionPattern,
+	compileProtectionPatterns,
+	describePlaceholderProblems,
+	findPlaceholderProblems,
+	protectSpans,
+	restoreSpans,
+} from "../../../src/text/protectedSpans";
+
+describe("protectSpans", () => {
+	it.each([
+		["fenced code", "Intro.\n\n```js\nconst x = 5;\n```\n\nOutro.", "```js\nconst x = 5;\n```", "fenced code"],
+		["inline code", "Call `doThing()` first.", "`doThing()`", "inline code"],
+		["inline math", "We know $E=mc^2$ holds.", "$E=mc^2$", "math"],
+		["display math", "See $$\\int_0^1 x^2 dx$$ here.", "$$\\int_0^1 x^2 dx$$", "math"],
+		["paren math", "So \\(a+b\\) is fine.", "\\(a+b\\)", "math"],
+		["latex environment", "\\begin{equation}\na = b\n\\end{equation}", "\\begin{equation}\na = b\n\\end{equation}", "math"],
+		["author-year citation", "This is known (Smith, 2019).", "(Smith, 2019)", "citation"],
+		["et al. citation", "As shown (Lee et al., 2020a, p. 4).", "(Lee et al., 2020a, p. 4)", "citation"],
+		["numeric citation", "Prior work [1, 4-6] agrees.", "[1, 4-6]", "citation"],
+		["url", "Docs at https://example.com/a?b=1.", "https://example.com/a?b=1", "url"],
+		["straight quote", 'She said "keep it simple" twice.', '"keep it simple"', "quote"],
+		["curly quote", "He wrote “never again” once.", "“never again”", "quote"],
+	])("protects %s", (_, text, span, kind) => {
+		const result = protectSpans(text);
+
+		expect(result.spans).toEqual([
+			{ placeholder: "[[PROTECTED_0]]", text: span, kind },
+		]);
+		expect(result.text).toBe(text.replace(span, "[[PROTECTED_0]]"));
+	});
+
+	it("does not treat currency amounts as math", () => {
+		expect(protectSpans("It costs $5 and $10.").spans).toEqual([]);
+	});
+
+	it("numbers placeholders in document order", () => {
+		const result = protectSpans('Use `a` then "b" (Smith, 2019).');
+
+		expect(result.text).toBe(
+			"Use [[PROTECTED_0]] then [[PROTECTED_1]] [[PROTECTED_2]].",
+		);
+		expect(result.spans.map((span) => span.kind)).toEqual([
+			"inline code",
+			"quote",
+			"citation",
+		]);
+	});
+
+	it("keeps overlapping matches inside the higher-priority span", () => {
+		const text = "```\nsee https://example.com and `x`\n```";
+		const result = protectSpans(text);
+
+		expect(result.spans).toHaveLength(1);
+		expect(result.spans[0].kind).toBe("fenced code");
+	});
+
+	it("applies custom patterns after the built-ins", () => {
+		const result = protectSpans(
+			"Acme Widget 3000 ships with `acme` CLI.",
+			compileProtectionPatterns(["Acme Widget \\d+"]),
+		);
+
+		expect(result.spans.map((span) => [span.kind, span.text])).toEqual([
+			["custom", "Acme Widget 3000"],
+			["inline code", "`acme`"],
+		]);
+	});
+
+	it("ignores empty custom matches", () => {
+		const text = "No stars here.";
+		expect(protectSpans(text, compileProtectionPatterns(["\\**"])).text).toBe(
+			text,
+		);
+	});
+
+	it("returns the text unchanged when nothing is protected", () => {
+		expect(protectSpans("Plain prose only.")).toEqual({
+			text: "Plain prose only.",
+			spans: [],
+		});
+	});
+});
+
+describe("compileProtectionPatterns", () => {
+	it("compiles sources as global regexes", () => {
+		const [pattern] = compileProtectionPatterns(["ab+c"]);
+		expect(pattern.flags).toBe("g");
+		expect(pattern.source).toBe("ab+c");
+	});
+
+	it("throws on invalid patterns", () => {
+		expect(() => compileProtectionPatterns(["(unclosed"])).toThrow(
+			'Invalid protected pattern "(unclosed"',
+		);
+	});
+
+	it("refuses patterns that can backtrack catastrophically", () => {
+		expect(() => compileProtectionPatterns(["(a+)+$"])).toThrow(
+			"repeated groups may not contain quantifiers or alternations",
+		);
+		expect(() => compileProtectionPatterns(["(?:x|xy)*z"])).toThrow("alternations");
+		expect(() => compileProtectionPatterns(["((\\d)+)*"])).toThrow("quantifiers");
+		expect(() => compileProtectionPatterns(["(a)\\1"])).toThrow("backreferences");
+		expect(() => compileProtectionPatterns(["a".repeat(201)])).toThrow("longer than 200");
+	});
+});
+
+describe("checkProtectionPattern", () => {
+	it.each([
+		"Acme \\w+",
+		"v\\d+\\.\\d+",
+		"(?:Dr|Prof)\\. [A-Z]\\w+",
+		"[(+*]+x",
+		"(ab){2,3}",
+	])("accepts %s", (source) => {
+		expect(checkProtectionPattern(source)).toBeNull();
+	});
+});
+
+describe("findPlaceholderProblems / restoreSpans", () => {
+	const original = 'Keep `x` and "y" intact.';
+	const { spans } = protectSpans(original);
+
+	it("restores spans in a rewrite that moved placeholders", () => {
+		const rewrite = 'Leave [[PROTECTED_1]] and [[PROTECTED_0]] alone.';
+
+		expect(findPlaceholderProblems(rewrite, spans)).toBeNull();
+		expect(restoreSpans(rewrite, spans)).toBe('Leave "y" and `x` alone.');
+	});
+
+	it("reports missing, duplicated and unexpected placeholders", () => {
+		const problems = findPlaceholderProblems(
+			"[[PROTECTED_0]] [[PROTECTED_0]] [[PROTECTED_7]]",
+			spans,
+		);
+
+		expect(problems).toEqual({
+			missing: ["[[PROTECTED_1]]"],
+			duplicated: ["[[PROTECTED_0]]"],
+			unexpected: ["[[PROTECTED_7]]"],
+		});
+		expect(describePlaceholderProblems(problems!)).toBe(
+			"missing [[PROTECTED_1]]; duplicated [[PROTECTED_0]]; unexpected [[PROTECTED_7]]",
+		);
+	});
+
+	it("throws when restoring an invalid rewrite", () => {
+		expect(() => restoreSpans("Only [[PROTECTED_0]].", spans)).toThrow(
+			"Protected spans not preserved: missing [[PROTECTED_1]]",
+		);
+	});
+
+	it("round-trips input that already contains placeholder-like text", () => {
+		const text = "Literal [[PROTECTED_0]] and `code`.";
+		const protectedText = protectSpans(text);
+
+		expect(restoreSpans(protectedText.text, protectedText.spans)).toBe(text);
+	});
+});
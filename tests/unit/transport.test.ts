@@ -0,0 +1,444 @@
+import { request as httpRequest } from "node:http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	bearerTokenMatches,
+	ClientConcurrencyLimiter,
+	clientIdForToken,
+	type HttpServerOptions,
+	isLoopbackHost,
+	matchBearerToken,
+	resolveTransportMode,
+	type RunningHttpServer,
+	startHttpServer,
+	withConnectTimeout,
+} from "../../src/transport";
+
+describe("resolveTransportMode", () => {
+	it("falls back to the configured transport without flags", () => {
+		expect(resolveTransportMode([], "stdio")).toBe("stdio");
+		expect(resolveTransportMode(["--verbose"], "http")).toBe("http");
+	});
+
+	it.each([
+		[["--http"], "http"],
+		[["--stdio"], "stdio"],
+		[["--transport", "http"], "http"],
+		[["--transport=stdio"], "stdio"],
+	])("reads %j", (argv, expected) => {
+		const fallback = expected === "http" ? "stdio" : "http";
+		expect(resolveTransportMode(argv, fallback)).toBe(expected);
+	});
+
+	it("rejects unknown transports", () => {
+		expect(() => resolveTransportMode(["--transport", "sse"], "stdio")).toThrow(
+			'Unknown transport "sse"',
+		);
+		expect(() => resolveTransportMode(["--transport"], "stdio")).toThrow(
+			"Unknown transport",
+		);
+	});
+});
+
+describe("isLoopbackHost", () => {
+	it.each([
+		["127.0.0.1", true],
+		["127.1.2.3", true],
+		["localhost", true],
+		["::1", true],
+		["[::1]", true],
+		["0.0.0.0", false],
+		["192.168.1.10", false],
+		["evil.example.com", false],
+	])("%s -> %s", (host, expected) => {
+		expect(isLoopbackHost(host)).toBe(expected);
+	});
+});
+
+describe("bearerTokenMatches", () => {
+	const tokens = ["alice-token", "bob-token"];
+
+	it("accepts any configured token", () => {
+		expect(bearerTokenMatches("Bearer alice-token", tokens)).toBe(true);
+		expect(bearerTokenMatches("bearer bob-token", tokens)).toBe(true);
+	});
+
+	it.each([
+		["missing header", undefined],
+		["wrong token", "Bearer mallory-token"],
+		["token prefix", "Bearer alice"],
+		["wrong scheme", "Basic alice-token"],
+		["no token", "Bearer "],
+	])("rejects %s", (_, header) => {
+		expect(bearerTokenMatches(header, tokens)).toBe(false);
+	});
+
+	it("tells which token matched", () => {
+		expect(matchBearerToken("Bearer bob-token", tokens)).toBe("bob-token");
+		expect(matchBearerToken("Bearer mallory-token", tokens)).toBeNull();
+	});
+});
+
+describe("clientIdForToken", () => {
+	it("derives a stable id that does not contain the token", () => {
+		const id = clientIdForToken("alice-token");
+
+		expect(id).toMatch(/^token-[0-9a-f]{16}$/);
+		expect(id).toBe(clientIdForToken("alice-token"));
+		expect(id).not.toBe(clientIdForToken("bob-token"));
+	});
+});
+
+describe("ClientConcurrencyLimiter", () => {
+	it("limits each client independently", () => {
+		const limiter = new ClientConcurrencyLimiter(2);
+
+		expect(limiter.tryAcquire("a")).toBe(true);
+		expect(limiter.tryAcquire("a")).toBe(true);
+		expect(limiter.tryAcquire("a")).toBe(false);
+		expect(limiter.tryAcquire("b")).toBe(true);
+
+		limiter.release("a");
+		expect(limiter.active("a")).toBe(1);
+		expect(limiter.tryAcquire("a")).toBe(true);
+	});
+
+	it("reserves nothing when a multi-slot request does not fit", () => {
+		const limiter = new ClientConcurrencyLimiter(2);
+
+		expect(limiter.tryAcquire("a")).toBe(true);
+		expect(limiter.tryAcquire("a", 2)).toBe(false);
+		expect(limiter.active("a")).toBe(1);
+
+		limiter.release("a");
+		expect(limiter.active("a")).toBe(0);
+	});
+});
+
+describe("withConnectTimeout", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("resolves with the wrapped value", async () => {
+		await expect(withConnectTimeout(Promise.resolve(42), 1000)).resolves.toBe(
+			42,
+		);
+	});
+
+	it("rejects once the timeout elapses", async () => {
+		vi.useFakeTimers();
+		const pending = withConnectTimeout(new Promise(() => {}), 500);
+		const assertion = expect(pending).rejects.toThrow(
+			"Server connect timed out after 500ms",
+		);
+
+		await vi.advanceTimersByTimeAsync(500);
+		await assertion;
+	});
+});
+
+describe("startHttpServer", () => {
+	let running: RunningHttpServer | undefined;
+	let slowGate: Promise<void>;
+	let releaseSlowCalls: () => void;
+	let slowCallsStarted = 0;
+	const clients: Client[] = [];
+
+	const baseOptions: HttpServerOptions = {
+		host: "127.0.0.1",
+		port: 0,
+		authTokens: [],
+		maxConcurrentPerClient: 2,
+		maxSessionsPerClient: 10,
+		sessionIdleTimeoutMs: 60_000,
+		connectTimeoutMs: 5000,
+	};
+
+	function createTestServer(): McpServer {
+		const server = new McpServer({ name: "test", version: "0.0.0" });
+		server.registerTool(
+			"echo",
+			{ inputSchema: { text: z.string() } },
+			async ({ text }) => ({ content: [{ type: "text", text }] }),
+		);
+		server.registerTool("slow", {}, async () => {
+			slowCallsStarted++;
+			await slowGate;
+			return { content: [{ type: "text", text: "done" }] };
+		});
+		return server;
+	}
+
+	async function connectClient(token?: string): Promise<Client> {
+		if (!running) {
+			throw new Error("server not started");
+		}
+		const client = new Client({ name: "test-client", version: "0.0.0" });
+		const transport = new StreamableHTTPClientTransport(new URL(running.url), {
+			requestInit: token
+				? { headers: { Authorization: `Bearer ${token}` } }
+				: undefined,
+		});
+		await client.connect(transport);
+		clients.push(client);
+		return client;
+	}
+
+	function sessionIdOf(client: Client): string {
+		const sessionId = (client.transport as StreamableHTTPClientTransport | undefined)?.sessionId;
+		if (!sessionId) {
+			throw new Error("client has no session");
+		}
+		return sessionId;
+	}
+
+	function listTools(sessionId: string, token?: string): Promise<Response> {
+		if (!running) {
+			throw new Error("server not started");
+		}
+		return fetch(running.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				"Mcp-Session-Id": sessionId,
+				...(token && { Authorization: `Bearer ${token}` }),
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		});
+	}
+
+	beforeEach(() => {
+		slowCallsStarted = 0;
+		slowGate = new Promise<void>((resolve) => {
+			releaseSlowCalls = resolve;
+		});
+	});
+
+	afterEach(async () => {
+		releaseSlowCalls();
+		await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+		await running?.close();
+		running = undefined;
+	});
+
+	it("serves tool calls over a session", async () => {
+		running = await startHttpServer(createTestServer, baseOptions);
+		const client = await connectClient();
+
+		const result = await client.callTool({
+			name: "echo",
+			arguments: { text: "hi" },
+		});
+
+		expect(running.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+		expect(result.content).toEqual([{ type: "text", text: "hi" }]);
+	});
+
+	it("rejects requests without a valid bearer token", async () => {
+		running = await startHttpServer(createTestServer, {
+			...baseOptions,
+			authTokens: ["secret"],
+		});
+
+		const response = await fetch(running.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: "Bearer wrong",
+			},
+			body: "{}",
+		});
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get("www-authenticate")).toContain("Bearer");
+		await expect(connectClient()).rejects.toThrow();
+
+		const client = await connectClient("secret");
+		const result = await client.callTool({
+			name: "echo",
+			arguments: { text: "ok" },
+		});
+		expect(result.content).toEqual([{ type: "text", text: "ok" }]);
+	});
+
+	it("returns 404 for unknown sessions and 400 without one", async () => {
+		running = await startHttpServer(createTestServer, baseOptions);
+		const request = {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		};
+
+		const unknown = await fetch(running.url, {
+			...request,
+			headers: { ...request.headers, "Mcp-Session-Id": "nope" },
+		});
+		const missing = await fetch(running.url, request);
+
+		expect(unknown.status).toBe(404);
+		expect(missing.status).toBe(400);
+	});
+
+	it("limits concurrent tool calls per client across its sessions", async () => {
+		running = await startHttpServer(createTestServer, {
+			...baseOptions,
+			authTokens: ["alice", "bob"],
+			maxConcurrentPerClient: 1,
+		});
+		const client = await connectClient("alice");
+		const secondSession = await connectClient("alice");
+		const other = await connectClient("bob");
+
+		const slowCall = client.callTool({ name: "slow" });
+		await vi.waitFor(() => expect(slowCallsStarted).toBe(1));
+
+		await expect(
+			client.callTool({ name: "echo", arguments: { text: "x" } }),
+		).rejects.toThrow("Too many concurrent tool calls");
+		// A fresh session does not reset the client's allowance
+		await expect(
+			secondSession.callTool({ name: "echo", arguments: { text: "x" } }),
+		).rejects.toThrow("Too many concurrent tool calls");
+		// Another client has its own allowance
+		await expect(
+			other.callTool({ name: "echo", arguments: { text: "y" } }),
+		).resolves.toMatchObject({ content: [{ type: "text", text: "y" }] });
+
+		releaseSlowCalls();
+		await expect(slowCall).resolves.toMatchObject({
+			content: [{ type: "text", text: "done" }],
+		});
+		await expect(
+			client.callTool({ name: "echo", arguments: { text: "z" } }),
+		).resolves.toMatchObject({ content: [{ type: "text", text: "z" }] });
+	});
+
+	it("rejects a session presented with another client's token", async () => {
+		running = await startHttpServer(createTestServer, {
+			...baseOptions,
+			authTokens: ["alice", "bob"],
+		});
+		const sessionId = sessionIdOf(await connectClient("alice"));
+
+		expect((await listTools(sessionId, "bob")).status).toBe(404);
+		expect((await listTools(sessionId, "alice")).status).toBe(200);
+	});
+
+	it("closes sessions left idle", async () => {
+		running = await startHttpServer(createTestServer, {
+			...baseOptions,
+			sessionIdleTimeoutMs: 50,
+		});
+		const sessionId = sessionIdOf(await connectClient());
+
+		await vi.waitFor(
+			async () => expect((await listTools(sessionId)).status).toBe(404),
+			{ timeout: 2000, interval: 100 },
+		);
+	});
+
+	it("closes a client's least recently used session past its session cap", async () => {
+		running = await startHttpServer(createTestServer, {
+			...baseOptions,
+			maxSessionsPerClient: 2,
+		});
+		const first = sessionIdOf(await connectClient());
+		const second = sessionIdOf(await connectClient());
+		const third = sessionIdOf(await connectClient());
+
+		expect((await listTools(first)).status).toBe(404);
+		expect((await listTools(second)).status).toBe(200);
+		expect((await listTools(third)).status).toBe(200);
+	});
+
+	it("refuses new sessions when every session of the client is busy", async () => {
+		running = await startHttpServer(createTestServer, {
+			...baseOptions,
+			maxSessionsPerClient: 1,
+		});
+		const client = await connectClient();
+		const slowCall = client.callTool({ name: "slow" });
+		await vi.waitFor(() => expect(slowCallsStarted).toBe(1));
+
+		await expect(connectClient()).rejects.toThrow("Too many open sessions");
+
+		releaseSlowCalls();
+		await slowCall;
+	});
+
+	it("closes the server when initialize does not open a session", async () => {
+		const servers: McpServer[] = [];
+		running = await startHttpServer(() => {
+			const server = createTestServer();
+			servers.push(server);
+			return server;
+		}, baseOptions);
+
+		const response = await fetch(running.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Accept: "application/json" },
+			body: JSON.stringify({
+				jsonrpc: "2.0",
+				id: 1,
+				method: "initialize",
+				params: {
+					protocolVersion: "2025-06-18",
+					capabilities: {},
+					clientInfo: { name: "test-client", version: "0.0.0" },
+				},
+			}),
+		});
+
+		expect(response.status).toBe(406);
+		expect(servers).toHaveLength(1);
+		await vi.waitFor(() => expect(servers[0]?.isConnected()).toBe(false));
+	});
+
+	it("answers an oversized body without reading it", async () => {
+		running = await startHttpServer(createTestServer, baseOptions);
+		const url = new URL(running.url);
+
+		const { status, closed } = await new Promise<{ status: number; closed: Promise<void> }>(
+			(resolve, reject) => {
+				const req = httpRequest(
+					{
+						host: url.hostname,
+						port: url.port,
+						path: url.pathname,
+						method: "POST",
+						headers: {
+							"Content-Type": "application/json",
+							"Content-Length": String(64 * 1024 * 1024),
+						},
+					},
+					(res) => {
+						res.resume();
+						resolve({
+							status: res.statusCode ?? 0,
+							closed: new Promise((done) => req.socket?.once("close", () => done())),
+						});
+					},
+				);
+				req.on("error", reject);
+				req.write("{");
+			},
+		);
+
+		expect(status).toBe(413);
+		await closed;
+	});
+
+	it("refuses to bind a public address without auth tokens", async () => {
+		await expect(
+			startHttpServer(createTestServer, { ...baseOptions, host: "0.0.0.0" }),
+		).rejects.toThrow("MCP_HTTP_AUTH_TOKENS is required");
+	});
+});
@@ -0,0 +1,187 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/config", () => ({
+	log: vi.fn(),
+}));
+
+import {
+	addScoringUsage,
+	DEFAULT_PRICE_TABLE,
+	loadPriceTable,
+	type PriceTable,
+	UsageTracker,
+} from "../../src/usage";
+
+const prices: PriceTable = {
+	models: {
+		"gpt-4o": { input_per_million: 2.5, output_per_million: 10 },
+		"gemini-2.5-flash": { input_per_million: 0.3, output_per_million: 2.5 },
+	},
+	browser_use_per_step: 0.01,
+	browserbase_per_hour: 0.12,
+};
+
+describe("loadPriceTable", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "prices-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function writePriceFile(content: unknown): string {
+		const filePath = path.join(tempDir, "prices.json");
+		fs.writeFileSync(filePath, JSON.stringify(content), "utf-8");
+		return filePath;
+	}
+
+	it("returns the built-in prices without a file", () => {
+		expect(loadPriceTable(undefined)).toBe(DEFAULT_PRICE_TABLE);
+	});
+
+	it("merges the file over the built-in prices", () => {
+		const filePath = writePriceFile({
+			models: {
+				"gpt-4o": { input_per_million: 2, output_per_million: 8 },
+				"claude-code/sonnet": { input_per_million: 3, output_per_million: 15 },
+			},
+			browser_use_per_step: 0.02,
+		});
+
+		const table = loadPriceTable(filePath);
+
+		expect(table.models["gpt-4o"]).toEqual({ input_per_million: 2, output_per_million: 8 });
+		expect(table.models["claude-code/sonnet"]).toBeDefined();
+		expect(table.models["gemini-2.5-flash"]).toEqual(
+			DEFAULT_PRICE_TABLE.models["gemini-2.5-flash"],
+		);
+		expect(table.browser_use_per_step).toBe(0.02);
+		expect(table.browserbase_per_hour).toBe(DEFAULT_PRICE_TABLE.browserbase_per_hour);
+	});
+
+	it.each([
+		["is missing", () => path.join(tempDir, "missing.json")],
+		["is not JSON", () => {
+			const filePath = path.join(tempDir, "broken.json");
+			fs.writeFileSync(filePath, "{", "utf-8");
+			return filePath;
+		}],
+		["has negative prices", () => writePriceFile({ browser_use_per_step: -1 })],
+	])("falls back to the built-ins when the file %s", (_, createFile) => {
+		expect(loadPriceTable(createFile())).toBe(DEFAULT_PRICE_TABLE);
+	});
+});
+
+describe("addScoringUsage", () => {
+	it("sums chunk usage", () => {
+		expect(
+			addScoringUsage(
+				{ llmModel: "gpt-4o", inputTokens: 100, outputTokens: 10 },
+				{ llmModel: "gpt-4o", inputTokens: 50, outputTokens: 5 },
+			),
+		).toEqual({ steps: undefined, llmModel: "gpt-4o", inputTokens: 150, outputTokens: 15 });
+	});
+
+	it("keeps whichever side is present", () => {
+		expect(addScoringUsage(undefined, { steps: 4 })).toEqual({ steps: 4 });
+		expect(addScoringUsage(undefined, undefined)).toBeUndefined();
+	});
+});
+
+describe("UsageTracker", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("is empty before anything is recorded", () => {
+		expect(new UsageTracker().toUsage(prices)).toEqual({
+			components: [],
+			input_tokens: 0,
+			output_tokens: 0,
+			estimated_cost_usd: 0,
+		});
+	});
+
+	it("groups LLM calls by step and model and prices them", () => {
+		const tracker = new UsageTracker();
+		tracker.recordLlmCall({ operation: "rewrite", modelId: "gpt-4o", inputTokens: 1000, outputTokens: 200 });
+		tracker.recordLlmCall({ operation: "rewrite", modelId: "gpt-4o", inputTokens: 1000, outputTokens: 200 });
+		tracker.recordLlmCall({ operation: "summary", modelId: "gpt-4o", inputTokens: 400, outputTokens: 100 });
+
+		const usage = tracker.toUsage(prices);
+
+		expect(usage.components).toEqual([
+			{
+				component: "rewrite",
+				model: "gpt-4o",
+				calls: 2,
+				input_tokens: 2000,
+				output_tokens: 400,
+				estimated_cost_usd: 0.009,
+			},
+			{
+				component: "summary",
+				model: "gpt-4o",
+				calls: 1,
+				input_tokens: 400,
+				output_tokens: 100,
+				estimated_cost_usd: 0.002,
+			},
+		]);
+		expect(usage.input_tokens).toBe(2400);
+		expect(usage.output_tokens).toBe(500);
+		expect(usage.estimated_cost_usd).toBe(0.011);
+	});
+
+	it("leaves models without a price unpriced", () => {
+		const tracker = new UsageTracker();
+		tracker.recordLlmCall({ operation: "analysis", modelId: "claude-code/sonnet", inputTokens: 500, outputTokens: 50 });
+
+		const usage = tracker.toUsage(prices);
+
+		expect(usage.components[0]?.estimated_cost_usd).toBeNull();
+		expect(usage.input_tokens).toBe(500);
+		expect(usage.estimated_cost_usd).toBe(0);
+	});
+
+	it("records Stagehand tokens and Browser Use steps from scoring", () => {
+		const tracker = new UsageTracker();
+		tracker.recordScoring({ llmModel: "gemini-2.5-flash", inputTokens: 10000, outputTokens: 1000 });
+		tracker.recordScoring({ steps: 12 });
+		tracker.recordScoring(undefined);
+
+		expect(tracker.toUsage(prices).components).toEqual([
+			{
+				component: "stagehand_llm",
+				model: "gemini-2.5-flash",
+				calls: 1,
+				input_tokens: 10000,
+				output_tokens: 1000,
+				estimated_cost_usd: 0.0055,
+			},
+			{ component: "browser_use", steps: 12, estimated_cost_usd: 0.12 },
+		]);
+	});
+
+	it("times Browserbase sessions, counting open ones up to now", () => {
+		vi.useFakeTimers();
+		const tracker = new UsageTracker();
+		const endFirst = tracker.startSession("stagehand");
+		vi.advanceTimersByTime(60_000);
+		endFirst();
+		endFirst();
+		tracker.startSession("stagehand");
+		tracker.startSession("browser-use");
+		vi.advanceTimersByTime(30_000);
+
+		expect(tracker.toUsage(prices).components).toEqual([
+			{ component: "browserbase", session_seconds: 90, estimated_cost_usd: 0.003 },
+		]);
+	});
+});